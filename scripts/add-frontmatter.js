@@ -118,12 +118,12 @@ const generateDescription = (content, maxLength = 150) => {
     return description;
 };
 
-// Estimate reading time based on content length
+// Estimate reading time in whole minutes (the schema in
+// src/utils/frontmatterSchema.ts rejects free text such as "5 minutes")
 const estimateReadingTime = (content) => {
     const wordsPerMinute = 200;
     const words = content.split(/\s+/).length;
-    const minutes = Math.max(1, Math.round(words / wordsPerMinute));
-    return `${minutes} minutes`;
+    return Math.max(1, Math.round(words / wordsPerMinute));
 };
 
 // Generate frontmatter for a file
@@ -146,7 +146,7 @@ tags: [${tags.map(tag => `"${tag}"`).join(', ')}]
 difficulty: "${difficulty}"
 date: "${new Date().toISOString().split('T')[0]}"
 author: "Wanderlust Team"
-estimated_reading_time: "${estimatedReading}"
+estimated_reading_time: ${estimatedReading}
 ---
 
 `;
@@ -0,0 +1,80 @@
+// Generates src/data/codeExamples.json, the code examples catalog, from the
+// fenced blocks marked `example` in articles under public/content (see
+// src/utils/codeExampleCatalog.ts for the attributes). Each example links
+// back to its article. Examples without a frontmatter `date` are dated by
+// the article's last commit. The file is bundled into the app, so admin-only
+// content directories and articles not yet published are left out. It is not
+// committed: `npm run generate` writes it before dev, build and lint.
+//
+// Usage: npm run build:code-examples
+import fs from 'fs';
+import path from 'path';
+import { execFileSync } from 'child_process';
+import { listPublishedContentFiles } from './content-files';
+import { CodeExampleCatalogEntry, CodeExampleHarvestIssue, harvestCodeExamples } from '../src/utils/codeExampleCatalog';
+
+const PROJECT_ROOT = path.join(__dirname, '..');
+const CONTENT_DIR = path.join(PROJECT_ROOT, 'public', 'content');
+const OUTPUT_FILE = path.join(PROJECT_ROOT, 'src', 'data', 'codeExamples.json');
+
+// Cheap test before parsing: only these articles can contain examples
+const EXAMPLE_FENCE = /^\s{0,3}(`{3,}|~{3,}).*\bexample\b/m;
+
+/**
+ * The date of the article's last commit, or of its last save when it has
+ * none (new files, no git checkout)
+ */
+function lastChanged(file: string): Date {
+  try {
+    const date = execFileSync('git', ['log', '-1', '--format=%aI', '--', file], { cwd: CONTENT_DIR, stdio: ['ignore', 'pipe', 'ignore'] })
+      .toString()
+      .trim();
+    if (date) {
+      return new Date(date);
+    }
+  } catch {
+    // Not a git checkout
+  }
+  return fs.statSync(path.join(CONTENT_DIR, file)).mtime;
+}
+
+function main() {
+  const { files } = listPublishedContentFiles(CONTENT_DIR);
+
+  const examples: CodeExampleCatalogEntry[] = [];
+  const issues: CodeExampleHarvestIssue[] = [];
+  const seen = new Map<string, CodeExampleCatalogEntry>();
+  let articles = 0;
+
+  files.forEach(file => {
+    const markdown = fs.readFileSync(path.join(CONTENT_DIR, file), 'utf8');
+    if (!EXAMPLE_FENCE.test(markdown)) {
+      return;
+    }
+    const harvested = harvestCodeExamples({ file, markdown, updatedAt: lastChanged(file) });
+    issues.push(...harvested.issues);
+    harvested.examples.forEach(example => {
+      const first = seen.get(example.id);
+      if (first) {
+        issues.push({
+          file,
+          line: example.source.line,
+          message: `Example id ${example.id} is already used at ${first.source.file}:${first.source.line}`
+        });
+        return;
+      }
+      seen.set(example.id, example);
+      examples.push(example);
+    });
+    if (harvested.examples.length > 0) {
+      articles++;
+    }
+  });
+
+  fs.writeFileSync(OUTPUT_FILE, JSON.stringify(examples, null, 2) + '\n');
+
+  issues.forEach(issue => console.warn(`⚠️  ${issue.file}:${issue.line}  ${issue.message}`));
+  console.log(`📚 ${examples.length} code examples from ${articles} articles written to ${path.relative(PROJECT_ROOT, OUTPUT_FILE)}`);
+}
+
+main();
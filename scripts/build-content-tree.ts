@@ -0,0 +1,48 @@
+// Generates src/data/contentTree.json, the per-subject article list that
+// src/contentIndex.ts turns into the sidebar tree. Titles, descriptions and
+// the `order`, `nav_title`, `nav_group` and `hidden` keys come from each
+// article's frontmatter; see src/utils/contentTree.ts for how the tree is
+// assembled. The file is bundled into the app, so articles not yet published
+// are left out and those in admin-only content directories are listed by
+// title alone. It is not committed: `npm run generate` writes it before dev,
+// build and lint.
+//
+// Usage: npm run build:content-tree
+import fs from 'fs';
+import path from 'path';
+import { createContentTreeEntry, ContentTreeData } from '../src/utils/contentTree';
+import { listPublishedContentFiles } from './content-files';
+
+const PROJECT_ROOT = path.join(__dirname, '..');
+const CONTENT_DIR = path.join(PROJECT_ROOT, 'public', 'content');
+const OUTPUT_FILE = path.join(PROJECT_ROOT, 'src', 'data', 'contentTree.json');
+
+function buildContentTreeData(): ContentTreeData {
+  const data: ContentTreeData = {};
+  const { files, adminOnly } = listPublishedContentFiles(CONTENT_DIR, { includeAdminOnly: true });
+
+  files.forEach(file => {
+    const [subject, ...rest] = file.replace(/\.md$/, '').split('/');
+    const source = fs.readFileSync(path.join(CONTENT_DIR, file), 'utf8');
+    const entry = createContentTreeEntry(rest.join('/'), source);
+    if (adminOnly.includes(subject)) {
+      delete entry.description;
+    }
+    (data[subject] ??= []).push(entry);
+  });
+
+  return data;
+}
+
+function main() {
+  const data = buildContentTreeData();
+  fs.writeFileSync(OUTPUT_FILE, JSON.stringify(data, null, 2) + '\n');
+
+  console.log(`🌳 Content tree written to ${path.relative(PROJECT_ROOT, OUTPUT_FILE)}:`);
+  Object.entries(data).forEach(([subject, entries]) => {
+    const hidden = entries.filter(entry => entry.hidden).length;
+    console.log(`   ${subject}: ${entries.length} articles${hidden ? ` (${hidden} hidden)` : ''}`);
+  });
+}
+
+main();
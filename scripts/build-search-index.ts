@@ -0,0 +1,303 @@
+// Builds the inverted search index under public/search-index/:
+//   manifest.json                 shard list with document/term counts
+//   <shard>/documents.json        titles and metadata
+//   <shard>/terms-<chunk>.json    term postings, one chunk per first character
+//   <shard>/words-<chunk>.json    the words each stemmed term comes from
+//   <shard>/sections-<chunk>.json section postings, chunked like the terms
+//   <shard>/positions-<chunk>.json word positions for phrase queries, chunked like the terms
+//   <shard>/excerpts-<n>.json     section excerpts for snippets, by document group
+//   <shard>/vectors.json          TF-IDF vocabulary and document vectors
+//   <shard>/vectors-<n>.json      section vectors, by document group
+//   <shard>/related.json          most similar documents and sections of each document
+// One shard per content directory under public/content, except the
+// directories of adminOnly subjects and articles not yet published: the
+// index is public. See src/utils/searchIndex.ts for the format.
+//
+// Usage: npm run build-index
+import fs from 'fs';
+import path from 'path';
+import { listPublishedContentFiles } from './content-files';
+import { stem } from '../src/utils/stemmer';
+import {
+  buildSearchDocument,
+  termChunkKey,
+  termPositions,
+  encodePositions,
+  tokenize,
+  SearchDocument,
+  SearchDocumentFields,
+  SearchExcerptGroup,
+  SearchIndexManifest,
+  SearchPositionChunk,
+  SearchRelatedTable,
+  SearchSectionChunk,
+  SearchShardDocuments,
+  SearchShardVectors,
+  SearchTermChunk,
+  SearchVectorGroup,
+  SearchWordChunk,
+  SparseVector,
+  SEARCH_INDEX_VERSION,
+  POSTING_STRIDE,
+  EXCERPT_GROUP_SIZE,
+  FIELD_WEIGHTS
+} from '../src/utils/searchIndex';
+import {
+  cosineSimilarity,
+  inverseDocumentFrequency,
+  toSparseVector,
+  vectorizeTerms,
+  DOCUMENT_VECTOR_TERMS,
+  SECTION_VECTOR_TERMS
+} from '../src/utils/searchVectors';
+
+const PROJECT_ROOT = path.join(__dirname, '..');
+const CONTENT_DIR = path.join(PROJECT_ROOT, 'public', 'content');
+const OUTPUT_DIR = path.join(PROJECT_ROOT, 'public', 'search-index');
+const TOP_TERMS = 50;
+const RELATED_DOCUMENTS = 6;
+const RELATED_SECTIONS = 5;
+const MIN_SIMILARITY = 0.1;
+
+const countTerms = (terms: string[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  terms.forEach(term => counts.set(term, (counts.get(term) ?? 0) + 1));
+  return counts;
+};
+
+/** Append postings for a term to the chunk it belongs in */
+function addPostings(chunks: Map<string, Map<string, number[]>>, term: string, values: number[]): void {
+  const key = termChunkKey(term);
+  let chunk = chunks.get(key);
+  if (!chunk) {
+    chunk = new Map();
+    chunks.set(key, chunk);
+  }
+  let postings = chunk.get(term);
+  if (!postings) {
+    postings = [];
+    chunk.set(term, postings);
+  }
+  postings.push(...values);
+}
+
+/** The words each term was stemmed from, most frequent first */
+function sortWords(wordCounts: Map<string, Map<string, number>>): Map<string, string[]> {
+  const words = new Map<string, string[]>();
+  wordCounts.forEach((counts, term) => {
+    words.set(term, [...counts].sort((a, b) => b[1] - a[1] || a[0].length - b[0].length).map(([word]) => word));
+  });
+  return words;
+}
+
+/**
+ * TF-IDF vectors of every document and section. The vocabulary leaves out
+ * terms found in a single document, which cannot relate two documents.
+ */
+function buildVectors(
+  chunks: Map<string, Map<string, number[]>>,
+  documentTerms: Map<string, number>[],
+  sectionTerms: string[][][]
+): { vectors: SearchShardVectors; sectionVectors: SparseVector[][] } {
+  const documentCount = documentTerms.length;
+  const terms = [...chunks.values()]
+    .flatMap(chunk => [...chunk].filter(([term, postings]) => {
+      const df = postings.length / POSTING_STRIDE;
+      return df > 1 && df < documentCount && !/^\d+$/.test(term);
+    }).map(([term, postings]) => ({ term, df: postings.length / POSTING_STRIDE })))
+    .sort((a, b) => a.term.localeCompare(b.term));
+  const termIndex = new Map(terms.map(({ term }, index) => [term, index]));
+  const idf = terms.map(({ df }) => Math.round(inverseDocumentFrequency(documentCount, df) * 1000) / 1000);
+
+  const documents = documentTerms.map(weightedCounts => {
+    const weights = new Map<number, number>();
+    weightedCounts.forEach((count, term) => {
+      const index = termIndex.get(term);
+      if (index !== undefined) {
+        weights.set(index, (1 + Math.log(count)) * idf[index]);
+      }
+    });
+    return toSparseVector(weights, DOCUMENT_VECTOR_TERMS);
+  });
+  const sectionVectors = sectionTerms.map(sections =>
+    sections.map(sectionWords => vectorizeTerms(sectionWords, termIndex, idf, SECTION_VECTOR_TERMS))
+  );
+  return { vectors: { terms: terms.map(({ term }) => term), idf, documents }, sectionVectors };
+}
+
+/**
+ * The most similar other documents of each document, and the sections of
+ * other documents closest to it: at most one per document, skipping the
+ * opening section (that is the document itself) and documents already listed.
+ */
+function buildRelated(documentVectors: SparseVector[], sectionVectors: SparseVector[][]): SearchRelatedTable {
+  const round = (similarity: number) => Math.round(similarity * 1000) / 1000;
+  return documentVectors.map((vector, documentIndex) => {
+    const documents = documentVectors
+      .map((other, otherIndex): [number, number] => [otherIndex, otherIndex === documentIndex ? 0 : cosineSimilarity(vector, other)])
+      .filter(([, similarity]) => similarity >= MIN_SIMILARITY)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, RELATED_DOCUMENTS);
+    const listed = new Set([documentIndex, ...documents.map(([otherIndex]) => otherIndex)]);
+
+    const sections = sectionVectors
+      .map((otherSections, otherIndex): [number, number, number] => {
+        let best: [number, number, number] = [otherIndex, 0, 0];
+        if (!listed.has(otherIndex)) {
+          otherSections.forEach((section, sectionIndex) => {
+            const similarity = sectionIndex === 0 ? 0 : cosineSimilarity(vector, section);
+            if (similarity > best[2]) {
+              best = [otherIndex, sectionIndex, similarity];
+            }
+          });
+        }
+        return best;
+      })
+      .filter(([, , similarity]) => similarity >= MIN_SIMILARITY)
+      .sort((a, b) => b[2] - a[2])
+      .slice(0, RELATED_SECTIONS);
+
+    return {
+      documents: documents.map(([otherIndex, similarity]) => [otherIndex, round(similarity)]),
+      sections: sections.map(([otherIndex, sectionIndex, similarity]) => [otherIndex, sectionIndex, round(similarity)])
+    };
+  });
+}
+
+function buildShard(shard: string, files: string[]) {
+  const documents: SearchDocument[] = [];
+  const excerptGroups: SearchExcerptGroup[] = [];
+  // Maps rather than objects: terms like `constructor` would hit Object.prototype
+  const chunks = new Map<string, Map<string, number[]>>();
+  const sectionChunks = new Map<string, Map<string, number[]>>();
+  const positionChunks = new Map<string, Map<string, number[]>>();
+  const wordCounts = new Map<string, Map<string, number>>();
+  // Field-weighted term counts per document, and the terms of each section
+  const documentTerms: Map<string, number>[] = [];
+  const sectionTerms: string[][][] = [];
+
+  files.forEach(file => {
+    const source = fs.readFileSync(path.join(CONTENT_DIR, file), 'utf8');
+    const { document, sections, fields, sectionWords } = buildSearchDocument(file.replace(/\.md$/, ''), source);
+    const docIndex = documents.push(document) - 1;
+    (excerptGroups[Math.floor(docIndex / EXCERPT_GROUP_SIZE)] ??= []).push(sections);
+    sectionTerms.push(sectionWords.map(({ heading, body }) => [...heading, ...body].map(stem)));
+    sectionWords.forEach(({ heading, body, code }, sectionIndex) => {
+      if (sectionIndex === 0) {
+        return;
+      }
+      const headingCounts = countTerms(heading.map(stem));
+      const bodyCounts = countTerms(body.map(stem));
+      const codeCounts = countTerms(code.map(stem));
+      new Set([...headingCounts.keys(), ...bodyCounts.keys(), ...codeCounts.keys()]).forEach(term => addPostings(sectionChunks, term, [
+        docIndex,
+        sectionIndex,
+        FIELD_WEIGHTS.headings * (headingCounts.get(term) ?? 0) + FIELD_WEIGHTS.body * (bodyCounts.get(term) ?? 0),
+        FIELD_WEIGHTS.code * (codeCounts.get(term) ?? 0)
+      ]));
+    });
+
+    const parts = [tokenize(document.description ?? ''), ...sectionWords.flatMap(({ heading, body, code }) => [heading, body, code])];
+    termPositions(parts).forEach((positions, term) => addPostings(positionChunks, term, encodePositions(docIndex, positions)));
+
+    const counts = (Object.keys(fields) as Array<keyof SearchDocumentFields>).map(field => countTerms(fields[field].map(word => {
+      const term = stem(word);
+      let termWords = wordCounts.get(term);
+      if (!termWords) {
+        termWords = new Map();
+        wordCounts.set(term, termWords);
+      }
+      termWords.set(word, (termWords.get(word) ?? 0) + 1);
+      return term;
+    })));
+    const terms = new Set(counts.flatMap(fieldCounts => [...fieldCounts.keys()]));
+    terms.forEach(term => addPostings(chunks, term, [docIndex, ...counts.map(fieldCounts => fieldCounts.get(term) ?? 0)]));
+
+    // Vectors use the prose only: identifiers in code blocks are rare enough
+    // to outweigh what an article is about. The title weighs as in ranking.
+    const [titleCounts] = counts;
+    const proseCounts = countTerms(sectionTerms[docIndex].flat());
+    titleCounts.forEach((count, term) => proseCounts.set(term, (proseCounts.get(term) ?? 0) + (FIELD_WEIGHTS.title - 1) * count));
+    documentTerms.push(proseCounts);
+  });
+
+  const { vectors, sectionVectors } = buildVectors(chunks, documentTerms, sectionTerms);
+  const related = buildRelated(vectors.documents, sectionVectors);
+  return { documents, chunks, sectionChunks, positionChunks, excerptGroups, words: sortWords(wordCounts), vectors, sectionVectors, related };
+}
+
+function main() {
+  const { files, adminOnly, scheduled } = listPublishedContentFiles(CONTENT_DIR);
+  const byShard = new Map<string, string[]>();
+  files.forEach(file => {
+    const shard = file.split('/')[0];
+    byShard.set(shard, [...(byShard.get(shard) ?? []), file]);
+  });
+
+  fs.rmSync(OUTPUT_DIR, { recursive: true, force: true });
+  const manifest: SearchIndexManifest = { version: SEARCH_INDEX_VERSION, generatedAt: new Date().toISOString(), shards: {} };
+  let totalBytes = 0;
+  const write = (file: string, data: unknown) => {
+    const json = JSON.stringify(data);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, json);
+    totalBytes += Buffer.byteLength(json);
+  };
+
+  byShard.forEach((shardFiles, shard) => {
+    const { documents, chunks, sectionChunks, positionChunks, excerptGroups, words, vectors, sectionVectors, related } = buildShard(shard, shardFiles);
+    const shardDir = path.join(OUTPUT_DIR, shard);
+
+    const shardDocuments: SearchShardDocuments = { shard, documents };
+    write(path.join(shardDir, 'documents.json'), shardDocuments);
+    chunks.forEach((chunk, key) => {
+      const termChunk: SearchTermChunk = Object.fromEntries(chunk);
+      write(path.join(shardDir, `terms-${key}.json`), termChunk);
+      const wordChunk: SearchWordChunk = Object.fromEntries([...chunk.keys()]
+        .map(term => [term, words.get(term) as string[]] as const)
+        .filter(([term, termWords]) => termWords.length > 1 || termWords[0] !== term));
+      write(path.join(shardDir, `words-${key}.json`), wordChunk);
+      // Terms found only in titles or opening sections have no section postings; the chunk may be empty
+      const sectionChunk: SearchSectionChunk = Object.fromEntries(sectionChunks.get(key) ?? []);
+      write(path.join(shardDir, `sections-${key}.json`), sectionChunk);
+      const positionChunk: SearchPositionChunk = Object.fromEntries(positionChunks.get(key) ?? []);
+      write(path.join(shardDir, `positions-${key}.json`), positionChunk);
+    });
+    excerptGroups.forEach((group, index) => write(path.join(shardDir, `excerpts-${index}.json`), group));
+    write(path.join(shardDir, 'vectors.json'), vectors);
+    for (let start = 0; start < sectionVectors.length; start += EXCERPT_GROUP_SIZE) {
+      const group: SearchVectorGroup = sectionVectors.slice(start, start + EXCERPT_GROUP_SIZE);
+      write(path.join(shardDir, `vectors-${start / EXCERPT_GROUP_SIZE}.json`), group);
+    }
+    write(path.join(shardDir, 'related.json'), related);
+
+    const documentFrequency = [...chunks.values()].flatMap(chunk =>
+      [...chunk].map(([term, postings]) => ({ term, df: postings.length / POSTING_STRIDE }))
+    );
+    manifest.shards[shard] = {
+      documents: documents.length,
+      terms: documentFrequency.length,
+      chunks: [...chunks.keys()].sort(),
+      topTerms: documentFrequency
+        .filter(({ term }) => term.length > 3 && !/^\d+$/.test(term))
+        .sort((a, b) => b.df - a.df || a.term.localeCompare(b.term))
+        .slice(0, TOP_TERMS)
+        .map(({ term, df }) => ({ term: words.get(term)?.[0] ?? term, documents: df }))
+    };
+  });
+
+  write(path.join(OUTPUT_DIR, 'manifest.json'), manifest);
+
+  console.log(`🔎 Search index written to ${path.relative(PROJECT_ROOT, OUTPUT_DIR)} (${(totalBytes / 1024).toFixed(0)} KB):`);
+  Object.entries(manifest.shards).forEach(([shard, info]) => {
+    console.log(`   ${shard}: ${info.documents} documents, ${info.terms} terms in ${info.chunks.length} chunks`);
+  });
+  if (adminOnly.length > 0) {
+    console.log(`   🔒 not indexed (admin only): ${adminOnly.join(', ')}`);
+  }
+  if (scheduled.length > 0) {
+    console.log(`   🕒 not indexed (scheduled): ${scheduled.join(', ')}`);
+  }
+}
+
+main();
@@ -0,0 +1,155 @@
+// Exports the git history of every article under public/content to
+// public/version-history/<subject>/<article>.json, one VersionHistory per
+// article (see src/utils/gitHistory.ts), so the versioning page shows who
+// changed an article, when and why, and the article as of each commit.
+// Renames are followed. Admin-only content directories and articles not yet
+// published are left out: the files are public.
+//
+// Needs the repository's history: in a shallow clone only the fetched
+// commits are exported, and outside a git checkout nothing is written.
+//
+// Usage: npm run build:version-history
+import fs from 'fs';
+import path from 'path';
+import { execFileSync } from 'child_process';
+import { listPublishedContentFiles } from './content-files';
+import {
+  buildGitVersionHistory,
+  gitContentPath,
+  gitHistoryFile,
+  GitFileCommit,
+  GIT_HISTORY_DIR,
+  MAX_GIT_VERSIONS
+} from '../src/utils/gitHistory';
+
+const PROJECT_ROOT = path.join(__dirname, '..');
+const CONTENT_DIR = path.join(PROJECT_ROOT, 'public', 'content');
+const OUTPUT_DIR = path.join(PROJECT_ROOT, 'public', GIT_HISTORY_DIR);
+
+const RECORD_SEPARATOR = '\x1e';
+const FIELD_SEPARATOR = '\x1f';
+
+const git = (args: string[], input?: string): Buffer =>
+  execFileSync('git', args, { cwd: PROJECT_ROOT, input, maxBuffer: 256 * 1024 * 1024, stdio: ['pipe', 'pipe', 'pipe'] });
+
+/**
+ * The new path of a numstat rename: `a/{old => new}/b.md` or `old.md => new.md`
+ */
+const renamedPath = (numstatPath: string): string =>
+  numstatPath.includes('{')
+    ? numstatPath.replace(/\{[^{}]* => ([^{}]*)\}/, '$1').replace(/\/\/+/g, '/')
+    : numstatPath.split(' => ').pop()!;
+
+/**
+ * Commits that touched a file, newest first, without contents. Commits
+ * without a diff of the file (merges) keep the path of the newer commit.
+ */
+function logFile(repoPath: string): Omit<GitFileCommit, 'content'>[] {
+  const output = git([
+    'log', '--follow', '-M', `--max-count=${MAX_GIT_VERSIONS}`, '--numstat',
+    `--format=${RECORD_SEPARATOR}%H${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%ae${FIELD_SEPARATOR}%aI${FIELD_SEPARATOR}%s`,
+    '--', repoPath
+  ]).toString('utf8');
+
+  let currentPath = repoPath;
+  return output.split(RECORD_SEPARATOR).filter(record => record.trim()).map(record => {
+    const [header, ...statLines] = record.split('\n');
+    const [hash, authorName, authorEmail, date, message] = header.split(FIELD_SEPARATOR);
+    const stat = statLines.map(line => line.split('\t')).find(fields => fields.length === 3);
+    if (stat) {
+      currentPath = renamedPath(stat[2]);
+    }
+    return {
+      hash,
+      authorName,
+      authorEmail,
+      date,
+      message,
+      path: currentPath,
+      additions: Number(stat?.[0]) || 0,
+      deletions: Number(stat?.[1]) || 0
+    };
+  });
+}
+
+/**
+ * Contents of `<hash>:<path>` objects in one `git cat-file --batch` run;
+ * null for objects that do not exist
+ */
+function readBlobs(specs: string[]): (string | null)[] {
+  const output = git(['cat-file', '--batch'], specs.map(spec => `${spec}\n`).join(''));
+  const blobs: (string | null)[] = [];
+  let offset = 0;
+  specs.forEach(() => {
+    const headerEnd = output.indexOf(0x0a, offset);
+    const header = output.subarray(offset, headerEnd).toString('utf8');
+    offset = headerEnd + 1;
+    if (header.endsWith(' missing') || header.endsWith(' ambiguous')) {
+      blobs.push(null);
+      return;
+    }
+    const size = Number(header.split(' ')[2]);
+    blobs.push(output.subarray(offset, offset + size).toString('utf8'));
+    // The content is followed by a newline
+    offset += size + 1;
+  });
+  return blobs;
+}
+
+function isGitCheckout(): boolean {
+  try {
+    return git(['rev-parse', '--is-inside-work-tree']).toString().trim() === 'true';
+  } catch (error) {
+    return false;
+  }
+}
+
+function main() {
+  if (!isGitCheckout()) {
+    console.warn('⚠️  Not a git checkout; version history not exported');
+    return;
+  }
+  const shallow = git(['rev-parse', '--is-shallow-repository']).toString().trim() === 'true';
+
+  const { files, adminOnly, scheduled } = listPublishedContentFiles(CONTENT_DIR);
+
+  fs.rmSync(OUTPUT_DIR, { recursive: true, force: true });
+  let exported = 0;
+  let versions = 0;
+  let untracked = 0;
+  files.forEach(file => {
+    const repoPath = path.posix.join('public', 'content', file);
+    const log = logFile(repoPath);
+    const blobs = readBlobs(log.map(commit => `${commit.hash}:${commit.path}`));
+    const commits = log
+      .map((commit, index) => ({ ...commit, content: blobs[index] }))
+      .filter((commit): commit is GitFileCommit => commit.content !== null);
+    if (commits.length === 0) {
+      untracked++;
+      return;
+    }
+
+    const contentPath = gitContentPath(file);
+    const outputFile = path.join(OUTPUT_DIR, gitHistoryFile(contentPath)!);
+    fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+    fs.writeFileSync(outputFile, JSON.stringify(buildGitVersionHistory(contentPath, commits)));
+    exported++;
+    versions += commits.length;
+  });
+
+  console.log(`📜 Version history of ${exported} articles (${versions} versions) written to ${path.relative(PROJECT_ROOT, OUTPUT_DIR)}`);
+  if (untracked > 0) {
+    console.log(`   ${untracked} articles not committed yet`);
+  }
+  if (shallow) {
+    console.log('   ⚠️  shallow clone: only the fetched commits are included');
+  }
+  if (adminOnly.length > 0) {
+    console.log(`   🔒 not exported (admin only): ${adminOnly.join(', ')}`);
+  }
+  if (scheduled.length > 0) {
+    console.log(`   🕒 not exported (scheduled): ${scheduled.join(', ')}`);
+  }
+}
+
+main();
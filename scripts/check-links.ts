@@ -0,0 +1,265 @@
+// Checks internal links across all subjects:
+//   - every markdown link and reference definition in public/content
+//   - every `#anchor`, against the heading ids MarkdownRenderer assigns
+//   - every ContentNode.path in src/contentIndex.ts
+// Article paths resolve with the same fallbacks as ContentService
+// (`.md`, `/overview.md`, `/index.md`, `/README.md`, then a subject's
+// `fallbackContentBase`).
+//
+// Usage: npm run check:links [-- --json] [-- --output=link-report.json]
+import fs from 'fs';
+import path from 'path';
+import { globSync } from 'glob';
+import { subjects, ContentNode, getSubjectContentDir, getSubjectForContentDir } from '../src/contentIndex';
+import { getContentFileCandidates } from '../src/utils/contentPaths';
+import { parseFrontmatter } from '../src/utils/frontmatter';
+import { extractHeadings, forEachProseLine, ANCHORED_HEADING_LEVELS } from '../src/utils/markdown';
+
+const PROJECT_ROOT = path.join(__dirname, '..');
+const PUBLIC_DIR = path.join(PROJECT_ROOT, 'public');
+const CONTENT_DIR = path.join(PUBLIC_DIR, 'content');
+const CONTENT_INDEX_FILE = path.join(PROJECT_ROOT, 'src', 'contentIndex.ts');
+
+type LinkIssueType = 'missing-file' | 'missing-anchor' | 'missing-asset' | 'missing-index-path';
+
+interface LinkIssue {
+  type: LinkIssueType;
+  /** File containing the link, relative to the project root */
+  source: string;
+  line: number;
+  target: string;
+  /** Content path or file the target resolved to */
+  resolved?: string;
+  subject?: string;
+  message: string;
+}
+
+interface LinkReport {
+  generatedAt: string;
+  summary: {
+    filesScanned: number;
+    linksChecked: number;
+    indexPathsChecked: number;
+    issues: number;
+    byType: Record<LinkIssueType, number>;
+  };
+  issues: LinkIssue[];
+}
+
+const INLINE_LINK_PATTERN = /(!?)\[(?:[^\]\\]|\\.)*\]\(\s*<?([^)\s>]*)>?(?:\s+["'(][^)]*)?\)/g;
+const REFERENCE_DEFINITION_PATTERN = /^\s{0,3}\[[^\]]+\]:\s*<?(\S+?)>?(?:\s+.*)?$/;
+const EXTERNAL_PATTERN = /^(?:[a-z][a-z0-9+.-]*:|\/\/)/i;
+
+const markdownFiles = new Set(globSync('**/*.md', { cwd: CONTENT_DIR, posix: true }));
+const anchorCache = new Map<string, Set<string>>();
+
+const subjectBase = (subjectId: string): string => {
+  const subject = subjects.find(s => s.id === subjectId);
+  return subject ? getSubjectContentDir(subject) : subjectId;
+};
+
+function resolveArticle(contentPath: string): string | undefined {
+  const file = getContentFileCandidates(contentPath).find(candidate => markdownFiles.has(candidate));
+  if (file) {
+    return file;
+  }
+  const [contentDir, ...rest] = contentPath.split('/');
+  const fallback = getSubjectForContentDir(contentDir)?.fallbackContentBase;
+  return fallback ? resolveArticle([fallback, ...rest].join('/')) : undefined;
+}
+
+function readBody(file: string): { body: string; lineOffset: number } {
+  const source = fs.readFileSync(path.join(CONTENT_DIR, file), 'utf8');
+  const { body, bodyStartLine } = parseFrontmatter(source);
+  return { body, lineOffset: bodyStartLine - 1 };
+}
+
+function anchorsFor(file: string): Set<string> {
+  let anchors = anchorCache.get(file);
+  if (!anchors) {
+    anchors = new Set(
+      extractHeadings(readBody(file).body)
+        .filter(heading => ANCHORED_HEADING_LEVELS.includes(heading.level))
+        .map(heading => heading.slug)
+    );
+    anchorCache.set(file, anchors);
+  }
+  return anchors;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Map a link target inside `file` to a content path (no extension), following
+ * the router: `/<subject>/...` is subject-qualified, other absolute paths are
+ * legacy routes inside the file's own subject, relative paths are file-relative.
+ */
+function toContentPath(file: string, target: string): string {
+  const subject = file.split('/')[0];
+  let resolved: string;
+  if (target.startsWith('/')) {
+    const [first, ...rest] = target.slice(1).split('/');
+    resolved = subjects.some(s => s.id === first)
+      ? path.posix.join(subjectBase(first), ...rest)
+      : path.posix.join(subject, target);
+  } else {
+    resolved = path.posix.join(path.posix.dirname(file), target);
+  }
+  return resolved.replace(/\/+$/, '').replace(/\.md$/, '');
+}
+
+function checkLink(file: string, line: number, target: string, isImage: boolean, issues: LinkIssue[]): void {
+  const source = path.posix.join('public/content', file);
+  const hashIndex = target.indexOf('#');
+  const targetPath = safeDecode(hashIndex >= 0 ? target.slice(0, hashIndex) : target).split('?')[0];
+  const anchor = hashIndex >= 0 ? safeDecode(target.slice(hashIndex + 1)) : '';
+
+  // Links from the old HashRouter, e.g. `/#/architecture/overview`
+  if (targetPath === '/' && anchor.startsWith('/')) {
+    issues.push({ type: 'missing-file', source, line, target, message: 'legacy hash-router URL; drop the "/#" prefix' });
+    return;
+  }
+
+  // Same-page anchor
+  if (!targetPath) {
+    if (anchor && !anchorsFor(file).has(anchor)) {
+      issues.push({ type: 'missing-anchor', source, line, target, resolved: file, message: `no heading with id "${anchor}" in this article` });
+    }
+    return;
+  }
+
+  // Images and other non-markdown files are served as-is from public/
+  const extension = path.posix.extname(targetPath);
+  if (isImage || (extension && extension !== '.md')) {
+    const assetPath = targetPath.startsWith('/')
+      ? targetPath.slice(1)
+      : path.posix.join('content', path.posix.dirname(file), targetPath);
+    if (!fs.existsSync(path.join(PUBLIC_DIR, assetPath))) {
+      issues.push({ type: 'missing-asset', source, line, target, resolved: `public/${assetPath}`, message: 'file does not exist' });
+    }
+    return;
+  }
+
+  const contentPath = toContentPath(file, targetPath);
+  const resolvedFile = contentPath ? resolveArticle(contentPath) : undefined;
+  if (!resolvedFile) {
+    const subjectDir = contentPath.split('/')[0];
+    const message = contentPath.startsWith('..') || !subjects.some(subject => subjectBase(subject.id) === subjectDir)
+      ? `resolves to ${contentPath}, outside every subject's content directory`
+      : `no article at ${getContentFileCandidates(contentPath).join(', ')}`;
+    issues.push({ type: 'missing-file', source, line, target, resolved: contentPath, message });
+    return;
+  }
+
+  if (anchor && !anchorsFor(resolvedFile).has(anchor)) {
+    issues.push({ type: 'missing-anchor', source, line, target, resolved: resolvedFile, message: `no heading with id "${anchor}" in ${resolvedFile}` });
+  }
+}
+
+function checkArticles(issues: LinkIssue[]): number {
+  let linksChecked = 0;
+  for (const file of markdownFiles) {
+    const { body, lineOffset } = readBody(file);
+    forEachProseLine(body, (text, lineNumber) => {
+      const line = lineNumber + lineOffset;
+      const prose = text.replace(/`[^`]*`/g, '');
+      const targets: Array<{ target: string; isImage: boolean }> = [];
+
+      for (const match of prose.matchAll(INLINE_LINK_PATTERN)) {
+        targets.push({ target: match[2], isImage: match[1] === '!' });
+      }
+      const definition = prose.match(REFERENCE_DEFINITION_PATTERN);
+      if (definition) {
+        targets.push({ target: definition[1], isImage: false });
+      }
+
+      targets
+        .filter(({ target }) => target && !EXTERNAL_PATTERN.test(target))
+        .forEach(({ target, isImage }) => {
+          linksChecked++;
+          checkLink(file, line, target, isImage, issues);
+        });
+    });
+  }
+  return linksChecked;
+}
+
+function checkContentIndex(issues: LinkIssue[]): number {
+  const indexLines = fs.readFileSync(CONTENT_INDEX_FILE, 'utf8').split(/\r?\n/);
+  const lineOf = (nodePath: string): number => {
+    const index = indexLines.findIndex(text => text.includes(`"${nodePath}"`) || text.includes(`'${nodePath}'`));
+    return index + 1;
+  };
+
+  let pathsChecked = 0;
+  const visit = (subjectId: string, nodes: ContentNode[]) => {
+    nodes.forEach(node => {
+      if (node.path) {
+        pathsChecked++;
+        const contentPath = path.posix.join(subjectBase(subjectId), node.path);
+        if (!resolveArticle(contentPath)) {
+          issues.push({
+            type: 'missing-index-path',
+            source: 'src/contentIndex.ts',
+            line: lineOf(node.path),
+            target: node.path,
+            resolved: contentPath,
+            subject: subjectId,
+            message: `"${node.title}" points to no article (tried ${getContentFileCandidates(contentPath).join(', ')})`
+          });
+        }
+      }
+      if (node.children) {
+        visit(subjectId, node.children);
+      }
+    });
+  };
+  subjects.forEach(subject => visit(subject.id, subject.contentIndex));
+  return pathsChecked;
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const asJson = args.includes('--json');
+  const output = args.find(arg => arg.startsWith('--output='))?.slice('--output='.length);
+
+  const issues: LinkIssue[] = [];
+  const linksChecked = checkArticles(issues);
+  const indexPathsChecked = checkContentIndex(issues);
+
+  const byType: Record<LinkIssueType, number> = { 'missing-file': 0, 'missing-anchor': 0, 'missing-asset': 0, 'missing-index-path': 0 };
+  issues.forEach(issue => byType[issue.type]++);
+
+  const report: LinkReport = {
+    generatedAt: new Date().toISOString(),
+    summary: { filesScanned: markdownFiles.size, linksChecked, indexPathsChecked, issues: issues.length, byType },
+    issues
+  };
+
+  if (output) {
+    fs.writeFileSync(path.resolve(PROJECT_ROOT, output), JSON.stringify(report, null, 2));
+  }
+
+  if (asJson) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    issues.forEach(issue => {
+      console.log(`${issue.source}:${issue.line}  ${issue.type}  ${issue.target}  (${issue.message})`);
+    });
+    console.log(`\n📊 Checked ${linksChecked} links in ${markdownFiles.size} files and ${indexPathsChecked} content index paths:`);
+    Object.entries(byType).forEach(([type, count]) => console.log(`   ${count} ${type}`));
+    if (output) {
+      console.log(`\n📝 Report written to ${output}`);
+    }
+  }
+
+  process.exitCode = issues.length > 0 ? 1 : 0;
+}
+
+main();
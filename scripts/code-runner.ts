@@ -0,0 +1,383 @@
+// Runs C++, Python and Node examples from the code examples pages on a
+// developer machine, for LocalRunnerBackend. Every run gets a fresh
+// temporary directory and process that is killed at the time limit; on
+// Linux and macOS the program's memory and CPU time are also capped with
+// ulimit. Runs are queued one at a time, and only pages served from
+// localhost (or an origin passed with --allow-origin) may call it.
+//
+// Usage: npm run code-runner [-- --port=5080] [-- --timeout=10000] [-- --memory=512]
+//   --port          port to listen on, on 127.0.0.1
+//   --timeout       milliseconds a program may run
+//   --memory        megabytes of memory a program may use
+//   --allow-origin  another origin allowed to call the runner (repeatable)
+//
+// Compilers and interpreters come from $CXX (default c++), $PYTHON (default
+// python3) and the Node running this script.
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { spawn, spawnSync } from 'child_process';
+import {
+  CODE_RUNNER_LANGUAGES,
+  DEFAULT_CODE_RUNNER_PORT,
+  CodeRunnerInfo,
+  CodeRunnerLanguage,
+  CodeRunnerRequest,
+  CodeRunnerResult,
+  CodeRunnerToolchain
+} from '../src/utils/codeRunner';
+
+const RUNNER_VERSION = '1.0';
+const COMPILE_TIMEOUT_MS = 60000;
+const MAX_REQUEST_BYTES = 256 * 1024;
+const LOCAL_ORIGIN = /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/;
+const LOCAL_HOST = /^(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/;
+const USE_ULIMIT = process.platform !== 'win32';
+
+export interface RunnerLimits {
+  timeoutMs: number;
+  memoryBytes: number;
+  maxOutputLength: number;
+}
+
+export const DEFAULT_LIMITS: RunnerLimits = {
+  timeoutMs: 10000,
+  memoryBytes: 512 * 1024 * 1024,
+  maxOutputLength: 100000
+};
+
+type Command = [string, string[]];
+
+interface Toolchain {
+  file: string;
+  compile?: Command;
+  run: (dir: string, limits: RunnerLimits) => Command;
+  version: Command;
+  /**
+   * V8 reserves far more address space than it uses, so Node's heap is
+   * capped with a flag instead of ulimit
+   */
+  heapLimited?: boolean;
+}
+
+const CXX = process.env.CXX || 'c++';
+const PYTHON = process.env.PYTHON || 'python3';
+
+const TOOLCHAINS: Record<CodeRunnerLanguage, Toolchain> = {
+  cpp: {
+    file: 'main.cpp',
+    compile: [CXX, ['-std=c++20', '-O1', '-Wall', '-o', 'main', 'main.cpp']],
+    run: dir => [path.join(dir, process.platform === 'win32' ? 'main.exe' : 'main'), []],
+    version: [CXX, ['--version']]
+  },
+  python: {
+    file: 'main.py',
+    run: () => [PYTHON, ['-I', 'main.py']],
+    version: [PYTHON, ['--version']]
+  },
+  javascript: {
+    file: 'main.js',
+    run: (_dir, limits) => [process.execPath, [`--max-old-space-size=${Math.floor(limits.memoryBytes / 1024 / 1024)}`, 'main.js']],
+    version: [process.execPath, ['--version']],
+    heapLimited: true
+  }
+};
+
+interface ProcessResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  timedOut: boolean;
+  outputExceeded: boolean;
+  elapsed: number;
+}
+
+function runProcess(
+  [command, args]: Command,
+  options: { cwd: string; timeoutMs: number; memoryBytes?: number; maxOutputLength: number; stdin?: string }
+): Promise<ProcessResult> {
+  // The shell applies the limits and then becomes the program
+  const limits = [
+    options.memoryBytes ? `ulimit -v ${Math.floor(options.memoryBytes / 1024)}` : '',
+    `ulimit -t ${Math.ceil(options.timeoutMs / 1000) + 1}`
+  ].filter(Boolean).join('; ');
+  const [file, fileArgs]: Command = USE_ULIMIT
+    ? ['/bin/sh', ['-c', `${limits}; exec "$@"`, 'sh', command, ...args]]
+    : [command, args];
+
+  return new Promise(resolve => {
+    const startTime = Date.now();
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    let outputExceeded = false;
+
+    const child = spawn(file, fileArgs, {
+      cwd: options.cwd,
+      // Its own process group, so whatever it starts is killed with it
+      detached: USE_ULIMIT,
+      env: { PATH: process.env.PATH, HOME: options.cwd, TMPDIR: options.cwd, LANG: 'C.UTF-8' }
+    });
+
+    const kill = () => {
+      try {
+        if (USE_ULIMIT && child.pid) {
+          process.kill(-child.pid, 'SIGKILL');
+        } else {
+          child.kill('SIGKILL');
+        }
+      } catch {
+        // Already exited
+      }
+    };
+    const timer = setTimeout(() => {
+      timedOut = true;
+      kill();
+    }, options.timeoutMs);
+
+    const collect = (append: (chunk: string) => void) => (chunk: Buffer) => {
+      if (stdout.length + stderr.length + chunk.length > options.maxOutputLength) {
+        outputExceeded = true;
+        kill();
+        return;
+      }
+      append(chunk.toString());
+    };
+    child.stdout.on('data', collect(chunk => { stdout += chunk; }));
+    child.stderr.on('data', collect(chunk => { stderr += chunk; }));
+    child.stdin.on('error', () => { /* the program exited without reading its input */ });
+    child.stdin.end(options.stdin ?? '');
+
+    child.on('error', error => {
+      clearTimeout(timer);
+      resolve({ stdout, stderr: error.message, exitCode: null, signal: null, timedOut, outputExceeded, elapsed: Date.now() - startTime });
+    });
+    child.on('close', (exitCode, signal) => {
+      clearTimeout(timer);
+      resolve({ stdout, stderr, exitCode, signal, timedOut, outputExceeded, elapsed: Date.now() - startTime });
+    });
+  });
+}
+
+/**
+ * Whether each language's compiler or interpreter is installed, and its version
+ */
+export function probeToolchains(): Record<CodeRunnerLanguage, CodeRunnerToolchain> {
+  const entries = CODE_RUNNER_LANGUAGES.map(language => {
+    const [command, args] = TOOLCHAINS[language].version;
+    const probe = spawnSync(command, args, { encoding: 'utf8', timeout: 10000 });
+    const available = probe.status === 0;
+    const version = available ? `${probe.stdout || probe.stderr}`.trim().split('\n')[0] : '';
+    return [language, { available, version }] as const;
+  });
+  return Object.fromEntries(entries) as Record<CodeRunnerLanguage, CodeRunnerToolchain>;
+}
+
+/**
+ * Compile if needed and run one program in a temporary directory that is
+ * removed afterwards
+ */
+export async function runCode(request: CodeRunnerRequest, limits: RunnerLimits = DEFAULT_LIMITS): Promise<CodeRunnerResult> {
+  const toolchain = TOOLCHAINS[request.language];
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wanderlust-run-'));
+  const warnings: string[] = [];
+
+  try {
+    fs.writeFileSync(path.join(dir, toolchain.file), request.code);
+
+    if (toolchain.compile) {
+      const compiled = await runProcess(toolchain.compile, {
+        cwd: dir,
+        timeoutMs: COMPILE_TIMEOUT_MS,
+        maxOutputLength: limits.maxOutputLength
+      });
+      if (compiled.exitCode !== 0) {
+        return {
+          success: false,
+          output: '',
+          error: compiled.timedOut ? `Compilation timed out after ${COMPILE_TIMEOUT_MS / 1000}s` : compiled.stderr.trim() || 'Compilation failed',
+          warnings,
+          exitCode: compiled.exitCode,
+          timedOut: compiled.timedOut,
+          executionTime: 0
+        };
+      }
+      if (compiled.stderr.trim()) {
+        warnings.push(compiled.stderr.trim());
+      }
+    }
+
+    const run = await runProcess(toolchain.run(dir, limits), {
+      cwd: dir,
+      timeoutMs: limits.timeoutMs,
+      memoryBytes: toolchain.heapLimited ? undefined : limits.memoryBytes,
+      maxOutputLength: limits.maxOutputLength,
+      stdin: request.stdin
+    });
+    const stderr = run.stderr.trim();
+    const success = run.exitCode === 0 && !run.timedOut && !run.outputExceeded;
+
+    let error: string | undefined;
+    if (run.timedOut) {
+      error = `Timed out after ${limits.timeoutMs / 1000}s`;
+    } else if (run.outputExceeded) {
+      error = `Output exceeded ${limits.maxOutputLength} characters`;
+    } else if (!success) {
+      error = stderr || (run.signal ? `Killed by ${run.signal}` : `Exited with code ${run.exitCode}`);
+    } else if (stderr) {
+      warnings.push(stderr);
+    }
+
+    return {
+      success,
+      output: run.stdout,
+      error,
+      warnings,
+      exitCode: run.exitCode,
+      timedOut: run.timedOut,
+      executionTime: run.elapsed
+    };
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => {
+      body += chunk.toString();
+      if (body.length > MAX_REQUEST_BYTES) {
+        reject(new Error('Request too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+/** A request the runner refuses with 400 */
+class BadRequestError extends Error {}
+
+/**
+ * The `POST /run` body as a CodeRunnerRequest, or a BadRequestError saying
+ * what is wrong with it
+ */
+export function parseRunRequest(body: string): CodeRunnerRequest {
+  let request: unknown;
+  try {
+    request = JSON.parse(body);
+  } catch {
+    throw new BadRequestError('Request body is not valid JSON');
+  }
+  if (typeof request !== 'object' || request === null || Array.isArray(request)) {
+    throw new BadRequestError('Request body must be a JSON object');
+  }
+  const { language, code, stdin } = request as Record<string, unknown>;
+  if (!CODE_RUNNER_LANGUAGES.includes(language as CodeRunnerLanguage)) {
+    throw new BadRequestError(`Supported languages: ${CODE_RUNNER_LANGUAGES.join(', ')}`);
+  }
+  if (typeof code !== 'string') {
+    throw new BadRequestError('code must be a string');
+  }
+  if (stdin !== undefined && typeof stdin !== 'string') {
+    throw new BadRequestError('stdin must be a string');
+  }
+  return { language: language as CodeRunnerLanguage, code, ...(stdin !== undefined && { stdin }) };
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const option = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+  const port = Number(option('port') ?? DEFAULT_CODE_RUNNER_PORT);
+  const limits: RunnerLimits = {
+    timeoutMs: Number(option('timeout') ?? DEFAULT_LIMITS.timeoutMs),
+    memoryBytes: option('memory') ? Number(option('memory')) * 1024 * 1024 : DEFAULT_LIMITS.memoryBytes,
+    maxOutputLength: DEFAULT_LIMITS.maxOutputLength
+  };
+  const allowedOrigins = args.filter(arg => arg.startsWith('--allow-origin=')).map(arg => arg.slice('--allow-origin='.length));
+
+  const info: CodeRunnerInfo = { version: RUNNER_VERSION, languages: probeToolchains(), limits };
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const origin = req.headers.origin;
+    // Refuse other sites, and other host names resolving to this machine
+    if ((origin && !LOCAL_ORIGIN.test(origin) && !allowedOrigins.includes(origin)) || !LOCAL_HOST.test(req.headers.host ?? '')) {
+      sendJson(res, 403, { error: 'Origin not allowed' });
+      return;
+    }
+    if (origin) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+    }
+
+    const url = (req.url ?? '').split('?')[0];
+    if (req.method === 'OPTIONS') {
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      if (req.headers['access-control-request-private-network']) {
+        res.setHeader('Access-Control-Allow-Private-Network', 'true');
+      }
+      res.writeHead(204);
+      res.end();
+    } else if (req.method === 'GET' && url === '/info') {
+      sendJson(res, 200, info);
+    } else if (req.method === 'POST' && url === '/run') {
+      let request: CodeRunnerRequest;
+      try {
+        request = parseRunRequest(await readBody(req));
+      } catch (error) {
+        sendJson(res, 400, { error: error instanceof Error ? error.message : 'Invalid request' });
+        return;
+      }
+      if (!info.languages[request.language].available) {
+        sendJson(res, 501, { error: `No ${request.language} toolchain found on this machine` });
+        return;
+      }
+
+      const result = queue.then(() => runCode(request, limits));
+      queue = result.catch(() => undefined);
+      try {
+        sendJson(res, 200, await result);
+      } catch (error) {
+        sendJson(res, 500, { error: error instanceof Error ? error.message : 'Run failed' });
+      }
+    } else {
+      sendJson(res, 404, { error: 'Not found' });
+    }
+  };
+
+  // A failing request must not take the runner down with it
+  const server = http.createServer((req, res) => {
+    handle(req, res).catch(error => {
+      console.error('❌ Request failed:', error);
+      if (res.headersSent) {
+        res.end();
+      } else {
+        sendJson(res, 500, { error: error instanceof Error ? error.message : 'Request failed' });
+      }
+    });
+  });
+
+  server.listen(port, '127.0.0.1', () => {
+    console.log(`🏃 Code runner listening on http://localhost:${port}`);
+    CODE_RUNNER_LANGUAGES.forEach(language => {
+      const toolchain = info.languages[language];
+      console.log(`   ${language}: ${toolchain.available ? toolchain.version : 'not found'}`);
+    });
+    console.log(`   limits: ${limits.timeoutMs / 1000}s, ${limits.memoryBytes / 1024 / 1024} MB`);
+  });
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,30 @@
+// The articles under public/content that the build publishes, as paths
+// relative to the content directory. Admin-only content directories are
+// served by the API after a role check (see ContentService), and articles
+// whose `publish_at` is still ahead join the site with the first build
+// after that date, so neither is exported or indexed. Outputs that list
+// articles without their content ask for the admin-only ones too.
+import fs from 'fs';
+import path from 'path';
+import { globSync } from 'glob';
+import { getAdminOnlyContentDirs } from '../src/data/subjects';
+import { isScheduledArticle } from '../src/utils/contentSchedule';
+
+export interface PublishedContentFiles {
+  files: string[];
+  /** Admin-only content directories, left out unless asked for */
+  adminOnly: string[];
+  /** Articles left out until their `publish_at` */
+  scheduled: string[];
+}
+
+export function listPublishedContentFiles(
+  contentDir: string,
+  { includeAdminOnly = false, at = new Date() } = {}
+): PublishedContentFiles {
+  const adminOnly = getAdminOnlyContentDirs();
+  const ignore = includeAdminOnly ? [] : adminOnly.map(dir => `${dir}/**`);
+  const articles = globSync('*/**/*.md', { cwd: contentDir, posix: true, ignore }).sort();
+  const scheduled = articles.filter(file => isScheduledArticle(fs.readFileSync(path.join(contentDir, file), 'utf8'), at));
+  return { files: articles.filter(file => !scheduled.includes(file)), adminOnly, scheduled };
+}
@@ -0,0 +1,64 @@
+// Lints the frontmatter of every article under public/content against the
+// shared schema in src/utils/frontmatterSchema.ts.
+//
+// Usage: npm run lint:content [-- --strict] [-- --json]
+//   --strict  treat warnings (missing block, unknown fields) as failures
+//   --json    print violations as JSON instead of text
+import fs from 'fs';
+import path from 'path';
+import { globSync } from 'glob';
+import { validateMarkdownFrontmatter, FrontmatterViolation } from '../src/utils/frontmatterSchema';
+
+const PROJECT_ROOT = path.join(__dirname, '..');
+const CONTENT_DIR = path.join(PROJECT_ROOT, 'public', 'content');
+
+interface FileReport {
+  file: string;
+  violations: FrontmatterViolation[];
+}
+
+function lintContent(): FileReport[] {
+  const files = globSync('**/*.md', { cwd: CONTENT_DIR, posix: true }).sort();
+  return files.map(relPath => {
+    const subject = relPath.split('/')[0];
+    const source = fs.readFileSync(path.join(CONTENT_DIR, relPath), 'utf8');
+    return {
+      file: path.posix.join('public/content', relPath),
+      violations: validateMarkdownFrontmatter(source, { subject })
+    };
+  });
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const strict = args.includes('--strict');
+  const asJson = args.includes('--json');
+
+  const reports = lintContent();
+  const violations = reports.flatMap(report =>
+    report.violations.map(violation => ({ file: report.file, ...violation }))
+  );
+  const errors = violations.filter(v => v.severity === 'error');
+  const warnings = violations.filter(v => v.severity === 'warning');
+
+  if (asJson) {
+    console.log(JSON.stringify({ files: reports.length, errors: errors.length, warnings: warnings.length, violations }, null, 2));
+  } else {
+    const missingBlocks = warnings.filter(v => v.field === 'frontmatter');
+    const shown = strict ? violations : violations.filter(v => v.field !== 'frontmatter');
+
+    shown.forEach(v => {
+      console.log(`${v.file}:${v.line}  ${v.severity === 'error' ? '❌ error  ' : '⚠️  warning'}  ${v.message}`);
+    });
+
+    console.log(`\n📊 Checked ${reports.length} files:`);
+    console.log(`   ${errors.length} errors`);
+    console.log(`   ${warnings.length - missingBlocks.length} warnings`);
+    console.log(`   ${missingBlocks.length} files without frontmatter${strict ? '' : ' (run with --strict to list them)'}`);
+  }
+
+  const failed = errors.length > 0 || (strict && warnings.length > 0);
+  process.exitCode = failed ? 1 : 0;
+}
+
+main();
@@ -0,0 +1,240 @@
+// Runs every runnable code example that has an `expectedOutput` and checks
+// that it still prints it. Examples run the way the local code runner runs
+// them (scripts/code-runner.ts), without the HTTP server in between;
+// TypeScript is transpiled first. Examples that need a browser, or a
+// toolchain this machine lacks, are skipped with the reason.
+//
+// The results are merged into public/code-examples/verification.json, which
+// the code examples page reads for its "verified" and "failing" badges. An
+// example keeps the date it last passed while its code is unchanged.
+//
+// Usage: npm run verify:examples [-- --only=<id,...>] [-- --json] [-- --check]
+//   --only                 verify only these examples, keeping the others' results
+//   --check                do not write the report
+//   --ignore-case          compare output case-insensitively
+//   --collapse-whitespace  compare output with runs of whitespace collapsed
+//
+// Examples choose how their output is compared with `outputNormalization`;
+// the flags above apply to examples that do not set them.
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { DEFAULT_LIMITS, probeToolchains, runCode } from './code-runner';
+import { codeExamplesService } from '../src/services/CodeExamplesService';
+import { CodeExecutionRegistry } from '../src/services/CodeExecutionRegistry';
+import {
+  CodeExample,
+  CodeExecutionResult,
+  ExecutionBackend,
+  ExecutionEnvironment,
+  ExecutionEnvironmentInfo,
+  OutputNormalization,
+  ProgrammingLanguage
+} from '../src/types/CodeExampleTypes';
+import { CODE_RUNNER_LANGUAGES, CodeRunnerLanguage } from '../src/utils/codeRunner';
+import {
+  DEFAULT_OUTPUT_NORMALIZATION,
+  VERIFICATION_REPORT_URL,
+  CodeExampleVerification,
+  CodeExampleVerificationReport,
+  VerificationStatus,
+  hashCode,
+  outputMatches
+} from '../src/utils/exampleVerification';
+import { transpileTypeScript } from '../src/utils/transpileTypeScript';
+
+const PROJECT_ROOT = path.join(__dirname, '..');
+const REPORT_FILE = path.join(PROJECT_ROOT, 'public', VERIFICATION_REPORT_URL);
+const MAX_REPORTED_OUTPUT = 2000;
+
+/** These need a page, the DevTools protocol or nothing at all */
+const UNRUNNABLE_ENVIRONMENTS: ExecutionEnvironment[] = ['static', 'browser', 'chromium-devtools'];
+
+/**
+ * Runs examples in child processes of this script, as the local code
+ * runner would
+ */
+class ProcessBackend implements ExecutionBackend {
+  readonly id = 'process';
+  readonly name = 'Local process';
+  readonly languages: ProgrammingLanguage[] = [...CODE_RUNNER_LANGUAGES, 'typescript'];
+  private toolchains = probeToolchains();
+
+  supports(language: ProgrammingLanguage, environment: ExecutionEnvironment): boolean {
+    return this.languages.includes(language) && !UNRUNNABLE_ENVIRONMENTS.includes(environment);
+  }
+
+  async getInfo(language?: ProgrammingLanguage): Promise<ExecutionEnvironmentInfo> {
+    const toolchain = language ? this.toolchains[this.runnerLanguage(language)] : undefined;
+    if (language && !toolchain?.available) {
+      return {
+        available: false,
+        version: '',
+        features: [],
+        backend: this.name,
+        hint: `No ${language} toolchain was found on this machine`
+      };
+    }
+    return { available: true, version: toolchain?.version ?? '', features: ['compile', 'timeout'], backend: this.name };
+  }
+
+  async execute(code: string, language: ProgrammingLanguage, environment: ExecutionEnvironment): Promise<CodeExecutionResult> {
+    const metadata = { environment, timestamp: new Date(), version: this.toolchains[this.runnerLanguage(language)].version };
+
+    if (language === 'typescript') {
+      const transpiled = transpileTypeScript(ts, code);
+      if (transpiled.errors.length > 0) {
+        return { success: false, error: transpiled.errors.join('\n'), metadata };
+      }
+      code = transpiled.code;
+    }
+
+    const result = await runCode({ language: this.runnerLanguage(language), code }, DEFAULT_LIMITS);
+    return {
+      success: result.success,
+      output: result.output,
+      error: result.error,
+      warnings: result.warnings,
+      executionTime: result.executionTime,
+      metadata
+    };
+  }
+
+  private runnerLanguage(language: ProgrammingLanguage): CodeRunnerLanguage {
+    return language === 'typescript' ? 'javascript' : language as CodeRunnerLanguage;
+  }
+}
+
+const executionService = new CodeExecutionRegistry([new ProcessBackend()]);
+
+function shorten(text: string): string {
+  return text.length > MAX_REPORTED_OUTPUT ? `${text.slice(0, MAX_REPORTED_OUTPUT)}…` : text;
+}
+
+function readReport(): CodeExampleVerificationReport | null {
+  if (!fs.existsSync(REPORT_FILE)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(REPORT_FILE, 'utf-8'));
+}
+
+async function verifyExample(
+  example: CodeExample,
+  defaults: OutputNormalization,
+  previous: CodeExampleVerification | undefined
+): Promise<CodeExampleVerification> {
+  const codeHash = hashCode(example.code);
+  const entry: CodeExampleVerification = {
+    exampleId: example.id,
+    title: example.title,
+    status: 'skipped',
+    checkedAt: new Date().toISOString(),
+    codeHash
+  };
+  // A failure does not take away the date the unchanged code last passed
+  const lastVerifiedAt = previous?.codeHash === codeHash ? previous.verifiedAt : undefined;
+
+  if (!example.runnable) {
+    return { ...entry, reason: 'Not runnable' };
+  }
+  if (!example.expectedOutput) {
+    return { ...entry, reason: 'No expected output' };
+  }
+  if (UNRUNNABLE_ENVIRONMENTS.includes(example.environment)) {
+    return { ...entry, reason: `Needs the ${example.environment} environment` };
+  }
+  const info = await executionService.getEnvironmentInfo(example.environment, example.language);
+  if (!info.available) {
+    return { ...entry, reason: info.hint };
+  }
+
+  const backend = `${info.backend} (${info.version})`;
+  const result = await executionService.execute(example.code, example.language, example.environment);
+  const output = result.output ?? '';
+  if (!result.success) {
+    return { ...entry, status: 'failing', backend, verifiedAt: lastVerifiedAt, reason: result.error || 'The example did not run', output: shorten(output) };
+  }
+
+  const normalization = { ...DEFAULT_OUTPUT_NORMALIZATION, ...defaults, ...example.outputNormalization };
+  let matches: boolean;
+  try {
+    matches = outputMatches(output, example.expectedOutput, normalization);
+  } catch (error) {
+    return { ...entry, status: 'failing', backend, verifiedAt: lastVerifiedAt, reason: `Invalid expected output pattern: ${(error as Error).message}` };
+  }
+  if (!matches) {
+    return { ...entry, status: 'failing', backend, verifiedAt: lastVerifiedAt, reason: 'Output differs from the expected output', output: shorten(output) };
+  }
+  return { ...entry, status: 'verified', backend, verifiedAt: entry.checkedAt };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const asJson = args.includes('--json');
+  const check = args.includes('--check');
+  const only = args.find(arg => arg.startsWith('--only='))?.slice('--only='.length).split(',').filter(Boolean);
+  const defaults: OutputNormalization = {
+    ...(args.includes('--ignore-case') && { ignoreCase: true }),
+    ...(args.includes('--collapse-whitespace') && { collapseWhitespace: true })
+  };
+
+  const examples = await codeExamplesService.getAllExamples();
+  const unknown = only?.filter(id => !examples.some(example => example.id === id)) ?? [];
+  if (unknown.length > 0) {
+    console.error(`❌ Unknown code examples: ${unknown.join(', ')}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const previous = readReport();
+  const results: Record<string, CodeExampleVerification> = {};
+  const checked: CodeExampleVerification[] = [];
+  for (const example of examples) {
+    if (only && !only.includes(example.id)) {
+      // Keep the last result of examples that were not checked this time
+      const kept = previous?.examples[example.id];
+      if (kept) {
+        results[example.id] = kept;
+      }
+      continue;
+    }
+    const result = await verifyExample(example, defaults, previous?.examples[example.id]);
+    results[example.id] = result;
+    checked.push(result);
+  }
+
+  const summary: Record<VerificationStatus, number> = { verified: 0, failing: 0, skipped: 0 };
+  Object.values(results).forEach(result => summary[result.status]++);
+  const report: CodeExampleVerificationReport = { generatedAt: new Date().toISOString(), summary, examples: results };
+
+  if (!check) {
+    fs.mkdirSync(path.dirname(REPORT_FILE), { recursive: true });
+    fs.writeFileSync(REPORT_FILE, JSON.stringify(report, null, 2) + '\n');
+  }
+
+  const failing = checked.filter(result => result.status === 'failing');
+  if (asJson) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    const icons: Record<VerificationStatus, string> = { verified: '✅', failing: '❌', skipped: '⏭️ ' };
+    checked.forEach(result => {
+      console.log(`${icons[result.status]} ${result.exampleId}${result.reason ? `  (${result.reason})` : ''}`);
+      if (result.status === 'failing' && result.output) {
+        console.log(result.output.trimEnd().split('\n').map(line => `     ${line}`).join('\n'));
+      }
+    });
+    const counts = { verified: 0, failing: 0, skipped: 0 };
+    checked.forEach(result => counts[result.status]++);
+    console.log(`\n📊 Checked ${checked.length} code examples: ${counts.verified} verified, ${counts.failing} failing, ${counts.skipped} skipped`);
+    if (!check) {
+      console.log(`📝 Report written to ${path.relative(PROJECT_ROOT, REPORT_FILE)}`);
+    }
+  }
+
+  process.exitCode = failing.length > 0 ? 1 : 0;
+}
+
+main().catch(error => {
+  console.error('❌ Verification failed:', error);
+  process.exitCode = 1;
+});
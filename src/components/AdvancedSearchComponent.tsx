@@ -1,12 +1,20 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Link, useNavigate, useSearchParams } from 'react-router-dom';
-import { useAdvancedSearch } from '../contexts/AdvancedSearchContext';
+import { useAdvancedSearch, SearchResult } from '../contexts/AdvancedSearchContext';
+import { QuerySyntaxError } from '../utils/searchQuery';
+import { stem } from '../utils/stemmer';
+import { useSubject } from '../contexts/SubjectContext';
+import { getSubjectById } from '../contentIndex';
 
 export const AdvancedSearchComponent: React.FC = () => {
   const {
     query,
     results,
+    codeExamples,
+    subjectFacets,
     filters,
+    queryErrors,
+    didYouMean,
     suggestions,
     searchHistory,
     analytics,
@@ -15,15 +23,20 @@ export const AdvancedSearchComponent: React.FC = () => {
     updateFilters,
     clearFilters,
     getSuggestions,
+    preloadSearchIndex,
     trackClick,
     getPopularQueries,
+    findMoreLikeThis,
   } = useAdvancedSearch();
+  const { currentSubject } = useSubject();
 
   const [localQuery, setLocalQuery] = useState('');
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
   const [activeSuggestionIndex, setActiveSuggestionIndex] = useState(-1);
+  // Similar articles shown under a result, by result url; null while loading
+  const [similarResults, setSimilarResults] = useState<Record<string, SearchResult[] | null>>({});
 
   const inputRef = useRef<HTMLInputElement>(null);
   const navigate = useNavigate();
@@ -106,16 +119,55 @@ export const AdvancedSearchComponent: React.FC = () => {
   };
 
   const handleResultClick = (result: any) => {
-    trackClick(query, result.path);
+    trackClick(query, result.url);
   };
 
+  const subjectTitle = (subjectId: string) => getSubjectById(subjectId)?.title ?? subjectId;
+
   const availableCategories = [...new Set(results.map(r => r.category))].sort();
   const popularQueries = getPopularQueries();
 
+  // Mark each error's range in the query; errors about something missing get a caret
+  const renderQueryErrors = (text: string, errors: QuerySyntaxError[]) => {
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    [...errors].sort((a, b) => a.start - b.start).forEach((error, index) => {
+      const start = Math.max(error.start, position);
+      parts.push(text.slice(position, start));
+      if (error.end > start) {
+        parts.push(
+          <mark key={index} className="bg-red-200 dark:bg-red-800 text-inherit rounded-sm">
+            {text.slice(start, error.end)}
+          </mark>
+        );
+      } else if (error.end === error.start) {
+        parts.push(<span key={index} className="text-red-600 dark:text-red-400 font-bold">‸</span>);
+      }
+      position = Math.max(position, error.end);
+    });
+    parts.push(text.slice(position));
+    return parts;
+  };
+
+  useEffect(() => {
+    setSimilarResults({});
+  }, [results]);
+
+  const toggleMoreLikeThis = async (result: SearchResult) => {
+    if (result.url in similarResults) {
+      setSimilarResults(({ [result.url]: _, ...rest }) => rest);
+      return;
+    }
+    setSimilarResults(prev => ({ ...prev, [result.url]: null }));
+    const similar = await findMoreLikeThis(result).catch(() => []);
+    setSimilarResults(prev => (result.url in prev ? { ...prev, [result.url]: similar } : prev));
+  };
+
   const formatResultContent = (content: string, matchedTerms: string[]) => {
     let formatted = content;
     matchedTerms.forEach(term => {
-      const regex = new RegExp(`(${term})`, 'gi');
+      // Highlight every word sharing the term's stem, e.g. "navigating" for "navigation"
+      const regex = new RegExp(`\\b(${stem(term)}\\w*)`, 'gi');
       formatted = formatted.replace(regex, '<mark class="bg-yellow-200 dark:bg-yellow-800">$1</mark>');
     });
     return { __html: formatted };
@@ -129,7 +181,7 @@ export const AdvancedSearchComponent: React.FC = () => {
           Advanced Search
         </h1>
         <p className="text-gray-600 dark:text-gray-400">
-          Find exactly what you're looking for in the Chromium knowledge base
+          Find exactly what you're looking for in {filters.allSubjects ? 'every subject' : currentSubject.title}
         </p>
       </div>
 
@@ -143,6 +195,7 @@ export const AdvancedSearchComponent: React.FC = () => {
             onChange={handleInputChange}
             onKeyDown={handleKeyDown}
             onFocus={() => {
+              preloadSearchIndex();
               if (localQuery.length > 1) {
                 setShowSuggestions(true);
               } else {
@@ -156,7 +209,7 @@ export const AdvancedSearchComponent: React.FC = () => {
                 setShowHistory(false);
               }, 200);
             }}
-            placeholder="Search for articles, concepts, or code examples..."
+            placeholder='Search articles, e.g. "site isolation" AND mojo -android tag:ipc'
             className="w-full pl-12 pr-24 py-4 text-lg border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
           />
           <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
@@ -189,6 +242,27 @@ export const AdvancedSearchComponent: React.FC = () => {
           </div>
         </div>
 
+        {/* Query Syntax Errors */}
+        {queryErrors.length > 0 && (
+          <div className="mt-2 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm" role="alert">
+            <code className="block mb-2 font-mono text-gray-800 dark:text-gray-200 whitespace-pre-wrap break-all">
+              {renderQueryErrors(query, queryErrors)}
+            </code>
+            <ul className="space-y-1 text-red-700 dark:text-red-300">
+              {queryErrors.map((error, index) => (
+                <li key={index}>
+                  {error.message} <span className="text-red-500 dark:text-red-400">(at {error.start + 1})</span>
+                </li>
+              ))}
+            </ul>
+            {results.length > 0 && (
+              <p className="mt-2 text-gray-600 dark:text-gray-400">
+                Showing results for the rest of the query.
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Suggestions Dropdown */}
         {(showSuggestions || showHistory) && (
           <div className="absolute z-50 w-full mt-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg max-h-80 overflow-y-auto">
@@ -271,6 +345,22 @@ export const AdvancedSearchComponent: React.FC = () => {
         )}
       </div>
 
+      {/* Search Scope */}
+      <div className="flex items-center justify-between mb-6 text-sm text-gray-600 dark:text-gray-400">
+        <span>
+          Searching {filters.allSubjects ? 'all subjects' : <>in <span className="font-medium text-gray-900 dark:text-white">{currentSubject.icon} {currentSubject.title}</span></>}
+        </span>
+        <label className="flex items-center cursor-pointer">
+          <input
+            type="checkbox"
+            checked={filters.allSubjects}
+            onChange={(e) => updateFilters({ allSubjects: e.target.checked, subjects: [] })}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <span className="ml-2">All subjects</span>
+        </label>
+      </div>
+
       {/* Filters */}
       {showFilters && (
         <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
@@ -363,6 +453,32 @@ export const AdvancedSearchComponent: React.FC = () => {
           </div>
         )}
 
+        {/* Subject Facets */}
+        {filters.allSubjects && subjectFacets.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-4">
+            {subjectFacets.map(({ subject, count }) => {
+              const selected = filters.subjects.includes(subject);
+              return (
+                <button
+                  key={subject}
+                  onClick={() => updateFilters({
+                    subjects: selected
+                      ? filters.subjects.filter(s => s !== subject)
+                      : [...filters.subjects, subject]
+                  })}
+                  className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                    selected
+                      ? 'bg-blue-600 text-white hover:bg-blue-700'
+                      : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {getSubjectById(subject)?.icon} {subjectTitle(subject)} ({count})
+                </button>
+              );
+            })}
+          </div>
+        )}
+
         {isLoading && (
           <div className="flex items-center justify-center py-12">
             <div className="flex items-center space-x-3 text-gray-600 dark:text-gray-400">
@@ -375,15 +491,28 @@ export const AdvancedSearchComponent: React.FC = () => {
           </div>
         )}
 
-        {!isLoading && query && results.length === 0 && (
+        {!isLoading && query && results.length === 0 && codeExamples.length === 0 && (
           <div className="text-center py-12">
             <div className="text-6xl mb-4">🔍</div>
             <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
               No results found
             </h3>
-            <p className="text-gray-600 dark:text-gray-400 mb-4">
-              Try adjusting your search terms or filters
-            </p>
+            {didYouMean ? (
+              <p className="text-gray-600 dark:text-gray-400 mb-4">
+                Did you mean{' '}
+                <button
+                  onClick={() => handleSuggestionClick({ text: didYouMean })}
+                  className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  {didYouMean}
+                </button>
+                ?
+              </p>
+            ) : (
+              <p className="text-gray-600 dark:text-gray-400 mb-4">
+                Try adjusting your search terms or filters
+              </p>
+            )}
             <div className="space-y-2">
               <p className="text-sm text-gray-500 dark:text-gray-500">Suggestions:</p>
               <ul className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
@@ -396,22 +525,54 @@ export const AdvancedSearchComponent: React.FC = () => {
           </div>
         )}
 
+        {!isLoading && codeExamples.length > 0 && (
+          <div className="mb-6">
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Code examples</h3>
+            <div className="grid gap-4 md:grid-cols-2">
+              {codeExamples.map(example => (
+                <Link
+                  key={example.id}
+                  to={example.url}
+                  onClick={() => handleResultClick(example)}
+                  className="block p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 hover:shadow-md transition-shadow"
+                >
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="font-medium text-blue-600 dark:text-blue-400">{example.title}</span>
+                    <span className="px-2 py-0.5 bg-gray-100 dark:bg-gray-700 rounded text-xs text-gray-600 dark:text-gray-300">
+                      {example.language}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 line-clamp-2 mb-2">{example.description}</p>
+                  <pre className="text-xs bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200 rounded p-2 overflow-hidden">
+                    <code>{example.excerpt}</code>
+                  </pre>
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+
         {!isLoading && results.length > 0 && (
           <div className="space-y-6">
             {results.map((result, index) => (
               <div
-                key={result.path}
+                key={result.url}
                 className="p-6 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 hover:shadow-md transition-shadow"
               >
                 <div className="flex items-start justify-between mb-3">
                   <Link
-                    to={`/${result.path}`}
+                    to={result.url}
                     onClick={() => handleResultClick(result)}
                     className="text-xl font-semibold text-blue-600 dark:text-blue-400 hover:underline"
                   >
                     {result.title}
                   </Link>
                   <div className="flex items-center space-x-2 text-xs text-gray-500 dark:text-gray-400">
+                    {filters.allSubjects && (
+                      <span className="px-2 py-1 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 rounded">
+                        {subjectTitle(result.subject)}
+                      </span>
+                    )}
                     <span className="px-2 py-1 bg-gray-100 dark:bg-gray-700 rounded">
                       {result.category.replace(/-/g, ' ')}
                     </span>
@@ -423,10 +584,32 @@ export const AdvancedSearchComponent: React.FC = () => {
                   className="text-gray-700 dark:text-gray-300 mb-3 leading-relaxed"
                   dangerouslySetInnerHTML={formatResultContent(result.snippet, result.matchedTerms)}
                 />
+
+                {result.sections.length > 0 && (
+                  <ul className="mb-3 ml-4 pl-4 border-l-2 border-gray-100 dark:border-gray-700 space-y-2">
+                    {result.sections.map(section => (
+                      <li key={section.url}>
+                        <Link
+                          to={section.url}
+                          onClick={() => handleResultClick(result)}
+                          className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          {section.heading}
+                        </Link>
+                        {section.excerpt && (
+                          <p
+                            className="text-sm text-gray-600 dark:text-gray-400 line-clamp-2"
+                            dangerouslySetInnerHTML={formatResultContent(section.excerpt, section.matchedTerms)}
+                          />
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
                 
                 <div className="flex items-center justify-between text-sm text-gray-500 dark:text-gray-400">
                   <div className="flex items-center space-x-4">
-                    <span>/{result.path}</span>
+                    <span>{result.url}</span>
                     {result.tags.length > 0 && (
                       <div className="flex items-center space-x-1">
                         <span>Tags:</span>
@@ -445,8 +628,41 @@ export const AdvancedSearchComponent: React.FC = () => {
                         {result.matchedTerms.length > 2 && ' +more'}
                       </span>
                     )}
+                    <button
+                      onClick={() => toggleMoreLikeThis(result)}
+                      className="text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      {result.url in similarResults ? 'Hide similar' : 'More like this'}
+                    </button>
                   </div>
                 </div>
+
+                {result.url in similarResults && (
+                  <div className="mt-4 pt-4 border-t border-gray-100 dark:border-gray-700">
+                    {similarResults[result.url] === null ? (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">Finding similar articles...</p>
+                    ) : similarResults[result.url]!.length === 0 ? (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">No similar articles found.</p>
+                    ) : (
+                      <ul className="space-y-2">
+                        {similarResults[result.url]!.map(similar => (
+                          <li key={similar.url} className="flex items-center justify-between text-sm">
+                            <Link
+                              to={similar.url}
+                              onClick={() => handleResultClick(similar)}
+                              className="text-blue-600 dark:text-blue-400 hover:underline"
+                            >
+                              {similar.title}
+                            </Link>
+                            <span className="text-xs text-gray-500 dark:text-gray-400">
+                              {Math.round(similar.relevanceScore * 100)}% similar
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -459,9 +675,20 @@ export const AdvancedSearchComponent: React.FC = () => {
               Advanced Search
             </h3>
             <p className="text-gray-600 dark:text-gray-400 mb-6">
-              Search through our comprehensive Chromium knowledge base with powerful filters and intelligent suggestions.
+              Search through the {filters.allSubjects ? 'whole' : currentSubject.title} knowledge base with powerful filters and intelligent suggestions.
             </p>
             
+            <div className="max-w-md mx-auto mb-6 text-left text-sm text-gray-600 dark:text-gray-400">
+              <h4 className="font-medium text-gray-700 dark:text-gray-300 mb-2">Search syntax</h4>
+              <ul className="space-y-1">
+                <li><code>"site isolation"</code> exact phrase</li>
+                <li><code>mojo AND ipc</code>, <code>mojo OR ipc</code>, <code>(a OR b) AND c</code> combine terms</li>
+                <li><code>-android</code> or <code>NOT android</code> exclude a term</li>
+                <li><code>tag:ipc</code>, <code>difficulty:advanced</code>, <code>path:architecture/*</code> narrow the results</li>
+                <li><code>lang:cpp</code> articles with C++ code, <code>in:code</code> match inside code blocks only</li>
+              </ul>
+            </div>
+
             {popularQueries.length > 0 && (
               <div className="max-w-md mx-auto">
                 <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
@@ -22,6 +22,7 @@ export const CMSDashboard: React.FC<CMSDashboardProps> = ({ className = '' }) =>
   const [contentAnalytics, setContentAnalytics] = useState<ContentAnalytics | null>(null);
   const [mediaStats, setMediaStats] = useState<MediaStats | null>(null);
   const [recentContent, setRecentContent] = useState<ContentItem[]>([]);
+  const [reviewQueue, setReviewQueue] = useState<ReturnType<typeof cmsService.getReviewQueue>>([]);
   const [selectedContent, setSelectedContent] = useState<{ type: string; id: string } | null>(null);
 
   // Check if user has CMS access
@@ -45,6 +46,7 @@ export const CMSDashboard: React.FC<CMSDashboardProps> = ({ className = '' }) =>
       setContentAnalytics(analytics);
       setMediaStats(media);
       setRecentContent(content.slice(0, 10)); // Show recent 10 items
+      setReviewQueue(cmsService.getReviewQueue(content));
     } catch (error) {
       addError({
         message: 'Failed to load CMS dashboard data',
@@ -203,6 +205,47 @@ export const CMSDashboard: React.FC<CMSDashboardProps> = ({ className = '' }) =>
         </div>
       )}
 
+      {/* Needs Review */}
+      {reviewQueue.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            🕑 Needs Review ({reviewQueue.length})
+          </h2>
+          <div className="space-y-3">
+            {reviewQueue.map((item) => (
+              <div
+                key={`${item.type}-${item.id}`}
+                className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg"
+              >
+                <div>
+                  <p className="font-medium text-gray-900 dark:text-white">
+                    {item.title}
+                  </p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {item.path} • review by {new Date(item.reviewBy!).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <span className={`px-2 py-1 text-xs rounded-full ${
+                    item.due === 'overdue'
+                      ? 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200'
+                      : 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200'
+                  }`}>
+                    {item.due === 'overdue' ? 'overdue' : 'due soon'}
+                  </span>
+                  <button
+                    onClick={() => handleEditContent(item.type, item.id)}
+                    className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+                  >
+                    Edit
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Recent Content */}
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
         <div className="flex justify-between items-center mb-4">
@@ -237,13 +280,22 @@ export const CMSDashboard: React.FC<CMSDashboardProps> = ({ className = '' }) =>
                 </div>
               </div>
               <div className="flex items-center space-x-2">
-                <span className={`px-2 py-1 text-xs rounded-full ${
-                  item.status === 'published' 
-                    ? 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200' 
-                    : 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200'
-                }`}>
-                  {item.status}
-                </span>
+                {cmsService.isScheduled(item) ? (
+                  <span
+                    className="px-2 py-1 text-xs rounded-full bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200"
+                    title={`Goes live ${new Date(item.publishAt!).toLocaleString()}`}
+                  >
+                    scheduled
+                  </span>
+                ) : (
+                  <span className={`px-2 py-1 text-xs rounded-full ${
+                    item.status === 'published' 
+                      ? 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200' 
+                      : 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200'
+                  }`}>
+                    {item.status}
+                  </span>
+                )}
                 <button
                   onClick={() => handleEditContent(item.type, item.id)}
                   className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
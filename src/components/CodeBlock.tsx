@@ -2,8 +2,11 @@ import React, { useState } from 'react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus, vs } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import { useTheme } from '../contexts/ThemeContext';
+import { registerPrismLanguages } from '../utils/prismLanguages';
 import MermaidDiagram from './MermaidDiagram';
 
+registerPrismLanguages();
+
 interface CodeBlockProps {
   children: string;
   className?: string;
@@ -4,15 +4,20 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import { useCodeExamples, useCodeExampleCollections } from '../hooks/useCodeExamples';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useCodeExamples, useCodeExampleCollections, useCodeExampleVerification } from '../hooks/useCodeExamples';
+import { codeExamplesService } from '../services/CodeExamplesService';
 import { 
   CodeExample, 
   CodeExampleSearchFilters, 
   CodeExampleCollection,
   ProgrammingLanguage,
   DifficultyLevel,
-  CodeExampleCategory 
+  CodeExampleCategory,
+  CodeExecutionResult,
+  ExecutionEnvironmentInfo
 } from '../types/CodeExampleTypes';
+import { CodeExampleVerification } from '../utils/exampleVerification';
 
 const CodeExamplesRepository: React.FC = () => {
   const [selectedExample, setSelectedExample] = useState<CodeExample | null>(null);
@@ -20,6 +25,9 @@ const CodeExamplesRepository: React.FC = () => {
   const [showFilters, setShowFilters] = useState(false);
   const [filteredExamples, setFilteredExamples] = useState<CodeExample[]>([]);
   const [isCollectionFiltered, setIsCollectionFiltered] = useState(false);
+  // Search results link to an example as ?example=<id>
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedExampleId = searchParams.get('example');
 
   const {
     examples,
@@ -36,6 +44,7 @@ const CodeExamplesRepository: React.FC = () => {
     rateExample,
     bookmarkExample,
     shareExample,
+    getExample,
     getPopularExamples
   } = useCodeExamples({
     autoSearch: true,
@@ -43,6 +52,8 @@ const CodeExamplesRepository: React.FC = () => {
     cacheResults: true
   });
 
+  const { getVerification } = useCodeExampleVerification();
+
   const [popularExamples, setPopularExamples] = useState<CodeExample[]>([]);
 
   useEffect(() => {
@@ -53,6 +64,19 @@ const CodeExamplesRepository: React.FC = () => {
     loadPopular();
   }, [getPopularExamples]);
 
+  useEffect(() => {
+    if (linkedExampleId) {
+      getExample(linkedExampleId).then(example => setSelectedExample(example));
+    }
+  }, [linkedExampleId]);
+
+  const closeExample = () => {
+    setSelectedExample(null);
+    if (linkedExampleId) {
+      setSearchParams({});
+    }
+  };
+
   const handleSearch = (query: string) => {
     search(query);
   };
@@ -69,7 +93,8 @@ const CodeExamplesRepository: React.FC = () => {
     return (
       <CodeExampleViewer
         example={selectedExample}
-        onClose={() => setSelectedExample(null)}
+        verification={getVerification(selectedExample)}
+        onClose={closeExample}
         onExecute={executeExample}
         onRate={rateExample}
         onBookmark={bookmarkExample}
@@ -188,6 +213,7 @@ const CodeExamplesRepository: React.FC = () => {
               <ExamplesGrid 
                 examples={isCollectionFiltered ? filteredExamples : examples}
                 viewMode={viewMode}
+                getVerification={getVerification}
                 onExampleSelect={handleExampleSelect}
                 onExecute={executeExample}
                 onRate={rateExample}
@@ -513,6 +539,7 @@ const RecommendationsPanel: React.FC<RecommendationsPanelProps> = ({ recommendat
 interface ExamplesGridProps {
   examples: CodeExample[];
   viewMode: 'grid' | 'list';
+  getVerification: (example: CodeExample) => CodeExampleVerification | null;
   onExampleSelect: (example: CodeExample) => void;
   onExecute: (id: string) => Promise<any>;
   onRate: (id: string, rating: number) => Promise<boolean>;
@@ -523,6 +550,7 @@ interface ExamplesGridProps {
 const ExamplesGrid: React.FC<ExamplesGridProps> = ({ 
   examples, 
   viewMode, 
+  getVerification,
   onExampleSelect,
   onExecute,
   onRate,
@@ -550,6 +578,7 @@ const ExamplesGrid: React.FC<ExamplesGridProps> = ({
           key={example.id}
           example={example}
           viewMode={viewMode}
+          verification={getVerification(example)}
           onSelect={() => onExampleSelect(example)}
           onExecute={() => onExecute(example.id)}
           onRate={(rating) => onRate(example.id, rating)}
@@ -561,10 +590,39 @@ const ExamplesGrid: React.FC<ExamplesGridProps> = ({
   );
 };
 
+// Verification badge, from the last `npm run verify:examples`
+const VerificationBadge: React.FC<{ verification: CodeExampleVerification | null }> = ({ verification }) => {
+  if (!verification || verification.status === 'skipped') {
+    return null;
+  }
+
+  if (verification.status === 'verified') {
+    return (
+      <span
+        className="px-2 py-1 text-xs rounded-full bg-emerald-100 text-emerald-800 dark:bg-emerald-900 dark:text-emerald-200"
+        title={verification.backend ? `Output checked with ${verification.backend}` : undefined}
+      >
+        ✓ Verified on {new Date(verification.verifiedAt ?? verification.checkedAt).toLocaleDateString()}
+      </span>
+    );
+  }
+
+  const lastVerified = verification.verifiedAt ? `\nLast verified on ${new Date(verification.verifiedAt).toLocaleDateString()}` : '';
+  return (
+    <span
+      className="px-2 py-1 text-xs rounded-full bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"
+      title={`${verification.reason ?? 'Output differs from the expected output'}${lastVerified}`}
+    >
+      ✗ Failing
+    </span>
+  );
+};
+
 // Code Example Card Component
 interface CodeExampleCardProps {
   example: CodeExample;
   viewMode: 'grid' | 'list';
+  verification: CodeExampleVerification | null;
   onSelect: () => void;
   onExecute: () => void;
   onRate: (rating: number) => void;
@@ -575,6 +633,7 @@ interface CodeExampleCardProps {
 const CodeExampleCard: React.FC<CodeExampleCardProps> = ({
   example,
   viewMode,
+  verification,
   onSelect,
   onExecute,
   onRate,
@@ -626,6 +685,7 @@ const CodeExampleCard: React.FC<CodeExampleCardProps> = ({
               Runnable
             </span>
           )}
+          <VerificationBadge verification={verification} />
         </div>
 
         {viewMode === 'grid' && isExpanded && (
@@ -683,6 +743,7 @@ const CodeExampleCard: React.FC<CodeExampleCardProps> = ({
 // Code Example Viewer Component
 interface CodeExampleViewerProps {
   example: CodeExample;
+  verification: CodeExampleVerification | null;
   onClose: () => void;
   onExecute: (id: string, code?: string) => Promise<any>;
   onRate: (id: string, rating: number) => Promise<boolean>;
@@ -692,6 +753,7 @@ interface CodeExampleViewerProps {
 
 const CodeExampleViewer: React.FC<CodeExampleViewerProps> = ({
   example,
+  verification,
   onClose,
   onExecute,
   onRate,
@@ -699,8 +761,20 @@ const CodeExampleViewer: React.FC<CodeExampleViewerProps> = ({
   onShare
 }) => {
   const [code, setCode] = useState(example.code);
-  const [executionResult, setExecutionResult] = useState<any>(null);
+  const [executionResult, setExecutionResult] = useState<CodeExecutionResult | null>(null);
   const [isExecuting, setIsExecuting] = useState(false);
+  const [executionInfo, setExecutionInfo] = useState<ExecutionEnvironmentInfo | null>(null);
+
+  useEffect(() => {
+    if (!example.runnable) return;
+    let cancelled = false;
+    codeExamplesService.executionService.getEnvironmentInfo(example.environment, example.language).then(info => {
+      if (!cancelled) setExecutionInfo(info);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [example]);
 
   const handleExecute = async () => {
     setIsExecuting(true);
@@ -721,12 +795,28 @@ const CodeExampleViewer: React.FC<CodeExampleViewerProps> = ({
           {/* Header */}
           <div className="flex items-center justify-between mb-6">
             <div>
-              <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
-                {example.title}
-              </h2>
+              <div className="flex items-center gap-3">
+                <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+                  {example.title}
+                </h2>
+                <VerificationBadge verification={verification} />
+              </div>
               <p className="text-gray-600 dark:text-gray-400 mt-1">
                 {example.description}
               </p>
+              {example.relatedArticles.length > 0 && (
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                  From{' '}
+                  {example.relatedArticles.map((articlePath, index) => (
+                    <React.Fragment key={articlePath}>
+                      {index > 0 && ', '}
+                      <Link to={articlePath} className="text-blue-600 dark:text-blue-400 hover:underline">
+                        {articlePath.split('/').pop()?.replace(/[-_]/g, ' ')}
+                      </Link>
+                    </React.Fragment>
+                  ))}
+                </p>
+              )}
             </div>
             <button
               onClick={onClose}
@@ -743,6 +833,14 @@ const CodeExampleViewer: React.FC<CodeExampleViewerProps> = ({
             <div>
               <div className="flex items-center justify-between mb-4">
                 <h3 className="font-semibold text-gray-900 dark:text-white">Code</h3>
+                {executionInfo && (
+                  <span
+                    className={`text-xs ${executionInfo.available ? 'text-gray-500 dark:text-gray-400' : 'text-yellow-600 dark:text-yellow-400'}`}
+                    title={executionInfo.version}
+                  >
+                    {executionInfo.available ? `Runs in: ${executionInfo.backend}` : executionInfo.hint}
+                  </span>
+                )}
                 {example.runnable && (
                   <button
                     onClick={handleExecute}
@@ -767,15 +865,26 @@ const CodeExampleViewer: React.FC<CodeExampleViewerProps> = ({
                 {executionResult ? (
                   <div>
                     {executionResult.success ? (
-                      <div>
-                        <div className="text-green-600 font-medium mb-2">✓ Execution successful</div>
-                        <pre className="text-sm">{executionResult.output}</pre>
-                      </div>
+                      <div className="text-green-600 font-medium mb-2">✓ Execution successful</div>
                     ) : (
-                      <div>
-                        <div className="text-red-600 font-medium mb-2">✗ Execution failed</div>
-                        <pre className="text-sm text-red-600">{executionResult.error}</pre>
-                      </div>
+                      <div className="text-red-600 font-medium mb-2">✗ Execution failed</div>
+                    )}
+                    {executionResult.output && (
+                      <pre className="text-sm whitespace-pre-wrap">{executionResult.output}</pre>
+                    )}
+                    {executionResult.returnValue !== undefined && (
+                      <pre className="text-sm text-gray-500 dark:text-gray-400">{`=> ${executionResult.returnValue}`}</pre>
+                    )}
+                    {executionResult.error && (
+                      <pre className="text-sm text-red-600 whitespace-pre-wrap">{executionResult.error}</pre>
+                    )}
+                    {executionResult.warnings?.map((warning, index) => (
+                      <p key={index} className="text-sm text-yellow-600 mt-1">{warning}</p>
+                    ))}
+                    {executionResult.executionTime !== undefined && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                        {executionResult.executionTime.toFixed(1)} ms
+                      </p>
                     )}
                   </div>
                 ) : (
@@ -0,0 +1,141 @@
+/**
+ * Collaborative Textarea
+ * Markdown textarea of a collaborative session, showing the cursors and
+ * selections of the other participants over the text and keeping the
+ * local selection in place when their edits arrive.
+ */
+
+import React, { useLayoutEffect, useRef } from 'react';
+import { CursorPosition, SessionParticipant } from '../types/VersioningTypes';
+
+const CURSOR_COLORS = ['#e11d48', '#2563eb', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#65a30d'];
+
+/**
+ * A participant's color, the same on every page
+ */
+export const participantColor = (connectionId: string): string => {
+  let hash = 0;
+  for (const char of connectionId) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return CURSOR_COLORS[Math.abs(hash) % CURSOR_COLORS.length];
+};
+
+interface CollaborativeTextareaProps {
+  value: string;
+  onChange: (value: string, selection: { start: number; end: number }) => void;
+  onSelectionChange: (start: number, end: number) => void;
+  /** Cursors of the other participants */
+  cursors: CursorPosition[];
+  participants: SessionParticipant[];
+  /** Set after others' edits moved the local selection */
+  localSelection: { start: number; end: number } | null;
+  readOnly?: boolean;
+  className?: string;
+}
+
+const CollaborativeTextarea: React.FC<CollaborativeTextareaProps> = ({
+  value,
+  onChange,
+  onSelectionChange,
+  cursors,
+  participants,
+  localSelection,
+  readOnly,
+  className = ''
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+
+  // Setting the value moves the caret to the end; put it back where it belongs
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (textarea && localSelection && document.activeElement === textarea) {
+      textarea.setSelectionRange(localSelection.start, localSelection.end);
+    }
+  }, [localSelection]);
+
+  const syncScroll = () => {
+    if (overlayRef.current && textareaRef.current) {
+      overlayRef.current.scrollTop = textareaRef.current.scrollTop;
+    }
+  };
+
+  const reportSelection = () => {
+    const textarea = textareaRef.current;
+    if (textarea) {
+      onSelectionChange(textarea.selectionStart, textarea.selectionEnd);
+    }
+  };
+
+  const nameOf = (cursor: CursorPosition) =>
+    participants.find(p => p.connectionId === cursor.connectionId)?.name ?? cursor.userId;
+
+  // Cut the text at every cursor and selection end, then mark each piece
+  const boundaries = new Set([0, value.length]);
+  cursors.forEach(cursor => {
+    boundaries.add(Math.min(cursor.position, value.length));
+    if (cursor.selection) {
+      boundaries.add(Math.min(cursor.selection.start, value.length));
+      boundaries.add(Math.min(cursor.selection.end, value.length));
+    }
+  });
+  const cuts = [...boundaries].sort((a, b) => a - b);
+  const pieces: React.ReactNode[] = [];
+  cuts.forEach((at, index) => {
+    cursors
+      .filter(cursor => Math.min(cursor.position, value.length) === at)
+      .forEach(cursor => {
+        const color = participantColor(cursor.connectionId ?? cursor.userId);
+        pieces.push(
+          <span key={`cursor-${cursor.connectionId}`} className="relative" style={{ borderLeft: `2px solid ${color}`, marginLeft: -1, marginRight: -1 }}>
+            <span
+              className="absolute left-0 -top-4 px-1 rounded text-[10px] leading-4 text-white whitespace-nowrap"
+              style={{ backgroundColor: color }}
+            >
+              {nameOf(cursor)}
+            </span>
+          </span>
+        );
+      });
+    const end = cuts[index + 1];
+    if (end === undefined) {
+      return;
+    }
+    const selecting = cursors.find(cursor => cursor.selection && cursor.selection.start <= at && cursor.selection.end >= end);
+    pieces.push(
+      <span
+        key={`text-${at}`}
+        style={selecting ? { backgroundColor: `${participantColor(selecting.connectionId ?? selecting.userId)}33` } : undefined}
+      >
+        {value.slice(at, end)}
+      </span>
+    );
+  });
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        readOnly={readOnly}
+        onChange={(e) => onChange(e.target.value, { start: e.target.selectionStart, end: e.target.selectionEnd })}
+        onSelect={reportSelection}
+        onScroll={syncScroll}
+        className={`w-full h-96 p-4 border border-gray-300 rounded-lg font-mono text-sm resize-vertical focus:ring-2 focus:ring-blue-500 focus:border-transparent ${className}`}
+        placeholder="Enter content here..."
+      />
+      <div
+        ref={overlayRef}
+        aria-hidden="true"
+        className="absolute inset-0 p-4 border border-transparent rounded-lg font-mono text-sm whitespace-pre-wrap break-words overflow-hidden pointer-events-none text-transparent"
+      >
+        {pieces}
+        {/* Keeps a trailing newline's empty line, as the textarea shows it */}
+        {'\u200b'}
+      </div>
+    </div>
+  );
+};
+
+export default CollaborativeTextarea;
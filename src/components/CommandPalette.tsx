@@ -0,0 +1,279 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { useBookmarks } from '../contexts/BookmarkContext';
+import { useProgress } from '../contexts/ProgressContext';
+import { useSubject } from '../contexts/SubjectContext';
+import { useTheme } from '../contexts/ThemeContext';
+import { ContentNode } from '../contentIndex';
+import { fuzzyMatch } from '../utils/fuzzyMatch';
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type PaletteGroup = 'Recent' | 'Bookmarks' | 'Articles' | 'Actions';
+
+interface PaletteItem {
+  id: string;
+  group: PaletteGroup;
+  title: string;
+  /** Where the item lives or what it does, shown after the title */
+  detail?: string;
+  run: () => void;
+}
+
+interface RankedItem extends PaletteItem {
+  score: number;
+  /** Matched characters of the title */
+  positions: number[];
+}
+
+const GROUP_ORDER: PaletteGroup[] = ['Recent', 'Bookmarks', 'Articles', 'Actions'];
+
+/** Items listed per group */
+const GROUP_LIMITS: Record<PaletteGroup, number> = { Recent: 5, Bookmarks: 5, Articles: 8, Actions: 8 };
+
+// Every article in a subject tree, with the titles of the sections above it
+const flattenArticles = (nodes: ContentNode[], trail: string[] = []): Array<{ title: string; path: string; trail: string[] }> =>
+  nodes.flatMap(node => [
+    ...(node.path ? [{ title: node.title, path: node.path, trail }] : []),
+    ...flattenArticles(node.children ?? [], [...trail, node.title])
+  ]);
+
+const HighlightedTitle: React.FC<{ text: string; positions: number[] }> = ({ text, positions }) => {
+  const matched = new Set(positions);
+  return (
+    <>
+      {[...text].map((char, index) => (
+        matched.has(index) ? <mark key={index} className="bg-transparent font-semibold text-blue-600 dark:text-blue-400">{char}</mark> : char
+      ))}
+    </>
+  );
+};
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onClose }) => {
+  const navigate = useNavigate();
+  const { hasRole, isAuthenticated } = useAuth();
+  const { bookmarks } = useBookmarks();
+  const { readingProgress } = useProgress();
+  const { subjects, currentSubject, switchToSubject } = useSubject();
+  const { theme, setTheme, isDark } = useTheme();
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setActiveIndex(0);
+      inputRef.current?.focus();
+    }
+  }, [isOpen]);
+
+  const isAdmin = hasRole('Admin');
+  const visibleSubjects = useMemo(() => subjects.filter(s => !s.adminOnly || isAdmin), [subjects, isAdmin]);
+
+  const articles = useMemo((): PaletteItem[] => visibleSubjects.flatMap(subject =>
+    flattenArticles(subject.contentIndex).map(({ title, path, trail }) => ({
+      id: `article:${subject.id}/${path}`,
+      group: 'Articles' as const,
+      title,
+      detail: [subject.title, ...trail].join(' › '),
+      run: () => navigate(`/${subject.id}/${path}`)
+    }))
+  ), [visibleSubjects, navigate]);
+
+  const items = useMemo((): PaletteItem[] => {
+    const recent = [...readingProgress]
+      .sort((a, b) => new Date(b.lastVisited).getTime() - new Date(a.lastVisited).getTime())
+      .map((article): PaletteItem => ({
+        id: `recent:${article.path}`,
+        group: 'Recent',
+        title: article.title,
+        detail: article.completed ? 'Completed' : `${Math.round(article.progress)}% read`,
+        run: () => navigate(`/${article.path}`)
+      }));
+
+    const bookmarked = bookmarks.map((bookmark): PaletteItem => ({
+      id: `bookmark:${bookmark.id}`,
+      group: 'Bookmarks',
+      title: bookmark.title,
+      detail: bookmark.category,
+      run: () => navigate(bookmark.anchor ? `${bookmark.url}#${bookmark.anchor}` : bookmark.url)
+    }));
+
+    const actions: PaletteItem[] = [
+      ...visibleSubjects
+        .filter(subject => subject.id !== currentSubject.id)
+        .map((subject): PaletteItem => ({
+          id: `subject:${subject.id}`,
+          group: 'Actions',
+          title: `Switch to ${subject.title}`,
+          detail: subject.icon,
+          run: () => switchToSubject(subject.id)
+        })),
+      {
+        id: 'action:theme',
+        group: 'Actions',
+        title: `Switch to ${isDark ? 'light' : 'dark'} theme`,
+        detail: `Theme: ${theme}`,
+        run: () => setTheme(isDark ? 'light' : 'dark')
+      },
+      { id: 'action:search', group: 'Actions', title: 'Open advanced search', run: () => navigate('/search') },
+      { id: 'action:cms', group: 'Actions', title: 'Open CMS', detail: 'Content Management System', run: () => navigate('/cms') }
+    ];
+    if (isAuthenticated) {
+      actions.push({ id: 'action:progress', group: 'Actions', title: 'Open learning progress', run: () => navigate('/progress') });
+    }
+    if (isAdmin) {
+      actions.push({ id: 'action:omaha', group: 'Actions', title: 'Open Omaha admin', detail: 'Update server management', run: () => navigate('/admin/omaha') });
+      actions.push({ id: 'action:search-insights', group: 'Actions', title: 'Open search insights', detail: 'Zero-result queries and synonyms', run: () => navigate('/admin/search') });
+    }
+
+    return [...recent, ...bookmarked, ...articles, ...actions];
+  }, [readingProgress, bookmarks, articles, visibleSubjects, currentSubject, theme, isDark, isAuthenticated, isAdmin, navigate, switchToSubject, setTheme]);
+
+  // Without a query: recent items, bookmarks and actions. With one: the best matches of every group.
+  const ranked = useMemo((): RankedItem[] => {
+    const trimmed = query.trim();
+    const matches = items
+      .filter(item => trimmed || item.group !== 'Articles')
+      .map(item => {
+        const match = fuzzyMatch(trimmed, item.title);
+        return match ? { ...item, ...match } : null;
+      })
+      .filter((item): item is RankedItem => item !== null);
+
+    const grouped = GROUP_ORDER.flatMap(group => matches
+      .filter(item => item.group === group)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, GROUP_LIMITS[group]));
+    if (trimmed) {
+      grouped.push({
+        id: 'action:search-query',
+        group: 'Actions',
+        title: `Search articles for "${trimmed}"`,
+        run: () => navigate(`/search?q=${encodeURIComponent(trimmed)}`),
+        score: 0,
+        positions: []
+      });
+    }
+    return grouped;
+  }, [items, query, navigate]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector('[aria-selected="true"]')?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const runItem = (item: PaletteItem) => {
+    onClose();
+    item.run();
+  };
+
+  const moveActive = (step: number) => {
+    if (ranked.length > 0) {
+      setActiveIndex(index => (index + step + ranked.length) % ranked.length);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        moveActive(1);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        moveActive(-1);
+        break;
+      // Focus stays in the input; Tab walks the list instead of leaving the dialog
+      case 'Tab':
+        e.preventDefault();
+        moveActive(e.shiftKey ? -1 : 1);
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (ranked[activeIndex]) {
+          runItem(ranked[activeIndex]);
+        }
+        break;
+      case 'Escape':
+        e.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center pt-[15vh] px-4" role="dialog" aria-modal="true" aria-label="Command palette">
+      <div className="fixed inset-0 bg-gray-900 bg-opacity-50" onClick={onClose} />
+
+      <div className="relative w-full max-w-xl bg-white dark:bg-gray-800 text-gray-900 dark:text-white rounded-lg shadow-2xl overflow-hidden">
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Jump to an article, bookmark or action..."
+          className="w-full px-4 py-3 text-base bg-transparent border-b border-gray-200 dark:border-gray-700 focus:outline-none"
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-palette-list"
+          aria-activedescendant={ranked[activeIndex] ? `command-palette-${activeIndex}` : undefined}
+        />
+
+        {ranked.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">Nothing matches "{query}"</p>
+        ) : (
+          <ul ref={listRef} id="command-palette-list" role="listbox" className="max-h-80 overflow-y-auto py-2">
+            {ranked.map((item, index) => (
+              <React.Fragment key={item.id}>
+                {(index === 0 || ranked[index - 1].group !== item.group) && (
+                  <li role="presentation" className="px-4 pt-2 pb-1 text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                    {item.group}
+                  </li>
+                )}
+                <li
+                  id={`command-palette-${index}`}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  onMouseMove={() => setActiveIndex(index)}
+                  onMouseDown={e => e.preventDefault()}
+                  onClick={() => runItem(item)}
+                  className={`flex items-center justify-between px-4 py-2 cursor-pointer text-sm ${
+                    index === activeIndex ? 'bg-blue-50 dark:bg-gray-700' : ''
+                  }`}
+                >
+                  <span className="truncate">
+                    <HighlightedTitle text={item.title} positions={item.positions} />
+                  </span>
+                  {item.detail && (
+                    <span className="ml-4 flex-shrink-0 max-w-[50%] truncate text-xs text-gray-500 dark:text-gray-400">{item.detail}</span>
+                  )}
+                </li>
+              </React.Fragment>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex items-center justify-end space-x-4 px-4 py-2 text-xs text-gray-500 dark:text-gray-400 border-t border-gray-200 dark:border-gray-700">
+          <span><kbd>↑</kbd> <kbd>↓</kbd> to navigate</span>
+          <span><kbd>Enter</kbd> to open</span>
+          <span><kbd>Esc</kbd> to close</span>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useError } from '../contexts/ErrorContext';
 import { useLoading } from '../contexts/LoadingContext';
 import { cmsService, ContentDetails, CreateContentRequest, UpdateContentRequest } from '../services/cmsService';
+import { parseFrontmatter } from '../utils/frontmatter';
+import { validateFrontmatterData, FrontmatterViolation } from '../utils/frontmatterSchema';
 
 interface ContentEditorProps {
   contentType: string;
@@ -9,6 +11,13 @@ interface ContentEditorProps {
   onClose: () => void;
 }
 
+// ISO date as a `datetime-local` value in the editor's time zone
+const toDateTimeInput = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
 export const ContentEditor: React.FC<ContentEditorProps> = ({
   contentType,
   contentId,
@@ -23,9 +32,38 @@ export const ContentEditor: React.FC<ContentEditorProps> = ({
     content: '',
     category: '',
     tags: [] as string[],
-    metadata: {} as Record<string, any>
+    metadata: {} as Record<string, any>,
+    // Local `datetime-local` and `date` input values
+    publishAt: '',
+    reviewBy: ''
   });
   const [tagInput, setTagInput] = useState('');
+  const [contentPath, setContentPath] = useState('');
+
+  // Articles are validated against the same frontmatter schema as
+  // `npm run lint:content`; form fields take precedence over the block in the body.
+  const frontmatterViolations = useMemo<FrontmatterViolation[]>(() => {
+    if (contentType !== 'article') {
+      return [];
+    }
+
+    const { frontmatter, error } = parseFrontmatter(formData.content);
+    if (error) {
+      return [{ field: 'frontmatter', severity: 'error', message: `invalid YAML: ${error}` }];
+    }
+
+    return validateFrontmatterData({
+      ...frontmatter,
+      title: formData.title || frontmatter.title,
+      description: formData.metadata.description || frontmatter.description,
+      category: formData.category || frontmatter.category,
+      tags: formData.tags.length > 0 ? formData.tags : frontmatter.tags,
+      difficulty: formData.metadata.difficulty || frontmatter.difficulty,
+      estimated_reading_time: formData.metadata.estimatedReadingTime ?? frontmatter.estimated_reading_time
+    }, { subject: contentPath.split('/')[0] || undefined });
+  }, [contentType, contentPath, formData]);
+
+  const frontmatterErrors = frontmatterViolations.filter(v => v.severity === 'error');
 
   useEffect(() => {
     if (!isNew) {
@@ -42,8 +80,11 @@ export const ContentEditor: React.FC<ContentEditorProps> = ({
         content: content.content,
         category: content.category,
         tags: content.tags,
-        metadata: content.metadata
+        metadata: content.metadata,
+        publishAt: toDateTimeInput(content.publishAt),
+        reviewBy: content.reviewBy ? content.reviewBy.slice(0, 10) : ''
       });
+      setContentPath(content.path);
     } catch (error) {
       addError({
         message: 'Failed to load content for editing',
@@ -68,10 +109,25 @@ export const ContentEditor: React.FC<ContentEditorProps> = ({
       return;
     }
 
+    if (frontmatterErrors.length > 0) {
+      addError({
+        message: `Fix ${frontmatterErrors.length} frontmatter problem${frontmatterErrors.length === 1 ? '' : 's'} before saving`,
+        details: frontmatterErrors.map(v => v.message).join('\n'),
+        type: 'validation',
+        severity: 'low'
+      });
+      return;
+    }
+
     const loadingId = addLoading({ 
       message: isNew ? 'Creating content...' : 'Updating content...' 
     });
     
+    const schedule = {
+      publishAt: formData.publishAt ? new Date(formData.publishAt).toISOString() : undefined,
+      reviewBy: formData.reviewBy || undefined
+    };
+
     try {
       if (isNew) {
         const request: CreateContentRequest = {
@@ -79,7 +135,8 @@ export const ContentEditor: React.FC<ContentEditorProps> = ({
           content: formData.content,
           category: formData.category,
           tags: formData.tags,
-          metadata: formData.metadata
+          metadata: formData.metadata,
+          ...schedule
         };
         await cmsService.createContent(contentType, request);
       } else {
@@ -88,7 +145,8 @@ export const ContentEditor: React.FC<ContentEditorProps> = ({
           content: formData.content,
           category: formData.category,
           tags: formData.tags,
-          metadata: formData.metadata
+          metadata: formData.metadata,
+          ...schedule
         };
         await cmsService.updateContent(contentType, contentId, request);
       }
@@ -167,6 +225,31 @@ export const ContentEditor: React.FC<ContentEditorProps> = ({
       {/* Editor Form */}
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
         <div className="space-y-6">
+          {/* Frontmatter Validation */}
+          {frontmatterViolations.length > 0 && (
+            <div className={`rounded-lg border p-4 ${
+              frontmatterErrors.length > 0
+                ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
+                : 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800'
+            }`}>
+              <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-2">
+                Frontmatter {frontmatterErrors.length > 0 ? 'errors' : 'warnings'}
+              </h3>
+              <ul className="text-sm space-y-1">
+                {frontmatterViolations.map((violation, index) => (
+                  <li
+                    key={`${violation.field}-${index}`}
+                    className={violation.severity === 'error'
+                      ? 'text-red-700 dark:text-red-300'
+                      : 'text-yellow-700 dark:text-yellow-300'}
+                  >
+                    {violation.severity === 'error' ? '❌' : '⚠️'} {violation.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Title */}
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -195,6 +278,38 @@ export const ContentEditor: React.FC<ContentEditorProps> = ({
             />
           </div>
 
+          {/* Schedule */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Publish At
+              </label>
+              <input
+                type="datetime-local"
+                value={formData.publishAt}
+                onChange={(e) => setFormData({ ...formData, publishAt: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Leave empty to publish immediately
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Review By
+              </label>
+              <input
+                type="date"
+                value={formData.reviewBy}
+                onChange={(e) => setFormData({ ...formData, reviewBy: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Listed under Needs Review on the dashboard as the date nears
+              </p>
+            </div>
+          </div>
+
           {/* Tags */}
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -250,6 +365,44 @@ export const ContentEditor: React.FC<ContentEditorProps> = ({
             </div>
           )}
 
+          {contentType === 'article' && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Difficulty *
+                </label>
+                <select
+                  value={formData.metadata.difficulty || ''}
+                  onChange={(e) => handleMetadataChange('difficulty', e.target.value || undefined)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Select difficulty...</option>
+                  <option value="beginner">Beginner</option>
+                  <option value="intermediate">Intermediate</option>
+                  <option value="advanced">Advanced</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Estimated Reading Time (minutes)
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={formData.metadata.estimatedReadingTime ?? ''}
+                  onChange={(e) => handleMetadataChange(
+                    'estimatedReadingTime',
+                    e.target.value === '' ? undefined : Number(e.target.value)
+                  )}
+                  placeholder="e.g., 10"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+          )}
+
           {contentType === 'code-example' && (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
@@ -5,16 +5,28 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import VersionHistoryView from '../components/VersionHistoryView';
+import CollaborativeTextarea, { participantColor } from './CollaborativeTextarea';
 import { useVersioning } from '../hooks/useVersioning';
-import { ContentVersion, VersionAuthor } from '../types/VersioningTypes';
+import { CollaborativeSession, ContentVersion, VersionAuthor } from '../types/VersioningTypes';
+import { versioningService } from '../services/ContentVersioningService';
+import { isScheduled, reviewDue } from '../utils/contentSchedule';
+
+// Value of a date input, or '' for none
+const toDateInput = (date?: Date) => (date ? new Date(date).toISOString().slice(0, 10) : '');
 
 const ContentVersioningPage: React.FC = () => {
   const { contentPath } = useParams<{ contentPath: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Set to view the article as of a git commit
+  const commitHash = searchParams.get('commit');
+  const [commitVersion, setCommitVersion] = useState<ContentVersion | null>(null);
   const [selectedView, setSelectedView] = useState<'editor' | 'history' | 'analytics'>('editor');
   const [isEditing, setIsEditing] = useState(false);
+  // Local date and time to schedule publishing for, from a datetime-local input
+  const [publishAt, setPublishAt] = useState('');
 
   // Decode content path from URL
   const decodedContentPath = contentPath ? decodeURIComponent(contentPath) : '/content/architecture/overview.md';
@@ -35,7 +47,14 @@ const ContentVersioningPage: React.FC = () => {
     startCollaboration,
     endCollaboration,
     collaborators,
+    updateCursor,
+    localSelection,
+    collaborationHub,
     publishVersion,
+    unschedulePublish,
+    setReviewBy,
+    requestReview,
+    requiresReview,
     rollbackToVersion,
     createBranch,
     getVersioningAnalytics
@@ -56,21 +75,32 @@ const ContentVersioningPage: React.FC = () => {
   });
 
   const [analytics, setAnalytics] = useState<any>(null);
+  const storage = versioningService.getStorage();
 
   useEffect(() => {
     if (selectedView === 'analytics') {
-      const analyticsData = getVersioningAnalytics();
-      setAnalytics(analyticsData);
+      getVersioningAnalytics().then(setAnalytics);
     }
   }, [selectedView, getVersioningAnalytics]);
 
+  useEffect(() => {
+    setCommitVersion(null);
+    if (commitHash) {
+      versioningService.getVersionAtCommit(decodedContentPath, commitHash).then(setCommitVersion);
+    }
+  }, [decodedContentPath, commitHash]);
+
   const handleVersionSelect = (version: ContentVersion) => {
-    setContent(version.content);
+    if (version.commit) {
+      setSearchParams({ commit: version.commit.shortHash });
+    } else {
+      setContent(version.content);
+    }
     setSelectedView('editor');
   };
 
-  const handleContentChange = (newContent: string) => {
-    setContent(newContent);
+  const handleContentChange = (newContent: string, selection?: { start: number; end: number }) => {
+    setContent(newContent, selection);
   };
 
   const handleSave = async () => {
@@ -82,13 +112,34 @@ const ContentVersioningPage: React.FC = () => {
 
   const handlePublish = async () => {
     if (currentVersion) {
-      const success = await publishVersion(currentVersion.id);
+      const success = await publishVersion(currentVersion.id, publishAt ? new Date(publishAt) : undefined);
       if (success) {
-        console.log('Version published successfully');
+        setPublishAt('');
+        console.log(publishAt ? 'Version scheduled' : 'Version published successfully');
       }
     }
   };
 
+  const handleUnschedule = async () => {
+    if (currentVersion) {
+      await unschedulePublish(currentVersion.id);
+    }
+  };
+
+  const handleReviewByChange = async (reviewBy: Date | null) => {
+    if (currentVersion) {
+      await setReviewBy(currentVersion.id, reviewBy);
+    }
+  };
+
+  const scheduled = currentVersion ? isScheduled(currentVersion) : false;
+
+  const handleRequestReview = async () => {
+    if (currentVersion) {
+      await requestReview(currentVersion.id);
+    }
+  };
+
   const handleStartCollaboration = async () => {
     const session = await startCollaboration();
     if (session) {
@@ -147,7 +198,12 @@ const ContentVersioningPage: React.FC = () => {
               </button>
               <div>
                 <h1 className="text-xl font-semibold text-gray-900">Content Versioning</h1>
-                <p className="text-sm text-gray-500">{decodedContentPath}</p>
+                <p className="text-sm text-gray-500">
+                  {decodedContentPath}
+                  <span className="ml-2 text-xs text-gray-400">
+                    Stored in {storage.name}{storage.shared ? '' : ' (this browser only)'}
+                  </span>
+                </p>
               </div>
             </div>
 
@@ -170,15 +226,58 @@ const ContentVersioningPage: React.FC = () => {
                 </div>
               )}
 
-              {currentVersion?.status === 'draft' && (
+              {currentVersion?.status === 'draft' && requiresReview && (
                 <button
-                  onClick={handlePublish}
-                  className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700"
+                  onClick={handleRequestReview}
+                  className="px-3 py-1 text-sm bg-yellow-500 text-white rounded hover:bg-yellow-600"
                 >
-                  Publish
+                  Request Review
                 </button>
               )}
 
+              {currentVersion?.status === 'pending_review' && (
+                <span
+                  className="px-2 py-1 text-xs font-medium rounded bg-yellow-100 text-yellow-800"
+                  title={versioningService.getReviewState(currentVersion).blockers.join('\n')}
+                >
+                  In review
+                </span>
+              )}
+
+              {scheduled && currentVersion?.publishAt && (
+                <>
+                  <span className="px-2 py-1 text-xs font-medium rounded bg-indigo-100 text-indigo-800">
+                    Scheduled for {new Date(currentVersion.publishAt).toLocaleString()}
+                  </span>
+                  <button
+                    onClick={handleUnschedule}
+                    className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+                  >
+                    Unschedule
+                  </button>
+                </>
+              )}
+
+              {(currentVersion?.status === 'approved' || (currentVersion?.status === 'draft' && !requiresReview)) && (
+                <>
+                  {!scheduled && (
+                    <input
+                      type="datetime-local"
+                      value={publishAt}
+                      onChange={(e) => setPublishAt(e.target.value)}
+                      title="Publish at a later time"
+                      className="px-2 py-1 text-sm border border-gray-300 rounded"
+                    />
+                  )}
+                  <button
+                    onClick={handlePublish}
+                    className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700"
+                  >
+                    {publishAt ? 'Schedule' : scheduled ? 'Publish Now' : 'Publish'}
+                  </button>
+                </>
+              )}
+
               {!collaborativeSession ? (
                 <button
                   onClick={handleStartCollaboration}
@@ -214,20 +313,24 @@ const ContentVersioningPage: React.FC = () => {
                 <span className="text-sm text-purple-600">
                   {collaborators.length} collaborator(s)
                 </span>
+                {collaborationHub && (
+                  <span className="text-xs text-purple-500">via {collaborationHub}</span>
+                )}
               </div>
               <div className="flex -space-x-2">
-                {collaborators.slice(0, 3).map((collaborator, index) => (
+                {collaborativeSession.participants.slice(0, 5).map((participant) => (
                   <div
-                    key={collaborator.id}
-                    className="w-8 h-8 bg-purple-200 rounded-full flex items-center justify-center text-xs font-medium text-purple-800 border-2 border-white"
-                    title={collaborator.name}
+                    key={participant.connectionId ?? participant.userId}
+                    className="w-8 h-8 rounded-full flex items-center justify-center text-xs font-medium text-white border-2 border-white"
+                    style={{ backgroundColor: participantColor(participant.connectionId ?? participant.userId) }}
+                    title={participant.name}
                   >
-                    {collaborator.name.charAt(0).toUpperCase()}
+                    {participant.name.charAt(0).toUpperCase()}
                   </div>
                 ))}
-                {collaborators.length > 3 && (
+                {collaborativeSession.participants.length > 5 && (
                   <div className="w-8 h-8 bg-gray-200 rounded-full flex items-center justify-center text-xs font-medium text-gray-600 border-2 border-white">
-                    +{collaborators.length - 3}
+                    +{collaborativeSession.participants.length - 5}
                   </div>
                 )}
               </div>
@@ -259,7 +362,15 @@ const ContentVersioningPage: React.FC = () => {
 
       {/* Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {selectedView === 'editor' && (
+        {selectedView === 'editor' && commitHash && (
+          <CommitSnapshot
+            commitHash={commitHash}
+            version={commitVersion}
+            onClose={() => setSearchParams({})}
+          />
+        )}
+
+        {selectedView === 'editor' && !commitHash && (
           <ContentEditor
             content={content}
             onContentChange={handleContentChange}
@@ -267,6 +378,10 @@ const ContentVersioningPage: React.FC = () => {
             onEditingChange={setIsEditing}
             currentVersion={currentVersion}
             publishedVersion={publishedVersion}
+            collaborativeSession={collaborativeSession}
+            localSelection={localSelection}
+            onSelectionChange={updateCursor}
+            onReviewByChange={handleReviewByChange}
           />
         )}
 
@@ -275,6 +390,8 @@ const ContentVersioningPage: React.FC = () => {
             contentPath={decodedContentPath}
             onVersionSelect={handleVersionSelect}
             onContentChange={handleContentChange}
+            collaborativeSession={collaborativeSession}
+            onStartCollaboration={handleStartCollaboration}
           />
         )}
 
@@ -286,14 +403,65 @@ const ContentVersioningPage: React.FC = () => {
   );
 };
 
+// Commit Snapshot Component
+interface CommitSnapshotProps {
+  commitHash: string;
+  version: ContentVersion | null;
+  onClose: () => void;
+}
+
+const CommitSnapshot: React.FC<CommitSnapshotProps> = ({ commitHash, version, onClose }) => (
+  <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+    <div className="border-b border-gray-200 px-6 py-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">
+            As of commit <span className="font-mono">{version?.commit?.shortHash ?? commitHash}</span>
+          </h3>
+          {version?.commit && (
+            <p className="text-sm text-gray-600">
+              {version.commit.message} • {version.author.name} • {new Date(version.timestamp).toLocaleString()}
+              <span className="ml-2 text-green-600">+{version.commit.additions}</span>
+              <span className="ml-1 text-red-600">-{version.commit.deletions}</span>
+            </p>
+          )}
+        </div>
+        <button
+          onClick={onClose}
+          className="px-3 py-1 text-sm bg-blue-100 text-blue-700 rounded hover:bg-blue-200"
+        >
+          Back to Latest
+        </button>
+      </div>
+    </div>
+
+    <div className="p-6">
+      {version ? (
+        <pre className="whitespace-pre-wrap font-mono text-sm bg-gray-50 p-4 rounded-lg border">
+          {version.content}
+        </pre>
+      ) : (
+        <p className="text-sm text-gray-500">
+          No exported version of this article at commit {commitHash}. Run <code>npm run build:version-history</code> to export the git history.
+        </p>
+      )}
+    </div>
+  </div>
+);
+
 // Content Editor Component
 interface ContentEditorProps {
   content: string;
-  onContentChange: (content: string) => void;
+  onContentChange: (content: string, selection?: { start: number; end: number }) => void;
   isEditing: boolean;
   onEditingChange: (editing: boolean) => void;
   currentVersion: ContentVersion | null;
   publishedVersion: ContentVersion | null;
+  /** Set while editing together with others */
+  collaborativeSession: CollaborativeSession | null;
+  localSelection: { start: number; end: number } | null;
+  onSelectionChange: (start: number, end: number) => void;
+  onReviewByChange: (reviewBy: Date | null) => void;
 }
 
 const ContentEditor: React.FC<ContentEditorProps> = ({
@@ -302,8 +470,16 @@ const ContentEditor: React.FC<ContentEditorProps> = ({
   isEditing,
   onEditingChange,
   currentVersion,
-  publishedVersion
+  publishedVersion,
+  collaborativeSession,
+  localSelection,
+  onSelectionChange,
+  onReviewByChange
 }) => {
+  const reviewState = reviewDue(currentVersion?.reviewBy);
+  const ownConnectionId = collaborativeSession?.participants[0]?.connectionId;
+  const remoteCursors = collaborativeSession?.cursor.filter(cursor => cursor.connectionId !== ownConnectionId) ?? [];
+
   return (
     <div className="space-y-6">
       {/* Version Info */}
@@ -324,6 +500,22 @@ const ContentEditor: React.FC<ContentEditorProps> = ({
                 <p className="text-sm text-gray-600">
                   Modified: {new Date(currentVersion.timestamp).toLocaleDateString()}
                 </p>
+                <label className="flex items-center space-x-2 text-sm text-gray-600">
+                  <span>Review by:</span>
+                  <input
+                    type="date"
+                    value={toDateInput(currentVersion.reviewBy)}
+                    onChange={(e) => onReviewByChange(e.target.value ? new Date(e.target.value) : null)}
+                    className="px-2 py-0.5 text-sm border border-gray-300 rounded"
+                  />
+                  {reviewState && (
+                    <span className={`px-2 py-0.5 text-xs rounded ${
+                      reviewState === 'overdue' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                    }`}>
+                      {reviewState === 'overdue' ? 'Review overdue' : 'Review due soon'}
+                    </span>
+                  )}
+                </label>
               </div>
             ) : (
               <p className="text-sm text-gray-500 mt-2">No current version</p>
@@ -368,7 +560,17 @@ const ContentEditor: React.FC<ContentEditorProps> = ({
         </div>
 
         <div className="p-6">
-          {isEditing ? (
+          {isEditing && collaborativeSession ? (
+            <CollaborativeTextarea
+              value={content}
+              onChange={onContentChange}
+              onSelectionChange={onSelectionChange}
+              cursors={remoteCursors}
+              participants={collaborativeSession.participants}
+              localSelection={localSelection}
+              readOnly={!collaborativeSession.participants[0]?.permissions.canEdit}
+            />
+          ) : isEditing ? (
             <textarea
               value={content}
               onChange={(e) => onContentChange(e.target.value)}
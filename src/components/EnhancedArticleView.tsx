@@ -2,13 +2,18 @@ import React, { useEffect, useState } from 'react';
 import { useParams, useLocation, Navigate } from 'react-router-dom';
 import ReactMarkdown from 'react-markdown';
 import { BookmarkButton } from './BookmarkButton';
-import { SectionBookmark } from './SectionBookmark';
+import { SectionBookmark, getHeadingText } from './SectionBookmark';
 import CodeBlock from './CodeBlock';
 import ComponentRenderer from './ComponentRenderer';
 import { VideoTutorialPage } from './VideoTutorialPage';
 import AIContentSuggestions from './AIContentSuggestions';
+import { RelatedArticles } from './RelatedArticles';
 import { ArticleComponent, InteractiveDiagramContent } from '../types/ComponentTypes';
-import { contentService, ContentMetadata } from '../services/ContentService';
+import { contentService, ContentMetadata, ProtectedContentError } from '../services/ContentService';
+import { stripFrontmatter } from '../utils/frontmatter';
+import { slugifyHeading } from '../utils/markdown';
+import { reviewDue } from '../utils/contentSchedule';
+import { getHighlightWords, highlightSection } from '../utils/sectionHighlight';
 import { useAuth } from '../contexts/AuthContext';
 import { useLoading } from '../contexts/LoadingContext';
 import { useSubject } from '../contexts/SubjectContext';
@@ -78,6 +83,14 @@ const EnhancedArticleView: React.FC = () => {
     loadContent();
   }, [path]);
 
+  // Section links from search land on `#<heading-slug>`, optionally with words to highlight
+  useEffect(() => {
+    if (isLoading || !location.hash) {
+      return;
+    }
+    return highlightSection(decodeURIComponent(location.hash.slice(1)), getHighlightWords(location.search));
+  }, [isLoading, content, location.hash, location.search]);
+
   const loadContent = async () => {
     if (!path || path.trim() === '') {
       // For chromium root path, load learning-path-guide by default
@@ -125,12 +138,12 @@ const EnhancedArticleView: React.FC = () => {
     setError(null);
 
     try {
-      // Construct the subject-aware path for content loading.
-      // Use contentBase if defined (e.g. 'internal' subject reads from 'chromium' files).
+      // Resolve the path within the subject; admin-only subjects load through
+      // the authenticated API and may fall back to a shared public directory
       const subject = getSubjectById(effectiveSubject ?? '');
-      const contentBase = subject?.contentBase ?? effectiveSubject;
-      const subjectAwarePath = contentBase ? `${contentBase}/${path}` : path;
-      const result = await contentService.getContent(subjectAwarePath);
+      const result = subject
+        ? await contentService.getSubjectContent(subject, path)
+        : await contentService.getContent(path);
       
       setContent(result.content);
       setMetadata(result.metadata);
@@ -145,6 +158,17 @@ const EnhancedArticleView: React.FC = () => {
     } catch (error) {
       console.error('Failed to load content:', error);
       setError(error instanceof Error ? error.message : 'Failed to load content');
+
+      if (error instanceof ProtectedContentError) {
+        setContent(`# Internal article unavailable\n\n"${path}" is admin-only, so it is not part of the static site. It is loaded from the content API (\`GET /api/content/${error.path}\`), which could not provide it:\n\n\`\`\`\n${error.reason}\n\`\`\`\n\n- Sign in with an Admin account to read internal articles.\n- If you are an admin, check that the API at \`VITE_API_URL\` implements the endpoint described under "Admin-only Content API" in the README.`);
+        setMetadata({
+          title: 'Internal article unavailable',
+          category: 'error',
+          tags: ['error'],
+          lastUpdated: new Date()
+        });
+        return;
+      }
       
       // Enhanced error content with debugging information
       const errorDetails = error instanceof Error ? error.message : 'Unknown error';
@@ -190,11 +214,40 @@ const EnhancedArticleView: React.FC = () => {
     return Math.ceil(wordCount / wordsPerMinute);
   };
 
-  const readingTime = metadata?.readingTime || estimateReadingTime(content);
+  const articleBody = stripFrontmatter(content);
+  const readingTime = metadata?.readingTime || estimateReadingTime(articleBody);
+
+  // Headings are anchored by slug so bookmarks and search results can link to them
+  const renderHeading = (Tag: 'h1' | 'h2' | 'h3', children: React.ReactNode, props: React.HTMLAttributes<HTMLHeadingElement>) => {
+    const headingText = getHeadingText(children);
+    if (!headingText) {
+      return <Tag {...props}>{children}</Tag>;
+    }
+    return (
+      <SectionBookmark
+        title={metadata?.title || ''}
+        path={path || ''}
+        url={location.pathname}
+        sectionId={slugifyHeading(headingText)}
+        sectionTitle={headingText}
+        description={`Section: ${headingText}`}
+        category={metadata?.tags?.[0]}
+      >
+        <Tag {...props}>{children}</Tag>
+      </SectionBookmark>
+    );
+  };
 
   return (
     <div className="flex-1 p-6 lg:p-8 overflow-auto bg-white dark:bg-gray-900">
       <div className="max-w-4xl mx-auto">
+        {/* Past its review date: the article may describe an older Chromium */}
+        {metadata?.reviewBy && reviewDue(metadata.reviewBy) === 'overdue' && (
+          <div className="mb-4 px-4 py-3 rounded-lg border border-yellow-200 bg-yellow-50 text-sm text-yellow-800 dark:border-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-200">
+            This article was due for review on {new Date(metadata.reviewBy).toLocaleDateString()} and may be out of date.
+          </div>
+        )}
+
         {/* Article Header */}
         <div className="mb-6 pb-4 border-b border-gray-200 dark:border-gray-700">
           <div className="flex items-start justify-between">
@@ -202,6 +255,12 @@ const EnhancedArticleView: React.FC = () => {
               <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
                 {metadata?.title || 'Loading...'}
               </h1>
+
+              {metadata?.description && (
+                <p className="text-gray-600 dark:text-gray-400 mb-3">
+                  {metadata.description}
+                </p>
+              )}
               
               {/* Article Metadata */}
               <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 dark:text-gray-400">
@@ -210,6 +269,16 @@ const EnhancedArticleView: React.FC = () => {
                     {metadata.category}
                   </span>
                 )}
+
+                {metadata?.difficulty && (
+                  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                    metadata.difficulty === 'beginner' ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' :
+                    metadata.difficulty === 'intermediate' ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200' :
+                    'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+                  }`}>
+                    {metadata.difficulty}
+                  </span>
+                )}
                 
                 <span className="flex items-center">
                   <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -304,15 +373,9 @@ const EnhancedArticleView: React.FC = () => {
                   </code>
                 );
               },
-              h1: ({ node, children, ...props }) => (
-                <h1 {...props}>{children}</h1>
-              ),
-              h2: ({ node, children, ...props }) => (
-                <h2 {...props}>{children}</h2>
-              ),
-              h3: ({ node, children, ...props }) => (
-                <h3 {...props}>{children}</h3>
-              ),
+              h1: ({ node, children, ...props }) => renderHeading('h1', children, props),
+              h2: ({ node, children, ...props }) => renderHeading('h2', children, props),
+              h3: ({ node, children, ...props }) => renderHeading('h3', children, props),
               // Handle interactive components
               p: ({ node, children, ...props }) => {
                 // Check if this paragraph contains component markup
@@ -330,10 +393,15 @@ const EnhancedArticleView: React.FC = () => {
               }
             }}
           >
-            {content}
+            {articleBody}
           </ReactMarkdown>
         </article>
 
+        {/* Related articles and sections from the search index; the subject was validated above */}
+        {path && (
+          <RelatedArticles subject={getSubjectById(effectiveSubject)!} path={path} />
+        )}
+
         {/* AI Suggestions (if user is authenticated) */}
         {user && path && (
           <div className="mt-12 pt-8 border-t border-gray-200 dark:border-gray-700">
@@ -350,7 +418,7 @@ const EnhancedArticleView: React.FC = () => {
               <div>Path: {path}</div>
               <div>Full URL: {location.pathname}</div>
               <div>Source: {contentSource}</div>
-              <div>Content Length: {content.length} characters</div>
+              <div>Content Length: {articleBody.length} characters</div>
               <div>Reading Time: {readingTime} minutes</div>
               {metadata && (
                 <div>Last Updated: {metadata.lastUpdated.toISOString()}</div>
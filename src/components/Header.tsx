@@ -2,6 +2,7 @@ import React, { useState, useRef, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import ThemeToggle from './ThemeToggle';
 import { BookmarksPanel } from './BookmarksPanel';
+import { CommandPalette } from './CommandPalette';
 import { useBookmarks } from '../contexts/BookmarkContext';
 import { useSidebar } from '../contexts/SidebarContext';
 import { useAdvancedSearch } from '../contexts/AdvancedSearchContext';
@@ -20,13 +21,14 @@ const Header: React.FC = () => {
   const [showDropdown, setShowDropdown] = useState(false);
   const [isScrolled, setIsScrolled] = useState(false);
   const [showBookmarks, setShowBookmarks] = useState(false);
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
   const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
   const [authModalMode, setAuthModalMode] = useState<'login' | 'register'>('login');
   const navigate = useNavigate();
   const inputRef = useRef<HTMLInputElement>(null);
   const { bookmarks } = useBookmarks();
   const { toggleSidebar, isMobile, isInitialized } = useSidebar();
-  const { getSuggestions, search: performSearch } = useAdvancedSearch();
+  const { getSuggestions, preloadSearchIndex, search: performSearch } = useAdvancedSearch();
   const { isAuthenticated, user, logout } = useAuth();
 
   useEffect(() => {
@@ -38,6 +40,21 @@ const Header: React.FC = () => {
     return () => window.removeEventListener('scroll', handleScroll);
   }, []);
 
+  // Ctrl+K, or Cmd+K on macOS, opens the command palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && !e.altKey && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowCommandPalette(open => !open);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const commandPaletteShortcut = /Mac|iPhone|iPad/.test(navigator.platform) ? '⌘K' : 'Ctrl+K';
+
   const handleLogin = () => {
     setAuthModalMode('login');
     setIsAuthModalOpen(true);
@@ -104,7 +121,12 @@ const Header: React.FC = () => {
               placeholder="Search..."
               value={query}
               onChange={e => setQuery(e.target.value)}
-              onFocus={() => query.length > 1 && setShowDropdown(true)}
+              onFocus={() => {
+                preloadSearchIndex();
+                if (query.length > 1) {
+                  setShowDropdown(true);
+                }
+              }}
               onBlur={() => setTimeout(() => setShowDropdown(false), 150)}
               aria-label="Search"
             />
@@ -233,6 +255,14 @@ const Header: React.FC = () => {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" />
             </svg>
           </Link>
+          <button
+            onClick={() => setShowCommandPalette(true)}
+            className="hover:text-blue-200 dark:hover:text-blue-300 transition-colors px-1.5 py-0.5 text-xs border border-current rounded opacity-80"
+            title={`Command palette (${commandPaletteShortcut})`}
+            aria-label="Open command palette"
+          >
+            {commandPaletteShortcut}
+          </button>
           <Link
             to="/search"
             className="hover:text-blue-200 dark:hover:text-blue-300 transition-colors p-1"
@@ -316,6 +346,8 @@ const Header: React.FC = () => {
       </nav>
       
       <BookmarksPanel isOpen={showBookmarks} onClose={() => setShowBookmarks(false)} />
+
+      <CommandPalette isOpen={showCommandPalette} onClose={() => setShowCommandPalette(false)} />
       
       <AuthModal
         isOpen={isAuthModalOpen}
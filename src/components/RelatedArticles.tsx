@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { searchIndexService, RelatedContent } from '../services/SearchIndexService';
+import { Subject, getSubjectContentDirs } from '../contentIndex';
+import { buildSectionUrl } from '../utils/sectionHighlight';
+
+interface RelatedArticlesProps {
+  subject: Subject;
+  /** Article path within the subject */
+  path: string;
+}
+
+/** Route of an indexed document under the subject being read */
+const toArticleUrl = (subject: Subject, documentPath: string) =>
+  `/${subject.id}/${documentPath.split('/').slice(1).join('/')}`;
+
+export const RelatedArticles: React.FC<RelatedArticlesProps> = ({ subject, path }) => {
+  const [related, setRelated] = useState<RelatedContent | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRelated(null);
+
+    const loadRelated = async () => {
+      const indexed = await searchIndexService.findDocument(path, { shards: getSubjectContentDirs(subject) });
+      const content = indexed ? await searchIndexService.getRelated(indexed.shard, indexed.documentIndex) : null;
+      if (!cancelled) {
+        setRelated(content);
+      }
+    };
+    loadRelated().catch(error => console.warn('Failed to load related articles:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [subject, path]);
+
+  if (!related || (related.documents.length === 0 && related.sections.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className="mt-12 pt-8 border-t border-gray-200 dark:border-gray-700 grid gap-8 md:grid-cols-2">
+      {related.documents.length > 0 && (
+        <section>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">Related articles</h2>
+          <ul className="space-y-3">
+            {related.documents.map(({ document, similarity }) => (
+              <li key={document.path}>
+                <Link
+                  to={toArticleUrl(subject, document.path)}
+                  className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  {document.title}
+                </Link>
+                <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                  {Math.round(similarity * 100)}% similar
+                </span>
+                {document.description && (
+                  <p className="text-sm text-gray-600 dark:text-gray-400 line-clamp-2">{document.description}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {related.sections.length > 0 && (
+        <section>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">Related sections</h2>
+          <ul className="space-y-3">
+            {related.sections.map(({ document, heading, excerpt, sectionIndex }) => (
+              <li key={`${document.path}:${sectionIndex}`}>
+                <Link
+                  to={buildSectionUrl(toArticleUrl(subject, document.path), heading)}
+                  className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  {heading}
+                </Link>
+                <span className="block text-xs text-gray-500 dark:text-gray-400">in {document.title}</span>
+                {excerpt && (
+                  <p className="text-sm text-gray-600 dark:text-gray-400 line-clamp-2">{excerpt}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,234 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAdvancedSearch } from '../contexts/AdvancedSearchContext';
+import { searchFeedbackService, ZeroResultQuery } from '../services/SearchFeedbackService';
+import { SynonymTable, synonymKey } from '../utils/searchQuery';
+
+interface SynonymRow {
+  term: string;
+  /** Alternatives as typed, comma-separated */
+  alternatives: string;
+}
+
+const toRows = (table: SynonymTable): SynonymRow[] =>
+  Object.entries(table)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([term, alternatives]) => ({ term, alternatives: alternatives.join(', ') }));
+
+const toTable = (rows: SynonymRow[]): SynonymTable =>
+  Object.fromEntries(rows
+    .filter(row => row.term.trim())
+    .map(row => [row.term, row.alternatives.split(',').map(alternative => alternative.trim()).filter(Boolean)]));
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const SearchInsightsManagement: React.FC = () => {
+  const { analytics } = useAdvancedSearch();
+  const [report, setReport] = useState<ZeroResultQuery[]>([]);
+  // Without the API report, the table shows this browser's searches
+  const [isLocalReport, setIsLocalReport] = useState(false);
+  const [rows, setRows] = useState<SynonymRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      const [reportResult, synonyms] = await Promise.all([
+        searchFeedbackService.getZeroResultReport().then(
+          data => ({ data, local: false }),
+          () => ({ data: [] as ZeroResultQuery[], local: true })
+        ),
+        searchFeedbackService.getSynonyms()
+      ]);
+      setReport(reportResult.data);
+      setIsLocalReport(reportResult.local);
+      setRows(toRows(synonyms));
+      setLoading(false);
+    };
+    load();
+  }, []);
+
+  const localReport: ZeroResultQuery[] = Object.entries(analytics.noResultCounts)
+    .map(([query, count]) => ({ query, count, lastSearched: '' }))
+    .sort((a, b) => b.count - a.count);
+  const zeroResultQueries = isLocalReport ? localReport : report;
+  const synonymTerms = new Set(rows.map(row => synonymKey(row.term)));
+
+  const updateRow = (index: number, change: Partial<SynonymRow>) => {
+    setSaved(false);
+    setRows(current => current.map((row, i) => (i === index ? { ...row, ...change } : row)));
+  };
+
+  const addRow = (term = '') => {
+    setSaved(false);
+    setRows(current => [...current, { term, alternatives: '' }]);
+  };
+
+  const removeRow = (index: number) => {
+    setSaved(false);
+    setRows(current => current.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      setRows(toRows(await searchFeedbackService.saveSynonyms(toTable(rows))));
+      setSaved(true);
+    } catch (e: any) {
+      setError(e.message ?? 'Failed to save synonyms');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-16">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Search Insights</h1>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+          Queries readers searched for without finding anything, and the synonyms that point them at existing articles.
+        </p>
+      </div>
+
+      {/* Error banner */}
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md text-sm text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Zero-result report */}
+        <section>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Top zero-result queries</h2>
+          {isLocalReport && (
+            <p className="mb-3 text-xs text-amber-700 dark:text-amber-300">
+              The search report API is unavailable; showing searches made in this browser only.
+            </p>
+          )}
+          {zeroResultQueries.length === 0 ? (
+            <div className="text-center py-12 text-gray-500 dark:text-gray-400 border border-gray-200 dark:border-gray-700 rounded-lg">
+              Every recorded search found something.
+            </div>
+          ) : (
+            <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-800">
+                  <tr>
+                    {['Query', 'Searches', 'Last searched', ''].map(h => (
+                      <th key={h} className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider whitespace-nowrap">
+                        {h}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white dark:bg-gray-900 divide-y divide-gray-200 dark:divide-gray-700">
+                  {zeroResultQueries.map(q => (
+                    <tr key={q.query}>
+                      <td className="px-4 py-3 font-mono text-gray-900 dark:text-white">
+                        <Link to={`/search?q=${encodeURIComponent(q.query)}`} className="hover:underline">{q.query}</Link>
+                      </td>
+                      <td className="px-4 py-3 text-gray-500 dark:text-gray-400 font-mono">{q.count}</td>
+                      <td className="px-4 py-3 text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                        {q.lastSearched ? new Date(q.lastSearched).toLocaleDateString() : '—'}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        {synonymTerms.has(synonymKey(q.query)) ? (
+                          <span className="text-xs text-green-600 dark:text-green-400">Has synonyms</span>
+                        ) : (
+                          <button
+                            onClick={() => addRow(q.query)}
+                            className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                          >
+                            Add synonym
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+
+        {/* Synonym table */}
+        <section>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Synonyms</h2>
+          <p className="mb-3 text-xs text-gray-500 dark:text-gray-400">
+            A search for the term also matches each alternative. Separate alternatives with commas.
+          </p>
+          <form onSubmit={handleSave} className="p-5 border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-gray-800">
+            {rows.length === 0 && (
+              <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">No synonyms yet.</p>
+            )}
+            <div className="space-y-3">
+              {rows.map((row, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={row.term}
+                    onChange={e => updateRow(index, { term: e.target.value })}
+                    placeholder="oopif"
+                    aria-label="Term"
+                    className={inputClassName}
+                  />
+                  <span className="text-gray-400">→</span>
+                  <input
+                    type="text"
+                    value={row.alternatives}
+                    onChange={e => updateRow(index, { alternatives: e.target.value })}
+                    placeholder="out of process iframe"
+                    aria-label="Alternatives"
+                    className={inputClassName}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => removeRow(index)}
+                    className="text-xs text-red-600 dark:text-red-400 hover:underline"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="mt-4 flex items-center gap-3">
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm font-medium rounded-md transition-colors"
+              >
+                {saving ? 'Saving…' : 'Save Synonyms'}
+              </button>
+              <button
+                type="button"
+                onClick={() => addRow()}
+                className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 text-sm rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              >
+                + Add Row
+              </button>
+              {saved && <span className="text-sm text-green-600 dark:text-green-400">Saved</span>}
+            </div>
+          </form>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default SearchInsightsManagement;
@@ -2,6 +2,18 @@ import React, { useState, useRef, useEffect } from 'react';
 import { BookmarkButton } from './BookmarkButton';
 import { useBookmarks } from '../contexts/BookmarkContext';
 
+// Flatten heading children (text, inline code, links) to the text a reader sees
+export const getHeadingText = (children: React.ReactNode): string =>
+  React.Children.toArray(children).map(child => {
+    if (typeof child === 'string' || typeof child === 'number') {
+      return String(child);
+    }
+    if (React.isValidElement<{ children?: React.ReactNode }>(child)) {
+      return getHeadingText(child.props.children);
+    }
+    return '';
+  }).join('');
+
 interface SectionBookmarkProps {
   title: string;
   path: string;
@@ -12,37 +12,47 @@ import {
   VersionBranch,
   MergeRequest,
   CollaborativeSession,
-  VersionAuthor 
+  VersionAuthor,
+  MergeConflict,
+  SectionDiff,
+  ReviewComment,
+  ReviewState
 } from '../types/VersioningTypes';
-import { versioningService } from '../services/ContentVersioningService';
+import { versioningService, MAIN_BRANCH_ID } from '../services/ContentVersioningService';
+import { diffWords, splitLines, WordDiffPart } from '../utils/textDiff';
+import { participantColor } from './CollaborativeTextarea';
 
 interface VersionHistoryViewProps {
   contentPath: string;
   onVersionSelect?: (version: ContentVersion) => void;
   onContentChange?: (content: string) => void;
+  /** The page's collaborative editing session of the article */
+  collaborativeSession?: CollaborativeSession | null;
+  onStartCollaboration?: () => void;
 }
 
 const VersionHistoryView: React.FC<VersionHistoryViewProps> = ({
   contentPath,
   onVersionSelect,
-  onContentChange
+  onContentChange,
+  collaborativeSession = null,
+  onStartCollaboration
 }) => {
   const [versionHistory, setVersionHistory] = useState<VersionHistory | null>(null);
   const [selectedVersions, setSelectedVersions] = useState<[string?, string?]>([]);
   const [diff, setDiff] = useState<VersionDiff | null>(null);
   const [activeTab, setActiveTab] = useState<'history' | 'branches' | 'collaborative'>('history');
-  const [collaborativeSession, setCollaborativeSession] = useState<CollaborativeSession | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [showDiffView, setShowDiffView] = useState(false);
+  const [pendingMerge, setPendingMerge] = useState<{
+    sourceBranchId: string;
+    targetBranchId: string;
+    conflicts: MergeConflict[];
+  } | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
 
-  // Current user (mock data)
-  const currentUser: VersionAuthor = {
-    id: 'user-1',
-    name: 'Current User',
-    email: 'user@wanderlust.dev',
-    role: 'editor',
-    expertise: ['documentation', 'architecture']
-  };
+  // Signed-in user, or a local editor when nobody is signed in
+  const currentUser: VersionAuthor = versioningService.getCurrentAuthor();
 
   useEffect(() => {
     loadVersionHistory();
@@ -51,7 +61,7 @@ const VersionHistoryView: React.FC<VersionHistoryViewProps> = ({
   const loadVersionHistory = useCallback(async () => {
     setIsLoading(true);
     try {
-      const history = versioningService.getVersionHistory(contentPath);
+      const history = await versioningService.getVersionHistory(contentPath);
       setVersionHistory(history);
     } catch (error) {
       console.error('Failed to load version history:', error);
@@ -82,7 +92,7 @@ const VersionHistoryView: React.FC<VersionHistoryViewProps> = ({
 
   const generateDiff = useCallback(async (fromVersionId: string, toVersionId: string) => {
     try {
-      const versionDiff = versioningService.generateDiff(contentPath, fromVersionId, toVersionId);
+      const versionDiff = await versioningService.generateDiff(contentPath, fromVersionId, toVersionId);
       setDiff(versionDiff);
       setShowDiffView(true);
     } catch (error) {
@@ -92,7 +102,7 @@ const VersionHistoryView: React.FC<VersionHistoryViewProps> = ({
 
   const handleCreateBranch = useCallback(async (branchName: string, description: string, baseVersionId: string) => {
     try {
-      const branch = versioningService.createBranch(contentPath, branchName, description, baseVersionId, currentUser);
+      const branch = await versioningService.createBranch(contentPath, branchName, description, baseVersionId, currentUser);
       await loadVersionHistory();
       console.log('Branch created:', branch);
     } catch (error) {
@@ -100,31 +110,91 @@ const VersionHistoryView: React.FC<VersionHistoryViewProps> = ({
     }
   }, [contentPath, currentUser, loadVersionHistory]);
 
-  const handleStartCollaboration = useCallback(async () => {
+  const handleMerge = useCallback(async (
+    sourceBranchId: string,
+    targetBranchId: string,
+    resolutions?: Record<string, string>
+  ) => {
+    setActionError(null);
     try {
-      const session = versioningService.startCollaborativeSession(contentPath, currentUser);
-      setCollaborativeSession(session);
-      setActiveTab('collaborative');
+      const result = await versioningService.mergeBranches(
+        contentPath,
+        sourceBranchId,
+        targetBranchId,
+        resolutions ? 'manual' : 'auto',
+        resolutions,
+        currentUser
+      );
+      if (result.success) {
+        setPendingMerge(null);
+        await loadVersionHistory();
+        if (result.mergedVersion && targetBranchId === MAIN_BRANCH_ID && onContentChange) {
+          onContentChange(result.mergedVersion.content);
+        }
+      } else if (result.conflicts && result.conflicts.length > 0) {
+        setPendingMerge({ sourceBranchId, targetBranchId, conflicts: result.conflicts });
+      } else {
+        setActionError('Source or target branch not found');
+      }
     } catch (error) {
-      console.error('Failed to start collaboration:', error);
+      console.error('Failed to merge:', error);
+      setActionError(error instanceof Error ? error.message : 'Failed to merge');
     }
-  }, [contentPath, currentUser]);
+  }, [contentPath, currentUser, loadVersionHistory, onContentChange]);
+
+  const handleStartCollaboration = useCallback(() => {
+    onStartCollaboration?.();
+    setActiveTab('collaborative');
+  }, [onStartCollaboration]);
 
   const handlePublishVersion = useCallback(async (versionId: string) => {
+    setActionError(null);
     try {
-      const success = versioningService.publishVersion(contentPath, versionId, currentUser);
+      const success = await versioningService.publishVersion(contentPath, versionId, currentUser);
       if (success) {
         await loadVersionHistory();
         console.log('Version published successfully');
       }
     } catch (error) {
       console.error('Failed to publish version:', error);
+      setActionError(error instanceof Error ? error.message : 'Failed to publish version');
     }
   }, [contentPath, currentUser, loadVersionHistory]);
 
+  // Run a review action, then reload the history or show why it failed
+  const runReviewAction = useCallback(async (action: () => Promise<unknown>) => {
+    setActionError(null);
+    try {
+      await action();
+      await loadVersionHistory();
+    } catch (error) {
+      console.error('Review action failed:', error);
+      setActionError(error instanceof Error ? error.message : 'Review action failed');
+    }
+  }, [loadVersionHistory]);
+
+  const handleRequestReview = useCallback((versionId: string) =>
+    runReviewAction(() => versioningService.requestReview(contentPath, versionId)),
+  [contentPath, runReviewAction]);
+
+  const handleReview = useCallback((versionId: string, status: 'approved' | 'needs_revision') =>
+    runReviewAction(() => versioningService.submitReview(contentPath, versionId, currentUser, status)),
+  [contentPath, currentUser, runReviewAction]);
+
+  const handleAddComment = useCallback((
+    versionId: string,
+    comment: Pick<ReviewComment, 'section' | 'lineNumber' | 'side' | 'comment' | 'severity'>
+  ) =>
+    runReviewAction(() => versioningService.addReviewComment(contentPath, versionId, currentUser, { ...comment, type: 'issue' })),
+  [contentPath, currentUser, runReviewAction]);
+
+  const handleResolveComment = useCallback((versionId: string, commentId: string, resolved: boolean) =>
+    runReviewAction(() => versioningService.resolveReviewComment(contentPath, versionId, commentId, resolved)),
+  [contentPath, runReviewAction]);
+
   const handleRollback = useCallback(async (versionId: string) => {
     try {
-      const rollbackVersion = versioningService.rollbackToVersion(contentPath, versionId, currentUser);
+      const rollbackVersion = await versioningService.rollbackToVersion(contentPath, versionId, currentUser);
       if (rollbackVersion && onContentChange) {
         onContentChange(rollbackVersion.content);
         await loadVersionHistory();
@@ -185,12 +255,14 @@ const VersionHistoryView: React.FC<VersionHistoryViewProps> = ({
         <div className="flex items-center justify-between">
           <h3 className="text-lg font-semibold text-gray-900">Version History</h3>
           <div className="flex space-x-2">
-            <button
-              onClick={handleStartCollaboration}
-              className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700"
-            >
-              Start Collaboration
-            </button>
+            {onStartCollaboration && !collaborativeSession && (
+              <button
+                onClick={handleStartCollaboration}
+                className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700"
+              >
+                Start Collaboration
+              </button>
+            )}
             <button
               onClick={() => setShowDiffView(!showDiffView)}
               disabled={selectedVersions.length < 2}
@@ -221,8 +293,19 @@ const VersionHistoryView: React.FC<VersionHistoryViewProps> = ({
 
       {/* Content */}
       <div className="p-4">
+        {actionError && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">{actionError}</div>
+        )}
+
         {showDiffView && diff ? (
-          <DiffView diff={diff} onClose={() => setShowDiffView(false)} />
+          <DiffView
+            diff={diff}
+            toVersion={versionHistory.versions.find(v => v.version === diff.toVersion)}
+            fromVersion={versionHistory.versions.find(v => v.version === diff.fromVersion)}
+            onAddComment={handleAddComment}
+            onResolveComment={handleResolveComment}
+            onClose={() => setShowDiffView(false)}
+          />
         ) : (
           <>
             {activeTab === 'history' && (
@@ -232,24 +315,34 @@ const VersionHistoryView: React.FC<VersionHistoryViewProps> = ({
                 onVersionSelect={handleVersionSelect}
                 onVersionCompare={handleVersionCompare}
                 onPublishVersion={handlePublishVersion}
+                onRequestReview={handleRequestReview}
+                onReview={handleReview}
+                requiresReview={versioningService.getConfiguration().requireReviewForPublish}
+                getReviewState={(version) => versioningService.getReviewState(version)}
                 onRollback={handleRollback}
                 formatTimestamp={formatTimestamp}
                 getStatusBadgeColor={getStatusBadgeColor}
               />
             )}
 
-            {activeTab === 'branches' && (
+            {activeTab === 'branches' && (pendingMerge ? (
+              <MergeConflictResolver
+                conflicts={pendingMerge.conflicts}
+                sourceName={branchName(versionHistory.branches, pendingMerge.sourceBranchId)}
+                targetName={branchName(versionHistory.branches, pendingMerge.targetBranchId)}
+                onComplete={(resolutions) => handleMerge(pendingMerge.sourceBranchId, pendingMerge.targetBranchId, resolutions)}
+                onCancel={() => setPendingMerge(null)}
+              />
+            ) : (
               <BranchView
                 branches={versionHistory.branches}
                 onCreateBranch={handleCreateBranch}
+                onMerge={(sourceBranchId, targetBranchId) => handleMerge(sourceBranchId, targetBranchId)}
               />
-            )}
+            ))}
 
             {activeTab === 'collaborative' && (
-              <CollaborativeView
-                session={collaborativeSession}
-                onJoinSession={(sessionId) => versioningService.joinCollaborativeSession(sessionId, currentUser)}
-              />
+              <CollaborativeView session={collaborativeSession} />
             )}
           </>
         )}
@@ -258,6 +351,9 @@ const VersionHistoryView: React.FC<VersionHistoryViewProps> = ({
   );
 };
 
+const branchName = (branches: VersionBranch[], branchId: string) =>
+  branchId === MAIN_BRANCH_ID ? MAIN_BRANCH_ID : branches.find(b => b.id === branchId)?.name ?? branchId;
+
 // Version List Component
 interface VersionListProps {
   versions: ContentVersion[];
@@ -265,6 +361,10 @@ interface VersionListProps {
   onVersionSelect: (versionId: string) => void;
   onVersionCompare: (versionId: string) => void;
   onPublishVersion: (versionId: string) => void;
+  onRequestReview: (versionId: string) => void;
+  onReview: (versionId: string, status: 'approved' | 'needs_revision') => void;
+  requiresReview: boolean;
+  getReviewState: (version: ContentVersion) => ReviewState;
   onRollback: (versionId: string) => void;
   formatTimestamp: (timestamp: Date) => string;
   getStatusBadgeColor: (status: string) => string;
@@ -276,6 +376,10 @@ const VersionList: React.FC<VersionListProps> = ({
   onVersionSelect,
   onVersionCompare,
   onPublishVersion,
+  onRequestReview,
+  onReview,
+  requiresReview,
+  getReviewState,
   onRollback,
   formatTimestamp,
   getStatusBadgeColor
@@ -305,6 +409,13 @@ const VersionList: React.FC<VersionListProps> = ({
               <p className="text-sm text-gray-500">
                 by {version.author.name} • {formatTimestamp(version.timestamp)}
               </p>
+              {version.commit && (
+                <p className="text-xs text-gray-500">
+                  <span className="font-mono">{version.commit.shortHash}</span>
+                  <span className="ml-2 text-green-600">+{version.commit.additions}</span>
+                  <span className="ml-1 text-red-600">-{version.commit.deletions}</span>
+                </p>
+              )}
             </div>
           </div>
           
@@ -320,7 +431,31 @@ const VersionList: React.FC<VersionListProps> = ({
               >
                 View
               </button>
-              {version.status === 'draft' && (
+              {version.status === 'draft' && requiresReview && (
+                <button
+                  onClick={() => onRequestReview(version.id)}
+                  className="px-2 py-1 text-xs bg-yellow-100 text-yellow-700 rounded hover:bg-yellow-200"
+                >
+                  Request Review
+                </button>
+              )}
+              {(version.status === 'pending_review' || version.status === 'approved') && (
+                <>
+                  <button
+                    onClick={() => onReview(version.id, 'approved')}
+                    className="px-2 py-1 text-xs bg-blue-100 text-blue-700 rounded hover:bg-blue-200"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => onReview(version.id, 'needs_revision')}
+                    className="px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200"
+                  >
+                    Request Changes
+                  </button>
+                </>
+              )}
+              {(version.status === 'approved' || (version.status === 'draft' && !requiresReview)) && (
                 <button
                   onClick={() => onPublishVersion(version.id)}
                   className="px-2 py-1 text-xs bg-green-100 text-green-700 rounded hover:bg-green-200"
@@ -343,85 +478,264 @@ const VersionList: React.FC<VersionListProps> = ({
             <p>{version.changes.length} change(s): {version.changes.map(c => c.description).join(', ')}</p>
           </div>
         )}
+
+        {(version.status === 'pending_review' || version.status === 'approved') && (() => {
+          const review = getReviewState(version);
+          return (
+            <div className="mt-2 text-xs text-gray-600">
+              <span className="font-medium">{review.approvals}/{review.requiredApprovals} approvals</span>
+              {review.maintainerRequired && (
+                <span className="ml-2">{review.maintainerApproved ? '• maintainer approved' : '• needs a maintainer'}</span>
+              )}
+              {review.blockers.length > 0 && (
+                <span className="ml-2 text-yellow-700">• {review.blockers.join(' • ')}</span>
+              )}
+            </div>
+          );
+        })()}
       </div>
     ))}
   </div>
 );
 
 // Diff View Component
+type NewReviewComment = Pick<ReviewComment, 'section' | 'lineNumber' | 'side' | 'comment' | 'severity'>;
+
 interface DiffViewProps {
   diff: VersionDiff;
+  /** Version the review comments belong to */
+  toVersion?: ContentVersion;
+  fromVersion?: ContentVersion;
+  onAddComment: (versionId: string, comment: NewReviewComment) => void;
+  onResolveComment: (versionId: string, commentId: string, resolved: boolean) => void;
   onClose: () => void;
 }
 
-const DiffView: React.FC<DiffViewProps> = ({ diff, onClose }) => (
-  <div className="border rounded-lg">
-    <div className="flex items-center justify-between p-4 border-b">
-      <h4 className="font-medium">
-        Version {diff.fromVersion} → {diff.toVersion}
-      </h4>
-      <button
-        onClick={onClose}
-        className="text-gray-500 hover:text-gray-700"
-      >
-        ✕
-      </button>
-    </div>
-    
-    <div className="p-4">
-      <div className="mb-4 flex space-x-4 text-sm">
-        <span className="text-green-600">+{diff.summary.additions} additions</span>
-        <span className="text-red-600">-{diff.summary.deletions} deletions</span>
-        <span className="text-blue-600">{diff.summary.modifications} modifications</span>
+interface DiffRow {
+  oldNumber?: number;
+  newNumber?: number;
+  old?: WordDiffPart[];
+  new?: WordDiffPart[];
+}
+
+// Pair the old and new lines of a hunk; paired lines of a modification get word highlights
+const diffRows = (section: SectionDiff): DiffRow[] => {
+  const oldLines = section.type === 'addition' ? [] : splitLines(section.oldContent ?? '');
+  const newLines = section.type === 'deletion' ? [] : splitLines(section.newContent ?? '');
+  return Array.from({ length: Math.max(oldLines.length, newLines.length) }, (_, i) => {
+    const oldLine = oldLines[i];
+    const newLine = newLines[i];
+    const words = oldLine !== undefined && newLine !== undefined ? diffWords(oldLine, newLine) : null;
+    return {
+      oldNumber: oldLine !== undefined ? section.lineNumbers.old.start + i : undefined,
+      newNumber: newLine !== undefined ? section.lineNumbers.new.start + i : undefined,
+      old: words?.old ?? (oldLine !== undefined ? [{ text: oldLine, changed: false }] : undefined),
+      new: words?.new ?? (newLine !== undefined ? [{ text: newLine, changed: false }] : undefined)
+    };
+  });
+};
+
+const DiffCell: React.FC<{
+  number?: number;
+  parts?: WordDiffPart[];
+  side: 'old' | 'new';
+  onComment?: () => void;
+}> = ({ number, parts, side, onComment }) => (
+  <>
+    <td className="w-10 px-2 text-right text-gray-400 select-none align-top">
+      {number !== undefined && onComment ? (
+        <button onClick={onComment} className="hover:text-blue-600" title="Comment on this line">{number}</button>
+      ) : number}
+    </td>
+    <td className={`px-2 whitespace-pre-wrap break-all align-top ${
+      !parts ? 'bg-gray-50' : side === 'old' ? 'bg-red-50' : 'bg-green-50'
+    }`}>
+      {parts?.map((part, index) => (
+        <span key={index} className={part.changed ? (side === 'old' ? 'bg-red-200' : 'bg-green-200') : undefined}>
+          {part.text}
+        </span>
+      ))}
+    </td>
+  </>
+);
+
+const severityColors: Record<ReviewComment['severity'], string> = {
+  low: 'bg-gray-100 text-gray-700',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-orange-100 text-orange-800',
+  critical: 'bg-red-100 text-red-800'
+};
+
+const DiffView: React.FC<DiffViewProps> = ({ diff, toVersion, fromVersion, onAddComment, onResolveComment, onClose }) => {
+  const [draft, setDraft] = useState<{ section: string; side: 'old' | 'new'; lineNumber: number } | null>(null);
+  const [draftText, setDraftText] = useState('');
+  const [draftSeverity, setDraftSeverity] = useState<ReviewComment['severity']>('medium');
+
+  const comments = toVersion?.reviewComments ?? [];
+  // Comments are anchored to the diff against the parent, so old-side lines only mean something then
+  const canComment = (side: 'old' | 'new') =>
+    !!toVersion && toVersion.status !== 'published' && toVersion.status !== 'archived'
+    && (side === 'new' || fromVersion?.id === toVersion.parentVersionId);
+  const commentsAt = (side: 'old' | 'new', lineNumber?: number) =>
+    lineNumber === undefined ? [] : comments.filter(c => (c.side ?? 'new') === side && c.lineNumber === lineNumber);
+
+  const startComment = (section: string, side: 'old' | 'new', lineNumber: number) => {
+    setDraft({ section, side, lineNumber });
+    setDraftText('');
+  };
+
+  const submitComment = () => {
+    if (toVersion && draft && draftText.trim()) {
+      onAddComment(toVersion.id, { ...draft, comment: draftText.trim(), severity: draftSeverity });
+      setDraft(null);
+    }
+  };
+
+  return (
+    <div className="border rounded-lg">
+      <div className="flex items-center justify-between p-4 border-b">
+        <h4 className="font-medium">
+          Version {diff.fromVersion} → {diff.toVersion}
+        </h4>
+        <button
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-700"
+        >
+          ✕
+        </button>
       </div>
       
-      <div className="space-y-2">
-        {diff.sections.map((section, index) => (
-          <div key={index} className="border rounded p-3">
-            <div className="flex items-center justify-between mb-2">
-              <span className="font-medium text-sm">{section.section}</span>
-              <span className={`px-2 py-1 text-xs rounded ${
-                section.type === 'addition' ? 'bg-green-100 text-green-800' :
-                section.type === 'deletion' ? 'bg-red-100 text-red-800' :
-                'bg-blue-100 text-blue-800'
-              }`}>
-                {section.type}
-              </span>
-            </div>
-            
-            {section.oldContent && (
-              <div className="mb-2">
-                <div className="text-xs text-gray-500 mb-1">Before:</div>
-                <div className="bg-red-50 p-2 rounded text-sm font-mono">
-                  {section.oldContent}
-                </div>
-              </div>
-            )}
-            
-            {section.newContent && (
-              <div>
-                <div className="text-xs text-gray-500 mb-1">After:</div>
-                <div className="bg-green-50 p-2 rounded text-sm font-mono">
-                  {section.newContent}
-                </div>
+      <div className="p-4">
+        <div className="mb-4 flex space-x-4 text-sm">
+          <span className="text-green-600">+{diff.summary.additions} additions</span>
+          <span className="text-red-600">-{diff.summary.deletions} deletions</span>
+          <span className="text-blue-600">{diff.summary.modifications} modifications</span>
+        </div>
+        
+        <div className="space-y-2">
+          {diff.sections.map((section, index) => (
+            <div key={index} className="border rounded p-3">
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-medium text-sm">{section.section}</span>
+                <span className={`px-2 py-1 text-xs rounded ${
+                  section.type === 'addition' ? 'bg-green-100 text-green-800' :
+                  section.type === 'deletion' ? 'bg-red-100 text-red-800' :
+                  'bg-blue-100 text-blue-800'
+                }`}>
+                  {section.type}
+                </span>
               </div>
-            )}
-          </div>
-        ))}
+              
+              <table className="w-full table-fixed text-sm font-mono">
+                <tbody>
+                  {diffRows(section).map((row, rowIndex) => {
+                    const rowComments = [...commentsAt('old', row.oldNumber), ...commentsAt('new', row.newNumber)];
+                    const drafting = draft?.section === section.section
+                      && ((draft.side === 'old' && draft.lineNumber === row.oldNumber)
+                        || (draft.side === 'new' && draft.lineNumber === row.newNumber));
+                    return (
+                      <React.Fragment key={rowIndex}>
+                        <tr>
+                          <DiffCell
+                            number={row.oldNumber}
+                            parts={row.old}
+                            side="old"
+                            onComment={canComment('old') ? () => startComment(section.section, 'old', row.oldNumber!) : undefined}
+                          />
+                          <DiffCell
+                            number={row.newNumber}
+                            parts={row.new}
+                            side="new"
+                            onComment={canComment('new') ? () => startComment(section.section, 'new', row.newNumber!) : undefined}
+                          />
+                        </tr>
+                        {rowComments.map(comment => (
+                          <tr key={comment.id}>
+                            <td colSpan={4} className="px-2 py-1 font-sans">
+                              <div className={`flex items-start justify-between p-2 rounded border ${comment.resolved ? 'opacity-60' : ''}`}>
+                                <div>
+                                  <span className={`px-1.5 py-0.5 text-xs rounded ${severityColors[comment.severity]}`}>{comment.severity}</span>
+                                  <span className="ml-2 text-xs text-gray-500">
+                                    {comment.authorName} on {comment.side === 'old' ? 'old' : 'new'} line {comment.lineNumber}
+                                  </span>
+                                  <p className="mt-1 text-sm text-gray-800">{comment.comment}</p>
+                                </div>
+                                {toVersion && (
+                                  <button
+                                    onClick={() => onResolveComment(toVersion.id, comment.id, !comment.resolved)}
+                                    className="ml-2 px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 whitespace-nowrap"
+                                  >
+                                    {comment.resolved ? 'Reopen' : 'Resolve'}
+                                  </button>
+                                )}
+                              </div>
+                            </td>
+                          </tr>
+                        ))}
+                        {drafting && (
+                          <tr>
+                            <td colSpan={4} className="px-2 py-1 font-sans">
+                              <div className="p-2 border rounded bg-gray-50 space-y-2">
+                                <textarea
+                                  value={draftText}
+                                  onChange={(e) => setDraftText(e.target.value)}
+                                  placeholder={`Comment on ${draft!.side} line ${draft!.lineNumber}`}
+                                  className="w-full px-3 py-2 border rounded-lg text-sm"
+                                  rows={2}
+                                  autoFocus
+                                />
+                                <div className="flex items-center space-x-2">
+                                  <select
+                                    value={draftSeverity}
+                                    onChange={(e) => setDraftSeverity(e.target.value as ReviewComment['severity'])}
+                                    className="px-2 py-1 text-xs border rounded"
+                                    aria-label="Severity"
+                                  >
+                                    {(['low', 'medium', 'high', 'critical'] as const).map(severity => (
+                                      <option key={severity} value={severity}>{severity}</option>
+                                    ))}
+                                  </select>
+                                  <button
+                                    onClick={submitComment}
+                                    className="px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+                                  >
+                                    Comment
+                                  </button>
+                                  <button
+                                    onClick={() => setDraft(null)}
+                                    className="px-3 py-1 text-xs bg-gray-600 text-white rounded hover:bg-gray-700"
+                                  >
+                                    Cancel
+                                  </button>
+                                </div>
+                              </div>
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
       </div>
     </div>
-  </div>
-);
+  );
+};
 
 // Branch View Component
 interface BranchViewProps {
   branches: VersionBranch[];
   onCreateBranch: (name: string, description: string, baseVersionId: string) => void;
+  onMerge: (sourceBranchId: string, targetBranchId: string) => void;
 }
 
-const BranchView: React.FC<BranchViewProps> = ({ branches, onCreateBranch }) => {
+const BranchView: React.FC<BranchViewProps> = ({ branches, onCreateBranch, onMerge }) => {
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [branchForm, setBranchForm] = useState({ name: '', description: '', baseVersionId: '' });
+  const [mergeTargets, setMergeTargets] = useState<Record<string, string>>({});
 
   const handleCreateBranch = () => {
     if (branchForm.name && branchForm.description && branchForm.baseVersionId) {
@@ -497,13 +811,36 @@ const BranchView: React.FC<BranchViewProps> = ({ branches, onCreateBranch }) =>
                   Created by {branch.author.name} • {branch.versions.length} versions
                 </p>
               </div>
-              <span className={`px-2 py-1 text-xs rounded ${
-                branch.status === 'active' ? 'bg-green-100 text-green-800' :
-                branch.status === 'merged' ? 'bg-blue-100 text-blue-800' :
-                'bg-gray-100 text-gray-800'
-              }`}>
-                {branch.status}
-              </span>
+              <div className="flex items-center space-x-2">
+                {branch.status === 'active' && (
+                  <>
+                    <select
+                      value={mergeTargets[branch.id] ?? MAIN_BRANCH_ID}
+                      onChange={(e) => setMergeTargets({ ...mergeTargets, [branch.id]: e.target.value })}
+                      className="px-2 py-1 text-xs border rounded"
+                      aria-label={`Merge ${branch.name} into`}
+                    >
+                      <option value={MAIN_BRANCH_ID}>{MAIN_BRANCH_ID}</option>
+                      {branches
+                        .filter(b => b.id !== branch.id && b.status === 'active')
+                        .map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                    </select>
+                    <button
+                      onClick={() => onMerge(branch.id, mergeTargets[branch.id] ?? MAIN_BRANCH_ID)}
+                      className="px-2 py-1 text-xs bg-purple-100 text-purple-700 rounded hover:bg-purple-200"
+                    >
+                      Merge
+                    </button>
+                  </>
+                )}
+                <span className={`px-2 py-1 text-xs rounded ${
+                  branch.status === 'active' ? 'bg-green-100 text-green-800' :
+                  branch.status === 'merged' ? 'bg-blue-100 text-blue-800' :
+                  'bg-gray-100 text-gray-800'
+                }`}>
+                  {branch.status}
+                </span>
+              </div>
             </div>
           </div>
         ))}
@@ -512,18 +849,130 @@ const BranchView: React.FC<BranchViewProps> = ({ branches, onCreateBranch }) =>
   );
 };
 
+// Merge Conflict Resolver Component
+interface MergeConflictResolverProps {
+  conflicts: MergeConflict[];
+  sourceName: string;
+  targetName: string;
+  onComplete: (resolutions: Record<string, string>) => void;
+  onCancel: () => void;
+}
+
+const ConflictSide: React.FC<{ label: string; range: { start: number; end: number }; content: string; className: string }> = ({
+  label,
+  range,
+  content,
+  className
+}) => (
+  <div className="min-w-0">
+    <div className="text-xs text-gray-500 mb-1">
+      {label} • {range.end < range.start ? `after line ${range.end}` : `lines ${range.start}–${range.end}`}
+    </div>
+    <pre className={`p-2 rounded text-sm font-mono whitespace-pre-wrap break-all min-h-[2.5rem] ${className}`}>{content}</pre>
+  </div>
+);
+
+const MergeConflictResolver: React.FC<MergeConflictResolverProps> = ({
+  conflicts,
+  sourceName,
+  targetName,
+  onComplete,
+  onCancel
+}) => {
+  const [resolutions, setResolutions] = useState<Record<string, string>>({});
+  const unresolved = conflicts.filter(conflict => resolutions[conflict.id] === undefined).length;
+
+  const resolve = (conflictId: string, text: string) => setResolutions({ ...resolutions, [conflictId]: text });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h4 className="font-medium">Resolve conflicts: {sourceName} → {targetName}</h4>
+          <p className="text-sm text-gray-600">
+            {conflicts.length} conflict(s), {unresolved} unresolved
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => onComplete(resolutions)}
+            disabled={unresolved > 0}
+            className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700 disabled:bg-gray-300"
+          >
+            Complete Merge
+          </button>
+          <button
+            onClick={onCancel}
+            className="px-3 py-1 text-sm bg-gray-600 text-white rounded hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+
+      {conflicts.map((conflict) => (
+        <div key={conflict.id} className="border rounded-lg p-4">
+          <div className="flex items-center justify-between mb-3">
+            <div>
+              <span className="font-medium text-sm">{conflict.section}</span>
+              <p className="text-xs text-gray-500">{conflict.description}</p>
+            </div>
+            {resolutions[conflict.id] !== undefined && (
+              <span className="px-2 py-1 text-xs rounded bg-green-100 text-green-800">resolved</span>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <ConflictSide label={targetName} range={conflict.lineNumbers.target} content={conflict.targetContent} className="bg-blue-50" />
+            <ConflictSide label="Common version" range={conflict.lineNumbers.base} content={conflict.baseContent} className="bg-gray-50" />
+            <ConflictSide label={sourceName} range={conflict.lineNumbers.source} content={conflict.sourceContent} className="bg-purple-50" />
+          </div>
+
+          <div className="flex space-x-2 mt-3">
+            <button
+              onClick={() => resolve(conflict.id, conflict.targetContent)}
+              className="px-2 py-1 text-xs bg-blue-100 text-blue-700 rounded hover:bg-blue-200"
+            >
+              Use {targetName}
+            </button>
+            <button
+              onClick={() => resolve(conflict.id, conflict.sourceContent)}
+              className="px-2 py-1 text-xs bg-purple-100 text-purple-700 rounded hover:bg-purple-200"
+            >
+              Use {sourceName}
+            </button>
+            <button
+              onClick={() => resolve(conflict.id, [conflict.targetContent, conflict.sourceContent].filter(Boolean).join('\n'))}
+              className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+            >
+              Use Both
+            </button>
+          </div>
+
+          <textarea
+            value={resolutions[conflict.id] ?? ''}
+            onChange={(e) => resolve(conflict.id, e.target.value)}
+            placeholder="Pick a side above or write the merged text"
+            className="w-full mt-3 px-3 py-2 border rounded-lg font-mono text-sm"
+            rows={Math.max(3, splitLines(resolutions[conflict.id] ?? '').length)}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
 // Collaborative View Component
 interface CollaborativeViewProps {
   session: CollaborativeSession | null;
-  onJoinSession: (sessionId: string) => void;
 }
 
-const CollaborativeView: React.FC<CollaborativeViewProps> = ({ session, onJoinSession }) => {
+const CollaborativeView: React.FC<CollaborativeViewProps> = ({ session }) => {
   if (!session) {
     return (
       <div className="text-center p-8 text-gray-500">
         <p>No active collaborative session.</p>
-        <p className="text-sm mt-2">Start a collaboration session to enable real-time editing.</p>
+        <p className="text-sm mt-2">Start a collaboration session to edit this article together in the editor.</p>
       </div>
     );
   }
@@ -537,10 +986,11 @@ const CollaborativeView: React.FC<CollaborativeViewProps> = ({ session, onJoinSe
             <h5 className="text-sm font-medium text-gray-700">Participants ({session.participants.length})</h5>
             <div className="mt-2 space-y-2">
               {session.participants.map((participant) => (
-                <div key={participant.userId} className="flex items-center space-x-3">
-                  <div className={`w-3 h-3 rounded-full ${
-                    participant.isActive ? 'bg-green-400' : 'bg-gray-400'
-                  }`}></div>
+                <div key={participant.connectionId ?? participant.userId} className="flex items-center space-x-3">
+                  <div
+                    className="w-3 h-3 rounded-full"
+                    style={{ backgroundColor: participant.isActive ? participantColor(participant.connectionId ?? participant.userId) : '#9ca3af' }}
+                  ></div>
                   <span className="text-sm">{participant.name}</span>
                   <span className="text-xs text-gray-500">({participant.role})</span>
                 </div>
@@ -554,7 +1004,16 @@ const CollaborativeView: React.FC<CollaborativeViewProps> = ({ session, onJoinSe
               {session.changes.length === 0 ? (
                 <p>No changes yet</p>
               ) : (
-                <p>{session.changes.length} real-time changes made</p>
+                <ul className="space-y-1">
+                  {session.changes.slice(-5).reverse().map((change) => (
+                    <li key={change.id} className="truncate">
+                      {session.participants.find(p => p.userId === change.userId)?.name ?? change.userId}
+                      {change.type === 'insert' ? ' inserted ' : ' deleted '}
+                      <span className="font-mono">{JSON.stringify(change.content.slice(0, 40))}</span>
+                      {' '}at {change.position}
+                    </li>
+                  ))}
+                </ul>
               )}
             </div>
           </div>
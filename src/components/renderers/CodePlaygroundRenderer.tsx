@@ -1,7 +1,10 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Editor } from '@monaco-editor/react';
 import { ArticleComponent, CodePlaygroundContent } from '../../types/ComponentTypes';
+import { ExecutionEnvironmentInfo } from '../../types/CodeExampleTypes';
 import { useTheme } from '../../contexts/ThemeContext';
+import { codeExamplesService } from '../../services/CodeExamplesService';
+import { registerMonacoLanguages } from '../../utils/monacoLanguages';
 
 interface CodePlaygroundRendererProps {
   component: ArticleComponent;
@@ -21,6 +24,7 @@ const CodePlaygroundRenderer: React.FC<CodePlaygroundRendererProps> = ({
   const [activeFile, setActiveFile] = useState(0);
   const [showSolution, setShowSolution] = useState(false);
   const [consoleOutput, setConsoleOutput] = useState<string[]>([]);
+  const [executionInfo, setExecutionInfo] = useState<ExecutionEnvironmentInfo | null>(null);
   const editorRef = useRef<any>(null);
 
   // Get Monaco theme based on app theme
@@ -34,6 +38,21 @@ const CodePlaygroundRenderer: React.FC<CodePlaygroundRendererProps> = ({
     setShowSolution(false);
   }, [content.initialCode]);
 
+  const runsOnBackend = ['javascript', 'typescript', 'python', 'cpp'].includes(content.language);
+  // Build and interface definitions are checked rather than run
+  const checksSyntax = content.language === 'gn' || content.language === 'mojom';
+
+  useEffect(() => {
+    if (!content.runnable || !runsOnBackend) return;
+    let cancelled = false;
+    codeExamplesService.executionService.getEnvironmentInfo('browser', content.language).then(info => {
+      if (!cancelled) setExecutionInfo(info);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [content.runnable, content.language]);
+
   const handleEditorDidMount = (editor: any, monaco: any) => {
     editorRef.current = editor;
     
@@ -69,11 +88,19 @@ const CodePlaygroundRenderer: React.FC<CodePlaygroundRendererProps> = ({
         codeLength: code.length 
       });
 
+      let success = true;
+
       // Handle different languages
       switch (content.language) {
         case 'javascript':
         case 'typescript':
-          await runJavaScript();
+        case 'python':
+        case 'cpp':
+          success = await runWithBackend();
+          break;
+        case 'gn':
+        case 'mojom':
+          success = await checkSyntax();
           break;
         case 'html':
           await runHTML();
@@ -81,19 +108,13 @@ const CodePlaygroundRenderer: React.FC<CodePlaygroundRendererProps> = ({
         case 'css':
           await runCSS();
           break;
-        case 'python':
-          await runPython();
-          break;
-        case 'cpp':
-          await runCpp();
-          break;
         default:
           setOutput('Language not supported for execution');
       }
 
       onInteraction?.('code_run_complete', { 
         language: content.language,
-        success: true 
+        success
       });
     } catch (error) {
       setOutput(`Error: ${error}`);
@@ -106,46 +127,40 @@ const CodePlaygroundRenderer: React.FC<CodePlaygroundRendererProps> = ({
     }
   };
 
-  const runJavaScript = async () => {
-    const consoleCapture: string[] = [];
-    
-    // Create a sandbox console
-    const sandboxConsole = {
-      log: (...args: any[]) => {
-        const message = args.map(arg => 
-          typeof arg === 'object' ? JSON.stringify(arg, null, 2) : String(arg)
-        ).join(' ');
-        consoleCapture.push(message);
-      },
-      error: (...args: any[]) => {
-        const message = args.map(arg => String(arg)).join(' ');
-        consoleCapture.push(`Error: ${message}`);
-      },
-      warn: (...args: any[]) => {
-        const message = args.map(arg => String(arg)).join(' ');
-        consoleCapture.push(`Warning: ${message}`);
-      }
-    };
+  // The browser sandbox, or for Python and C++ the local code runner
+  const runWithBackend = async () => {
+    const result = await codeExamplesService.executionService.execute(code, content.language, 'browser');
+    const consoleCapture = result.output ? result.output.split('\n') : [];
 
-    try {
-      // Create a function with the code and custom console
-      const wrappedCode = `
-        const console = arguments[0];
-        ${code}
-      `;
-      
-      const func = new Function(wrappedCode);
-      const result = func(sandboxConsole);
-      
-      if (result !== undefined) {
-        consoleCapture.push(`Result: ${JSON.stringify(result)}`);
-      }
-    } catch (error) {
-      consoleCapture.push(`Runtime Error: ${error}`);
+    if (result.returnValue !== undefined) {
+      consoleCapture.push(`Result: ${result.returnValue}`);
+    }
+    if (result.error) {
+      consoleCapture.push(`Runtime Error: ${result.error}`);
     }
+    result.warnings?.forEach(warning => consoleCapture.push(`Warning: ${warning}`));
 
     setConsoleOutput(consoleCapture);
     setOutput(consoleCapture.join('\n') || 'Code executed successfully (no output)');
+    return result.success;
+  };
+
+  const checkSyntax = async () => {
+    const { valid, errors } = await codeExamplesService.executionService.validateCode(code, content.language);
+    setConsoleOutput(errors);
+    setOutput(valid ? 'No syntax errors' : errors.join('\n'));
+    return valid;
+  };
+
+  const formatCode = async () => {
+    const formatted = await codeExamplesService.executionService.formatCode(code, content.language);
+    if (formatted === code) {
+      // Unchanged, or left alone because it does not parse; say which
+      await checkSyntax();
+      return;
+    }
+    setCode(formatted);
+    onInteraction?.('code_format', { language: content.language });
   };
 
   const runHTML = async () => {
@@ -158,14 +173,6 @@ const CodePlaygroundRenderer: React.FC<CodePlaygroundRendererProps> = ({
     setOutput('CSS styles applied (preview would show in output panel)');
   };
 
-  const runPython = async () => {
-    setOutput('Python execution not implemented in this demo. Would use Pyodide or server-side execution.');
-  };
-
-  const runCpp = async () => {
-    setOutput('C++ compilation not implemented in this demo. Would use server-side compilation or WASM.');
-  };
-
   const resetCode = () => {
     setCode(content.initialCode);
     setOutput('');
@@ -255,6 +262,18 @@ const CodePlaygroundRenderer: React.FC<CodePlaygroundRendererProps> = ({
             <span className="px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded text-xs font-medium text-gray-600 dark:text-gray-400">
               {content.language.toUpperCase()}
             </span>
+            {executionInfo && (
+              <span
+                className={`px-2 py-1 rounded text-xs font-medium ${
+                  executionInfo.available
+                    ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                    : 'bg-gray-200 text-gray-600 dark:bg-gray-700 dark:text-gray-400'
+                }`}
+                title={executionInfo.hint || executionInfo.version}
+              >
+                {executionInfo.available ? executionInfo.backend : 'No runner available'}
+              </span>
+            )}
             {metadata.difficulty && (
               <span className={`px-2 py-1 rounded text-xs font-medium ${
                 metadata.difficulty === 'beginner' ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' :
@@ -279,9 +298,18 @@ const CodePlaygroundRenderer: React.FC<CodePlaygroundRendererProps> = ({
                 onClick={runCode}
                 disabled={isRunning}
                 className="px-3 py-1 text-xs bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded transition-colors"
-                title="Run code (Ctrl/Cmd + Enter)"
+                title={checksSyntax ? 'Check syntax (Ctrl/Cmd + Enter)' : 'Run code (Ctrl/Cmd + Enter)'}
+              >
+                {isRunning ? (checksSyntax ? 'Checking...' : 'Running...') : (checksSyntax ? 'Check' : 'Run')}
+              </button>
+            )}
+            {checksSyntax && (
+              <button
+                onClick={formatCode}
+                className="px-3 py-1 text-xs bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded transition-colors"
+                title="Format code"
               >
-                {isRunning ? 'Running...' : 'Run'}
+                Format
               </button>
             )}
             <button
@@ -311,6 +339,7 @@ const CodePlaygroundRenderer: React.FC<CodePlaygroundRendererProps> = ({
             value={code}
             theme={monacoTheme}
             onChange={(value) => setCode(value || '')}
+            beforeMount={registerMonacoLanguages}
             onMount={handleEditorDidMount}
             options={{
               fontSize: 14,
@@ -2,7 +2,9 @@ import React from 'react';
 import ReactMarkdown from 'react-markdown';
 import { ArticleComponent, MarkdownContent } from '../../types/ComponentTypes';
 import CodeBlock from '../CodeBlock';
-import { SectionBookmark } from '../SectionBookmark';
+import { SectionBookmark, getHeadingText } from '../SectionBookmark';
+import { parseFrontmatter, normalizeTags, parseReadingTime, parseDifficulty } from '../../utils/frontmatter';
+import { slugifyHeading } from '../../utils/markdown';
 
 interface MarkdownRendererProps {
   component: ArticleComponent;
@@ -14,7 +16,18 @@ const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({
   onInteraction 
 }) => {
   const content = component.content as MarkdownContent;
-  const { metadata } = component;
+  const parsed = parseFrontmatter(content.source);
+  const frontmatter = content.frontmatter ?? parsed.frontmatter;
+
+  // Explicit component metadata wins over the source's frontmatter
+  const frontmatterTags = normalizeTags(frontmatter.tags);
+  const metadata = {
+    ...component.metadata,
+    description: component.metadata.description ?? (typeof frontmatter.description === 'string' ? frontmatter.description : undefined),
+    difficulty: component.metadata.difficulty ?? parseDifficulty(frontmatter.difficulty),
+    estimatedReadTime: component.metadata.estimatedReadTime ?? parseReadingTime(frontmatter.estimated_reading_time),
+    tags: component.metadata.tags ?? (frontmatterTags.length > 0 ? frontmatterTags : undefined),
+  };
 
   // Custom components for ReactMarkdown
   const components = {
@@ -26,9 +39,8 @@ const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({
       );
     },
     h1: ({ children, ...props }: any) => {
-      const headingText = typeof children === 'string' ? children : 
-                         Array.isArray(children) ? children.join('') : 'Heading';
-      const sectionId = headingText.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+      const headingText = getHeadingText(children) || 'Heading';
+      const sectionId = slugifyHeading(headingText);
       
       return (
         <SectionBookmark
@@ -47,9 +59,8 @@ const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({
       );
     },
     h2: ({ children, ...props }: any) => {
-      const headingText = typeof children === 'string' ? children : 
-                         Array.isArray(children) ? children.join('') : 'Section';
-      const sectionId = headingText.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+      const headingText = getHeadingText(children) || 'Section';
+      const sectionId = slugifyHeading(headingText);
       
       return (
         <SectionBookmark
@@ -68,9 +79,8 @@ const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({
       );
     },
     h3: ({ children, ...props }: any) => {
-      const headingText = typeof children === 'string' ? children : 
-                         Array.isArray(children) ? children.join('') : 'Subsection';
-      const sectionId = headingText.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+      const headingText = getHeadingText(children) || 'Subsection';
+      const sectionId = slugifyHeading(headingText);
       
       return (
         <SectionBookmark
@@ -169,7 +179,7 @@ const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({
       {/* Render markdown content */}
       <div className="prose dark:prose-invert max-w-none">
         <ReactMarkdown components={components}>
-          {content.source}
+          {parsed.body}
         </ReactMarkdown>
       </div>
     </div>
@@ -1,9 +1,32 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { searchIndexService, SearchHit } from '../services/SearchIndexService';
+import { codeExamplesService } from '../services/CodeExamplesService';
+import { searchFeedbackService, normalizeSearchQuery } from '../services/SearchFeedbackService';
+import { CodeExampleMatch } from '../types/CodeExampleTypes';
+import { SearchDocument, SearchIndexManifest, tokenizeCode } from '../utils/searchIndex';
+import {
+  parseSearchQuery,
+  matchesPathPattern,
+  getQualifierValues,
+  getQueryScope,
+  getQueryWords,
+  expandSynonyms,
+  QuerySyntaxError
+} from '../utils/searchQuery';
+import { stem } from '../utils/stemmer';
+import { useSubject } from './SubjectContext';
+import { buildSectionUrl } from '../utils/sectionHighlight';
+import { getSubjectById, getSubjectContentDir, getSubjectContentDirs, getSubjectForContentDir } from '../contentIndex';
 
 export interface SearchResult {
+  /** Subject the article is shown under */
+  subject: string;
+  /** Article path within the subject, e.g. `architecture/overview` */
   path: string;
+  /** Route of the article, `/<subject>/<path>` */
+  url: string;
   title: string;
-  content: string;
+  description?: string;
   category: string;
   tags: string[];
   difficulty?: 'beginner' | 'intermediate' | 'advanced';
@@ -12,12 +35,42 @@ export interface SearchResult {
   relevanceScore: number;
   matchedTerms: string[];
   snippet: string;
+  /** Best matching sections of the article, best first */
+  sections: SearchResultSection[];
+}
+
+export interface SearchResultSection {
+  heading: string;
+  excerpt: string;
+  /** Route to the section, highlighting the words it matched */
+  url: string;
+  matchedTerms: string[];
+}
+
+/** An example from the code examples repository matching the query */
+export interface CodeExampleResult {
+  id: string;
+  title: string;
+  description: string;
+  language: string;
+  /** Route that opens the example in the repository */
+  url: string;
+  /** A few lines of code from the first one mentioning a matched word */
+  excerpt: string;
+  matchedTerms: string[];
 }
 
 export interface SearchFilters {
+  /** Search every subject instead of only the current one */
+  allSubjects: boolean;
+  /** Subject ids to keep when searching all subjects; empty keeps all */
+  subjects: string[];
   categories: string[];
   difficulty: ('beginner' | 'intermediate' | 'advanced')[];
+  /** Tags an article must all have, like `tag:` qualifiers */
   tags: string[];
+  /** Article path patterns within the subject, e.g. `architecture/*` */
+  paths: string[];
   minReadingTime?: number;
   maxReadingTime?: number;
   dateRange?: {
@@ -35,6 +88,11 @@ export interface SearchSuggestion {
   category?: string;
 }
 
+export interface SubjectFacet {
+  subject: string;
+  count: number;
+}
+
 export interface SearchHistory {
   query: string;
   timestamp: Date;
@@ -47,6 +105,10 @@ export interface SearchAnalytics {
   popularCategories: { category: string; count: number }[];
   searchTrends: { date: string; searches: number }[];
   noResultQueries: string[];
+  /** Times each query found nothing, by normalized query */
+  noResultCounts: Record<string, number>;
+  /** Clicks on each result, by normalized query and then result url */
+  clickThrough: Record<string, Record<string, number>>;
   averageResultsPerQuery: number;
   totalSearches: number;
 }
@@ -55,7 +117,15 @@ interface AdvancedSearchContextType {
   // Search state
   query: string;
   results: SearchResult[];
+  /** Code examples matching the last query, shown apart from the articles */
+  codeExamples: CodeExampleResult[];
+  /** Matches per subject for the last all-subjects search, before the subject filter */
+  subjectFacets: SubjectFacet[];
   filters: SearchFilters;
+  /** Problems in the last query, with their position in it */
+  queryErrors: QuerySyntaxError[];
+  /** A respelling of the last query from the index vocabulary, when it found nothing */
+  didYouMean: string | null;
   suggestions: SearchSuggestion[];
   searchHistory: SearchHistory[];
   analytics: SearchAnalytics;
@@ -66,6 +136,8 @@ interface AdvancedSearchContextType {
   updateFilters: (filters: Partial<SearchFilters>) => void;
   clearFilters: () => void;
   getSuggestions: (partialQuery: string) => SearchSuggestion[];
+  /** Start loading the index document tables that back suggestions, e.g. when a search box gains focus */
+  preloadSearchIndex: () => void;
   
   // Analytics methods
   trackSearch: (query: string, resultsCount: number) => void;
@@ -74,8 +146,12 @@ interface AdvancedSearchContextType {
   getSearchTrends: () => { date: string; searches: number }[];
   
   // Semantic search
+  /** Articles whose TF-IDF vectors are closest to a text */
   findSimilarContent: (content: string) => Promise<SearchResult[]>;
-  findRelatedTopics: (topic: string) => string[];
+  /** Articles most similar to a search result, as computed by the index build */
+  findMoreLikeThis: (result: SearchResult) => Promise<SearchResult[]>;
+  /** Tags of the articles most similar to a topic */
+  findRelatedTopics: (topic: string) => Promise<string[]>;
   
   // Data management
   clearSearchHistory: () => void;
@@ -99,11 +175,57 @@ const STORAGE_KEYS = {
   SEARCH_PREFERENCES: 'wanderlust-search-preferences',
 } as const;
 
+/** Results beyond this rank show the article description instead of a matching excerpt */
+const SNIPPET_RESULT_LIMIT = 50;
+
+/** Lines of code shown for a code example result */
+const CODE_EXCERPT_LINES = 3;
+
+/** Score boost per doubling of a result's clicks for the same query */
+const CLICK_BOOST = 0.2;
+
+/** Largest factor clicks can raise a score by, so a stale favourite cannot bury better matches */
+const MAX_CLICK_BOOST = 2;
+
+/** Queries kept in the click-through table; the least clicked are dropped first */
+const MAX_CLICK_QUERIES = 200;
+
+const clickBoost = (clicks: number) => Math.min(MAX_CLICK_BOOST, 1 + CLICK_BOOST * Math.log2(1 + clicks));
+
+const toCodeExampleResult = ({ example, matchedTerms }: CodeExampleMatch): CodeExampleResult => {
+  const stems = matchedTerms.map(stem);
+  const lines = example.code.split('\n');
+  const first = Math.max(0, lines.findIndex(line => tokenizeCode(line).some(word => stems.includes(stem(word)))));
+  return {
+    id: example.id,
+    title: example.title,
+    description: example.description,
+    language: example.language,
+    url: `/code-examples?example=${encodeURIComponent(example.id)}`,
+    excerpt: lines.slice(first, first + CODE_EXCERPT_LINES).join('\n'),
+    matchedTerms
+  };
+};
+
+const defaultAnalytics: SearchAnalytics = {
+  popularQueries: [],
+  popularCategories: [],
+  searchTrends: [],
+  noResultQueries: [],
+  noResultCounts: {},
+  clickThrough: {},
+  averageResultsPerQuery: 0,
+  totalSearches: 0,
+};
+
 // Default filters
 const defaultFilters: SearchFilters = {
+  allSubjects: false,
+  subjects: [],
   categories: [],
   difficulty: [],
   tags: [],
+  paths: [],
   sortBy: 'relevance',
   sortOrder: 'desc',
 };
@@ -111,36 +233,27 @@ const defaultFilters: SearchFilters = {
 export const AdvancedSearchProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [query, setQuery] = useState('');
   const [results, setResults] = useState<SearchResult[]>([]);
+  const [codeExamples, setCodeExamples] = useState<CodeExampleResult[]>([]);
+  const [subjectFacets, setSubjectFacets] = useState<SubjectFacet[]>([]);
   const [filters, setFilters] = useState<SearchFilters>(defaultFilters);
+  const [queryErrors, setQueryErrors] = useState<QuerySyntaxError[]>([]);
+  const [didYouMean, setDidYouMean] = useState<string | null>(null);
   const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
   const [searchHistory, setSearchHistory] = useState<SearchHistory[]>([]);
-  const [analytics, setAnalytics] = useState<SearchAnalytics>({
-    popularQueries: [],
-    popularCategories: [],
-    searchTrends: [],
-    noResultQueries: [],
-    averageResultsPerQuery: 0,
-    totalSearches: 0,
-  });
+  const [analytics, setAnalytics] = useState<SearchAnalytics>(defaultAnalytics);
   const [isLoading, setIsLoading] = useState(false);
-  const [searchIndex, setSearchIndex] = useState<any[]>([]);
+  const { currentSubject } = useSubject();
+  const filtersRef = useRef(filters);
+  const currentSubjectRef = useRef(currentSubject);
+  const analyticsRef = useRef(analytics);
+  const suggestionsRequested = useRef(false);
 
-  // Load search index and saved data
-  useEffect(() => {
-    const loadSearchIndex = async () => {
-      try {
-        const response = await fetch('/search-index.json');
-        const data = await response.json();
-        setSearchIndex(data);
-        
-        // Generate suggestions from the index
-        generateSuggestions(data);
-      } catch (error) {
-        console.error('Error loading search index:', error);
-      }
-    };
+  filtersRef.current = filters;
+  currentSubjectRef.current = currentSubject;
+  analyticsRef.current = analytics;
 
-    loadSearchIndex();
+  // The index itself is loaded on demand; only saved data is read on mount
+  useEffect(() => {
     loadSavedData();
   }, []);
 
@@ -159,7 +272,7 @@ export const AdvancedSearchProvider: React.FC<{ children: React.ReactNode }> = (
       }
 
       if (savedAnalytics) {
-        setAnalytics(JSON.parse(savedAnalytics));
+        setAnalytics({ ...defaultAnalytics, ...JSON.parse(savedAnalytics) });
       }
 
       if (savedPreferences) {
@@ -170,35 +283,31 @@ export const AdvancedSearchProvider: React.FC<{ children: React.ReactNode }> = (
     }
   };
 
-  const generateSuggestions = (data: any[]) => {
+  const generateSuggestions = (documents: SearchDocument[], manifest: SearchIndexManifest) => {
     const suggestions: SearchSuggestion[] = [];
     const categoryCount: Record<string, number> = {};
     const tagCount: Record<string, number> = {};
 
-    data.forEach(item => {
-      // Extract category from path
-      const category = item.path.split('/')[0];
-      categoryCount[category] = (categoryCount[category] || 0) + 1;
+    documents.forEach(document => {
+      categoryCount[document.category] = (categoryCount[document.category] || 0) + 1;
 
       // Add article titles as suggestions
-      if (item.title) {
-        suggestions.push({
-          text: item.title,
-          type: 'article',
-          frequency: 1,
-          category,
-        });
-      }
+      suggestions.push({
+        text: document.title,
+        type: 'article',
+        frequency: 1,
+        category: document.category,
+      });
 
-      // Extract common terms for suggestions
-      const words = item.content
-        .toLowerCase()
-        .replace(/[^\w\s]/g, ' ')
-        .split(/\s+/)
-        .filter((word: string) => word.length > 3);
+      document.tags.forEach(tag => {
+        tagCount[tag] = (tagCount[tag] || 0) + 1;
+      });
+    });
 
-      words.forEach((word: string) => {
-        tagCount[word] = (tagCount[word] || 0) + 1;
+    // Common index terms stand in for tags on articles without frontmatter
+    Object.values(manifest.shards).forEach(shard => {
+      shard.topTerms.forEach(({ term, documents: count }) => {
+        tagCount[term] = Math.max(tagCount[term] || 0, count);
       });
     });
 
@@ -228,150 +337,186 @@ export const AdvancedSearchProvider: React.FC<{ children: React.ReactNode }> = (
     setSuggestions(suggestions);
   };
 
-  const calculateRelevanceScore = (item: any, query: string, filters: SearchFilters): number => {
-    let score = 0;
-    const queryLower = query.toLowerCase();
-    const queryTerms = queryLower.split(/\s+/).filter(term => term.length > 0);
-
-    // Title match (highest weight)
-    if (item.title?.toLowerCase().includes(queryLower)) {
-      score += 100;
+  const preloadSearchIndex = useCallback(() => {
+    if (suggestionsRequested.current) {
+      return;
     }
+    suggestionsRequested.current = true;
 
-    // Exact phrase match in content
-    if (item.content?.toLowerCase().includes(queryLower)) {
-      score += 50;
-    }
+    const loadSuggestions = async () => {
+      try {
+        const manifest = await searchIndexService.getManifest();
+        const documents = await Promise.all(
+          Object.keys(manifest.shards).map(shard => searchIndexService.getDocuments(shard))
+        );
+        generateSuggestions(documents.flat(), manifest);
+      } catch (error) {
+        suggestionsRequested.current = false;
+        console.error('Error loading search index:', error);
+      }
+    };
+
+    loadSuggestions();
+  }, []);
 
-    // Individual term matches
-    queryTerms.forEach(term => {
-      if (item.title?.toLowerCase().includes(term)) {
-        score += 20;
+  const matchesFilters = (document: SearchDocument, currentFilters: SearchFilters): boolean => {
+    if (currentFilters.categories.length > 0 && !currentFilters.categories.includes(document.category)) {
+      return false;
+    }
+    if (currentFilters.difficulty.length > 0 && (!document.difficulty || !currentFilters.difficulty.includes(document.difficulty))) {
+      return false;
+    }
+    if (currentFilters.tags.length > 0) {
+      const documentTags = document.tags.map(tag => tag.toLowerCase());
+      if (!currentFilters.tags.every(tag => documentTags.includes(tag.toLowerCase()))) {
+        return false;
       }
-      if (item.content?.toLowerCase().includes(term)) {
-        score += 10;
+    }
+    if (currentFilters.paths.length > 0) {
+      // Index paths start with the content directory
+      const path = document.path.slice(document.path.indexOf('/') + 1);
+      if (!currentFilters.paths.some(pattern => matchesPathPattern(path, pattern))) {
+        return false;
       }
-    });
-
-    // Category relevance
-    const category = item.path.split('/')[0];
-    if (filters.categories.length === 0 || filters.categories.includes(category)) {
-      score += 5;
     }
-
-    // Boost for recent content
-    if (item.lastUpdated) {
-      const daysSinceUpdate = (Date.now() - new Date(item.lastUpdated).getTime()) / (1000 * 60 * 60 * 24);
-      if (daysSinceUpdate < 30) {
-        score += 10;
+    if (currentFilters.minReadingTime !== undefined && document.readingTime < currentFilters.minReadingTime) {
+      return false;
+    }
+    if (currentFilters.maxReadingTime !== undefined && document.readingTime > currentFilters.maxReadingTime) {
+      return false;
+    }
+    const { start, end } = currentFilters.dateRange ?? {};
+    if (start || end) {
+      const updated = document.lastUpdated ? new Date(document.lastUpdated) : undefined;
+      if (!updated || (start && updated < new Date(start)) || (end && updated > new Date(end))) {
+        return false;
       }
     }
+    return true;
+  };
 
-    return score;
+  const compareResults = (a: SearchResult, b: SearchResult, currentFilters: SearchFilters): number => {
+    const direction = currentFilters.sortOrder === 'asc' ? 1 : -1;
+    switch (currentFilters.sortBy) {
+      case 'title':
+        return direction * a.title.localeCompare(b.title);
+      case 'date':
+        return direction * ((a.lastUpdated?.getTime() ?? 0) - (b.lastUpdated?.getTime() ?? 0));
+      case 'readingTime':
+        return direction * ((a.readingTime ?? 0) - (b.readingTime ?? 0));
+      default: // relevance
+        return direction * (a.relevanceScore - b.relevanceScore);
+    }
   };
 
-  const generateSnippet = (content: string, query: string): string => {
-    const queryLower = query.toLowerCase();
-    const contentLower = content.toLowerCase();
-    const index = contentLower.indexOf(queryLower);
-    
-    if (index === -1) {
-      return content.slice(0, 200) + '...';
+  /**
+   * The subject a hit is shown under: the subject being searched when the
+   * hit is from its own directory, otherwise the one that owns the hit's
+   * content directory.
+   */
+  const subjectForHit = (hit: SearchHit, allSubjects: boolean): string => {
+    const current = currentSubjectRef.current;
+    if (!allSubjects && hit.shard === getSubjectContentDir(current)) {
+      return current.id;
     }
+    return getSubjectForContentDir(hit.shard)?.id ?? hit.shard;
+  };
 
-    const start = Math.max(0, index - 100);
-    const end = Math.min(content.length, index + query.length + 100);
-    let snippet = content.slice(start, end);
-    
-    if (start > 0) snippet = '...' + snippet;
-    if (end < content.length) snippet = snippet + '...';
-    
-    return snippet;
+  const toSearchResult = async (hit: SearchHit, rank: number, subject: string): Promise<SearchResult> => {
+    const { document } = hit;
+    const sections = rank < SNIPPET_RESULT_LIMIT
+      ? await searchIndexService.getSections(hit.shard, hit.documentIndex).catch(() => [])
+      : [];
+    // Index paths start with the content directory
+    const path = document.path.split('/').slice(1).join('/');
+    const url = `/${subject}/${path}`;
+
+    return {
+      subject,
+      path,
+      url,
+      title: document.title,
+      description: document.description,
+      category: document.category,
+      tags: document.tags,
+      difficulty: document.difficulty,
+      readingTime: document.readingTime,
+      lastUpdated: document.lastUpdated ? new Date(document.lastUpdated) : undefined,
+      relevanceScore: hit.score,
+      matchedTerms: hit.matchedTerms,
+      snippet: searchIndexService.buildSnippet(sections, hit.matchedTerms, document.description),
+      sections: (hit.sections ?? [])
+        .filter(({ section }) => sections[section])
+        .map(({ section, matchedTerms }) => {
+          const [heading, excerpt] = sections[section];
+          return { heading, excerpt, url: buildSectionUrl(url, heading, matchedTerms), matchedTerms };
+        }),
+    };
   };
 
-  const search = async (searchQuery: string, searchFilters?: Partial<SearchFilters>) => {
+  const search = useCallback(async (searchQuery: string, searchFilters?: Partial<SearchFilters>) => {
     setIsLoading(true);
     setQuery(searchQuery);
     
-    const currentFilters = { ...filters, ...searchFilters };
+    const currentFilters = { ...filtersRef.current, ...searchFilters };
     setFilters(currentFilters);
+    setDidYouMean(null);
 
     try {
-      if (!searchQuery.trim()) {
+      const parsed = parseSearchQuery(searchQuery);
+      setQueryErrors(parsed.errors);
+      if (!parsed.ast && Object.keys(parsed.filters).length === 0) {
         setResults([]);
-        setIsLoading(false);
+        setCodeExamples([]);
+        setSubjectFacets([]);
         return;
       }
 
-      const queryLower = searchQuery.toLowerCase();
-      const filteredResults = searchIndex
-        .map(item => {
-          const category = item.path.split('/')[0];
-          const relevanceScore = calculateRelevanceScore(item, searchQuery, currentFilters);
-          
-          if (relevanceScore === 0) return null;
-
-          // Apply filters
-          if (currentFilters.categories.length > 0 && !currentFilters.categories.includes(category)) {
-            return null;
-          }
-
-          const matchedTerms = searchQuery.toLowerCase().split(/\s+/).filter(term =>
-            item.title?.toLowerCase().includes(term) || item.content?.toLowerCase().includes(term)
-          );
-
-          return {
-            path: item.path,
-            title: item.title || item.path,
-            content: item.content,
-            category,
-            tags: extractTags(item.content),
-            relevanceScore,
-            matchedTerms,
-            snippet: generateSnippet(item.content, searchQuery),
-          } as SearchResult;
-        })
-        .filter(Boolean)
-        .sort((a, b) => {
-          switch (currentFilters.sortBy) {
-            case 'title':
-              return currentFilters.sortOrder === 'asc' 
-                ? a!.title.localeCompare(b!.title)
-                : b!.title.localeCompare(a!.title);
-            case 'date':
-              // Would need lastUpdated data in search index
-              return 0;
-            case 'readingTime':
-              // Would need reading time data in search index
-              return 0;
-            default: // relevance
-              return currentFilters.sortOrder === 'asc'
-                ? a!.relevanceScore - b!.relevanceScore
-                : b!.relevanceScore - a!.relevanceScore;
-          }
-        });
+      // Qualifiers in the query narrow the results on top of the filter panel
+      const queryFilters: SearchFilters = { ...defaultFilters, ...parsed.filters };
+
+      preloadSearchIndex();
+      const ast = expandSynonyms(parsed.ast, await searchFeedbackService.getSynonyms());
+      const shards = currentFilters.allSubjects ? undefined : getSubjectContentDirs(currentSubjectRef.current);
+      const hits = (await searchIndexService.evaluate(ast, { shards }))
+        .filter(hit => matchesFilters(hit.document, currentFilters) && matchesFilters(hit.document, queryFilters))
+        .map(hit => ({ hit, subject: subjectForHit(hit, currentFilters.allSubjects) }));
+
+      const facetCounts = new Map<string, number>();
+      hits.forEach(({ subject }) => facetCounts.set(subject, (facetCounts.get(subject) ?? 0) + 1));
+      setSubjectFacets(currentFilters.allSubjects
+        ? [...facetCounts].map(([subject, count]) => ({ subject, count })).sort((a, b) => b.count - a.count)
+        : []);
+
+      const scopedHits = currentFilters.allSubjects && currentFilters.subjects.length > 0
+        ? hits.filter(({ subject }) => currentFilters.subjects.includes(subject))
+        : hits;
+      // Results readers picked for this query before rank higher
+      const clicks = analyticsRef.current.clickThrough[normalizeSearchQuery(searchQuery)] ?? {};
+      const searchResults = (await Promise.all(scopedHits.map(({ hit, subject }, rank) => toSearchResult(hit, rank, subject))))
+        .map(result => ({ ...result, relevanceScore: result.relevanceScore * clickBoost(clicks[result.url] ?? 0) }))
+        .sort((a, b) => compareResults(a, b, currentFilters));
+
+      const exampleMatches = await codeExamplesService.matchExamples(getQueryWords(ast), {
+        languages: getQualifierValues(ast, 'lang'),
+        scope: getQueryScope(ast)
+      });
 
-      setResults(filteredResults as SearchResult[]);
-      trackSearch(searchQuery, filteredResults.length);
+      setResults(searchResults);
+      setCodeExamples(exampleMatches.map(toCodeExampleResult));
+      trackSearch(searchQuery, searchResults.length);
+      if (searchResults.length === 0 && parsed.ast) {
+        setDidYouMean(await searchIndexService.suggestCorrection(searchQuery, { shards }));
+      }
     } catch (error) {
       console.error('Search error:', error);
       setResults([]);
+      setCodeExamples([]);
+      setSubjectFacets([]);
     } finally {
       setIsLoading(false);
     }
-  };
-
-  const extractTags = (content: string): string[] => {
-    // Simple tag extraction based on common technical terms
-    const technicalTerms = [
-      'chromium', 'browser', 'javascript', 'typescript', 'css', 'html',
-      'react', 'node', 'v8', 'blink', 'rendering', 'architecture',
-      'security', 'performance', 'debugging', 'build', 'process'
-    ];
-    
-    const contentLower = content.toLowerCase();
-    return technicalTerms.filter(term => contentLower.includes(term));
-  };
+  }, [preloadSearchIndex]);
 
   const updateFilters = (newFilters: Partial<SearchFilters>) => {
     const updatedFilters = { ...filters, ...newFilters };
@@ -444,8 +589,12 @@ export const AdvancedSearchProvider: React.FC<{ children: React.ReactNode }> = (
       updated.popularQueries.sort((a, b) => b.count - a.count).slice(0, 20);
 
       // Track no-result queries
-      if (resultsCount === 0 && !updated.noResultQueries.includes(searchQuery)) {
-        updated.noResultQueries.push(searchQuery);
+      if (resultsCount === 0) {
+        const key = normalizeSearchQuery(searchQuery);
+        if (!updated.noResultQueries.includes(searchQuery)) {
+          updated.noResultQueries.push(searchQuery);
+        }
+        updated.noResultCounts = { ...updated.noResultCounts, [key]: (updated.noResultCounts[key] ?? 0) + 1 };
       }
 
       try {
@@ -456,6 +605,10 @@ export const AdvancedSearchProvider: React.FC<{ children: React.ReactNode }> = (
 
       return updated;
     });
+
+    if (resultsCount === 0) {
+      searchFeedbackService.reportZeroResults(searchQuery);
+    }
   };
 
   const trackClick = (searchQuery: string, resultPath: string) => {
@@ -474,6 +627,28 @@ export const AdvancedSearchProvider: React.FC<{ children: React.ReactNode }> = (
       
       return updated;
     });
+
+    setAnalytics(prev => {
+      const key = normalizeSearchQuery(searchQuery);
+      const clicks = prev.clickThrough[key] ?? {};
+      const clickThrough = { ...prev.clickThrough, [key]: { ...clicks, [resultPath]: (clicks[resultPath] ?? 0) + 1 } };
+
+      // The query just clicked always stays
+      Object.entries(clickThrough)
+        .filter(([query]) => query !== key)
+        .map(([query, results]) => [query, Object.values(results).reduce((sum, count) => sum + count, 0)] as const)
+        .sort((a, b) => b[1] - a[1])
+        .slice(MAX_CLICK_QUERIES - 1)
+        .forEach(([query]) => delete clickThrough[query]);
+
+      const updated = { ...prev, clickThrough };
+      try {
+        localStorage.setItem(STORAGE_KEYS.SEARCH_ANALYTICS, JSON.stringify(updated));
+      } catch (error) {
+        console.error('Error saving search analytics:', error);
+      }
+      return updated;
+    });
   };
 
   const getPopularQueries = (): string[] => {
@@ -500,43 +675,34 @@ export const AdvancedSearchProvider: React.FC<{ children: React.ReactNode }> = (
   };
 
   const findSimilarContent = async (content: string): Promise<SearchResult[]> => {
-    // Simple similarity based on common words
-    const contentWords = content.toLowerCase().split(/\s+/).filter(word => word.length > 3);
-    const results: SearchResult[] = [];
-
-    searchIndex.forEach(item => {
-      const itemWords = item.content.toLowerCase().split(/\s+/).filter((word: string) => word.length > 3);
-      const commonWords = contentWords.filter(word => itemWords.includes(word));
-      const similarity = commonWords.length / Math.max(contentWords.length, itemWords.length);
-
-      if (similarity > 0.1) {
-        results.push({
-          path: item.path,
-          title: item.title || item.path,
-          content: item.content,
-          category: item.path.split('/')[0],
-          tags: extractTags(item.content),
-          relevanceScore: similarity * 100,
-          matchedTerms: commonWords,
-          snippet: generateSnippet(item.content, commonWords.join(' ')),
-        });
-      }
-    });
+    const hits = await searchIndexService.findSimilar(content, { shards: getSubjectContentDirs(currentSubjectRef.current) });
+    return Promise.all(hits.map((hit, rank) => toSearchResult(hit, rank, subjectForHit(hit, false))));
+  };
 
-    return results.sort((a, b) => b.relevanceScore - a.relevanceScore).slice(0, 10);
+  const findMoreLikeThis = async (result: SearchResult): Promise<SearchResult[]> => {
+    const subject = getSubjectById(result.subject);
+    const indexed = await searchIndexService.findDocument(result.path, { shards: subject ? getSubjectContentDirs(subject) : undefined });
+    if (!indexed) {
+      return [];
+    }
+    // Related documents share the result's shard, so they belong under its subject
+    const related = await searchIndexService.getRelated(indexed.shard, indexed.documentIndex);
+    return Promise.all(related.documents.map(({ similarity, ...hit }, rank) =>
+      toSearchResult({ ...hit, score: similarity, matchedTerms: [] }, rank, result.subject)
+    ));
   };
 
-  const findRelatedTopics = (topic: string): string[] => {
+  const findRelatedTopics = async (topic: string): Promise<string[]> => {
+    // Tags weighted by the similarity of the articles carrying them
+    const hits = await searchIndexService.findSimilar(topic, { shards: getSubjectContentDirs(currentSubjectRef.current), limit: 20 });
+    const tagScores = new Map<string, number>();
+    hits.forEach(hit => hit.document.tags.forEach(tag => tagScores.set(tag, (tagScores.get(tag) ?? 0) + hit.score)));
     const topicLower = topic.toLowerCase();
-    const relatedTopics = new Set<string>();
-
-    suggestions.forEach(suggestion => {
-      if (suggestion.text.toLowerCase().includes(topicLower) && suggestion.text !== topic) {
-        relatedTopics.add(suggestion.text);
-      }
-    });
-
-    return Array.from(relatedTopics).slice(0, 10);
+    return [...tagScores]
+      .filter(([tag]) => tag.toLowerCase() !== topicLower)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 10)
+      .map(([tag]) => tag);
   };
 
   const clearSearchHistory = () => {
@@ -565,7 +731,7 @@ export const AdvancedSearchProvider: React.FC<{ children: React.ReactNode }> = (
       }
       
       if (imported.analytics) {
-        setAnalytics(imported.analytics);
+        setAnalytics({ ...defaultAnalytics, ...imported.analytics });
       }
       
       if (imported.filters) {
@@ -580,7 +746,11 @@ export const AdvancedSearchProvider: React.FC<{ children: React.ReactNode }> = (
   const value: AdvancedSearchContextType = {
     query,
     results,
+    codeExamples,
+    subjectFacets,
     filters,
+    queryErrors,
+    didYouMean,
     suggestions,
     searchHistory,
     analytics,
@@ -589,11 +759,13 @@ export const AdvancedSearchProvider: React.FC<{ children: React.ReactNode }> = (
     updateFilters,
     clearFilters,
     getSuggestions,
+    preloadSearchIndex,
     trackSearch,
     trackClick,
     getPopularQueries,
     getSearchTrends,
     findSimilarContent,
+    findMoreLikeThis,
     findRelatedTopics,
     clearSearchHistory,
     exportSearchData,
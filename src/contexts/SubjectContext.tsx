@@ -21,23 +21,23 @@ export const SubjectProvider: React.FC<SubjectProviderProps> = ({ children }) =>
   const navigate = useNavigate();
   
   // Determine current subject from URL path
-  const getCurrentSubjectFromPath = (): Subject => {
+  const getSubjectFromPath = (): Subject | undefined => {
     const pathSegments = location.pathname.split('/').filter(segment => segment);
     const firstSegment = pathSegments[0];
     
     // Check if the first segment matches a subject ID
-    const subjectFromPath = getSubjectById(firstSegment);
-    
-    // Default to Chromium if no valid subject found
-    return subjectFromPath || subjects[0]; // Chromium is first in array
+    return getSubjectById(firstSegment);
   };
 
-  const [currentSubject, setCurrentSubject] = useState<Subject>(() => getCurrentSubjectFromPath());
+  // Default to Chromium if no valid subject found
+  const [currentSubject, setCurrentSubject] = useState<Subject>(() => getSubjectFromPath() || subjects[0]);
 
-  // Update current subject when route changes
+  // Update current subject when route changes. Pages outside any subject
+  // (search, progress, ...) keep the subject the reader came from, so
+  // search stays scoped to it.
   useEffect(() => {
-    const newSubject = getCurrentSubjectFromPath();
-    if (newSubject.id !== currentSubject.id) {
+    const newSubject = getSubjectFromPath();
+    if (newSubject && newSubject.id !== currentSubject.id) {
       setCurrentSubject(newSubject);
     }
   }, [location.pathname, currentSubject.id]);
@@ -0,0 +1,52 @@
+// Subject Definitions
+// The subjects and the content directories they read from, without the
+// sidebar trees src/contentIndex.ts builds for them. Kept apart from the
+// generated sidebar data so the scripts that generate it can use them.
+
+import type { Subject } from '../contentIndex';
+
+export type SubjectDefinition = Omit<Subject, 'contentIndex'>;
+
+export const subjectDefinitions: SubjectDefinition[] = [
+    {
+        id: 'chromium',
+        title: 'Chromium Development',
+        description: 'Comprehensive guide to Chromium browser development, architecture, and custom browser creation',
+        color: 'blue',
+        icon: '🌏'
+    },
+    {
+        id: 'minecraft',
+        title: 'Minecraft Development',
+        description: 'Modding, plugin development, and content creation for Minecraft',
+        color: 'green',
+        icon: '🎮'
+    },
+    {
+        id: 'frontend',
+        title: 'Frontend Development',
+        description: 'Modern web frontend development with React, Vue, Angular, and cutting-edge tools',
+        color: 'purple',
+        icon: '💻'
+    },
+    {
+        id: 'internal',
+        title: 'Internal Engineering',
+        description: 'Implementation docs for the Wanderlust custom browser — admin access only',
+        color: 'red',
+        icon: '🔒',
+        adminOnly: true,
+        fallbackContentBase: 'chromium'
+    }
+];
+
+// Helper function to get the directory under public/content a subject reads from
+export const getSubjectContentDir = (subject: SubjectDefinition): string => {
+    return subject.contentBase ?? subject.id;
+};
+
+// Helper function to get the content directories that must never be served
+// statically or indexed publicly
+export const getAdminOnlyContentDirs = (): string[] => {
+    return subjectDefinitions.filter(subject => subject.adminOnly).map(getSubjectContentDir);
+};
@@ -20,6 +20,7 @@ import {
   DifficultyLevel,
   CodeExampleCategory
 } from '../types/CodeExampleTypes';
+import { CodeExampleVerificationReport, currentVerification } from '../utils/exampleVerification';
 
 export const useCodeExamples = (options: UseCodeExamplesOptions = {}): UseCodeExamplesReturn => {
   const {
@@ -493,3 +494,28 @@ export const useCodeExampleCollections = (category?: CodeExampleCategory) => {
     error
   };
 };
+
+// Hook for the results of `npm run verify:examples`
+export const useCodeExampleVerification = () => {
+  const [report, setReport] = useState<CodeExampleVerificationReport | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    codeExamplesService.getVerificationReport().then(loaded => {
+      if (!cancelled) setReport(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const getVerification = useCallback(
+    (example: CodeExample) => currentVerification(report, example),
+    [report]
+  );
+
+  return {
+    report,
+    getVerification
+  };
+};
@@ -13,9 +13,11 @@ import {
   VersionChange,
   CollaborativeSession,
   VersioningPreferences,
-  RealTimeChange
+  RealTimeChange,
+  MergeConflict
 } from '../types/VersioningTypes';
-import { versioningService } from '../services/ContentVersioningService';
+import { versioningService, MAIN_BRANCH_ID } from '../services/ContentVersioningService';
+import { CollaborativeDocument } from '../services/CollaborationService';
 
 interface UseVersioningOptions {
   contentPath: string;
@@ -37,13 +39,20 @@ interface UseVersioningReturn {
 
   // Version operations
   createVersion: (content: string, changes: VersionChange[]) => Promise<ContentVersion | null>;
-  publishVersion: (versionId: string) => Promise<boolean>;
+  /** Publish now, or schedule for a future `publishAt` */
+  publishVersion: (versionId: string, publishAt?: Date) => Promise<boolean>;
+  unschedulePublish: (versionId: string) => Promise<boolean>;
+  setReviewBy: (versionId: string, reviewBy: Date | null) => Promise<boolean>;
+  requestReview: (versionId: string) => Promise<boolean>;
+  /** Whether versions need approval under the review rules before publishing */
+  requiresReview: boolean;
   rollbackToVersion: (versionId: string) => Promise<ContentVersion | null>;
   generateDiff: (fromVersionId: string, toVersionId: string) => Promise<VersionDiff | null>;
 
   // Content editing
   content: string;
-  setContent: (content: string) => void;
+  /** Set the content; in a collaborative session, `selection` is the local selection after the edit */
+  setContent: (content: string, selection?: { start: number; end: number }) => void;
   hasUnsavedChanges: boolean;
   saveContent: () => Promise<boolean>;
   discardChanges: () => void;
@@ -55,18 +64,29 @@ interface UseVersioningReturn {
   endCollaboration: () => Promise<boolean>;
   collaborators: VersionAuthor[];
   realTimeChanges: RealTimeChange[];
+  /** Show the local cursor or selection to the other collaborators */
+  updateCursor: (start: number, end: number) => void;
+  /** The local selection after edits of other collaborators moved it */
+  localSelection: { start: number; end: number } | null;
+  /** Where edits are synced through while collaborating */
+  collaborationHub: string | null;
 
   // Branch management
+  /** Branch that saves go to, MAIN_BRANCH_ID for the main line */
+  currentBranchId: string;
   createBranch: (name: string, description: string, baseVersionId: string) => Promise<boolean>;
   switchBranch: (branchId: string) => Promise<boolean>;
-  mergeBranch: (sourceBranchId: string, targetBranchId: string) => Promise<boolean>;
+  /** Merge, using `resolutions` (text by conflict id) for conflicting hunks */
+  mergeBranch: (sourceBranchId: string, targetBranchId: string, resolutions?: Record<string, string>) => Promise<boolean>;
+  /** Conflicts left by the last merge attempt */
+  mergeConflicts: MergeConflict[];
 
   // Preferences
   preferences: VersioningPreferences | null;
   updatePreferences: (preferences: Partial<VersioningPreferences>) => Promise<boolean>;
 
   // Analytics
-  getVersioningAnalytics: () => any;
+  getVersioningAnalytics: () => Promise<any>;
   trackVersioningEvent: (eventType: string, data: any) => void;
 }
 
@@ -92,20 +112,30 @@ export const useVersioning = (options: UseVersioningOptions): UseVersioningRetur
   const [collaborativeSession, setCollaborativeSession] = useState<CollaborativeSession | null>(null);
   const [collaborators, setCollaborators] = useState<VersionAuthor[]>([]);
   const [realTimeChanges, setRealTimeChanges] = useState<RealTimeChange[]>([]);
+  const [localSelection, setLocalSelection] = useState<{ start: number; end: number } | null>(null);
   const [preferences, setPreferences] = useState<VersioningPreferences | null>(null);
+  const [currentBranchId, setCurrentBranchId] = useState<string>(MAIN_BRANCH_ID);
+  const [mergeConflicts, setMergeConflicts] = useState<MergeConflict[]>([]);
 
   // Refs
   const autoSaveTimeoutRef = useRef<number | null>(null);
-  const syncIntervalRef = useRef<number | null>(null);
-
-  // Current user (mock data)
-  const currentUser: VersionAuthor = {
-    id: 'user-1',
-    name: 'Current User',
-    email: 'user@wanderlust.dev',
-    role: 'editor',
-    expertise: ['documentation', 'architecture']
-  };
+  const documentRef = useRef<CollaborativeDocument | null>(null);
+  const unsubscribeDocumentRef = useRef<(() => void) | null>(null);
+  const knownConnectionsRef = useRef<Set<string>>(new Set());
+  // What the editor shows, to tell remote edits from local ones
+  const contentRef = useRef('');
+  // Whether this user changed the content since the last save; collaborators' edits are theirs to save
+  const hasLocalEditsRef = useRef(false);
+
+  // Replace what the editor shows, and the shared document while collaborating
+  const replaceContent = useCallback((text: string) => {
+    contentRef.current = text;
+    setContentState(text);
+    documentRef.current?.update(text);
+  }, []);
+
+  // Signed-in user, or a local editor when nobody is signed in
+  const currentUser: VersionAuthor = versioningService.getCurrentAuthor();
 
   // Computed values
   const hasUnsavedChanges = content !== originalContent;
@@ -116,17 +146,26 @@ export const useVersioning = (options: UseVersioningOptions): UseVersioningRetur
     setError(null);
     
     try {
-      const history = versioningService.getVersionHistory(contentPath);
+      await versioningService.publishDueVersions(contentPath);
+      const history = await versioningService.getVersionHistory(contentPath);
       setVersionHistory(history);
       
       if (history) {
-        setCurrentVersion(history.latestVersion);
+        // Load content from the head of the current branch
+        const branch = history.branches.find(b => b.id === currentBranchId);
+        const head = branch
+          ? history.versions.find(v => v.id === branch.headVersionId) ?? history.latestVersion
+          : history.latestVersion;
+        setCurrentVersion(head);
         setPublishedVersion(history.publishedVersion || null);
         
-        // Load content from latest version
-        if (history.latestVersion && history.latestVersion.content) {
-          setContentState(history.latestVersion.content);
-          setOriginalContent(history.latestVersion.content);
+        if (head && head.content) {
+          // While collaborating, the editor keeps showing the shared document
+          if (!documentRef.current) {
+            contentRef.current = head.content;
+            setContentState(head.content);
+          }
+          setOriginalContent(head.content);
         }
       }
     } catch (err) {
@@ -134,7 +173,7 @@ export const useVersioning = (options: UseVersioningOptions): UseVersioningRetur
     } finally {
       setIsLoading(false);
     }
-  }, [contentPath]);
+  }, [contentPath, currentBranchId]);
 
   // Initialize
   useEffect(() => {
@@ -143,7 +182,7 @@ export const useVersioning = (options: UseVersioningOptions): UseVersioningRetur
 
   // Auto-save functionality
   useEffect(() => {
-    if (!autoSave || !hasUnsavedChanges) return;
+    if (!autoSave || !hasUnsavedChanges || (documentRef.current && !hasLocalEditsRef.current)) return;
 
     if (autoSaveTimeoutRef.current) {
       clearTimeout(autoSaveTimeoutRef.current);
@@ -160,22 +199,17 @@ export const useVersioning = (options: UseVersioningOptions): UseVersioningRetur
     };
   }, [content, hasUnsavedChanges, autoSave, autoSaveInterval]);
 
-  // Real-time sync
+  // Leave the collaborative session of an article when moving to another
   useEffect(() => {
-    if (!enableRealTimeSync || !collaborativeSession) return;
-
-    syncIntervalRef.current = setInterval(() => {
-      // Simulate real-time sync
-      // In real implementation, this would connect to WebSocket or similar
-      syncRealTimeChanges();
-    }, 1000);
-
     return () => {
-      if (syncIntervalRef.current) {
-        clearInterval(syncIntervalRef.current);
+      const document = documentRef.current;
+      if (document) {
+        unsubscribeDocumentRef.current?.();
+        documentRef.current = null;
+        versioningService.endCollaborativeSession(document.session.id);
       }
     };
-  }, [enableRealTimeSync, collaborativeSession]);
+  }, [contentPath]);
 
   // Version operations
   const createVersion = useCallback(async (
@@ -183,12 +217,13 @@ export const useVersioning = (options: UseVersioningOptions): UseVersioningRetur
     changes: VersionChange[]
   ): Promise<ContentVersion | null> => {
     try {
-      const version = versioningService.createVersion(
+      const version = await versioningService.createVersion(
         contentPath,
         newContent,
         currentUser,
         changes,
-        currentVersion?.id
+        currentVersion?.id,
+        currentBranchId
       );
 
       await loadVersionHistory();
@@ -202,11 +237,11 @@ export const useVersioning = (options: UseVersioningOptions): UseVersioningRetur
       setError(err instanceof Error ? err.message : 'Failed to create version');
       return null;
     }
-  }, [contentPath, currentUser, currentVersion, loadVersionHistory, onVersionChange]);
+  }, [contentPath, currentUser, currentVersion, currentBranchId, loadVersionHistory, onVersionChange]);
 
-  const publishVersion = useCallback(async (versionId: string): Promise<boolean> => {
+  const publishVersion = useCallback(async (versionId: string, publishAt?: Date): Promise<boolean> => {
     try {
-      const success = versioningService.publishVersion(contentPath, versionId, currentUser);
+      const success = await versioningService.publishVersion(contentPath, versionId, currentUser, publishAt);
       
       if (success) {
         await loadVersionHistory();
@@ -219,12 +254,45 @@ export const useVersioning = (options: UseVersioningOptions): UseVersioningRetur
     }
   }, [contentPath, currentUser, loadVersionHistory]);
 
+  const unschedulePublish = useCallback(async (versionId: string): Promise<boolean> => {
+    try {
+      await versioningService.unscheduleVersion(contentPath, versionId);
+      await loadVersionHistory();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel scheduled publishing');
+      return false;
+    }
+  }, [contentPath, loadVersionHistory]);
+
+  const setReviewBy = useCallback(async (versionId: string, reviewBy: Date | null): Promise<boolean> => {
+    try {
+      await versioningService.setReviewBy(contentPath, versionId, reviewBy);
+      await loadVersionHistory();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to set review date');
+      return false;
+    }
+  }, [contentPath, loadVersionHistory]);
+
+  const requestReview = useCallback(async (versionId: string): Promise<boolean> => {
+    try {
+      await versioningService.requestReview(contentPath, versionId);
+      await loadVersionHistory();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to request review');
+      return false;
+    }
+  }, [contentPath, loadVersionHistory]);
+
   const rollbackToVersion = useCallback(async (versionId: string): Promise<ContentVersion | null> => {
     try {
-      const rollbackVersion = versioningService.rollbackToVersion(contentPath, versionId, currentUser);
+      const rollbackVersion = await versioningService.rollbackToVersion(contentPath, versionId, currentUser);
       
       if (rollbackVersion) {
-        setContentState(rollbackVersion.content);
+        replaceContent(rollbackVersion.content);
         setOriginalContent(rollbackVersion.content);
         await loadVersionHistory();
         
@@ -238,14 +306,14 @@ export const useVersioning = (options: UseVersioningOptions): UseVersioningRetur
       setError(err instanceof Error ? err.message : 'Failed to rollback version');
       return null;
     }
-  }, [contentPath, currentUser, loadVersionHistory, onContentChange]);
+  }, [contentPath, currentUser, loadVersionHistory, onContentChange, replaceContent]);
 
   const generateDiff = useCallback(async (
     fromVersionId: string, 
     toVersionId: string
   ): Promise<VersionDiff | null> => {
     try {
-      return versioningService.generateDiff(contentPath, fromVersionId, toVersionId);
+      return await versioningService.generateDiff(contentPath, fromVersionId, toVersionId);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to generate diff');
       return null;
@@ -253,8 +321,11 @@ export const useVersioning = (options: UseVersioningOptions): UseVersioningRetur
   }, [contentPath]);
 
   // Content editing
-  const setContent = useCallback((newContent: string) => {
+  const setContent = useCallback((newContent: string, selection?: { start: number; end: number }) => {
+    contentRef.current = newContent;
+    hasLocalEditsRef.current = true;
     setContentState(newContent);
+    documentRef.current?.update(newContent, selection?.start, selection?.end);
     
     if (onContentChange) {
       onContentChange(newContent);
@@ -281,6 +352,7 @@ export const useVersioning = (options: UseVersioningOptions): UseVersioningRetur
       
       if (version) {
         setOriginalContent(content);
+        hasLocalEditsRef.current = false;
         return true;
       }
       
@@ -292,44 +364,90 @@ export const useVersioning = (options: UseVersioningOptions): UseVersioningRetur
   }, [content, originalContent, hasUnsavedChanges, createVersion]);
 
   const discardChanges = useCallback(() => {
-    setContentState(originalContent);
-  }, [originalContent]);
+    replaceContent(originalContent);
+  }, [originalContent, replaceContent]);
 
   // Collaborative editing
+  const showDocument = useCallback((document: CollaborativeDocument) => {
+    const text = document.getText();
+    if (text !== contentRef.current) {
+      contentRef.current = text;
+      setContentState(text);
+      setLocalSelection(document.getSelection());
+    }
+    const { session } = document;
+    setCollaborativeSession({ ...session });
+    setRealTimeChanges([...session.changes]);
+
+    const authors = new Map<string, VersionAuthor>();
+    session.participants.forEach(participant => {
+      const role = participant.role === 'observer' ? 'observer' : participant.role === 'reviewer' ? 'reviewer' : 'editor';
+      authors.set(participant.userId, { id: participant.userId, name: participant.name, email: '', role, expertise: [] });
+      if (participant.connectionId && !knownConnectionsRef.current.has(participant.connectionId)) {
+        knownConnectionsRef.current.add(participant.connectionId);
+        if (participant.connectionId !== document.connectionId) {
+          onCollaboratorJoin?.(authors.get(participant.userId)!);
+        }
+      }
+    });
+    setCollaborators([...authors.values()]);
+  }, [onCollaboratorJoin]);
+
+  const openDocument = useCallback((document: CollaborativeDocument) => {
+    unsubscribeDocumentRef.current?.();
+    documentRef.current = document;
+    knownConnectionsRef.current = new Set([document.connectionId]);
+    unsubscribeDocumentRef.current = document.subscribe(() => showDocument(document));
+    showDocument(document);
+  }, [showDocument]);
+
   const startCollaboration = useCallback(async (): Promise<CollaborativeSession | null> => {
+    if (!enableRealTimeSync) {
+      setError('Real-time sync is disabled');
+      return null;
+    }
     try {
-      const session = versioningService.startCollaborativeSession(contentPath, currentUser);
-      setCollaborativeSession(session);
-      setCollaborators([currentUser]);
-      
-      return session;
+      const document = await versioningService.startCollaborativeSession(contentPath, currentUser, contentRef.current);
+      openDocument(document);
+      return document.session;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to start collaboration');
       return null;
     }
-  }, [contentPath, currentUser]);
+  }, [contentPath, currentUser, enableRealTimeSync, openDocument]);
 
   const joinCollaboration = useCallback(async (sessionId: string): Promise<boolean> => {
+    if (!enableRealTimeSync) {
+      setError('Real-time sync is disabled');
+      return false;
+    }
     try {
-      const success = versioningService.joinCollaborativeSession(sessionId, currentUser);
-      
-      if (success && onCollaboratorJoin) {
-        onCollaboratorJoin(currentUser);
+      const document = await versioningService.joinCollaborativeSession(sessionId, currentUser);
+      if (!document) {
+        setError('Nobody is editing in this session');
+        return false;
       }
-      
-      return success;
+      openDocument(document);
+      return true;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to join collaboration');
       return false;
     }
-  }, [currentUser, onCollaboratorJoin]);
+  }, [currentUser, enableRealTimeSync, openDocument]);
 
   const endCollaboration = useCallback(async (): Promise<boolean> => {
+    const document = documentRef.current;
     try {
-      // End collaborative session
+      unsubscribeDocumentRef.current?.();
+      unsubscribeDocumentRef.current = null;
+      documentRef.current = null;
+      if (document) {
+        await versioningService.endCollaborativeSession(document.session.id);
+      }
       setCollaborativeSession(null);
       setCollaborators([]);
       setRealTimeChanges([]);
+      setLocalSelection(null);
       
       return true;
     } catch (err) {
@@ -338,6 +456,10 @@ export const useVersioning = (options: UseVersioningOptions): UseVersioningRetur
     }
   }, []);
 
+  const updateCursor = useCallback((start: number, end: number) => {
+    documentRef.current?.setSelection(start, end);
+  }, []);
+
   // Branch management
   const createBranch = useCallback(async (
     name: string, 
@@ -345,7 +467,7 @@ export const useVersioning = (options: UseVersioningOptions): UseVersioningRetur
     baseVersionId: string
   ): Promise<boolean> => {
     try {
-      versioningService.createBranch(contentPath, name, description, baseVersionId, currentUser);
+      await versioningService.createBranch(contentPath, name, description, baseVersionId, currentUser);
       await loadVersionHistory();
       return true;
     } catch (err) {
@@ -355,22 +477,30 @@ export const useVersioning = (options: UseVersioningOptions): UseVersioningRetur
   }, [contentPath, currentUser, loadVersionHistory]);
 
   const switchBranch = useCallback(async (branchId: string): Promise<boolean> => {
-    try {
-      // Switch to branch logic
-      await loadVersionHistory();
-      return true;
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to switch branch');
+    if (branchId !== MAIN_BRANCH_ID && !versionHistory?.branches.some(b => b.id === branchId)) {
+      setError('Branch not found');
       return false;
     }
-  }, [loadVersionHistory]);
+    // Loading the history again picks up the branch head
+    setCurrentBranchId(branchId);
+    return true;
+  }, [versionHistory]);
 
   const mergeBranch = useCallback(async (
     sourceBranchId: string, 
-    targetBranchId: string
+    targetBranchId: string,
+    resolutions?: Record<string, string>
   ): Promise<boolean> => {
     try {
-      const result = versioningService.mergeBranches(contentPath, sourceBranchId, targetBranchId);
+      const result = await versioningService.mergeBranches(
+        contentPath,
+        sourceBranchId,
+        targetBranchId,
+        resolutions ? 'manual' : 'auto',
+        resolutions,
+        currentUser
+      );
+      setMergeConflicts(result.success ? [] : result.conflicts ?? []);
       
       if (result.success) {
         await loadVersionHistory();
@@ -383,7 +513,7 @@ export const useVersioning = (options: UseVersioningOptions): UseVersioningRetur
       setError(err instanceof Error ? err.message : 'Failed to merge branch');
       return false;
     }
-  }, [contentPath, loadVersionHistory]);
+  }, [contentPath, currentUser, loadVersionHistory]);
 
   // Preferences
   const updatePreferences = useCallback(async (
@@ -410,31 +540,12 @@ export const useVersioning = (options: UseVersioningOptions): UseVersioningRetur
     console.log('Versioning event:', eventType, data);
   }, []);
 
-  // Real-time sync helper
-  const syncRealTimeChanges = useCallback(() => {
-    // Simulate real-time changes sync
-    // In real implementation, this would sync with server
-    if (collaborativeSession) {
-      setRealTimeChanges(collaborativeSession.changes);
-      setCollaborators(collaborativeSession.participants.map(p => ({
-        id: p.userId,
-        name: p.name,
-        email: '',
-        role: p.role as any,
-        expertise: []
-      })));
-    }
-  }, [collaborativeSession]);
-
   // Cleanup
   useEffect(() => {
     return () => {
       if (autoSaveTimeoutRef.current) {
         clearTimeout(autoSaveTimeoutRef.current);
       }
-      if (syncIntervalRef.current) {
-        clearInterval(syncIntervalRef.current);
-      }
     };
   }, []);
 
@@ -449,6 +560,10 @@ export const useVersioning = (options: UseVersioningOptions): UseVersioningRetur
     // Version operations
     createVersion,
     publishVersion,
+    unschedulePublish,
+    setReviewBy,
+    requestReview,
+    requiresReview: versioningService.getConfiguration().requireReviewForPublish,
     rollbackToVersion,
     generateDiff,
 
@@ -466,11 +581,16 @@ export const useVersioning = (options: UseVersioningOptions): UseVersioningRetur
     endCollaboration,
     collaborators,
     realTimeChanges,
+    updateCursor,
+    localSelection,
+    collaborationHub: collaborativeSession ? documentRef.current?.hubName ?? null : null,
 
     // Branch management
+    currentBranchId,
     createBranch,
     switchBranch,
     mergeBranch,
+    mergeConflicts,
 
     // Preferences
     preferences,
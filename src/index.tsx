@@ -5,7 +5,6 @@ import './index.css';
 import { pwaManager } from './utils/pwa';
 import { BookmarkProvider } from './contexts/BookmarkContext';
 import { ProgressProvider } from './contexts/ProgressContext';
-import { AdvancedSearchProvider } from './contexts/AdvancedSearchContext';
 import { AuthProvider } from './contexts/AuthContext';
 
 // Initialize PWA functionality
@@ -14,12 +13,10 @@ pwaManager.setupOfflineHandling();
 const root = ReactDOM.createRoot(document.getElementById('root')!);
 root.render(
   <AuthProvider>
-    <AdvancedSearchProvider>
-      <ProgressProvider>
-        <BookmarkProvider>
-          <App />
-        </BookmarkProvider>
-      </ProgressProvider>
-    </AdvancedSearchProvider>
+    <ProgressProvider>
+      <BookmarkProvider>
+        <App />
+      </BookmarkProvider>
+    </ProgressProvider>
   </AuthProvider>
 );
\ No newline at end of file
@@ -18,6 +18,10 @@ import {
   ImprovementOpportunity,
   RelatedContentSuggestion
 } from '../types/AIContentTypes';
+import { searchIndexService } from './SearchIndexService';
+import { DifficultyLevel } from '../types/ComponentTypes';
+
+const DIFFICULTY_ORDER: DifficultyLevel[] = ['beginner', 'intermediate', 'advanced'];
 
 class AIContentSuggestionsService {
   private engines: Map<string, AIContentEngine> = new Map();
@@ -537,27 +541,41 @@ class AIContentSuggestionsService {
     ];
   }
 
+  /**
+   * Articles most similar to the given one by TF-IDF cosine similarity, from
+   * the search index. Relevance is relative to the closest article, which
+   * scores 1. Harder articles are deep dives and easier ones prerequisites.
+   */
   private async findRelatedContent(contentPath: string): Promise<RelatedContentSuggestion[]> {
-    return [
-      {
-        title: 'Advanced Rendering Pipeline',
-        description: 'Deep dive into Chromium rendering internals',
-        relationshipType: 'deep_dive',
-        relevanceScore: 0.9,
-        suggestedPlacement: 'end_of_article',
-        contentType: 'tutorial',
-        targetAudience: ['intermediate', 'advanced']
-      },
-      {
-        title: 'Performance Optimization Techniques',
-        description: 'Practical techniques for optimizing browser performance',
-        relationshipType: 'practical_application',
-        relevanceScore: 0.85,
-        suggestedPlacement: 'sidebar',
-        contentType: 'article',
-        targetAudience: ['intermediate']
+    try {
+      const indexed = await searchIndexService.findDocument(contentPath);
+      if (!indexed) {
+        return [];
       }
-    ];
+      const related = await searchIndexService.getRelated(indexed.shard, indexed.documentIndex);
+      const level = (difficulty?: DifficultyLevel) => (difficulty ? DIFFICULTY_ORDER.indexOf(difficulty) : -1);
+      const ownLevel = level(indexed.document.difficulty);
+      const closest = related.documents[0]?.similarity ?? 1;
+
+      return related.documents.map(({ document, similarity }): RelatedContentSuggestion => {
+        const otherLevel = level(document.difficulty);
+        const relationshipType = ownLevel < 0 || otherLevel < 0 || otherLevel === ownLevel
+          ? 'related_topic'
+          : otherLevel > ownLevel ? 'deep_dive' : 'prerequisite';
+        return {
+          title: document.title,
+          description: document.description ?? `Related ${document.category.toLowerCase()} article`,
+          relationshipType,
+          relevanceScore: Math.round((similarity / closest) * 100) / 100,
+          suggestedPlacement: relationshipType === 'prerequisite' ? 'introduction' : 'end_of_article',
+          contentType: 'article',
+          targetAudience: document.difficulty ? [document.difficulty] : []
+        };
+      });
+    } catch (error) {
+      console.error('Failed to find related content:', error);
+      return [];
+    }
   }
 
   private async generateImprovementSuggestions(analysis: ContentAnalysisResult): Promise<ContentSuggestion[]> {
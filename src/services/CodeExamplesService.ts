@@ -9,764 +9,42 @@ import {
   CodeExampleCollection,
   CodeExampleSearchFilters,
   CodeExampleSearchResult,
-  CodeExecutionResult,
+  CodeExampleMatch,
+  CodeExampleMatchOptions,
   CodeExampleRating,
   CodeExampleUsageStats,
   CodeExampleRecommendation,
   ProgrammingLanguage,
   DifficultyLevel,
   CodeExampleCategory,
-  ExecutionEnvironment,
   CodeExecutionService
 } from '../types/CodeExampleTypes';
+import { toIndexTerms, tokenizeCode, normalizeCodeLanguage, FIELD_WEIGHTS } from '../utils/searchIndex';
+import { stem } from '../utils/stemmer';
+import { CodeExampleVerificationReport, VERIFICATION_REPORT_URL } from '../utils/exampleVerification';
+import { CodeExampleCatalogEntry, toCodeExample } from '../utils/codeExampleCatalog';
+import codeExamplesCatalog from '../data/codeExamples.json';
+import { codeExecutionService } from './CodeExecutionRegistry';
+
+/** Examples returned by matchExamples when no limit is given */
+const DEFAULT_MATCH_LIMIT = 5;
 
 class CodeExamplesService {
   private examples: Map<string, CodeExample> = new Map();
   private collections: Map<string, CodeExampleCollection> = new Map();
   private usageStats: Map<string, CodeExampleUsageStats> = new Map();
   private ratings: Map<string, CodeExampleRating[]> = new Map();
+  private verificationReport: Promise<CodeExampleVerificationReport | null> | null = null;
   public executionService: CodeExecutionService;
 
   constructor() {
     this.initializeSampleData();
-    this.executionService = new MockCodeExecutionService();
+    this.executionService = codeExecutionService;
   }
 
-  // Initialize with comprehensive Chromium-focused code examples
+  // Examples come from the articles (npm run build:code-examples); collections group them
   private initializeSampleData(): void {
-    const examples: CodeExample[] = [
-      // Getting Started Examples
-      {
-        id: 'chromium-hello-world',
-        title: 'Hello World - Chromium Extension',
-        description: 'Basic Chrome extension that displays "Hello World"',
-        longDescription: 'A simple Chrome extension that demonstrates the basic structure and manifest requirements for Chromium extensions.',
-        code: `// manifest.json
-{
-  "manifest_version": 3,
-  "name": "Hello World Extension",
-  "version": "1.0",
-  "description": "A simple hello world extension",
-  "action": {
-    "default_popup": "popup.html"
-  }
-}
-
-// popup.html
-<!DOCTYPE html>
-<html>
-<head>
-  <style>
-    body { width: 200px; padding: 10px; }
-    h1 { font-size: 16px; margin: 0; }
-  </style>
-</head>
-<body>
-  <h1>Hello, Chromium World!</h1>
-  <p>This is your first extension.</p>
-</body>
-</html>`,
-        language: 'json',
-        category: 'getting-started',
-        subcategory: 'extensions',
-        tags: ['extension', 'manifest', 'popup', 'beginner'],
-        difficulty: 'beginner',
-        runnable: false,
-        environment: 'static',
-        dependencies: [],
-        setupInstructions: 'Load as unpacked extension in chrome://extensions/',
-        relatedArticles: ['/getting-started/setup-build', '/getting-started/project-layout'],
-        relatedExamples: ['extension-content-script', 'extension-background-script'],
-        learningObjectives: ['Understand extension manifest structure', 'Create basic popup interface', 'Learn extension loading process'],
-        author: 'Chromium Team',
-        createdAt: new Date('2024-01-15'),
-        updatedAt: new Date('2024-08-20'),
-        version: '1.0',
-        verified: true,
-        popularity: 95,
-        ratings: { average: 4.8, count: 124 }
-      },
-
-      // Architecture Examples
-      {
-        id: 'ipc-message-passing',
-        title: 'IPC Message Passing Example',
-        description: 'Inter-process communication between browser and renderer processes',
-        longDescription: 'Demonstrates how Chromium uses IPC for secure communication between different processes in the multi-process architecture.',
-        code: `// browser_process.cc
-#include "content/public/browser/render_process_host.h"
-#include "content/public/browser/render_view_host.h"
-
-// Send message from browser to renderer
-void SendMessageToRenderer(content::RenderViewHost* rvh, 
-                          const std::string& message) {
-  rvh->Send(new CustomMessage(message));
-}
-
-// Handle message from renderer
-bool OnMessageReceived(const IPC::Message& message) {
-  bool handled = true;
-  IPC_BEGIN_MESSAGE_MAP(BrowserHandler, message)
-    IPC_MESSAGE_HANDLER(CustomMessage, OnCustomMessage)
-    IPC_MESSAGE_UNHANDLED(handled = false)
-  IPC_END_MESSAGE_MAP()
-  return handled;
-}
-
-void OnCustomMessage(const std::string& data) {
-  // Process message from renderer
-  LOG(INFO) << "Received from renderer: " << data;
-}
-
-// renderer_process.cc
-#include "content/public/renderer/render_view.h"
-
-// Send message from renderer to browser
-void SendMessageToBrowser(const std::string& message) {
-  Send(new CustomMessage(message));
-}
-
-// Handle message from browser
-bool OnMessageReceived(const IPC::Message& message) {
-  bool handled = true;
-  IPC_BEGIN_MESSAGE_MAP(RendererHandler, message)
-    IPC_MESSAGE_HANDLER(CustomMessage, OnCustomMessage)
-    IPC_MESSAGE_UNHANDLED(handled = false)
-  IPC_END_MESSAGE_MAP()
-  return handled;
-}`,
-        language: 'cpp',
-        category: 'architecture',
-        subcategory: 'ipc',
-        tags: ['ipc', 'multi-process', 'browser-process', 'renderer-process', 'communication'],
-        difficulty: 'intermediate',
-        runnable: false,
-        environment: 'build-system',
-        dependencies: ['chromium-source', 'build-tools'],
-        setupInstructions: 'Requires full Chromium build environment',
-        expectedOutput: 'Successful IPC message exchange between processes',
-        relatedArticles: ['/architecture/ipc-internals', '/architecture/process-model'],
-        relatedExamples: ['multi-process-example', 'security-sandbox'],
-        learningObjectives: ['Understand IPC message flow', 'Learn process isolation', 'Master inter-process security'],
-        prerequisites: ['C++ knowledge', 'Chromium build setup'],
-        author: 'Architecture Team',
-        createdAt: new Date('2024-02-10'),
-        updatedAt: new Date('2024-08-22'),
-        version: '2.1',
-        verified: true,
-        popularity: 78,
-        ratings: { average: 4.6, count: 67 }
-      },
-
-      // JavaScript Engine Examples
-      {
-        id: 'v8-heap-snapshot',
-        title: 'V8 Heap Snapshot Analysis',
-        description: 'Analyze memory usage with V8 heap snapshots',
-        longDescription: 'Learn how to capture and analyze V8 heap snapshots to identify memory leaks and optimize JavaScript performance.',
-        code: `// Memory leak detection script
-class MemoryAnalyzer {
-  constructor() {
-    this.snapshots = [];
-    this.leakDetector = new LeakDetector();
-  }
-  
-  async captureSnapshot(label = 'snapshot') {
-    // Force garbage collection if available
-    if (window.gc) {
-      window.gc();
-    }
-    
-    const snapshot = await this.createHeapSnapshot();
-    this.snapshots.push({
-      label,
-      timestamp: Date.now(),
-      snapshot
-    });
-    
-    console.log(\`Captured snapshot: \${label}\`);
-    return snapshot;
-  }
-  
-  async createHeapSnapshot() {
-    // Use DevTools Protocol to capture heap snapshot
-    if ('memory' in performance) {
-      return {
-        usedJSHeapSize: performance.memory.usedJSHeapSize,
-        totalJSHeapSize: performance.memory.totalJSHeapSize,
-        jsHeapSizeLimit: performance.memory.jsHeapSizeLimit
-      };
-    }
-    
-    // Fallback for environments without memory info
-    return this.estimateMemoryUsage();
-  }
-  
-  estimateMemoryUsage() {
-    const objectCount = this.countObjects();
-    const estimatedSize = objectCount * 100; // Rough estimate
-    
-    return {
-      objectCount,
-      estimatedSize,
-      timestamp: Date.now()
-    };
-  }
-  
-  countObjects() {
-    let count = 0;
-    const visited = new WeakSet();
-    
-    const traverse = (obj) => {
-      if (obj === null || typeof obj !== 'object' || visited.has(obj)) {
-        return;
-      }
-      
-      visited.add(obj);
-      count++;
-      
-      Object.values(obj).forEach(traverse);
-    };
-    
-    // Count global objects (simplified)
-    traverse(window);
-    return count;
-  }
-  
-  compareSnapshots(snapshot1, snapshot2) {
-    const diff = {
-      heapGrowth: snapshot2.usedJSHeapSize - snapshot1.usedJSHeapSize,
-      objectGrowth: snapshot2.objectCount - snapshot1.objectCount,
-      timeElapsed: snapshot2.timestamp - snapshot1.timestamp
-    };
-    
-    return {
-      ...diff,
-      isLikeLeak: diff.heapGrowth > 1024 * 1024, // > 1MB growth
-      growthRate: diff.heapGrowth / diff.timeElapsed
-    };
-  }
-  
-  detectLeaks() {
-    if (this.snapshots.length < 2) {
-      return { status: 'insufficient_data' };
-    }
-    
-    const recent = this.snapshots.slice(-2);
-    const comparison = this.compareSnapshots(recent[0].snapshot, recent[1].snapshot);
-    
-    return {
-      status: comparison.isLikeLeak ? 'potential_leak' : 'normal',
-      details: comparison,
-      recommendations: this.getRecommendations(comparison)
-    };
-  }
-  
-  getRecommendations(comparison) {
-    const recommendations = [];
-    
-    if (comparison.isLikeLeak) {
-      recommendations.push('Check for detached DOM nodes');
-      recommendations.push('Review event listener cleanup');
-      recommendations.push('Analyze closure retention');
-    }
-    
-    if (comparison.objectGrowth > 1000) {
-      recommendations.push('Monitor object creation patterns');
-      recommendations.push('Consider object pooling');
-    }
-    
-    return recommendations;
-  }
-}
-
-// Usage example
-const analyzer = new MemoryAnalyzer();
-
-// Capture initial snapshot
-analyzer.captureSnapshot('initial');
-
-// Simulate some operations
-setTimeout(async () => {
-  // Create potential memory leak
-  const largeArray = new Array(100000).fill('data');
-  window.potentialLeak = largeArray;
-  
-  // Capture second snapshot
-  await analyzer.captureSnapshot('after_operations');
-  
-  // Analyze for leaks
-  const analysis = analyzer.detectLeaks();
-  console.log('Memory Analysis:', analysis);
-}, 5000);`,
-        language: 'javascript',
-        category: 'javascript-engine',
-        subcategory: 'memory',
-        tags: ['v8', 'memory', 'heap', 'performance', 'debugging', 'leaks'],
-        difficulty: 'advanced',
-        runnable: true,
-        environment: 'browser',
-        dependencies: [],
-        setupInstructions: 'Run in browser with DevTools open',
-        expectedOutput: 'Memory analysis report with leak detection',
-        relatedArticles: ['/modules/javascript-v8', '/debugging/debugging-tools'],
-        relatedExamples: ['performance-profiling', 'devtools-integration'],
-        learningObjectives: ['Understand V8 memory management', 'Learn leak detection techniques', 'Master performance profiling'],
-        prerequisites: ['JavaScript proficiency', 'DevTools knowledge'],
-        author: 'Performance Team',
-        createdAt: new Date('2024-03-05'),
-        updatedAt: new Date('2024-08-18'),
-        version: '1.5',
-        verified: true,
-        popularity: 89,
-        ratings: { average: 4.7, count: 156 },
-        variations: [
-          {
-            id: 'automated-leak-detection',
-            name: 'Automated Leak Detection',
-            description: 'Automated version that runs continuously',
-            code: '// Automated monitoring version...',
-            differences: ['Continuous monitoring', 'Automated alerts', 'Background execution'],
-            useCase: 'Production monitoring'
-          }
-        ],
-        explanations: [
-          {
-            id: 'gc-explanation',
-            lineStart: 7,
-            lineEnd: 10,
-            explanation: 'Force garbage collection to get accurate memory measurements. Only available in development builds.',
-            concepts: ['garbage collection', 'memory measurement'],
-            links: [{ text: 'V8 Garbage Collection', url: '/modules/javascript-v8#garbage-collection' }]
-          }
-        ]
-      },
-
-      // Debugging Examples
-      {
-        id: 'devtools-protocol',
-        title: 'Chrome DevTools Protocol Usage',
-        description: 'Interact with Chrome DevTools Protocol for debugging',
-        longDescription: 'Learn how to use the Chrome DevTools Protocol to programmatically debug and inspect web pages.',
-        code: `// DevTools Protocol Client
-class DevToolsClient {
-  constructor(port = 9222) {
-    this.port = port;
-    this.ws = null;
-    this.messageId = 0;
-    this.pendingCommands = new Map();
-  }
-  
-  async connect() {
-    // Get available targets
-    const response = await fetch(\`http://localhost:\${this.port}/json\`);
-    const targets = await response.json();
-    
-    // Find the first page target
-    const pageTarget = targets.find(target => target.type === 'page');
-    if (!pageTarget) {
-      throw new Error('No page target found');
-    }
-    
-    // Connect to WebSocket
-    return new Promise((resolve, reject) => {
-      this.ws = new WebSocket(pageTarget.webSocketDebuggerUrl);
-      
-      this.ws.onopen = () => {
-        console.log('Connected to DevTools Protocol');
-        resolve(this);
-      };
-      
-      this.ws.onmessage = (event) => {
-        this.handleMessage(JSON.parse(event.data));
-      };
-      
-      this.ws.onerror = reject;
-    });
-  }
-  
-  handleMessage(message) {
-    if (message.id && this.pendingCommands.has(message.id)) {
-      const { resolve, reject } = this.pendingCommands.get(message.id);
-      this.pendingCommands.delete(message.id);
-      
-      if (message.error) {
-        reject(new Error(message.error.message));
-      } else {
-        resolve(message.result);
-      }
-    } else if (message.method) {
-      // Handle events
-      this.handleEvent(message.method, message.params);
-    }
-  }
-  
-  handleEvent(method, params) {
-    console.log(\`Event: \${method}\`, params);
-    
-    // Handle specific events
-    switch (method) {
-      case 'Runtime.consoleAPICalled':
-        console.log('Console API called:', params);
-        break;
-      case 'Runtime.exceptionThrown':
-        console.error('Exception thrown:', params.exceptionDetails);
-        break;
-      case 'Network.requestWillBeSent':
-        console.log('Network request:', params.request.url);
-        break;
-    }
-  }
-  
-  async sendCommand(method, params = {}) {
-    return new Promise((resolve, reject) => {
-      const id = ++this.messageId;
-      this.pendingCommands.set(id, { resolve, reject });
-      
-      this.ws.send(JSON.stringify({
-        id,
-        method,
-        params
-      }));
-    });
-  }
-  
-  // Enable domains
-  async enableRuntime() {
-    await this.sendCommand('Runtime.enable');
-  }
-  
-  async enableNetwork() {
-    await this.sendCommand('Network.enable');
-  }
-  
-  async enablePage() {
-    await this.sendCommand('Page.enable');
-  }
-  
-  // Runtime methods
-  async evaluate(expression) {
-    return await this.sendCommand('Runtime.evaluate', {
-      expression,
-      returnByValue: true
-    });
-  }
-  
-  async getProperties(objectId) {
-    return await this.sendCommand('Runtime.getProperties', {
-      objectId,
-      ownProperties: true
-    });
-  }
-  
-  // Network methods
-  async clearBrowserCache() {
-    await this.sendCommand('Network.clearBrowserCache');
-  }
-  
-  async setCacheDisabled(disabled = true) {
-    await this.sendCommand('Network.setCacheDisabled', { disabled });
-  }
-  
-  // Page methods
-  async reload(ignoreCache = false) {
-    await this.sendCommand('Page.reload', { ignoreCache });
-  }
-  
-  async navigate(url) {
-    return await this.sendCommand('Page.navigate', { url });
-  }
-  
-  async captureScreenshot() {
-    return await this.sendCommand('Page.captureScreenshot', {
-      format: 'png',
-      quality: 80
-    });
-  }
-  
-  // Performance methods
-  async startProfiling() {
-    await this.sendCommand('Profiler.enable');
-    await this.sendCommand('Profiler.start');
-  }
-  
-  async stopProfiling() {
-    const profile = await this.sendCommand('Profiler.stop');
-    await this.sendCommand('Profiler.disable');
-    return profile;
-  }
-  
-  // Memory methods
-  async collectGarbage() {
-    await this.sendCommand('HeapProfiler.collectGarbage');
-  }
-  
-  async takeHeapSnapshot() {
-    await this.sendCommand('HeapProfiler.enable');
-    await this.sendCommand('HeapProfiler.takeHeapSnapshot');
-  }
-  
-  disconnect() {
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
-    }
-  }
-}
-
-// Usage example
-async function debugExample() {
-  const client = new DevToolsClient();
-  
-  try {
-    await client.connect();
-    
-    // Enable required domains
-    await client.enableRuntime();
-    await client.enableNetwork();
-    await client.enablePage();
-    
-    // Evaluate JavaScript
-    const result = await client.evaluate('document.title');
-    console.log('Page title:', result.result.value);
-    
-    // Take screenshot
-    const screenshot = await client.captureScreenshot();
-    console.log('Screenshot captured:', screenshot.data.length, 'bytes');
-    
-    // Start performance profiling
-    await client.startProfiling();
-    
-    // Wait for some activity
-    setTimeout(async () => {
-      const profile = await client.stopProfiling();
-      console.log('Performance profile:', profile);
-      
-      client.disconnect();
-    }, 5000);
-    
-  } catch (error) {
-    console.error('DevTools Protocol error:', error);
-  }
-}
-
-// Auto-run if in appropriate environment
-if (typeof window !== 'undefined' && window.location.protocol === 'http:') {
-  debugExample();
-}`,
-        language: 'javascript',
-        category: 'debugging',
-        subcategory: 'devtools',
-        tags: ['devtools', 'protocol', 'debugging', 'automation', 'profiling'],
-        difficulty: 'advanced',
-        runnable: true,
-        environment: 'browser',
-        dependencies: ['chrome-devtools-protocol'],
-        setupInstructions: 'Start Chrome with --remote-debugging-port=9222',
-        expectedOutput: 'DevTools Protocol interactions and debugging data',
-        relatedArticles: ['/debugging/debugging-tools', '/debugging/chrome-internals-urls'],
-        relatedExamples: ['performance-profiling', 'automated-testing'],
-        learningObjectives: ['Master DevTools Protocol', 'Learn remote debugging', 'Understand Chrome automation'],
-        prerequisites: ['JavaScript knowledge', 'Chrome DevTools familiarity'],
-        author: 'DevTools Team',
-        createdAt: new Date('2024-03-20'),
-        updatedAt: new Date('2024-08-15'),
-        version: '2.0',
-        verified: true,
-        popularity: 73,
-        ratings: { average: 4.5, count: 89 }
-      },
-
-      // Build System Examples
-      {
-        id: 'gn-build-example',
-        title: 'GN Build Configuration',
-        description: 'Configure Chromium build with GN (Generate Ninja)',
-        longDescription: 'Learn how to configure and customize Chromium builds using GN build configuration files.',
-        code: `# BUILD.gn - Example build configuration
-# This file demonstrates common GN patterns used in Chromium
-
-import("//build/config/features.gni")
-import("//build/config/ui.gni")
-
-# Define a component (shared library in component builds)
-component("my_chromium_component") {
-  sources = [
-    "component.cc",
-    "component.h",
-    "component_impl.cc",
-    "component_impl.h",
-  ]
-  
-  # Public headers that other targets can include
-  public = [
-    "component.h",
-  ]
-  
-  # Dependencies on other targets
-  deps = [
-    "//base",
-    "//content/public/browser",
-    "//net",
-  ]
-  
-  # Public dependencies (exposed to dependents)
-  public_deps = [
-    "//url",
-  ]
-  
-  # Conditional compilation
-  if (is_win) {
-    sources += [
-      "component_win.cc",
-      "component_win.h",
-    ]
-    libs = [ "user32.lib" ]
-  }
-  
-  if (is_linux) {
-    sources += [
-      "component_linux.cc",
-      "component_linux.h",
-    ]
-    configs += [ "//build/config/linux:gtk" ]
-  }
-  
-  # Define preprocessor macros
-  defines = [
-    "MY_COMPONENT_IMPLEMENTATION",
-  ]
-  
-  # Include directories
-  include_dirs = [
-    "//third_party/custom_library/include",
-  ]
-}
-
-# Static library target
-static_library("utility_lib") {
-  sources = [
-    "utility.cc",
-    "utility.h",
-  ]
-  
-  # This library is only used internally
-  visibility = [ ":*" ]
-  
-  deps = [
-    "//base",
-  ]
-}
-
-# Executable target
-executable("my_chromium_tool") {
-  sources = [
-    "tool_main.cc",
-  ]
-  
-  deps = [
-    ":my_chromium_component",
-    ":utility_lib",
-    "//base",
-  ]
-  
-  # Tool-specific configuration
-  if (is_debug) {
-    defines += [ "ENABLE_DEBUG_FEATURES" ]
-  }
-}
-
-# Test target
-test("my_component_unittests") {
-  sources = [
-    "component_unittest.cc",
-    "utility_unittest.cc",
-  ]
-  
-  deps = [
-    ":my_chromium_component",
-    ":utility_lib",
-    "//base/test:test_support",
-    "//testing/gtest",
-  ]
-  
-  # Test data files
-  data = [
-    "test_data/sample.json",
-    "test_data/config.xml",
-  ]
-}
-
-# Custom configuration
-config("my_component_config") {
-  include_dirs = [ "include" ]
-  defines = [ "MY_COMPONENT_ENABLED" ]
-  
-  if (is_component_build) {
-    defines += [ "MY_COMPONENT_SHARED" ]
-  }
-}
-
-# Apply custom config to component
-my_chromium_component.public_configs += [ ":my_component_config" ]
-
-# Group target for convenience
-group("all_my_targets") {
-  deps = [
-    ":my_chromium_component",
-    ":my_chromium_tool",
-    ":my_component_unittests",
-  ]
-}
-
-# Action to generate code
-action("generate_version_info") {
-  script = "//tools/generate_version.py"
-  
-  inputs = [
-    "version_template.h.in",
-  ]
-  
-  outputs = [
-    "\$target_gen_dir/version_info.h",
-  ]
-  
-  args = [
-    "--template", rebase_path("version_template.h.in", root_build_dir),
-    "--output", rebase_path("\$target_gen_dir/version_info.h", root_build_dir),
-    "--version", "1.0.0",
-  ]
-  
-  # This action depends on the version template
-  deps = []
-}
-
-# Include generated files in component
-my_chromium_component.sources += get_target_outputs(":generate_version_info")
-my_chromium_component.deps += [ ":generate_version_info" ]`,
-        language: 'gn',
-        category: 'build-system',
-        subcategory: 'gn',
-        tags: ['gn', 'build', 'ninja', 'configuration', 'chromium-build'],
-        difficulty: 'intermediate',
-        runnable: false,
-        environment: 'build-system',
-        dependencies: ['gn', 'ninja', 'chromium-source'],
-        setupInstructions: 'Place in Chromium source tree and run: gn gen out/Default',
-        expectedOutput: 'Generated ninja build files',
-        relatedArticles: ['/getting-started/setup-build'],
-        relatedExamples: ['ninja-build', 'cross-compilation'],
-        learningObjectives: ['Understand GN syntax', 'Learn Chromium build patterns', 'Master dependency management'],
-        prerequisites: ['Build system knowledge', 'Chromium source access'],
-        author: 'Build Team',
-        createdAt: new Date('2024-04-01'),
-        updatedAt: new Date('2024-08-10'),
-        version: '1.3',
-        verified: true,
-        popularity: 65,
-        ratings: { average: 4.4, count: 45 }
-      }
-    ];
+    const examples = (codeExamplesCatalog as CodeExampleCatalogEntry[]).map(toCodeExample);
 
     // Initialize collections
     const collections: CodeExampleCollection[] = [
@@ -774,8 +52,8 @@ my_chromium_component.deps += [ ":generate_version_info" ]`,
         id: 'getting-started-collection',
         name: 'Getting Started with Chromium',
         description: 'Essential examples for new Chromium developers',
-        examples: ['chromium-hello-world'],
-        learningPath: ['chromium-hello-world', 'extension-content-script', 'extension-background-script'],
+        examples: ['javascript-playground-basics', 'cpp-smart-pointers'],
+        learningPath: ['javascript-playground-basics', 'cpp-smart-pointers', 'extension-content-script', 'extension-background-script'],
         estimatedTime: 45,
         difficulty: 'beginner',
         category: 'getting-started'
@@ -784,8 +62,8 @@ my_chromium_component.deps += [ ":generate_version_info" ]`,
         id: 'architecture-deep-dive',
         name: 'Chromium Architecture Deep Dive',
         description: 'Advanced examples exploring Chromium\'s internal architecture',
-        examples: ['ipc-message-passing'],
-        learningPath: ['ipc-message-passing', 'multi-process-example', 'security-sandbox'],
+        examples: ['mojo-pingable-interface', 'ipc-message-passing'],
+        learningPath: ['mojo-pingable-interface', 'ipc-message-passing', 'multi-process-example', 'security-sandbox'],
         estimatedTime: 120,
         difficulty: 'advanced',
         category: 'architecture'
@@ -794,8 +72,8 @@ my_chromium_component.deps += [ ":generate_version_info" ]`,
         id: 'javascript-engine-mastery',
         name: 'V8 JavaScript Engine Mastery',
         description: 'Master V8 performance and debugging techniques',
-        examples: ['v8-heap-snapshot'],
-        learningPath: ['v8-heap-snapshot', 'performance-profiling', 'garbage-collection'],
+        examples: ['v8-speculative-optimization'],
+        learningPath: ['v8-speculative-optimization', 'performance-profiling', 'garbage-collection'],
         estimatedTime: 90,
         difficulty: 'advanced',
         category: 'javascript-engine'
@@ -848,6 +126,21 @@ my_chromium_component.deps += [ ":generate_version_info" ]`,
     return ids.map(id => this.examples.get(id)).filter(Boolean) as CodeExample[];
   }
 
+  async getAllExamples(): Promise<CodeExample[]> {
+    return Array.from(this.examples.values());
+  }
+
+  /**
+   * Results of the last `npm run verify:examples`, or null when it has not
+   * been run for this build
+   */
+  getVerificationReport(): Promise<CodeExampleVerificationReport | null> {
+    this.verificationReport ??= fetch(VERIFICATION_REPORT_URL)
+      .then(response => (response.ok ? response.json() : null))
+      .catch(() => null);
+    return this.verificationReport;
+  }
+
   async searchExamples(filters: CodeExampleSearchFilters): Promise<CodeExampleSearchResult> {
     let examples = Array.from(this.examples.values());
 
@@ -934,6 +227,53 @@ my_chromium_component.deps += [ ":generate_version_info" ]`,
     };
   }
 
+  /**
+   * Rank examples against search words the way the article index does:
+   * stemmed words in the title, tags and description, and identifiers in
+   * the code split as tokenizeCode splits them. Every word has to match.
+   */
+  async matchExamples(words: string[], options: CodeExampleMatchOptions = {}): Promise<CodeExampleMatch[]> {
+    if (words.length === 0) {
+      return [];
+    }
+    const languages = options.languages?.map(normalizeCodeLanguage) ?? [];
+    const matches: CodeExampleMatch[] = [];
+
+    this.examples.forEach(example => {
+      if (languages.length > 0 && !languages.includes(normalizeCodeLanguage(example.language))) {
+        return;
+      }
+      const title = new Set(toIndexTerms(example.title));
+      const tags = new Set(toIndexTerms(example.tags.join(' ')));
+      const description = new Set(toIndexTerms(`${example.description} ${example.longDescription ?? ''}`));
+      const codeCounts = new Map<string, number>();
+      tokenizeCode(example.code).forEach(word => {
+        const term = stem(word);
+        codeCounts.set(term, (codeCounts.get(term) ?? 0) + 1);
+      });
+
+      let score = 0;
+      for (const word of words) {
+        const term = stem(word);
+        const text = options.scope === 'code' ? 0 :
+          FIELD_WEIGHTS.title * Number(title.has(term)) +
+          FIELD_WEIGHTS.headings * Number(tags.has(term)) +
+          FIELD_WEIGHTS.body * Number(description.has(term));
+        const codeCount = options.scope === 'text' ? 0 : codeCounts.get(term) ?? 0;
+        const weight = text + (codeCount > 0 ? FIELD_WEIGHTS.code * (1 + Math.log(codeCount)) : 0);
+        if (weight === 0) {
+          return;
+        }
+        score += weight;
+      }
+      matches.push({ example, score, matchedTerms: words });
+    });
+
+    return matches
+      .sort((a, b) => b.score - a.score || b.example.popularity - a.example.popularity)
+      .slice(0, options.limit ?? DEFAULT_MATCH_LIMIT);
+  }
+
   private generateSearchSuggestions(query: string): string[] {
     const commonSearches = [
       'ipc message passing',
@@ -1081,85 +421,4 @@ my_chromium_component.deps += [ ":generate_version_info" ]`,
   }
 }
 
-// Mock Code Execution Service
-class MockCodeExecutionService implements CodeExecutionService {
-  async execute(code: string, language: ProgrammingLanguage, environment: ExecutionEnvironment): Promise<CodeExecutionResult> {
-    // Simulate execution delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-
-    if (language === 'javascript' && environment === 'browser') {
-      try {
-        // Simple evaluation for demonstration
-        const result = eval(code);
-        return {
-          success: true,
-          output: JSON.stringify(result, null, 2),
-          executionTime: Math.random() * 100,
-          memoryUsage: Math.random() * 1024 * 1024,
-          metadata: {
-            environment,
-            timestamp: new Date(),
-            version: '1.0'
-          }
-        };
-      } catch (error) {
-        return {
-          success: false,
-          error: error instanceof Error ? error.message : 'Unknown error',
-          metadata: {
-            environment,
-            timestamp: new Date(),
-            version: '1.0'
-          }
-        };
-      }
-    }
-
-    return {
-      success: true,
-      output: 'Code execution simulated successfully',
-      executionTime: Math.random() * 200,
-      metadata: {
-        environment,
-        timestamp: new Date(),
-        version: '1.0'
-      }
-    };
-  }
-
-  async validateCode(code: string, language: ProgrammingLanguage): Promise<{ valid: boolean; errors: string[] }> {
-    // Simple validation
-    if (code.trim().length === 0) {
-      return { valid: false, errors: ['Code cannot be empty'] };
-    }
-
-    if (language === 'javascript') {
-      try {
-        new Function(code);
-        return { valid: true, errors: [] };
-      } catch (error) {
-        return { 
-          valid: false, 
-          errors: [error instanceof Error ? error.message : 'Syntax error'] 
-        };
-      }
-    }
-
-    return { valid: true, errors: [] };
-  }
-
-  async formatCode(code: string, language: ProgrammingLanguage): Promise<string> {
-    // Simple formatting simulation
-    return code;
-  }
-
-  async getEnvironmentInfo(environment: ExecutionEnvironment): Promise<{ available: boolean; version: string; features: string[] }> {
-    return {
-      available: true,
-      version: '1.0',
-      features: ['execution', 'debugging', 'profiling']
-    };
-  }
-}
-
 export const codeExamplesService = new CodeExamplesService();
@@ -0,0 +1,143 @@
+/**
+ * Code Execution Registry
+ * The CodeExecutionService behind the code examples and playgrounds. Code
+ * runs on the first registered backend that supports its language and
+ * environment and is available; when none is, the result says why instead
+ * of pretending the code ran.
+ */
+
+import {
+  CodeExecutionResult,
+  CodeExecutionService,
+  ExecutionBackend,
+  ExecutionEnvironment,
+  ExecutionEnvironmentInfo,
+  ProgrammingLanguage
+} from '../types/CodeExampleTypes';
+import { formatGn, validateGn } from '../utils/gn';
+import { formatMojom, validateMojom } from '../utils/mojom';
+import { LocalRunnerBackend } from './LocalRunnerBackend';
+import { WorkerSandboxBackend } from './WorkerSandboxBackend';
+
+/**
+ * Languages checked and formatted in the app rather than by a backend;
+ * nothing runs them
+ */
+const LANGUAGE_TOOLS: Partial<Record<ProgrammingLanguage, {
+  validate: (code: string) => string[];
+  format: (code: string) => string;
+}>> = {
+  gn: { validate: validateGn, format: formatGn },
+  mojom: { validate: validateMojom, format: formatMojom }
+};
+
+export class CodeExecutionRegistry implements CodeExecutionService {
+  private backends: ExecutionBackend[] = [];
+
+  constructor(backends: ExecutionBackend[] = []) {
+    backends.forEach(backend => this.register(backend));
+  }
+
+  /**
+   * Add a backend; earlier backends are preferred
+   */
+  register(backend: ExecutionBackend): () => void {
+    this.backends.push(backend);
+    return () => {
+      this.backends = this.backends.filter(b => b !== backend);
+    };
+  }
+
+  getBackends(): ExecutionBackend[] {
+    return [...this.backends];
+  }
+
+  async execute(code: string, language: ProgrammingLanguage, environment: ExecutionEnvironment): Promise<CodeExecutionResult> {
+    const { backend, info } = await this.resolve(environment, language);
+    if (!backend) {
+      return {
+        success: false,
+        error: info.hint,
+        metadata: { environment, timestamp: new Date(), version: '' }
+      };
+    }
+
+    try {
+      return await backend.execute(code, language, environment);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : `${backend.name} failed`,
+        metadata: { environment, timestamp: new Date(), version: info.version }
+      };
+    }
+  }
+
+  async validateCode(code: string, language: ProgrammingLanguage): Promise<{ valid: boolean; errors: string[] }> {
+    if (code.trim().length === 0) {
+      return { valid: false, errors: ['Code cannot be empty'] };
+    }
+    const tools = LANGUAGE_TOOLS[language];
+    if (tools) {
+      const errors = tools.validate(code);
+      return { valid: errors.length === 0, errors };
+    }
+    const validator = this.backends.find(backend => backend.validateCode && backend.languages.includes(language));
+    return validator?.validateCode ? validator.validateCode(code, language) : { valid: true, errors: [] };
+  }
+
+  /**
+   * Code laid out by its language's formatter; code that does not validate,
+   * or is in a language without one, is returned as is
+   */
+  async formatCode(code: string, language: ProgrammingLanguage): Promise<string> {
+    const tools = LANGUAGE_TOOLS[language];
+    if (!tools || tools.validate(code).length > 0) {
+      return code;
+    }
+    return tools.format(code);
+  }
+
+  async getEnvironmentInfo(environment: ExecutionEnvironment, language?: ProgrammingLanguage): Promise<ExecutionEnvironmentInfo> {
+    return (await this.resolve(environment, language)).info;
+  }
+
+  /**
+   * The backend that runs code in a language and environment, or without a
+   * language, the first that runs anything there
+   */
+  private async resolve(
+    environment: ExecutionEnvironment,
+    language?: ProgrammingLanguage
+  ): Promise<{ backend: ExecutionBackend | null; info: ExecutionEnvironmentInfo }> {
+    const candidates = this.backends.filter(backend =>
+      language ? backend.supports(language, environment) : backend.languages.some(l => backend.supports(l, environment))
+    );
+
+    let unavailable: ExecutionEnvironmentInfo | null = null;
+    for (const backend of candidates) {
+      const info = await backend.getInfo(language);
+      if (info.available) {
+        return { backend, info };
+      }
+      unavailable ??= info;
+    }
+
+    return {
+      backend: null,
+      info: unavailable ?? {
+        available: false,
+        version: '',
+        features: [],
+        hint: language
+          ? `${language} code cannot be run in the ${environment} environment`
+          : `Nothing can run code in the ${environment} environment`
+      }
+    };
+  }
+}
+
+export const codeExecutionService = new CodeExecutionRegistry([
+  new LocalRunnerBackend(),
+  new WorkerSandboxBackend()
+]);
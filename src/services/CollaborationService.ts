@@ -0,0 +1,485 @@
+/**
+ * Collaboration Service
+ * Real-time collaborative editing of an article's markdown. Every member
+ * of a session keeps a TextCrdt of the document and sends its edits,
+ * cursor and presence to the others through a hub: the community SignalR
+ * hub when the backend is reachable, or an in-process hub otherwise, so
+ * sessions work (and can be tested) without the backend.
+ */
+
+import {
+  CollaborativeSession,
+  CursorPosition,
+  RealTimeChange,
+  SessionParticipant,
+  VersionAuthor
+} from '../types/VersioningTypes';
+import { realTimeService } from './RealTimeService';
+import { CrdtId, CrdtOperation, CrdtState, TextCrdt } from '../utils/textCrdt';
+
+/** How long a new member waits for another member's copy of the document */
+const SYNC_TIMEOUT = 1500;
+const PRESENCE_INTERVAL = 10000;
+/** Members not heard from for this long have left without saying so */
+const PRESENCE_TIMEOUT = 30000;
+const MAX_SESSION_CHANGES = 200;
+
+interface PeerInfo {
+  userId: string;
+  name: string;
+  role: VersionAuthor['role'];
+}
+
+/** A selection as the characters before its ends, so it moves with remote edits */
+interface PeerSelection {
+  anchor: CrdtId | null;
+  head: CrdtId | null;
+}
+
+export type CollaborationMessage =
+  | { type: 'hello'; from: string; peer: PeerInfo }
+  | { type: 'presence'; from: string; peer: PeerInfo; selection: PeerSelection | null }
+  | { type: 'sync-request'; from: string }
+  | { type: 'sync-state'; from: string; to: string; state: CrdtState }
+  | { type: 'operations'; from: string; operations: CrdtOperation[] }
+  | { type: 'bye'; from: string };
+
+/**
+ * A member's connection to the hub. Messages sent to a session reach its
+ * other members, never the sender.
+ */
+export interface CollaborationConnection {
+  /** Shown to users: where edits are synced through */
+  readonly name: string;
+  join(sessionId: string, onMessage: (message: CollaborationMessage) => void): Promise<void>;
+  leave(sessionId: string): Promise<void>;
+  send(sessionId: string, message: CollaborationMessage): Promise<void>;
+}
+
+/**
+ * Sessions through the community hub of RealTimeService
+ */
+class SignalRCollaborationConnection implements CollaborationConnection {
+  readonly name = 'SignalR hub';
+  private unsubscribers = new Map<string, () => void>();
+  private disconnected = false;
+  private unsubscribeStatus: () => void;
+
+  constructor() {
+    // The hub forgets group membership when the connection drops
+    this.unsubscribeStatus = realTimeService.onConnectionStatus(connected => {
+      if (connected && this.disconnected) {
+        this.unsubscribers.forEach((_, sessionId) => realTimeService.joinEditSession(sessionId));
+      }
+      this.disconnected = !connected;
+    });
+  }
+
+  async join(sessionId: string, onMessage: (message: CollaborationMessage) => void): Promise<void> {
+    this.unsubscribers.get(sessionId)?.();
+    this.unsubscribers.set(sessionId, realTimeService.onEditSessionMessage(data => {
+      if (data.sessionId === sessionId) {
+        onMessage(data.message as CollaborationMessage);
+      }
+    }));
+    await realTimeService.joinEditSession(sessionId);
+  }
+
+  async leave(sessionId: string): Promise<void> {
+    this.unsubscribers.get(sessionId)?.();
+    this.unsubscribers.delete(sessionId);
+    if (this.unsubscribers.size === 0) {
+      this.unsubscribeStatus();
+    }
+    await realTimeService.leaveEditSession(sessionId);
+  }
+
+  async send(sessionId: string, message: CollaborationMessage): Promise<void> {
+    await realTimeService.sendEditSessionMessage(sessionId, message);
+  }
+}
+
+/**
+ * In-process stand-in for the hub. Every connection is a member; messages
+ * are delivered asynchronously and as JSON, like over the network.
+ */
+export class LocalCollaborationHub {
+  private members = new Map<string, Map<object, (message: CollaborationMessage) => void>>();
+
+  connect(): CollaborationConnection {
+    const member = {};
+    return {
+      name: 'local hub (this page only)',
+      join: async (sessionId, onMessage) => {
+        const members = this.members.get(sessionId) ?? new Map();
+        members.set(member, onMessage);
+        this.members.set(sessionId, members);
+      },
+      leave: async sessionId => {
+        this.members.get(sessionId)?.delete(member);
+      },
+      send: async (sessionId, message) => {
+        const json = JSON.stringify(message);
+        this.members.get(sessionId)?.forEach((onMessage, other) => {
+          if (other !== member) {
+            setTimeout(() => onMessage(JSON.parse(json)), 0);
+          }
+        });
+      }
+    };
+  }
+}
+
+export const localCollaborationHub = new LocalCollaborationHub();
+
+/**
+ * A connection through the SignalR hub, or the local hub when the backend
+ * cannot be reached
+ */
+export async function connectCollaboration(): Promise<CollaborationConnection> {
+  try {
+    await realTimeService.start();
+  } catch (error) {
+    console.warn('Collaboration hub unreachable, editing through the local hub:', error);
+  }
+  return realTimeService.connected ? new SignalRCollaborationConnection() : localCollaborationHub.connect();
+}
+
+/**
+ * The session everyone editing an article joins
+ */
+export const collaborativeSessionId = (contentPath: string) => `edit:${contentPath}`;
+
+export const contentPathOfSession = (sessionId: string) => sessionId.replace(/^edit:/, '');
+
+const newConnectionId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * The one change turning `before` into `after`, as a common prefix and
+ * suffix around the replaced text
+ */
+function replacedRange(before: string, after: string): { start: number; removed: number; inserted: string } {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++;
+  }
+  let end = 0;
+  while (end < before.length - start && end < after.length - start && before[before.length - 1 - end] === after[after.length - 1 - end]) {
+    end++;
+  }
+  return { start, removed: before.length - start - end, inserted: after.slice(start, after.length - end) };
+}
+
+const participantOf = (peer: PeerInfo, connectionId: string): SessionParticipant => ({
+  userId: peer.userId,
+  connectionId,
+  name: peer.name,
+  role: peer.role === 'observer' ? 'observer' : peer.role === 'reviewer' ? 'reviewer' : 'editor',
+  joinedAt: new Date(),
+  isActive: true,
+  permissions: {
+    canEdit: peer.role !== 'observer',
+    canReview: peer.role !== 'observer',
+    canComment: true,
+    canApprove: peer.role === 'maintainer'
+  }
+});
+
+/**
+ * This page's membership of a collaborative session: the shared document,
+ * the local selection and what is known of the other members. `session`
+ * is kept up to date with participants (this page first), cursors and
+ * recent changes.
+ */
+export class CollaborativeDocument {
+  readonly session: CollaborativeSession;
+  readonly connectionId = newConnectionId();
+  private crdt: TextCrdt;
+  private synced = false;
+  /** Operations received before the document was synced */
+  private buffered: CrdtOperation[] = [];
+  private selection: PeerSelection | null = null;
+  private peerSelections = new Map<string, PeerSelection | null>();
+  private lastSeen = new Map<string, number>();
+  private presenceTimer: ReturnType<typeof setInterval> | null = null;
+  private listeners: (() => void)[] = [];
+
+  constructor(
+    sessionId: string,
+    private readonly user: VersionAuthor,
+    private readonly connection: CollaborationConnection,
+    private readonly initialContent: string
+  ) {
+    this.crdt = new TextCrdt(this.connectionId);
+    this.session = {
+      id: sessionId,
+      contentPath: contentPathOfSession(sessionId),
+      participants: [participantOf(this.peerInfo(), this.connectionId)],
+      startedAt: new Date(),
+      status: 'active',
+      changes: [],
+      cursor: [],
+      comments: []
+    };
+  }
+
+  get hubName(): string {
+    return this.connection.name;
+  }
+
+  get canEdit(): boolean {
+    return this.user.role !== 'observer';
+  }
+
+  /**
+   * Join the session and take the document from a member already in it.
+   * Without other members, the document starts from the initial content.
+   */
+  async open(): Promise<void> {
+    await this.connection.join(this.session.id, message => this.receive(message));
+    const synced = new Promise<void>(resolve => {
+      const unsubscribe = this.subscribe(() => {
+        if (this.synced) {
+          unsubscribe();
+          resolve();
+        }
+      });
+      setTimeout(() => {
+        unsubscribe();
+        resolve();
+      }, SYNC_TIMEOUT);
+    });
+    await this.send({ type: 'hello', from: this.connectionId, peer: this.peerInfo() });
+    await this.send({ type: 'sync-request', from: this.connectionId });
+    await synced;
+    if (!this.synced) {
+      this.crdt = TextCrdt.fromText(this.connectionId, this.initialContent);
+      this.finishSync();
+    }
+
+    this.presenceTimer = setInterval(() => {
+      this.sendPresence();
+      this.dropSilentPeers();
+    }, PRESENCE_INTERVAL);
+  }
+
+  async close(): Promise<void> {
+    if (this.presenceTimer) {
+      clearInterval(this.presenceTimer);
+      this.presenceTimer = null;
+    }
+    await this.send({ type: 'bye', from: this.connectionId });
+    await this.connection.leave(this.session.id);
+    this.session.status = 'ended';
+    this.session.endedAt = new Date();
+    this.session.participants.forEach(participant => {
+      participant.isActive = false;
+      participant.leftAt = this.session.endedAt;
+    });
+    this.notify();
+  }
+
+  getText(): string {
+    return this.crdt.getText();
+  }
+
+  /**
+   * Replace the text after a local edit, sending the change to the other
+   * members. The selection is the one after the edit.
+   */
+  update(text: string, selectionStart?: number, selectionEnd = selectionStart): void {
+    if (!this.synced || !this.canEdit) {
+      return;
+    }
+    const before = this.crdt.getText();
+    const { start, removed, inserted } = replacedRange(before, text);
+    const operations = [this.crdt.delete(start, removed), this.crdt.insert(start, inserted)]
+      .filter((operation): operation is CrdtOperation => operation !== null);
+    if (operations.length === 0) {
+      return;
+    }
+    this.recordChanges(this.user.id, start, before.slice(start, start + removed), inserted);
+    this.send({ type: 'operations', from: this.connectionId, operations });
+    if (selectionStart !== undefined) {
+      this.setSelection(selectionStart, selectionEnd!);
+    } else {
+      this.refreshCursors();
+      this.notify();
+    }
+  }
+
+  /**
+   * Move the local cursor or selection and show it to the other members
+   */
+  setSelection(start: number, end: number): void {
+    this.selection = { anchor: this.crdt.anchorAt(start), head: this.crdt.anchorAt(end) };
+    this.sendPresence();
+    this.refreshCursors();
+    this.notify();
+  }
+
+  /**
+   * The local selection, moved by the edits of others since it was set
+   */
+  getSelection(): { start: number; end: number } | null {
+    if (!this.selection) {
+      return null;
+    }
+    return { start: this.crdt.indexOfAnchor(this.selection.anchor), end: this.crdt.indexOfAnchor(this.selection.head) };
+  }
+
+  /**
+   * Called after every change to the text, members or cursors
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  private receive(message: CollaborationMessage): void {
+    if (message.from === this.connectionId || this.session.status !== 'active') {
+      return;
+    }
+    this.lastSeen.set(message.from, Date.now());
+
+    switch (message.type) {
+      case 'hello':
+        this.addPeer(message.from, message.peer);
+        // Tell the newcomer who is here and where
+        this.sendPresence();
+        break;
+      case 'presence':
+        this.addPeer(message.from, message.peer);
+        this.peerSelections.set(message.from, message.selection);
+        break;
+      case 'sync-request':
+        if (this.synced) {
+          this.send({ type: 'sync-state', from: this.connectionId, to: message.from, state: this.crdt.getState() });
+        }
+        return;
+      case 'sync-state':
+        if (message.to !== this.connectionId || this.synced) {
+          return;
+        }
+        this.crdt.loadState(message.state);
+        this.finishSync();
+        break;
+      case 'operations':
+        if (!this.synced) {
+          this.buffered.push(...message.operations);
+          return;
+        }
+        this.applyRemote(message.from, message.operations);
+        break;
+      case 'bye':
+        this.removePeer(message.from);
+        break;
+    }
+    this.refreshCursors();
+    this.notify();
+  }
+
+  private finishSync(): void {
+    this.synced = true;
+    this.buffered.forEach(operation => this.crdt.apply(operation));
+    this.buffered = [];
+    this.notify();
+  }
+
+  private applyRemote(connectionId: string, operations: CrdtOperation[]): void {
+    const before = this.crdt.getText();
+    operations.forEach(operation => this.crdt.apply(operation));
+    const { start, removed, inserted } = replacedRange(before, this.crdt.getText());
+    const userId = this.session.participants.find(p => p.connectionId === connectionId)?.userId ?? connectionId;
+    this.recordChanges(userId, start, before.slice(start, start + removed), inserted);
+  }
+
+  private recordChanges(userId: string, position: number, removed: string, inserted: string): void {
+    const timestamp = new Date();
+    const change = (type: RealTimeChange['type'], content: string): RealTimeChange => ({
+      id: `change-${timestamp.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+      userId,
+      type,
+      position,
+      content,
+      timestamp,
+      applied: true
+    });
+    if (removed) {
+      this.session.changes.push(change('delete', removed));
+    }
+    if (inserted) {
+      this.session.changes.push(change('insert', inserted));
+    }
+    this.session.changes.splice(0, this.session.changes.length - MAX_SESSION_CHANGES);
+  }
+
+  private addPeer(connectionId: string, peer: PeerInfo): void {
+    const existing = this.session.participants.find(p => p.connectionId === connectionId);
+    if (existing) {
+      existing.isActive = true;
+      return;
+    }
+    this.session.participants.push(participantOf(peer, connectionId));
+  }
+
+  private removePeer(connectionId: string): void {
+    this.session.participants = this.session.participants.filter(p => p.connectionId !== connectionId);
+    this.peerSelections.delete(connectionId);
+    this.lastSeen.delete(connectionId);
+  }
+
+  private dropSilentPeers(): void {
+    const silent = [...this.lastSeen].filter(([, seen]) => Date.now() - seen > PRESENCE_TIMEOUT);
+    if (silent.length > 0) {
+      silent.forEach(([connectionId]) => this.removePeer(connectionId));
+      this.refreshCursors();
+      this.notify();
+    }
+  }
+
+  private refreshCursors(): void {
+    const cursorOf = (participant: SessionParticipant, selection: PeerSelection): CursorPosition => {
+      const start = this.crdt.indexOfAnchor(selection.anchor);
+      const end = this.crdt.indexOfAnchor(selection.head);
+      return {
+        userId: participant.userId,
+        connectionId: participant.connectionId,
+        position: end,
+        selection: start !== end ? { start: Math.min(start, end), end: Math.max(start, end) } : undefined,
+        timestamp: new Date()
+      };
+    };
+    this.session.cursor = this.session.participants.flatMap(participant => {
+      const selection = participant.connectionId === this.connectionId
+        ? this.selection
+        : this.peerSelections.get(participant.connectionId!);
+      return selection ? [cursorOf(participant, selection)] : [];
+    });
+  }
+
+  private peerInfo(): PeerInfo {
+    return { userId: this.user.id, name: this.user.name, role: this.user.role };
+  }
+
+  private sendPresence(): void {
+    this.send({ type: 'presence', from: this.connectionId, peer: this.peerInfo(), selection: this.selection });
+  }
+
+  private async send(message: CollaborationMessage): Promise<void> {
+    try {
+      await this.connection.send(this.session.id, message);
+    } catch (error) {
+      console.error('Failed to send collaboration message:', error);
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -4,17 +4,70 @@
  * with fallback mechanisms and caching
  */
 
+import { ArticleFrontmatter, DifficultyLevel } from '../types/ComponentTypes';
+import {
+  parseFrontmatter,
+  normalizeTags,
+  parseReadingTime,
+  parseFrontmatterDate,
+  parseDifficulty
+} from '../utils/frontmatter';
+import { getContentFileCandidates } from '../utils/contentPaths';
+import { searchIndexService } from './SearchIndexService';
+import { authService } from './AuthService';
+import { versioningService } from './ContentVersioningService';
+import { gitContentPath } from '../utils/gitHistory';
+import { ContentVersion } from '../types/VersioningTypes';
+import { Subject, getAdminOnlyContentDirs, getSubjectContentDir } from '../contentIndex';
+
+interface ApiResponse<T> {
+  data: T;
+  success: boolean;
+  message: string;
+}
+
+/**
+ * Endpoint of the authenticated API serving admin-only content directories,
+ * e.g. `/content/internal/overview`. The server checks the caller's role and
+ * resolves the path with the same fallbacks as static files; see "Admin-only
+ * Content API" in the README for the contract.
+ */
+const PROTECTED_CONTENT_ENDPOINT = '/content';
+
+interface ProtectedContentFile {
+  /** File the path resolved to, e.g. `internal/overview.md` */
+  path: string;
+  content: string;
+  lastModified?: string;
+}
+
+/**
+ * Thrown when the API cannot provide an admin-only article: the reader is
+ * signed out or not an admin, or the API is unreachable or lacks
+ * PROTECTED_CONTENT_ENDPOINT
+ */
+export class ProtectedContentError extends Error {
+  constructor(public path: string, public reason: string) {
+    super(`Admin-only content ${path} could not be loaded from the API: ${reason}`);
+    this.name = 'ProtectedContentError';
+  }
+}
+
 export interface ContentItem {
   id: string;
   path: string;
   title: string;
   content: string;
+  description?: string;
   category: string;
   tags: string[];
+  difficulty?: DifficultyLevel;
   lastUpdated: Date;
   author?: string;
   readingTime?: number;
   isPublished: boolean;
+  publishAt?: Date;
+  reviewBy?: Date;
 }
 
 export interface ContentMetadata {
@@ -22,9 +75,17 @@ export interface ContentMetadata {
   description?: string;
   category: string;
   tags: string[];
+  difficulty?: DifficultyLevel;
+  prerequisites?: string[];
   lastUpdated: Date;
   author?: string;
   readingTime?: number;
+  /** Set when the article is scheduled; it is not served before */
+  publishAt?: Date;
+  /** When time-sensitive content should be checked again */
+  reviewBy?: Date;
+  /** Raw frontmatter block, for consumers that need non-standard keys */
+  frontmatter?: ArticleFrontmatter;
 }
 
 class ContentService {
@@ -38,25 +99,43 @@ class ContentService {
     this.useApiFirst = import.meta.env.VITE_USE_API_CONTENT === 'true';
   }
 
+  /**
+   * Get an article by its path within a subject. Subjects with a
+   * `fallbackContentBase` read articles they do not own from that directory.
+   */
+  async getSubjectContent(subject: Subject, path: string): Promise<{ content: string; metadata: ContentMetadata }> {
+    const contentPath = `${getSubjectContentDir(subject)}/${path}`;
+    if (!subject.fallbackContentBase) {
+      return this.getContent(contentPath);
+    }
+
+    try {
+      return await this.getContent(contentPath);
+    } catch (error) {
+      try {
+        return await this.getContent(`${subject.fallbackContentBase}/${path}`);
+      } catch {
+        throw error;
+      }
+    }
+  }
+
   /**
    * Get content by path with fallback mechanism
    * Priority: 1. API (if enabled), 2. Static files, 3. Cache
+   * Admin-only content directories always go through the authenticated API.
    */
   async getContent(path: string): Promise<{ content: string; metadata: ContentMetadata }> {
+    if (getAdminOnlyContentDirs().includes(path.split('/')[0])) {
+      return this.loadProtectedContent(path);
+    }
+
     // Check cache first
     const cached = this.contentCache.get(path);
     if (cached) {
       return {
         content: cached.content,
-        metadata: {
-          title: cached.title,
-          description: undefined,
-          category: cached.category,
-          tags: cached.tags,
-          lastUpdated: cached.lastUpdated,
-          author: cached.author,
-          readingTime: cached.readingTime
-        }
+        metadata: this.toMetadata(cached)
       };
     }
 
@@ -68,14 +147,7 @@ class ContentService {
           this.cacheContent(path, apiResult);
           return {
             content: apiResult.content,
-            metadata: {
-              title: apiResult.title,
-              category: apiResult.category,
-              tags: apiResult.tags,
-              lastUpdated: apiResult.lastUpdated,
-              author: apiResult.author,
-              readingTime: apiResult.readingTime
-            }
+            metadata: this.toMetadata(apiResult)
           };
         } catch (apiError) {
           console.warn(`API failed for ${path}, falling back to static files:`, apiError);
@@ -93,14 +165,7 @@ class ContentService {
           this.cacheContent(path, apiResult);
           return {
             content: apiResult.content,
-            metadata: {
-              title: apiResult.title,
-              category: apiResult.category,
-              tags: apiResult.tags,
-              lastUpdated: apiResult.lastUpdated,
-              author: apiResult.author,
-              readingTime: apiResult.readingTime
-            }
+            metadata: this.toMetadata(apiResult)
           };
         }
       }
@@ -132,18 +197,48 @@ class ContentService {
       path: data.path,
       title: data.title,
       content: data.content,
+      description: data.description,
       category: data.category,
       tags: data.tags || [],
+      difficulty: parseDifficulty(data.difficulty),
       lastUpdated: new Date(data.lastUpdated),
       author: data.author,
       readingTime: data.readingTime,
-      isPublished: data.isPublished
+      isPublished: data.isPublished,
+      publishAt: parseFrontmatterDate(data.publishAt),
+      reviewBy: parseFrontmatterDate(data.reviewBy)
+    };
+  }
+
+  /**
+   * Load admin-only content from the authenticated API. These directories
+   * are not deployed as static files, so the role check happens on the
+   * server. Not cached, so signing out takes effect on the next load.
+   */
+  private async loadProtectedContent(path: string): Promise<{ content: string; metadata: ContentMetadata }> {
+    const endpoint = `${PROTECTED_CONTENT_ENDPOINT}/${path.split('/').map(encodeURIComponent).join('/')}`;
+    let file: ProtectedContentFile | undefined;
+    try {
+      const response = await authService.makeAuthenticatedRequest<ApiResponse<ProtectedContentFile>>(endpoint);
+      file = response?.data;
+    } catch (error) {
+      throw new ProtectedContentError(path, error instanceof Error ? error.message : String(error));
+    }
+    if (typeof file?.content !== 'string' || typeof file.path !== 'string') {
+      throw new ProtectedContentError(path, 'the response holds no article');
+    }
+    return {
+      content: file.content,
+      metadata: this.extractMetadata(file.content, file.path.replace(/\.md$/, ''), file.lastModified)
     };
   }
 
   /**
    * Load content from static markdown files (fallback)
-   * Enhanced to handle directory-style paths with multiple fallback strategies
+   * Enhanced to handle directory-style paths with multiple fallback strategies.
+   * Articles with versions kept by ContentVersioningService are served as
+   * the version live now. Files whose `publish_at` is still ahead are not
+   * deployed until a build after that date, so they are never found here.
    */
   private async loadFromStaticFiles(path: string): Promise<{ content: string; metadata: ContentMetadata }> {
     // SPAs return 200 OK with index.html for missing files. Treat any HTML
@@ -151,80 +246,108 @@ class ContentService {
     const isMarkdown = (r: Response) =>
       r.ok && !(r.headers.get('content-type') ?? '').includes('text/html');
 
-    // Strategy 1: Try exact path match first
-    try {
-      const response = await fetch(`/content/${path}.md`);
-      if (isMarkdown(response)) {
-        const markdownContent = await response.text();
-        const metadata = this.extractMetadata(markdownContent, path);
-        return { content: markdownContent, metadata };
-      }
-    } catch (error) {
-      // Continue to fallback strategies
-    }
+    // Try `<path>.md`, then `<path>/overview.md`, `<path>/index.md` and `<path>/README.md`
+    const candidates = getContentFileCandidates(path);
+    for (const candidate of candidates) {
+      try {
+        const response = await fetch(`/content/${candidate}`);
+        if (isMarkdown(response)) {
+          const served = await this.getServedVersion(candidate);
+          if (served) {
+            const metadata = this.extractMetadata(served.content, candidate.replace(/\.md$/, ''), new Date(served.publishAt ?? served.timestamp).toISOString());
+            return { content: served.content, metadata: { ...metadata, reviewBy: served.reviewBy ?? metadata.reviewBy } };
+          }
 
-    // Strategy 2: Try path with /overview.md suffix (common pattern)
-    try {
-      const response = await fetch(`/content/${path}/overview.md`);
-      if (isMarkdown(response)) {
-        const markdownContent = await response.text();
-        const metadata = this.extractMetadata(markdownContent, `${path}/overview`);
-        return { content: markdownContent, metadata };
+          const markdownContent = await response.text();
+          const metadata = this.extractMetadata(markdownContent, candidate.replace(/\.md$/, ''), response.headers.get('last-modified'));
+          return { content: markdownContent, metadata };
+        }
+      } catch (error) {
+        // Continue to the next fallback
       }
-    } catch (error) {
-      // Continue to next strategy
     }
 
-    // Strategy 3: Try path with /index.md suffix
-    try {
-      const response = await fetch(`/content/${path}/index.md`);
-      if (isMarkdown(response)) {
-        const markdownContent = await response.text();
-        const metadata = this.extractMetadata(markdownContent, `${path}/index`);
-        return { content: markdownContent, metadata };
-      }
-    } catch (error) {
-      // Continue to next strategy
-    }
+    throw new Error(`Content not found for path: ${path}. Tried: ${candidates.join(', ')}`);
+  }
 
-    // Strategy 4: Try README.md in the directory
+  /**
+   * The version of a content file live now, when its versions are kept by
+   * ContentVersioningService; null to serve the file as it is. Versions are
+   * kept on the API server, which needs a signed-in user, so signed-out
+   * readers get the file as deployed without a request.
+   */
+  private async getServedVersion(file: string): Promise<ContentVersion | null> {
+    if (!authService.isAuthenticated()) {
+      return null;
+    }
     try {
-      const response = await fetch(`/content/${path}/README.md`);
-      if (isMarkdown(response)) {
-        const markdownContent = await response.text();
-        const metadata = this.extractMetadata(markdownContent, `${path}/README`);
-        return { content: markdownContent, metadata };
-      }
+      return await versioningService.getServedVersion(gitContentPath(file));
     } catch (error) {
-      // All strategies failed
+      console.warn(`Failed to load versions of ${file}:`, error);
+      return null;
     }
-
-    throw new Error(`Content not found for path: ${path}. Tried: ${path}.md, ${path}/overview.md, ${path}/index.md, ${path}/README.md`);
   }
 
   /**
-   * Extract metadata from markdown content
+   * Extract metadata from markdown content.
+   * Frontmatter values win; the first heading, the path and the response's
+   * Last-Modified header fill in whatever the frontmatter leaves out.
    */
-  private extractMetadata(content: string, path: string): ContentMetadata {
-    // Extract title from first heading
-    const titleMatch = content.match(/^#\s+(.+)$/m);
-    const title = titleMatch ? titleMatch[1].trim() : this.pathToTitle(path);
-
-    // Basic metadata extraction - you can enhance this
-    const category = path.split('/')[0] || 'general';
-    const tags: string[] = [];
-    
-    // Estimate reading time
+  private extractMetadata(content: string, path: string, lastModified?: string | null): ContentMetadata {
+    const { frontmatter, body, error } = parseFrontmatter(content);
+    if (error) {
+      console.warn(`Invalid frontmatter in ${path}:`, error);
+    }
+
+    const titleMatch = body.match(/^#\s+(.+)$/m);
+    const title = typeof frontmatter.title === 'string' && frontmatter.title.trim()
+      ? frontmatter.title.trim()
+      : titleMatch ? titleMatch[1].trim() : this.pathToTitle(path);
+
+    const category = typeof frontmatter.category === 'string' && frontmatter.category.trim()
+      ? frontmatter.category.trim()
+      : path.split('/')[0] || 'general';
+
+    // Estimate reading time when the frontmatter does not state one
     const wordsPerMinute = 200;
-    const wordCount = content.split(/\s+/).length;
-    const readingTime = Math.ceil(wordCount / wordsPerMinute);
+    const wordCount = body.split(/\s+/).length;
+    const readingTime = parseReadingTime(frontmatter.estimated_reading_time) ?? Math.ceil(wordCount / wordsPerMinute);
+
+    const lastUpdated = parseFrontmatterDate(frontmatter.date)
+      ?? parseFrontmatterDate(lastModified ?? undefined)
+      ?? new Date();
 
     return {
       title,
+      description: typeof frontmatter.description === 'string' ? frontmatter.description : undefined,
       category,
-      tags,
-      lastUpdated: new Date(),
-      readingTime
+      tags: normalizeTags(frontmatter.tags),
+      difficulty: parseDifficulty(frontmatter.difficulty),
+      prerequisites: Array.isArray(frontmatter.prerequisites) ? frontmatter.prerequisites.map(String) : undefined,
+      lastUpdated,
+      author: typeof frontmatter.author === 'string' ? frontmatter.author : undefined,
+      readingTime,
+      publishAt: parseFrontmatterDate(frontmatter.publish_at),
+      reviewBy: parseFrontmatterDate(frontmatter.review_by),
+      frontmatter
+    };
+  }
+
+  /**
+   * Map a cached or API content item to metadata
+   */
+  private toMetadata(item: ContentItem): ContentMetadata {
+    return {
+      title: item.title,
+      description: item.description,
+      category: item.category,
+      tags: item.tags,
+      difficulty: item.difficulty,
+      lastUpdated: item.lastUpdated,
+      author: item.author,
+      readingTime: item.readingTime,
+      publishAt: item.publishAt,
+      reviewBy: item.reviewBy
     };
   }
 
@@ -283,21 +406,23 @@ class ContentService {
   }
 
   /**
-   * Get static content index as fallback
+   * Get static content index as fallback, from the search index's document tables
    */
   private async getStaticContentIndex(): Promise<ContentMetadata[]> {
     try {
-      const response = await fetch('/search-index.json');
-      if (response.ok) {
-        const data = await response.json();
-        return data.map((item: any) => ({
-          title: item.title,
-          category: item.path.split('/')[0] || 'general',
-          tags: [],
-          lastUpdated: new Date(),
-          readingTime: Math.ceil(item.content.split(/\s+/).length / 200)
-        }));
-      }
+      const manifest = await searchIndexService.getManifest();
+      const documents = await Promise.all(
+        Object.keys(manifest.shards).map(shard => searchIndexService.getDocuments(shard))
+      );
+      return documents.flat().map(document => ({
+        title: document.title,
+        description: document.description,
+        category: document.category,
+        tags: document.tags,
+        difficulty: document.difficulty,
+        lastUpdated: parseFrontmatterDate(document.lastUpdated) ?? new Date(),
+        readingTime: document.readingTime
+      }));
     } catch (error) {
       console.warn('Failed to load static content index:', error);
     }
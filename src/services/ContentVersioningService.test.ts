@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChangeImpact, VersionAuthor, VersionChange } from '../types/VersioningTypes';
+import { ReviewRequiredError, versioningService } from './ContentVersioningService';
+import { MemoryVersionStorage } from './VersionStorage';
+
+vi.mock('./AuthService', () => ({
+  authService: { getCurrentUserSync: () => null, isAuthenticated: () => false }
+}));
+
+const PATH = 'chromium/architecture/mojo';
+
+const author = (id: string, role: VersionAuthor['role']): VersionAuthor =>
+  ({ id, name: id, email: `${id}@example.com`, role, expertise: [] });
+
+const writer = author('writer', 'contributor');
+const reviewer = author('reviewer', 'reviewer');
+const maintainer = author('maintainer', 'maintainer');
+
+const change = (impact: ChangeImpact): VersionChange => ({
+  id: 'change-1',
+  type: 'modification',
+  section: 'content',
+  description: 'Edited the article',
+  lineNumbers: { start: 1, end: 1 },
+  impact,
+  reviewStatus: 'pending'
+});
+
+/** A version by `writer`, under review */
+async function versionUnderReview(impact: ChangeImpact = 'minor') {
+  const version = await versioningService.createVersion(PATH, '# Mojo\n', writer, [change(impact)]);
+  await versioningService.requestReview(PATH, version.id);
+  return version.id;
+}
+
+const status = async (versionId: string) =>
+  (await versioningService.getVersionHistory(PATH))?.versions.find(version => version.id === versionId)?.status;
+
+describe('review rules', () => {
+  beforeEach(() => {
+    versioningService.setStorage(new MemoryVersionStorage());
+  });
+
+  it('approves a version once it has enough approvals', async () => {
+    const versionId = await versionUnderReview();
+    expect(await status(versionId)).toBe('pending_review');
+
+    await versioningService.submitReview(PATH, versionId, reviewer, 'approved');
+
+    expect(await status(versionId)).toBe('approved');
+  });
+
+  it('blocks publishing until the version is approved', async () => {
+    const versionId = await versionUnderReview();
+
+    await expect(versioningService.publishVersion(PATH, versionId, maintainer)).rejects.toBeInstanceOf(ReviewRequiredError);
+    await versioningService.submitReview(PATH, versionId, reviewer, 'approved');
+    await expect(versioningService.publishVersion(PATH, versionId, maintainer)).resolves.toBe(true);
+    expect(await status(versionId)).toBe('published');
+  });
+
+  it('tells why a version that is not under review cannot be published', async () => {
+    const draft = await versioningService.createVersion(PATH, '# Mojo\n', writer, [change('minor')]);
+    await expect(versioningService.publishVersion(PATH, draft.id, maintainer))
+      .rejects.toThrow('Version cannot be published yet: review has not been requested');
+
+    const versionId = await versionUnderReview();
+    await versioningService.submitReview(PATH, versionId, reviewer, 'approved');
+    await versioningService.publishVersion(PATH, versionId, maintainer);
+    await expect(versioningService.publishVersion(PATH, versionId, maintainer))
+      .rejects.toThrow('Version cannot be published yet: version is published');
+  });
+
+  it('rejects reviews from roles that may not review', async () => {
+    const versionId = await versionUnderReview();
+
+    await expect(versioningService.submitReview(PATH, versionId, author('other', 'contributor'), 'approved'))
+      .rejects.toThrow('A contributor cannot review versions');
+  });
+
+  it('rejects reviews from visitors who are not signed in', async () => {
+    const versionId = await versionUnderReview();
+    const visitor = versioningService.getCurrentAuthor();
+
+    expect(visitor.role).toBe('contributor');
+    await expect(versioningService.submitReview(PATH, versionId, visitor, 'approved'))
+      .rejects.toThrow('A contributor cannot review versions');
+    expect(await status(versionId)).toBe('pending_review');
+  });
+
+  it('rejects authors approving their own versions', async () => {
+    const version = await versioningService.createVersion(PATH, '# Mojo\n', reviewer, [change('minor')]);
+    await versioningService.requestReview(PATH, version.id);
+
+    await expect(versioningService.submitReview(PATH, version.id, reviewer, 'approved'))
+      .rejects.toThrow('Authors cannot approve their own versions');
+  });
+
+  it('needs a maintainer for breaking changes', async () => {
+    const versionId = await versionUnderReview('breaking');
+    await versioningService.submitReview(PATH, versionId, reviewer, 'approved');
+
+    expect(await status(versionId)).toBe('pending_review');
+    await versioningService.submitReview(PATH, versionId, maintainer, 'approved');
+    expect(await status(versionId)).toBe('approved');
+  });
+
+  it('counts only the latest review of each reviewer', async () => {
+    const versionId = await versionUnderReview();
+    await versioningService.submitReview(PATH, versionId, reviewer, 'approved');
+    await versioningService.submitReview(PATH, versionId, reviewer, 'needs_revision');
+
+    const version = (await versioningService.getVersionHistory(PATH))!.versions.find(v => v.id === versionId)!;
+    expect(versioningService.getReviewState(version)).toMatchObject({
+      approvals: 0,
+      changesRequestedBy: ['reviewer'],
+      blockers: ['0 of 1 required approvals', 'changes requested by reviewer']
+    });
+    expect(version.status).toBe('pending_review');
+  });
+
+  it('blocks an approved version again on an unresolved blocking comment', async () => {
+    const versionId = await versionUnderReview();
+    await versioningService.submitReview(PATH, versionId, reviewer, 'approved');
+
+    const comment = await versioningService.addReviewComment(PATH, versionId, reviewer, {
+      section: 'content',
+      lineNumber: 1,
+      comment: 'This is wrong',
+      type: 'issue',
+      severity: 'high'
+    });
+    expect(await status(versionId)).toBe('pending_review');
+
+    await versioningService.resolveReviewComment(PATH, versionId, comment!.id);
+    expect(await status(versionId)).toBe('approved');
+  });
+});
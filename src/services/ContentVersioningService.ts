@@ -19,125 +19,347 @@ import {
   VersionAuthor,
   VersionChange,
   MergeConflict,
-  SectionDiff
+  SectionDiff,
+  ReviewComment,
+  ReviewInfo,
+  ReviewState
 } from '../types/VersioningTypes';
+import { VersionStorageAdapter, VersionConflictError, createVersionStorage, loadGitVersionHistory } from './VersionStorage';
+import { authService, User } from './AuthService';
+import { CollaborativeDocument, collaborativeSessionId, connectCollaboration } from './CollaborationService';
+import { diffLines, merge3, splitLines } from '../utils/textDiff';
+import { extractVersionTags, extractVersionTitle, generateVersionMetadata } from '../utils/versionContent';
+import { isLive, isScheduled, servedVersion } from '../utils/contentSchedule';
+
+/** Attempts to apply a change when other editors keep saving in between */
+const MAX_SAVE_ATTEMPTS = 3;
+
+/** Branch id that stands for the main line of versions, whose head is the latest version */
+export const MAIN_BRANCH_ID = 'main';
+
+/** Lines changed by a branch beyond which its changes count as major */
+const MAJOR_CHANGE_LINES = 20;
+
+/** Statuses a version may move to from each status */
+const STATUS_TRANSITIONS: Record<VersionStatus, VersionStatus[]> = {
+  draft: ['pending_review', 'archived'],
+  pending_review: ['approved', 'draft', 'archived'],
+  approved: ['pending_review', 'published', 'draft', 'archived'],
+  published: ['archived', 'deprecated'],
+  archived: [],
+  deprecated: ['archived']
+};
+
+/** Versioning role of a signed-in site user */
+const AUTHOR_ROLES: Record<User['role'], VersionAuthor['role']> = {
+  Admin: 'maintainer',
+  Moderator: 'reviewer',
+  Contributor: 'editor',
+  Member: 'contributor'
+};
+
+/**
+ * Thrown by publishVersion while a version does not meet the review rules
+ */
+export class ReviewRequiredError extends Error {
+  constructor(public blockers: string[]) {
+    super(`Version cannot be published yet: ${blockers.join('; ')}`);
+    this.name = 'ReviewRequiredError';
+  }
+}
+
+// 1-based inclusive line range of `count` lines from a 0-based index
+const lineRange = (start: number, count: number) => ({ start: start + 1, end: start + count });
+
+// Text of the nearest markdown heading at or above a line
+const headingAt = (lines: string[], index: number): string | undefined => {
+  for (let i = Math.min(index, lines.length - 1); i >= 0; i--) {
+    const match = lines[i].match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (match) {
+      return match[1];
+    }
+  }
+  return undefined;
+};
 
 class ContentVersioningService {
-  private versions: Map<string, VersionHistory> = new Map();
-  private collaborativeSessions: Map<string, CollaborativeSession> = new Map();
+  private storage: VersionStorageAdapter;
+  /** Histories exported from git, by content path; never modified */
+  private gitHistories = new Map<string, Promise<VersionHistory | null>>();
+  /** Sessions this page takes part in, by id */
+  private collaborativeSessions: Map<string, CollaborativeDocument> = new Map();
   private preferences: Map<string, VersioningPreferences> = new Map();
   private configuration: VersioningConfiguration;
 
-  constructor() {
+  constructor(storage: VersionStorageAdapter = createVersionStorage()) {
+    this.storage = storage;
     this.configuration = this.getDefaultConfiguration();
-    this.initializeVersioning();
-  }
-
-  /**
-   * Initialize the versioning system with default data
-   */
-  private initializeVersioning(): void {
-    // Initialize with sample version history for demonstration
-    const sampleHistory: VersionHistory = {
-      contentPath: '/content/architecture/overview.md',
-      versions: [
-        {
-          id: 'v1',
-          contentPath: '/content/architecture/overview.md',
-          version: 1,
-          title: 'Chromium Architecture Overview',
-          content: 'Initial content about Chromium architecture...',
-          metadata: {
-            wordCount: 1200,
-            readingTime: 6,
-            lastModified: new Date('2025-01-15'),
-            language: 'en',
-            difficulty: 'intermediate',
-            categories: ['architecture', 'browser'],
-            prerequisites: ['basic-web-concepts'],
-            relatedContent: ['/content/architecture/process-model.md'],
-            contentType: 'article'
-          },
-          changes: [],
-          author: {
-            id: 'author1',
-            name: 'John Developer',
-            email: 'john@wanderlust.dev',
-            role: 'maintainer',
-            expertise: ['architecture', 'browser-internals']
-          },
-          timestamp: new Date('2025-01-15'),
-          status: 'published',
-          tags: ['architecture', 'chromium', 'browser'],
-          hash: 'sha256-abc123'
+  }
+
+  /**
+   * Where histories are persisted
+   */
+  getStorage(): VersionStorageAdapter {
+    return this.storage;
+  }
+
+  /**
+   * Switch persistence, e.g. to the shared server storage once signed in
+   */
+  setStorage(storage: VersionStorageAdapter): void {
+    this.storage = storage;
+  }
+
+  /**
+   * Apply a change to the stored history of a content path and save it.
+   * When another editor saved in between, the history is read again and
+   * the change reapplied. `update` returns null to leave the history
+   * unchanged; nothing is saved then.
+   */
+  private async updateHistory<T>(
+    contentPath: string,
+    update: (history: VersionHistory) => T | null,
+    createIfMissing = false
+  ): Promise<T | null> {
+    for (let attempt = 1; ; attempt++) {
+      const stored = await this.storage.loadHistory(contentPath);
+      // Articles nobody edited here yet start from their git history
+      const base = stored ?? await this.getGitHistory(contentPath);
+      if (!base && !createIfMissing) {
+        throw new Error('Content not found');
+      }
+      const history = base ?? this.createNewHistory(contentPath);
+      const result = update(history);
+      if (result === null) {
+        return null;
+      }
+      try {
+        await this.storage.saveHistory(history, stored?.revision ?? 0);
+        return result;
+      } catch (error) {
+        if (!(error instanceof VersionConflictError) || attempt >= MAX_SAVE_ATTEMPTS) {
+          throw error;
         }
-      ],
-      branches: [],
-      totalVersions: 1,
-      latestVersion: {} as ContentVersion,
-      statistics: {
-        totalChanges: 0,
-        contributors: 1,
-        averageReviewTime: 0,
-        approvalRate: 100,
-        conflictRate: 0,
-        mostActiveContributor: {} as VersionAuthor,
-        changeFrequency: { daily: 0, weekly: 0, monthly: 1 },
-        contentGrowth: { wordCountChange: 0, sectionChanges: 0, qualityImprovements: 0 }
       }
-    };
+    }
+  }
+
+  /**
+   * Apply a change to one version of a history. The history keeps copies of
+   * versions in several places (latest, published, branches), which are
+   * replaced by the changed version afterwards.
+   */
+  private async updateVersion<T>(
+    contentPath: string,
+    versionId: string,
+    update: (version: ContentVersion, history: VersionHistory) => T | null
+  ): Promise<T | null> {
+    return this.updateHistory(contentPath, history => {
+      const version = history.versions.find(v => v.id === versionId);
+      if (!version) {
+        throw new Error('Version not found');
+      }
+      const result = update(version, history);
+      if (result !== null) {
+        this.replaceVersionCopies(history, version);
+      }
+      return result;
+    });
+  }
 
-    this.versions.set('/content/architecture/overview.md', sampleHistory);
+  private replaceVersionCopies(history: VersionHistory, version: ContentVersion): void {
+    const replace = (copy: ContentVersion) => (copy.id === version.id ? version : copy);
+    history.latestVersion = replace(history.latestVersion);
+    if (history.publishedVersion) {
+      history.publishedVersion = replace(history.publishedVersion);
+    }
+    history.branches.forEach(branch => {
+      branch.versions = branch.versions.map(replace);
+    });
+  }
+
+  private setStatus(version: ContentVersion, status: VersionStatus): void {
+    if (version.status !== status && !STATUS_TRANSITIONS[version.status].includes(status)) {
+      throw new Error(`A ${version.status.replace('_', ' ')} version cannot become ${status.replace('_', ' ')}`);
+    }
+    version.status = status;
   }
 
   /**
-   * Create a new version of content
+   * Create a new version of content, on the main line or, given a branch
+   * id, on top of that branch's head
    */
-  createVersion(
+  async createVersion(
     contentPath: string, 
     content: string, 
     author: VersionAuthor, 
     changes: VersionChange[],
-    parentVersionId?: string
+    parentVersionId?: string,
+    branchId?: string
+  ): Promise<ContentVersion> {
+    const version = await this.updateHistory(
+      contentPath,
+      history => {
+        const branch = branchId && branchId !== MAIN_BRANCH_ID ? history.branches.find(b => b.id === branchId) : undefined;
+        if (branchId && branchId !== MAIN_BRANCH_ID && !branch) {
+          throw new Error('Branch not found');
+        }
+        return this.appendVersion(history, content, author, changes, parentVersionId ?? (branch ? branch.headVersionId : history.latestVersion?.id), branch);
+      },
+      true
+    );
+    return version!;
+  }
+
+  /**
+   * Add a version to a history. It becomes the head of `branch` when given,
+   * otherwise the latest version of the main line.
+   */
+  private appendVersion(
+    history: VersionHistory,
+    content: string,
+    author: VersionAuthor,
+    changes: VersionChange[],
+    parentVersionId?: string,
+    branch?: VersionBranch
   ): ContentVersion {
-    const history = this.versions.get(contentPath) || this.createNewHistory(contentPath);
     const newVersion: ContentVersion = {
       id: `v${history.totalVersions + 1}`,
-      contentPath,
+      contentPath: history.contentPath,
       version: history.totalVersions + 1,
-      title: this.extractTitle(content),
+      title: extractVersionTitle(content),
       content,
-      metadata: this.generateMetadata(content),
+      metadata: generateVersionMetadata(content),
       changes,
       author,
       timestamp: new Date(),
       status: 'draft',
       parentVersionId,
-      tags: this.extractTags(content),
+      tags: extractVersionTags(content),
       hash: this.generateHash(content)
     };
 
     history.versions.push(newVersion);
     history.totalVersions++;
-    history.latestVersion = newVersion;
+    if (branch) {
+      branch.headVersionId = newVersion.id;
+      branch.versions.push(newVersion);
+      branch.updatedAt = newVersion.timestamp;
+    } else {
+      history.latestVersion = newVersion;
+    }
     this.updateStatistics(history, newVersion);
-
-    this.versions.set(contentPath, history);
     return newVersion;
   }
 
+  /**
+   * Head version of a branch, or the latest version for MAIN_BRANCH_ID
+   */
+  private getBranchHead(history: VersionHistory, branchId: string): ContentVersion | undefined {
+    const headId = branchId === MAIN_BRANCH_ID
+      ? history.latestVersion?.id
+      : history.branches.find(b => b.id === branchId)?.headVersionId;
+    return history.versions.find(v => v.id === headId);
+  }
+
+  /**
+   * Nearest version both heads descend from, following parents and the
+   * source side of earlier merges
+   */
+  private findCommonAncestor(history: VersionHistory, a: ContentVersion, b: ContentVersion): ContentVersion | undefined {
+    const byId = new Map(history.versions.map(v => [v.id, v]));
+    const parentsOf = (version: ContentVersion) => [version.parentVersionId, version.mergeInfo?.sourceVersionId]
+      .filter((id): id is string => !!id && byId.has(id));
+
+    const ancestorsOfA = new Set<string>();
+    for (const queue = [a.id]; queue.length > 0;) {
+      const id = queue.shift()!;
+      if (!ancestorsOfA.has(id)) {
+        ancestorsOfA.add(id);
+        queue.push(...parentsOf(byId.get(id)!));
+      }
+    }
+
+    const seen = new Set<string>();
+    for (const queue = [b.id]; queue.length > 0;) {
+      const id = queue.shift()!;
+      if (ancestorsOfA.has(id)) {
+        return byId.get(id);
+      }
+      if (!seen.has(id)) {
+        seen.add(id);
+        queue.push(...parentsOf(byId.get(id)!));
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Three-way merge of the source head into the target head against their
+   * common ancestor. Conflicting hunks are left out of `chunks`' stable
+   * text and described in `conflicts`, in order.
+   */
+  private computeMerge(sourceHead: ContentVersion, targetHead: ContentVersion, base: ContentVersion) {
+    const chunks = merge3(base.content, targetHead.content, sourceHead.content);
+    const targetLines = splitLines(targetHead.content);
+    const conflicts: MergeConflict[] = [];
+    chunks.forEach(chunk => {
+      if (chunk.type !== 'conflict') {
+        return;
+      }
+      const lines = lineRange(chunk.oursStart, chunk.ours.length);
+      const baseRange = lineRange(chunk.baseStart, chunk.base.length);
+      const baseLines = baseRange.end < baseRange.start ? `the text after line ${baseRange.end}`
+        : baseRange.end === baseRange.start ? `line ${baseRange.start}` : `lines ${baseRange.start}–${baseRange.end}`;
+      conflicts.push({
+        id: `conflict-${chunk.baseStart}-${chunk.oursStart}-${chunk.theirsStart}`,
+        section: headingAt(targetLines, chunk.oursStart) ?? `line-${lines.start}`,
+        description: `Both branches changed ${baseLines} of the common version`,
+        sourceContent: chunk.theirs.join('\n'),
+        targetContent: chunk.ours.join('\n'),
+        baseContent: chunk.base.join('\n'),
+        lineNumbers: {
+          base: baseRange,
+          source: lineRange(chunk.theirsStart, chunk.theirs.length),
+          target: lines
+        }
+      });
+    });
+    return { chunks, conflicts };
+  }
+
   /**
    * Get version history for content
    */
-  getVersionHistory(contentPath: string): VersionHistory | null {
-    return this.versions.get(contentPath) || null;
+  async getVersionHistory(contentPath: string): Promise<VersionHistory | null> {
+    return await this.storage.loadHistory(contentPath) ?? this.getGitHistory(contentPath);
+  }
+
+  /**
+   * The history exported from git for an article, until it is edited here.
+   * A copy, so changes to it do not leak into the cache.
+   */
+  private async getGitHistory(contentPath: string): Promise<VersionHistory | null> {
+    if (!this.gitHistories.has(contentPath)) {
+      this.gitHistories.set(contentPath, loadGitVersionHistory(contentPath));
+    }
+    const history = await this.gitHistories.get(contentPath)!;
+    return history ? structuredClone(history) : null;
+  }
+
+  /**
+   * The version exported from the git commit with this (abbreviated) hash
+   */
+  async getVersionAtCommit(contentPath: string, commitHash: string): Promise<ContentVersion | null> {
+    const history = await this.getVersionHistory(contentPath);
+    return history?.versions.find(v => v.commit && commitHash.length >= 4 && v.commit.hash.startsWith(commitHash)) ?? null;
   }
 
   /**
    * Get specific version by ID
    */
-  getVersion(contentPath: string, versionId: string): ContentVersion | null {
-    const history = this.versions.get(contentPath);
+  async getVersion(contentPath: string, versionId: string): Promise<ContentVersion | null> {
+    const history = await this.getVersionHistory(contentPath);
     if (!history) return null;
     return history.versions.find(v => v.id === versionId) || null;
   }
@@ -145,30 +367,35 @@ class ContentVersioningService {
   /**
    * Get latest version of content
    */
-  getLatestVersion(contentPath: string): ContentVersion | null {
-    const history = this.versions.get(contentPath);
+  async getLatestVersion(contentPath: string): Promise<ContentVersion | null> {
+    const history = await this.getVersionHistory(contentPath);
     return history?.latestVersion || null;
   }
 
   /**
    * Get published version of content
    */
-  getPublishedVersion(contentPath: string): ContentVersion | null {
-    const history = this.versions.get(contentPath);
+  async getPublishedVersion(contentPath: string): Promise<ContentVersion | null> {
+    const history = await this.getVersionHistory(contentPath);
     return history?.publishedVersion || null;
   }
 
   /**
    * Compare two versions and generate diff
    */
-  generateDiff(contentPath: string, fromVersionId: string, toVersionId: string): VersionDiff | null {
-    const fromVersion = this.getVersion(contentPath, fromVersionId);
-    const toVersion = this.getVersion(contentPath, toVersionId);
+  async generateDiff(contentPath: string, fromVersionId: string, toVersionId: string): Promise<VersionDiff | null> {
+    const history = await this.getVersionHistory(contentPath);
+    const fromVersion = history?.versions.find(v => v.id === fromVersionId);
+    const toVersion = history?.versions.find(v => v.id === toVersionId);
     
     if (!fromVersion || !toVersion) return null;
 
     const sections = this.calculateSectionDiffs(fromVersion.content, toVersion.content);
-    const summary = this.calculateDiffSummary(sections);
+    const summary = {
+      ...this.calculateDiffSummary(sections),
+      wordCountChange: toVersion.metadata.wordCount - fromVersion.metadata.wordCount,
+      readingTimeChange: toVersion.metadata.readingTime - fromVersion.metadata.readingTime
+    };
 
     return {
       contentPath,
@@ -183,267 +410,576 @@ class ContentVersioningService {
   /**
    * Create a new branch for collaborative editing
    */
-  createBranch(
+  async createBranch(
     contentPath: string, 
     branchName: string, 
     description: string, 
     baseVersionId: string, 
     author: VersionAuthor
-  ): VersionBranch {
-    const history = this.versions.get(contentPath);
-    if (!history) throw new Error('Content not found');
-
-    const baseVersion = this.getVersion(contentPath, baseVersionId);
-    if (!baseVersion) throw new Error('Base version not found');
-
-    const branch: VersionBranch = {
-      id: `branch-${Date.now()}`,
-      name: branchName,
-      description,
-      baseVersionId,
-      headVersionId: baseVersionId,
-      author,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      status: 'active',
-      versions: [baseVersion],
-      mergeRequests: []
-    };
-
-    history.branches.push(branch);
-    this.versions.set(contentPath, history);
+  ): Promise<VersionBranch> {
+    const branch = await this.updateHistory(contentPath, history => {
+      const baseVersion = history.versions.find(v => v.id === baseVersionId);
+      if (!baseVersion) throw new Error('Base version not found');
+
+      const branch: VersionBranch = {
+        id: `branch-${Date.now()}`,
+        name: branchName,
+        description,
+        baseVersionId,
+        headVersionId: baseVersionId,
+        author,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        status: 'active',
+        versions: [baseVersion],
+        mergeRequests: []
+      };
 
-    return branch;
+      history.branches.push(branch);
+      return branch;
+    });
+    return branch!;
   }
 
   /**
    * Create a merge request
    */
-  createMergeRequest(
+  async createMergeRequest(
     contentPath: string,
     title: string,
     description: string,
     sourceBranchId: string,
     targetBranchId: string,
     author: VersionAuthor
-  ): MergeRequest {
-    const history = this.versions.get(contentPath);
-    if (!history) throw new Error('Content not found');
-
-    const sourceBranch = history.branches.find(b => b.id === sourceBranchId);
-    const targetBranch = history.branches.find(b => b.id === targetBranchId);
-
-    if (!sourceBranch || !targetBranch) {
-      throw new Error('Source or target branch not found');
-    }
-
-    const changes = this.calculateBranchChanges(sourceBranch, targetBranch);
-
-    const mergeRequest: MergeRequest = {
-      id: `mr-${Date.now()}`,
-      title,
-      description,
-      sourceBranchId,
-      targetBranchId,
-      author,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      status: 'open',
-      changes,
-      discussions: []
-    };
+  ): Promise<MergeRequest> {
+    const mergeRequest = await this.updateHistory(contentPath, history => {
+      const sourceBranch = history.branches.find(b => b.id === sourceBranchId);
+      const sourceHead = this.getBranchHead(history, sourceBranchId);
+      const targetHead = this.getBranchHead(history, targetBranchId);
+
+      if (!sourceBranch || !sourceHead || !targetHead) {
+        throw new Error('Source or target branch not found');
+      }
 
-    sourceBranch.mergeRequests.push(mergeRequest);
-    this.versions.set(contentPath, history);
+      const changes = this.calculateBranchChanges(history, sourceHead, targetHead);
+
+      const mergeRequest: MergeRequest = {
+        id: `mr-${Date.now()}`,
+        title,
+        description,
+        sourceBranchId,
+        targetBranchId,
+        author,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        status: 'open',
+        changes,
+        discussions: []
+      };
 
-    return mergeRequest;
+      sourceBranch.mergeRequests.push(mergeRequest);
+      return mergeRequest;
+    });
+    return mergeRequest!;
   }
 
   /**
-   * Merge branches with conflict detection
+   * Merge a branch into another (or into MAIN_BRANCH_ID) with a three-way
+   * merge against their common ancestor. Changes to different lines merge
+   * cleanly. Overlapping changes are returned as conflicts and the merge
+   * fails, unless the strategy is `manual` and `resolutions` has the text
+   * to use for every conflict, by conflict id.
    */
-  mergeBranches(
+  async mergeBranches(
     contentPath: string, 
     sourceBranchId: string, 
     targetBranchId: string,
-    strategy: 'auto' | 'manual' = 'auto'
-  ): { success: boolean; conflicts?: MergeConflict[]; mergedVersion?: ContentVersion } {
-    const history = this.versions.get(contentPath);
-    if (!history) return { success: false };
+    strategy: 'auto' | 'manual' = 'auto',
+    resolutions: Record<string, string> = {},
+    mergedBy?: VersionAuthor
+  ): Promise<{ success: boolean; conflicts?: MergeConflict[]; mergedVersion?: ContentVersion }> {
+    let conflicts: MergeConflict[] = [];
+    const mergedVersion = await this.updateHistory(contentPath, history => {
+      const sourceBranch = history.branches.find(b => b.id === sourceBranchId);
+      const targetBranch = history.branches.find(b => b.id === targetBranchId);
+      const sourceHead = this.getBranchHead(history, sourceBranchId);
+      const targetHead = this.getBranchHead(history, targetBranchId);
+
+      if (!sourceBranch || !sourceHead || !targetHead || (targetBranchId !== MAIN_BRANCH_ID && !targetBranch)) {
+        return null;
+      }
 
-    const sourceBranch = history.branches.find(b => b.id === sourceBranchId);
-    const targetBranch = history.branches.find(b => b.id === targetBranchId);
+      const base = this.findCommonAncestor(history, sourceHead, targetHead)
+        ?? history.versions.find(v => v.id === sourceBranch.baseVersionId)
+        ?? targetHead;
+      const merge = this.computeMerge(sourceHead, targetHead, base);
+      conflicts = merge.conflicts;
 
-    if (!sourceBranch || !targetBranch) {
-      return { success: false };
+      const resolved = strategy === 'manual' ? resolutions : {};
+      if (conflicts.some(conflict => resolved[conflict.id] === undefined)) {
+        return null;
+      }
+
+      const author = mergedBy ?? sourceBranch.author;
+      const mergedAt = new Date();
+      let conflictIndex = 0;
+      const mergedContent = merge.chunks
+        .flatMap(chunk => (chunk.type === 'stable' ? chunk.lines : splitLines(resolved[conflicts[conflictIndex++].id])))
+        .join('\n');
+      const mergedVersion = this.appendVersion(
+        history,
+        mergedContent,
+        author,
+        this.calculateBranchChanges(history, sourceHead, targetHead),
+        targetHead.id,
+        targetBranch
+      );
+      mergedVersion.mergeInfo = {
+        sourceVersionId: sourceHead.id,
+        targetVersionId: targetHead.id,
+        mergedBy: author.name,
+        mergedAt,
+        conflicts: conflicts.map(conflict => ({
+          ...conflict,
+          resolution: resolved[conflict.id],
+          resolvedBy: author.name,
+          resolvedAt: mergedAt
+        })),
+        strategy: conflicts.length > 0 ? 'conflict_resolution' : 'auto'
+      };
+
+      sourceBranch.status = 'merged';
+      sourceBranch.updatedAt = mergedAt;
+      sourceBranch.mergeRequests
+        .filter(request => request.targetBranchId === targetBranchId && request.status !== 'closed' && request.status !== 'rejected')
+        .forEach(request => {
+          request.status = 'merged';
+          request.updatedAt = mergedAt;
+        });
+      return mergedVersion;
+    });
+
+    if (!mergedVersion) {
+      return conflicts.length > 0 ? { success: false, conflicts } : { success: false };
     }
+    return { success: true, mergedVersion };
+  }
 
-    const conflicts = this.detectMergeConflicts(sourceBranch, targetBranch);
+  /**
+   * Start or join the collaborative editing session of an article. The
+   * session's document starts from `content` unless others are editing it
+   * already.
+   */
+  async startCollaborativeSession(contentPath: string, initiator: VersionAuthor, content: string): Promise<CollaborativeDocument> {
+    return this.openCollaborativeDocument(collaborativeSessionId(contentPath), initiator, content);
+  }
 
-    if (conflicts.length > 0 && strategy === 'auto') {
-      return { success: false, conflicts };
+  /**
+   * Join a collaborative session by id; null when nobody else is in it
+   */
+  async joinCollaborativeSession(sessionId: string, participant: VersionAuthor): Promise<CollaborativeDocument | null> {
+    const document = await this.openCollaborativeDocument(sessionId, participant, '');
+    if (document.session.participants.length < 2) {
+      await this.endCollaborativeSession(sessionId);
+      return null;
     }
+    return document;
+  }
 
-    // Perform merge
-    const mergedContent = this.performMerge(sourceBranch, targetBranch, conflicts);
-    const mergedVersion = this.createVersion(
-      contentPath,
-      mergedContent,
-      sourceBranch.author,
-      [],
-      targetBranch.headVersionId
-    );
+  /**
+   * Leave a collaborative session
+   */
+  async endCollaborativeSession(sessionId: string): Promise<void> {
+    const document = this.collaborativeSessions.get(sessionId);
+    this.collaborativeSessions.delete(sessionId);
+    await document?.close();
+  }
 
-    // Update branch status
-    sourceBranch.status = 'merged';
-    targetBranch.headVersionId = mergedVersion.id;
-    targetBranch.versions.push(mergedVersion);
+  getCollaborativeSession(sessionId: string): CollaborativeSession | undefined {
+    return this.collaborativeSessions.get(sessionId)?.session;
+  }
 
-    this.versions.set(contentPath, history);
+  private async openCollaborativeDocument(sessionId: string, author: VersionAuthor, content: string): Promise<CollaborativeDocument> {
+    const existing = this.collaborativeSessions.get(sessionId);
+    if (existing) {
+      return existing;
+    }
+    const document = new CollaborativeDocument(sessionId, author, await connectCollaboration(), content);
+    this.collaborativeSessions.set(sessionId, document);
+    await document.open();
+    return document;
+  }
 
-    return { success: true, mergedVersion };
+  /**
+   * Publish a version, archiving the one published before. While
+   * `requireReviewForPublish` is set, the version has to be approved under
+   * the review rules first; otherwise this throws ReviewRequiredError.
+   * Without it, the publisher approves the version on the way, so a draft
+   * still passes through pending review and approval. With a future
+   * `publishAt` the version is scheduled instead: it stays approved, and
+   * readers get it from that date on.
+   */
+  async publishVersion(contentPath: string, versionId: string, publisher?: VersionAuthor, publishAt?: Date): Promise<boolean> {
+    const now = new Date();
+    const published = await this.updateVersion(contentPath, versionId, (version, history) => {
+      if (this.configuration.requireReviewForPublish) {
+        // Review blockers only say why a version under review is not approved
+        const underReview = version.status === 'pending_review' || version.status === 'approved';
+        const blockers = underReview ? this.getReviewState(version).blockers : [];
+        if (version.status !== 'approved' || blockers.length > 0) {
+          const reason = version.status === 'draft' ? 'review has not been requested' : `version is ${version.status}`;
+          throw new ReviewRequiredError(blockers.length > 0 ? blockers : [reason]);
+        }
+      } else if (version.status !== 'approved' && version.status !== 'published') {
+        if (publisher) {
+          version.reviewInfo = this.createReviewInfo(publisher, 'approved');
+        }
+        if (version.status === 'draft') {
+          this.setStatus(version, 'pending_review');
+        }
+        this.setStatus(version, 'approved');
+      }
+      if (publishAt && !isLive(publishAt, now)) {
+        this.setStatus(version, 'approved');
+        version.publishAt = publishAt;
+        return true;
+      }
+      version.publishAt = now;
+      this.makePublished(history, version);
+      return true;
+    });
+
+    return published ?? false;
+  }
+
+  private makePublished(history: VersionHistory, version: ContentVersion): void {
+    this.setStatus(version, 'published');
+    const previous = history.versions.find(v => v.id === history.publishedVersion?.id);
+    if (previous && previous.id !== version.id) {
+      this.setStatus(previous, 'archived');
+      this.replaceVersionCopies(history, previous);
+    }
+    history.publishedVersion = version;
   }
 
   /**
-   * Start a collaborative editing session
+   * Publish the scheduled versions whose date has come, oldest date first.
+   * One published directly after its date supersedes it. Returns the
+   * versions published.
    */
-  startCollaborativeSession(contentPath: string, initiator: VersionAuthor): CollaborativeSession {
-    const session: CollaborativeSession = {
-      id: `session-${Date.now()}`,
-      contentPath,
-      participants: [{
-        userId: initiator.id,
-        name: initiator.name,
-        role: 'editor',
-        joinedAt: new Date(),
-        isActive: true,
-        permissions: {
-          canEdit: true,
-          canReview: true,
-          canComment: true,
-          canApprove: initiator.role === 'maintainer'
+  async publishDueVersions(contentPath: string, at = new Date()): Promise<ContentVersion[]> {
+    const dueVersions = (history: VersionHistory) => history.versions
+      .filter(version => version.status === 'approved' && version.publishAt && isLive(version.publishAt, at))
+      .sort((a, b) => new Date(a.publishAt!).getTime() - new Date(b.publishAt!).getTime());
+
+    const stored = await this.storage.loadHistory(contentPath);
+    if (!stored || dueVersions(stored).length === 0) {
+      return [];
+    }
+    const published = await this.updateHistory(contentPath, history => {
+      const publishedVersions: ContentVersion[] = [];
+      dueVersions(history).forEach(version => {
+        const current = history.publishedVersion;
+        if (current?.publishAt && new Date(current.publishAt).getTime() > new Date(version.publishAt!).getTime()) {
+          this.setStatus(version, 'archived');
+        } else {
+          this.makePublished(history, version);
+          publishedVersions.push(version);
         }
-      }],
-      startedAt: new Date(),
-      status: 'active',
-      changes: [],
-      cursor: [],
-      comments: []
-    };
+        this.replaceVersionCopies(history, version);
+      });
+      return publishedVersions;
+    });
+    return published ?? [];
+  }
 
-    this.collaborativeSessions.set(session.id, session);
-    return session;
+  /**
+   * Take a version off the schedule; it stays approved
+   */
+  async unscheduleVersion(contentPath: string, versionId: string): Promise<ContentVersion | null> {
+    return this.updateVersion(contentPath, versionId, version => {
+      if (!isScheduled(version)) {
+        throw new Error('Version is not scheduled');
+      }
+      delete version.publishAt;
+      return version;
+    });
   }
 
   /**
-   * Join a collaborative session
+   * Set or clear the date a version's content should be checked again by
    */
-  joinCollaborativeSession(sessionId: string, participant: VersionAuthor): boolean {
-    const session = this.collaborativeSessions.get(sessionId);
-    if (!session || session.status !== 'active') return false;
+  async setReviewBy(contentPath: string, versionId: string, reviewBy: Date | null): Promise<ContentVersion | null> {
+    return this.updateVersion(contentPath, versionId, version => {
+      if (reviewBy) {
+        version.reviewBy = reviewBy;
+      } else {
+        delete version.reviewBy;
+      }
+      return version;
+    });
+  }
 
-    const existingParticipant = session.participants.find(p => p.userId === participant.id);
-    if (existingParticipant) {
-      existingParticipant.isActive = true;
-      existingParticipant.leftAt = undefined;
-      return true;
+  /**
+   * The version readers see at `at`, for articles whose versions are kept
+   * here; null for articles served from their files as they are. Versions
+   * kept in this browser only are an editor's own, never served to readers.
+   */
+  async getServedVersion(contentPath: string, at = new Date()): Promise<ContentVersion | null> {
+    if (!this.storage.shared) {
+      return null;
     }
+    const history = await this.storage.loadHistory(contentPath);
+    return history ? servedVersion(history, at) : null;
+  }
 
-    session.participants.push({
-      userId: participant.id,
-      name: participant.name,
-      role: 'editor',
-      joinedAt: new Date(),
-      isActive: true,
-      permissions: {
-        canEdit: true,
-        canReview: participant.role !== 'observer',
-        canComment: true,
-        canApprove: participant.role === 'maintainer'
+  /**
+   * Ask for review of a draft. Reviews from an earlier round are kept.
+   */
+  async requestReview(contentPath: string, versionId: string): Promise<ContentVersion | null> {
+    return this.updateVersion(contentPath, versionId, version => {
+      this.setStatus(version, 'pending_review');
+      this.refreshReviewStatus(version);
+      return version;
+    });
+  }
+
+  /**
+   * Record a reviewer's verdict on a version under review. The version is
+   * approved once the review rules are met and goes back to pending review
+   * when a later review or comment blocks it again.
+   */
+  async submitReview(
+    contentPath: string,
+    versionId: string,
+    reviewer: VersionAuthor,
+    status: Exclude<ReviewStatus, 'pending'>,
+    comments: string[] = []
+  ): Promise<ContentVersion | null> {
+    const rules = this.configuration.reviewRules;
+    return this.updateVersion(contentPath, versionId, version => {
+      if (version.status !== 'pending_review' && version.status !== 'approved') {
+        throw new Error('Review has not been requested for this version');
       }
+      if (!rules.reviewerRoles.includes(reviewer.role)) {
+        throw new Error(`A ${reviewer.role} cannot review versions`);
+      }
+      if (!rules.allowSelfApproval && reviewer.id === version.author.id && status === 'approved') {
+        throw new Error('Authors cannot approve their own versions');
+      }
+
+      const review = this.createReviewInfo(reviewer, status, comments);
+      version.reviews = [...(version.reviews ?? []), review];
+      version.reviewInfo = review;
+      this.refreshReviewStatus(version);
+      return version;
     });
+  }
 
-    return true;
+  /**
+   * Comment on a line of a version's diff against its parent
+   */
+  async addReviewComment(
+    contentPath: string,
+    versionId: string,
+    author: VersionAuthor,
+    comment: Pick<ReviewComment, 'section' | 'lineNumber' | 'side' | 'comment' | 'type' | 'severity'>
+  ): Promise<ReviewComment | null> {
+    return this.updateVersion(contentPath, versionId, version => {
+      if (version.status === 'published' || version.status === 'archived') {
+        throw new Error(`Cannot comment on a ${version.status} version`);
+      }
+      const reviewComment: ReviewComment = {
+        ...comment,
+        id: `${version.id}-comment-${(version.reviewComments?.length ?? 0) + 1}`,
+        authorId: author.id,
+        authorName: author.name,
+        resolved: false,
+        timestamp: new Date()
+      };
+      version.reviewComments = [...(version.reviewComments ?? []), reviewComment];
+      this.refreshReviewStatus(version);
+      return reviewComment;
+    });
   }
 
   /**
-   * Publish a version (move from draft to published)
+   * Mark a review comment resolved, or open it again
    */
-  publishVersion(contentPath: string, versionId: string, reviewer?: VersionAuthor): boolean {
-    const version = this.getVersion(contentPath, versionId);
-    if (!version) return false;
+  async resolveReviewComment(
+    contentPath: string,
+    versionId: string,
+    commentId: string,
+    resolved = true
+  ): Promise<ContentVersion | null> {
+    return this.updateVersion(contentPath, versionId, version => {
+      const comment = version.reviewComments?.find(c => c.id === commentId);
+      if (!comment) {
+        throw new Error('Comment not found');
+      }
+      comment.resolved = resolved;
+      this.refreshReviewStatus(version);
+      return version;
+    });
+  }
 
-    if (this.configuration.requireReviewForPublish && !reviewer) {
-      return false;
+  /**
+   * Check a version against the review rules. Only each reviewer's latest
+   * review counts.
+   */
+  getReviewState(version: ContentVersion): ReviewState {
+    const rules = this.configuration.reviewRules;
+    const latestByReviewer = new Map<string, ReviewInfo>();
+    (version.reviews ?? [])
+      .filter(review => rules.allowSelfApproval || review.reviewerId !== version.author.id)
+      .forEach(review => latestByReviewer.set(review.reviewerId, review));
+    const latest = [...latestByReviewer.values()];
+    const approvals = latest.filter(review => review.status === 'approved');
+
+    const maintainerRequired = version.changes.some(change => rules.maintainerApprovalFor.includes(change.impact));
+    const maintainerApproved = approvals.some(review => review.reviewerRole === 'maintainer');
+    const changesRequestedBy = latest.filter(review => review.status !== 'approved').map(review => review.reviewerName);
+    const unresolvedBlockingComments = (version.reviewComments ?? [])
+      .filter(comment => !comment.resolved && rules.blockingSeverities.includes(comment.severity)).length;
+
+    const blockers: string[] = [];
+    if (approvals.length < rules.requiredApprovals) {
+      blockers.push(`${approvals.length} of ${rules.requiredApprovals} required approvals`);
     }
-
-    version.status = 'published';
-    if (reviewer) {
-      version.reviewInfo = {
-        reviewerId: reviewer.id,
-        reviewerName: reviewer.name,
-        reviewedAt: new Date(),
-        status: 'approved',
-        comments: [],
-        suggestions: [],
-        approval: { approved: true }
-      };
+    if (maintainerRequired && !maintainerApproved) {
+      blockers.push('changes of this impact need a maintainer\'s approval');
+    }
+    if (changesRequestedBy.length > 0) {
+      blockers.push(`changes requested by ${changesRequestedBy.join(', ')}`);
     }
+    if (unresolvedBlockingComments > 0) {
+      blockers.push(`${unresolvedBlockingComments} unresolved blocking comment${unresolvedBlockingComments === 1 ? '' : 's'}`);
+    }
+
+    return {
+      approvals: approvals.length,
+      requiredApprovals: rules.requiredApprovals,
+      maintainerRequired,
+      maintainerApproved,
+      changesRequestedBy,
+      unresolvedBlockingComments,
+      blockers
+    };
+  }
 
-    const history = this.versions.get(contentPath);
-    if (history) {
-      history.publishedVersion = version;
-      this.versions.set(contentPath, history);
+  // Move a version under review between pending and approved as its review state changes
+  private refreshReviewStatus(version: ContentVersion): void {
+    if (version.status === 'pending_review' || version.status === 'approved') {
+      this.setStatus(version, this.getReviewState(version).blockers.length === 0 ? 'approved' : 'pending_review');
     }
+  }
+
+  private createReviewInfo(reviewer: VersionAuthor, status: ReviewStatus, comments: string[] = []): ReviewInfo {
+    const reviewedAt = new Date();
+    return {
+      reviewerId: reviewer.id,
+      reviewerName: reviewer.name,
+      reviewerRole: reviewer.role,
+      reviewedAt,
+      status,
+      comments: comments.map((comment, index) => ({
+        id: `review-comment-${reviewedAt.getTime()}-${index}`,
+        section: 'content',
+        authorId: reviewer.id,
+        authorName: reviewer.name,
+        comment,
+        type: status === 'approved' ? 'praise' : 'issue',
+        severity: 'low',
+        resolved: status === 'approved',
+        timestamp: reviewedAt
+      })),
+      suggestions: [],
+      approval: { approved: status === 'approved' }
+    };
+  }
 
-    return true;
+  getConfiguration(): VersioningConfiguration {
+    return this.configuration;
   }
 
   /**
-   * Rollback to a previous version
+   * Change the configuration, e.g. the review rules, for this session
    */
-  rollbackToVersion(contentPath: string, targetVersionId: string, author: VersionAuthor): ContentVersion | null {
-    const targetVersion = this.getVersion(contentPath, targetVersionId);
-    if (!targetVersion) return null;
+  updateConfiguration(configuration: Partial<VersioningConfiguration>): void {
+    this.configuration = { ...this.configuration, ...configuration };
+  }
 
-    const rollbackVersion = this.createVersion(
-      contentPath,
-      targetVersion.content,
-      author,
-      [{
-        id: `rollback-${Date.now()}`,
-        type: 'modification',
-        section: 'full-content',
-        description: `Rollback to version ${targetVersion.version}`,
-        newContent: targetVersion.content,
-        lineNumbers: { start: 1, end: -1 },
-        impact: 'major',
-        reviewStatus: 'pending'
-      }],
-      this.getLatestVersion(contentPath)?.id
-    );
+  /**
+   * The signed-in user as a version author, with their site role mapped to
+   * a versioning role. A visitor who is not signed in is an anonymous
+   * contributor, who can propose versions but not review them.
+   */
+  getCurrentAuthor(): VersionAuthor {
+    const user = authService.getCurrentUserSync();
+    if (!user) {
+      return {
+        id: 'anonymous',
+        name: 'Anonymous',
+        email: '',
+        role: 'contributor',
+        expertise: []
+      };
+    }
+    return {
+      id: `user-${user.id}`,
+      name: user.displayName || user.username,
+      email: user.email,
+      role: AUTHOR_ROLES[user.role] ?? 'contributor',
+      avatar: user.avatarUrl,
+      expertise: []
+    };
+  }
 
-    return rollbackVersion;
+  /**
+   * Rollback to a previous version
+   */
+  async rollbackToVersion(contentPath: string, targetVersionId: string, author: VersionAuthor): Promise<ContentVersion | null> {
+    return this.updateHistory(contentPath, history => {
+      const targetVersion = history.versions.find(v => v.id === targetVersionId);
+      if (!targetVersion) return null;
+
+      return this.appendVersion(
+        history,
+        targetVersion.content,
+        author,
+        [{
+          id: `rollback-${Date.now()}`,
+          type: 'modification',
+          section: 'full-content',
+          description: `Rollback to version ${targetVersion.version}`,
+          newContent: targetVersion.content,
+          lineNumbers: { start: 1, end: -1 },
+          impact: 'major',
+          reviewStatus: 'pending'
+        }],
+        history.latestVersion?.id
+      );
+    });
   }
 
   /**
    * Get content versioning analytics
    */
-  getVersioningAnalytics(contentPath?: string): any {
+  async getVersioningAnalytics(contentPath?: string): Promise<any> {
     if (contentPath) {
-      const history = this.versions.get(contentPath);
+      const history = await this.getVersionHistory(contentPath);
       return history?.statistics || null;
     }
 
     // Platform-wide analytics
-    const allHistories = Array.from(this.versions.values());
+    const allHistories = await this.storage.listHistories();
     return {
       totalContent: allHistories.length,
       totalVersions: allHistories.reduce((sum, h) => sum + h.totalVersions, 0),
       totalContributors: new Set(allHistories.flatMap(h => h.versions.map(v => v.author.id))).size,
       averageVersionsPerContent: allHistories.reduce((sum, h) => sum + h.totalVersions, 0) / allHistories.length,
       mostActiveContent: allHistories.sort((a, b) => b.totalVersions - a.totalVersions)[0]?.contentPath,
-      recentActivity: this.getRecentVersioningActivity()
+      recentActivity: this.getRecentVersioningActivity(allHistories)
     };
   }
 
@@ -469,50 +1005,6 @@ class ContentVersioningService {
     };
   }
 
-  private extractTitle(content: string): string {
-    const titleMatch = content.match(/^#\s+(.+)$/m);
-    return titleMatch ? titleMatch[1] : 'Untitled';
-  }
-
-  private generateMetadata(content: string): any {
-    const wordCount = content.split(/\s+/).length;
-    const readingTime = Math.ceil(wordCount / 200); // Assume 200 words per minute
-
-    return {
-      wordCount,
-      readingTime,
-      lastModified: new Date(),
-      language: 'en',
-      difficulty: 'intermediate',
-      categories: this.extractCategories(content),
-      prerequisites: [],
-      relatedContent: [],
-      contentType: 'article'
-    };
-  }
-
-  private extractCategories(content: string): string[] {
-    // Simple category extraction based on common keywords
-    const categories: string[] = [];
-    if (content.includes('architecture')) categories.push('architecture');
-    if (content.includes('security')) categories.push('security');
-    if (content.includes('performance')) categories.push('performance');
-    if (content.includes('debugging')) categories.push('debugging');
-    return categories;
-  }
-
-  private extractTags(content: string): string[] {
-    // Extract potential tags from content
-    const tags: string[] = [];
-    const commonTags = ['chromium', 'browser', 'web', 'javascript', 'performance', 'security'];
-    for (const tag of commonTags) {
-      if (content.toLowerCase().includes(tag)) {
-        tags.push(tag);
-      }
-    }
-    return tags;
-  }
-
   private generateHash(content: string): string {
     // Simple hash generation (in real implementation, use proper crypto)
     let hash = 0;
@@ -540,48 +1032,51 @@ class ContentVersioningService {
     history.statistics.changeFrequency.monthly = history.versions.filter(v => v.timestamp > monthAgo).length;
   }
 
+  /**
+   * One SectionDiff per changed hunk of a line diff, named after the
+   * heading the hunk falls under
+   */
   private calculateSectionDiffs(oldContent: string, newContent: string): SectionDiff[] {
-    // Simplified diff calculation
-    const oldLines = oldContent.split('\n');
-    const newLines = newContent.split('\n');
-    const diffs: SectionDiff[] = [];
-
-    // Basic line-by-line comparison
-    const maxLines = Math.max(oldLines.length, newLines.length);
-    for (let i = 0; i < maxLines; i++) {
-      const oldLine = oldLines[i] || '';
-      const newLine = newLines[i] || '';
-
-      if (oldLine !== newLine) {
-        diffs.push({
-          section: `line-${i + 1}`,
-          type: !oldLine ? 'addition' : !newLine ? 'deletion' : 'modification',
-          oldContent: oldLine,
-          newContent: newLine,
-          lineNumbers: {
-            old: { start: i + 1, end: i + 1 },
-            new: { start: i + 1, end: i + 1 }
-          },
-          confidence: 0.9
-        });
-      }
-    }
-
-    return diffs;
+    const oldLines = splitLines(oldContent);
+    const newLines = splitLines(newContent);
+    const types = { insert: 'addition', delete: 'deletion', replace: 'modification' } as const;
+
+    return diffLines(oldContent, newContent)
+      .filter(hunk => hunk.type !== 'equal')
+      .map(hunk => ({
+        section: headingAt(newLines, hunk.newStart) ?? headingAt(oldLines, hunk.oldStart) ?? `line-${hunk.newStart + 1}`,
+        type: types[hunk.type as keyof typeof types],
+        oldContent: oldLines.slice(hunk.oldStart, hunk.oldEnd).join('\n'),
+        newContent: newLines.slice(hunk.newStart, hunk.newEnd).join('\n'),
+        lineNumbers: {
+          old: lineRange(hunk.oldStart, hunk.oldEnd - hunk.oldStart),
+          new: lineRange(hunk.newStart, hunk.newEnd - hunk.newStart)
+        },
+        confidence: 1
+      }));
   }
 
+  /**
+   * Added and deleted line counts (a modification counts its lines on both
+   * sides) and the number of modified hunks
+   */
   private calculateDiffSummary(sections: SectionDiff[]): any {
-    const additions = sections.filter(s => s.type === 'addition').length;
-    const deletions = sections.filter(s => s.type === 'deletion').length;
+    const lineCount = (range: { start: number; end: number }) => range.end - range.start + 1;
+    const additions = sections
+      .filter(s => s.type !== 'deletion')
+      .reduce((sum, s) => sum + lineCount(s.lineNumbers.new), 0);
+    const deletions = sections
+      .filter(s => s.type !== 'addition')
+      .reduce((sum, s) => sum + lineCount(s.lineNumbers.old), 0);
     const modifications = sections.filter(s => s.type === 'modification').length;
 
     return {
       additions,
       deletions,
       modifications,
-      wordCountChange: 0, // Simplified
-      readingTimeChange: 0, // Simplified
-      impact: modifications > 10 || additions > 10 ? 'major' : 'minor'
+      wordCountChange: 0,
+      readingTimeChange: 0,
+      impact: additions + deletions > MAJOR_CHANGE_LINES ? 'major' : 'minor'
     };
   }
 
@@ -597,32 +1092,31 @@ class ContentVersioningService {
     };
   }
 
-  private calculateBranchChanges(sourceBranch: VersionBranch, targetBranch: VersionBranch): VersionChange[] {
-    // Simplified branch change calculation
-    return [{
-      id: 'branch-change-1',
-      type: 'modification',
-      section: 'content',
-      description: 'Branch modifications',
-      lineNumbers: { start: 1, end: -1 },
-      impact: 'moderate',
-      reviewStatus: 'pending'
-    }];
-  }
-
-  private detectMergeConflicts(sourceBranch: VersionBranch, targetBranch: VersionBranch): MergeConflict[] {
-    // Simplified conflict detection
-    return [];
-  }
-
-  private performMerge(sourceBranch: VersionBranch, targetBranch: VersionBranch, conflicts: MergeConflict[]): string {
-    // Simplified merge logic - in real implementation, use proper merge algorithms
-    const sourceVersion = sourceBranch.versions[sourceBranch.versions.length - 1];
-    return sourceVersion.content;
+  /**
+   * What a branch changed since it split from the target, as one change per
+   * hunk between their common ancestor and the branch head
+   */
+  private calculateBranchChanges(history: VersionHistory, sourceHead: ContentVersion, targetHead: ContentVersion): VersionChange[] {
+    const base = this.findCommonAncestor(history, sourceHead, targetHead) ?? targetHead;
+    return this.calculateSectionDiffs(base.content, sourceHead.content).map((section, index) => {
+      const lines = section.type === 'deletion' ? section.lineNumbers.old : section.lineNumbers.new;
+      const size = Math.max(lines.end - lines.start + 1, section.lineNumbers.old.end - section.lineNumbers.old.start + 1);
+      return {
+        id: `branch-change-${index + 1}`,
+        type: section.type,
+        section: section.section,
+        description: `${section.type === 'addition' ? 'Added' : section.type === 'deletion' ? 'Deleted' : 'Changed'} ${size} line${size === 1 ? '' : 's'}`,
+        oldContent: section.oldContent,
+        newContent: section.newContent,
+        lineNumbers: lines,
+        impact: size > MAJOR_CHANGE_LINES ? 'major' : size > 3 ? 'moderate' : 'minor',
+        reviewStatus: 'pending'
+      };
+    });
   }
 
-  private getRecentVersioningActivity(): any {
-    const allVersions = Array.from(this.versions.values())
+  private getRecentVersioningActivity(histories: VersionHistory[]): any {
+    const allVersions = histories
       .flatMap(h => h.versions)
       .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
       .slice(0, 10);
@@ -641,6 +1135,13 @@ class ContentVersioningService {
       maxVersionsPerContent: 100,
       autoArchiveAfterDays: 365,
       requireReviewForPublish: true,
+      reviewRules: {
+        requiredApprovals: 1,
+        maintainerApprovalFor: ['breaking'],
+        reviewerRoles: ['reviewer', 'maintainer', 'editor'],
+        allowSelfApproval: false,
+        blockingSeverities: ['high', 'critical']
+      },
       allowAnonymousContributions: false,
       enableRealTimeCollaboration: true,
       enableAutoMerge: false,
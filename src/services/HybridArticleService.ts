@@ -1,4 +1,5 @@
 import { apiService } from './ApiService';
+import { parseFrontmatter, normalizeTags, parseReadingTime } from '../utils/frontmatter';
 
 interface ArticleSource {
   source: 'markdown' | 'api';
@@ -165,21 +166,23 @@ class HybridArticleService {
   }
 
   private extractTitleFromMarkdown(content: string): string {
-    const titleMatch = content.match(/^#\s+(.+)$/m);
+    const { frontmatter, body } = parseFrontmatter(content);
+    if (typeof frontmatter.title === 'string' && frontmatter.title.trim()) {
+      return frontmatter.title.trim();
+    }
+    const titleMatch = body.match(/^#\s+(.+)$/m);
     return titleMatch ? titleMatch[1].trim() : 'Untitled';
   }
 
-  private parseMarkdownMetadata(content: string): any {
-    // Simple frontmatter parsing
-    const frontmatterMatch = content.match(/^---\s*\n(.*?)\n---\s*\n/s);
-    if (frontmatterMatch) {
-      try {
-        return JSON.parse(frontmatterMatch[1]);
-      } catch {
-        // Ignore parsing errors
-      }
-    }
-    return {};
+  private parseMarkdownMetadata(content: string): ArticleSource['metadata'] {
+    const { frontmatter } = parseFrontmatter(content);
+    return {
+      category: typeof frontmatter.category === 'string' ? frontmatter.category : undefined,
+      tags: normalizeTags(frontmatter.tags),
+      description: typeof frontmatter.description === 'string' ? frontmatter.description : undefined,
+      readingTime: parseReadingTime(frontmatter.estimated_reading_time),
+      lastModified: frontmatter.date ? String(frontmatter.date) : undefined,
+    };
   }
 
   private getCategoryFromPath(path: string): string {
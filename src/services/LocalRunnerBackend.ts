@@ -0,0 +1,136 @@
+/**
+ * Local Runner Backend
+ * Runs C++, Python and Node examples through the code runner a developer
+ * starts on their machine with `npm run code-runner` (scripts/code-runner.ts).
+ * Whether it is running is checked with `GET /info`, remembered for a
+ * little while so that listing examples does not poll it.
+ */
+
+import {
+  CodeExecutionResult,
+  ExecutionBackend,
+  ExecutionEnvironment,
+  ExecutionEnvironmentInfo,
+  ProgrammingLanguage
+} from '../types/CodeExampleTypes';
+import {
+  CODE_RUNNER_LANGUAGES,
+  DEFAULT_CODE_RUNNER_PORT,
+  CodeRunnerInfo,
+  CodeRunnerLanguage,
+  CodeRunnerRequest,
+  CodeRunnerResult
+} from '../utils/codeRunner';
+
+// Scripts load the code examples, and with them this module, under Node,
+// where import.meta.env is not defined
+const RUNNER_URL = import.meta.env?.VITE_CODE_RUNNER_URL || `http://localhost:${DEFAULT_CODE_RUNNER_PORT}`;
+
+/** How long an `/info` answer, or its absence, is trusted */
+const INFO_TTL_MS = 30000;
+const INFO_TIMEOUT_MS = 1500;
+/** Added to the runner's own time limit to cover compiling and waiting in its queue */
+const RUN_TIMEOUT_MARGIN_MS = 90000;
+
+const START_HINT = 'Start the local code runner with `npm run code-runner`';
+
+const isRunnerLanguage = (language: ProgrammingLanguage): language is CodeRunnerLanguage =>
+  (CODE_RUNNER_LANGUAGES as ProgrammingLanguage[]).includes(language);
+
+export class LocalRunnerBackend implements ExecutionBackend {
+  readonly id = 'local-runner';
+  readonly name = 'Local runner';
+  readonly languages: ProgrammingLanguage[] = CODE_RUNNER_LANGUAGES;
+  private info: CodeRunnerInfo | null = null;
+  private checkedAt = 0;
+  private pendingCheck: Promise<CodeRunnerInfo | null> | null = null;
+
+  constructor(private baseUrl = RUNNER_URL) {}
+
+  supports(language: ProgrammingLanguage, environment: ExecutionEnvironment): boolean {
+    if (environment === 'static') {
+      return false;
+    }
+    // JavaScript runs here only when it needs Node; the browser sandbox takes the rest
+    return language === 'javascript' ? environment === 'node' : isRunnerLanguage(language);
+  }
+
+  async getInfo(language?: ProgrammingLanguage): Promise<ExecutionEnvironmentInfo> {
+    const info = await this.checkRunner();
+    if (!info) {
+      return { available: false, version: '', features: [], backend: this.name, hint: START_HINT };
+    }
+
+    const features = ['compile', 'stdin', 'timeout', 'memory-limit'];
+    if (!language) {
+      return { available: true, version: `code-runner ${info.version}`, features, backend: this.name };
+    }
+
+    const toolchain = isRunnerLanguage(language) ? info.languages[language] : undefined;
+    if (!toolchain?.available) {
+      return {
+        available: false,
+        version: '',
+        features: [],
+        backend: this.name,
+        hint: `The local code runner found no ${language} toolchain on this machine`
+      };
+    }
+    return { available: true, version: toolchain.version, features, backend: this.name };
+  }
+
+  async execute(code: string, language: ProgrammingLanguage, environment: ExecutionEnvironment): Promise<CodeExecutionResult> {
+    const metadata = { environment, timestamp: new Date(), version: this.info?.languages[language as CodeRunnerLanguage]?.version ?? '' };
+    if (!isRunnerLanguage(language)) {
+      return { success: false, error: `The local code runner does not run ${language}`, metadata };
+    }
+
+    const timeoutMs = (this.info?.limits.timeoutMs ?? 0) + RUN_TIMEOUT_MARGIN_MS;
+    const request: CodeRunnerRequest = { language, code };
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/run`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+        signal: AbortSignal.timeout(timeoutMs)
+      });
+    } catch (error) {
+      // Check again next time rather than trusting the cached answer
+      this.checkedAt = 0;
+      return { success: false, error: `The local code runner did not respond. ${START_HINT}.`, metadata };
+    }
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      return { success: false, error: body.error || `The local code runner failed (${response.status})`, metadata };
+    }
+
+    const result: CodeRunnerResult = await response.json();
+    return {
+      success: result.success,
+      // Programs end their output with a newline; the sandbox's output has none
+      output: result.output ? result.output.replace(/\n$/, '') : undefined,
+      error: result.error,
+      warnings: result.warnings,
+      executionTime: result.executionTime,
+      metadata
+    };
+  }
+
+  private checkRunner(): Promise<CodeRunnerInfo | null> {
+    if (Date.now() - this.checkedAt < INFO_TTL_MS) {
+      return Promise.resolve(this.info);
+    }
+    this.pendingCheck ??= fetch(`${this.baseUrl}/info`, { signal: AbortSignal.timeout(INFO_TIMEOUT_MS) })
+      .then(response => (response.ok ? response.json() as Promise<CodeRunnerInfo> : null))
+      .catch(() => null)
+      .then(info => {
+        this.info = info;
+        this.checkedAt = Date.now();
+        this.pendingCheck = null;
+        return info;
+      });
+    return this.pendingCheck;
+  }
+}
@@ -37,6 +37,12 @@ export interface TypingIndicator {
   timestamp: Date;
 }
 
+/** A message of a collaborative editing session, relayed by the hub to the session's other members */
+export interface EditSessionMessage {
+  sessionId: string;
+  message: unknown;
+}
+
 class RealTimeService {
   private connection: signalR.HubConnection | null = null;
   private isConnected = false;
@@ -53,6 +59,7 @@ class RealTimeService {
   private onSystemNotificationHandlers: ((data: CommunityUpdate) => void)[] = [];
   private onLiveUserCountHandlers: ((count: number) => void)[] = [];
   private onConnectionStatusHandlers: ((connected: boolean) => void)[] = [];
+  private onEditSessionMessageHandlers: ((data: EditSessionMessage) => void)[] = [];
 
   constructor() {
     this.setupConnection();
@@ -167,6 +174,11 @@ class RealTimeService {
         handler({ ...data, type: 'user_mention' })
       );
     });
+
+    // Collaborative editing
+    this.connection.on('EditSessionMessage', (data: EditSessionMessage) => {
+      this.onEditSessionMessageHandlers.forEach(handler => handler(data));
+    });
   }
 
   async start(): Promise<void> {
@@ -232,6 +244,26 @@ class RealTimeService {
     }
   }
 
+  // Collaborative editing sessions: the hub forwards messages sent to a
+  // session to its other members, and does not keep them
+  async joinEditSession(sessionId: string): Promise<void> {
+    if (this.isConnected && this.connection) {
+      await this.connection.invoke('JoinEditSession', sessionId);
+    }
+  }
+
+  async leaveEditSession(sessionId: string): Promise<void> {
+    if (this.isConnected && this.connection) {
+      await this.connection.invoke('LeaveEditSession', sessionId);
+    }
+  }
+
+  async sendEditSessionMessage(sessionId: string, message: unknown): Promise<void> {
+    if (this.isConnected && this.connection) {
+      await this.connection.invoke('SendEditSessionMessage', sessionId, message);
+    }
+  }
+
   // User interactions
   async sendTypingIndicator(postId: string, isTyping: boolean): Promise<void> {
     if (this.isConnected && this.connection) {
@@ -328,6 +360,16 @@ class RealTimeService {
     };
   }
 
+  onEditSessionMessage(handler: (data: EditSessionMessage) => void): () => void {
+    this.onEditSessionMessageHandlers.push(handler);
+    return () => {
+      const index = this.onEditSessionMessageHandlers.indexOf(handler);
+      if (index > -1) {
+        this.onEditSessionMessageHandlers.splice(index, 1);
+      }
+    };
+  }
+
   private notifyConnectionStatus(connected: boolean): void {
     this.onConnectionStatusHandlers.forEach(handler => handler(connected));
   }
@@ -0,0 +1,122 @@
+/**
+ * Search Feedback Service
+ * What searches teach us about the docs: the synonym table the query parser
+ * expands words with, and queries that found nothing, reported so writers
+ * know what is missing. Reading synonyms and reporting queries need no
+ * sign-in; editing synonyms and reading the report are admin endpoints.
+ */
+
+import { authService } from './AuthService';
+import { SynonymTable, synonymKey } from '../utils/searchQuery';
+import { ListResponse, responseItems } from '../utils/apiResponse';
+
+const API_BASE_URL = `${import.meta.env.VITE_API_URL || 'http://localhost:5070'}/api`;
+
+/** Synonyms shipped with the site, used when the API is unreachable */
+const STATIC_SYNONYMS_URL = '/search-synonyms.json';
+
+/** A query that found nothing, with how often readers searched for it */
+export interface ZeroResultQuery {
+  query: string;
+  count: number;
+  lastSearched: string;
+}
+
+/**
+ * Normalize a query for counting: lowercase with single spaces, so
+ * `Site  Isolation` and `site isolation` are counted together.
+ */
+export const normalizeSearchQuery = (query: string) => query.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Clean up a table for saving or use: keys and alternatives as synonymKey
+ * gives them, without empty, duplicate or self-referencing alternatives.
+ */
+export function normalizeSynonymTable(table: SynonymTable): SynonymTable {
+  const normalized: SynonymTable = {};
+  Object.entries(table).forEach(([term, alternatives]) => {
+    const key = synonymKey(term);
+    if (!key || !Array.isArray(alternatives)) {
+      return;
+    }
+    const cleaned = alternatives
+      .map(alternative => synonymKey(String(alternative)))
+      .filter(alternative => alternative && alternative !== key);
+    const merged = [...new Set([...(normalized[key] ?? []), ...cleaned])];
+    if (merged.length > 0) {
+      normalized[key] = merged;
+    }
+  });
+  return normalized;
+}
+
+class SearchFeedbackService {
+  private synonyms: Promise<SynonymTable> | null = null;
+
+  /**
+   * The synonym table, from the API or else the copy shipped with the site.
+   * Loaded once; saveSynonyms replaces it.
+   */
+  getSynonyms(): Promise<SynonymTable> {
+    if (!this.synonyms) {
+      this.synonyms = this.loadSynonyms();
+    }
+    return this.synonyms;
+  }
+
+  private async loadSynonyms(): Promise<SynonymTable> {
+    for (const url of [`${API_BASE_URL}/search/synonyms`, STATIC_SYNONYMS_URL]) {
+      try {
+        const response = await fetch(url);
+        if (response.ok && (response.headers.get('content-type') ?? '').includes('json')) {
+          const body = await response.json();
+          return normalizeSynonymTable(body.data ?? body);
+        }
+      } catch (error) {
+        // Continue to the next source
+      }
+    }
+    return {};
+  }
+
+  /**
+   * Replace the synonym table (admins only). Takes effect for this session
+   * right away and for readers on their next visit.
+   */
+  async saveSynonyms(table: SynonymTable): Promise<SynonymTable> {
+    const normalized = normalizeSynonymTable(table);
+    await authService.makeAuthenticatedRequest<void>('/search/synonyms', {
+      method: 'PUT',
+      body: JSON.stringify(normalized),
+    });
+    this.synonyms = Promise.resolve(normalized);
+    return normalized;
+  }
+
+  /**
+   * Report a query that found nothing. Best effort: failures are ignored,
+   * the search context keeps its own count as well.
+   */
+  async reportZeroResults(query: string): Promise<void> {
+    try {
+      await fetch(`${API_BASE_URL}/search/zero-results`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query: normalizeSearchQuery(query) }),
+      });
+    } catch (error) {
+      // Reporting is optional
+    }
+  }
+
+  /**
+   * Queries that found nothing across all readers, most searched first
+   * (admins only)
+   */
+  async getZeroResultReport(limit = 50): Promise<ZeroResultQuery[]> {
+    const res = await authService.makeAuthenticatedRequest<ListResponse<ZeroResultQuery>>(`/search/zero-results?limit=${limit}`);
+    return responseItems(res);
+  }
+}
+
+export const searchFeedbackService = new SearchFeedbackService();
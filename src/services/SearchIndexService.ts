@@ -0,0 +1,763 @@
+/**
+ * Search Index Service
+ * Loads the prebuilt search index from public/search-index/ on demand and
+ * ranks documents against a query. Shards, term chunks and excerpt groups
+ * are fetched the first time they are needed and cached for the session.
+ *
+ * Query words are stemmed before lookup. A word whose stem is not in the
+ * index matches the closest indexed terms within its typo budget instead
+ * (see maxEditDistance), at a lower score.
+ *
+ * Words match in any field unless the query says `in:code` or `in:text`, in
+ * which case only the code counts, or only the rest.
+ *
+ * A quoted phrase matches documents where its words, or the terms standing
+ * in for misspelt ones, occur one after the other, from the position chunks.
+ *
+ * Each hit also lists its best matching sections, scored the same way from
+ * the section postings, so long articles can link to the part that matches.
+ *
+ * Related documents come from the index build; "more like this" for a free
+ * text compares its TF-IDF vector with every document vector of the shard.
+ */
+
+import {
+  tokenize,
+  toIndexTerms,
+  termChunkKey,
+  maxEditDistance,
+  boundedEditDistance,
+  decodePositions,
+  hasAdjacentPositions,
+  normalizeCodeLanguage,
+  SearchDocument,
+  SearchExcerptGroup,
+  SearchIndexManifest,
+  SearchPositionChunk,
+  SearchRelatedTable,
+  SearchSection,
+  SearchSectionChunk,
+  SearchShardDocuments,
+  SearchShardVectors,
+  SearchTermChunk,
+  SearchVectorGroup,
+  SearchWordChunk,
+  SparseVector,
+  EXCERPT_GROUP_SIZE,
+  FIELD_WEIGHTS,
+  POSTING_STRIDE,
+  SECTION_POSTING_STRIDE,
+  SEARCH_INDEX_BASE_URL,
+  SEARCH_INDEX_VERSION
+} from '../utils/searchIndex';
+import { QueryNode, QueryScope, matchesPathPattern, getQueryScope, getQueryWords } from '../utils/searchQuery';
+import { stem } from '../utils/stemmer';
+import { cosineSimilarity, vectorizeTerms, DOCUMENT_VECTOR_TERMS } from '../utils/searchVectors';
+
+export interface SearchHit {
+  shard: string;
+  /** Position in the shard's document table */
+  documentIndex: number;
+  document: SearchDocument;
+  score: number;
+  /**
+   * Words found in the document: query words, or for a misspelt query word
+   * the indexed word it was matched to
+   */
+  matchedTerms: string[];
+  /** Sections that match best, best first; the opening section is never listed */
+  sections?: SectionHit[];
+}
+
+export interface SectionHit {
+  /** Position in the document's sections */
+  section: number;
+  score: number;
+  matchedTerms: string[];
+}
+
+export interface IndexSearchOptions {
+  /** Shards to search; defaults to every shard in the manifest */
+  shards?: string[];
+}
+
+export interface IndexedDocument {
+  shard: string;
+  documentIndex: number;
+  document: SearchDocument;
+}
+
+export interface RelatedDocument extends IndexedDocument {
+  /** Cosine similarity, 0 to 1 */
+  similarity: number;
+}
+
+export interface RelatedSection extends RelatedDocument {
+  sectionIndex: number;
+  heading: string;
+  excerpt: string;
+}
+
+export interface RelatedContent {
+  documents: RelatedDocument[];
+  sections: RelatedSection[];
+}
+
+interface DocumentMatch {
+  score: number;
+  matchedTerms: Set<string>;
+}
+
+/** Matching documents of one shard, by position in its document table */
+type DocumentMatches = Map<number, DocumentMatch>;
+
+interface ShardQueryContext {
+  shard: string;
+  documents: SearchDocument[];
+  chunks: string[];
+  /** Where words have to match; anywhere when undefined */
+  scope?: QueryScope;
+}
+
+/** An indexed term standing in for a query word */
+interface TermCandidate {
+  term: string;
+  /** The query word, or the closest word the term comes from */
+  word: string;
+  /** Edit distance from the query word; 0 for the query word's own stem */
+  distance: number;
+  documents: number;
+}
+
+/** Score multiplier for documents whose title contains a phrase verbatim */
+const PHRASE_TITLE_BOOST = 2;
+
+/** Indexed terms a misspelt word may match */
+const MAX_FUZZY_CANDIDATES = 3;
+
+/** Sections listed per hit */
+const MAX_SECTION_HITS = 3;
+
+/** Sections scoring below this share of the hit's best section are left out */
+const MIN_SECTION_SHARE = 0.25;
+
+/** Similarity results returned when no limit is given */
+const DEFAULT_SIMILAR_LIMIT = 10;
+
+/** Files an article path may resolve to, as in ContentService */
+const DOCUMENT_PATH_SUFFIXES = ['', '/overview', '/index', '/README'];
+
+const copyMatch = (match: DocumentMatch): DocumentMatch => ({ score: match.score, matchedTerms: new Set(match.matchedTerms) });
+
+/** Documents in every set, with their scores and terms added up */
+function intersectMatches(sets: DocumentMatches[]): DocumentMatches {
+  const [smallest, ...others] = [...sets].sort((a, b) => a.size - b.size);
+  const result: DocumentMatches = new Map();
+  smallest?.forEach((match, documentIndex) => {
+    if (others.every(set => set.has(documentIndex))) {
+      const combined = copyMatch(match);
+      others.forEach(set => {
+        const other = set.get(documentIndex) as DocumentMatch;
+        combined.score += other.score;
+        other.matchedTerms.forEach(term => combined.matchedTerms.add(term));
+      });
+      result.set(documentIndex, combined);
+    }
+  });
+  return result;
+}
+
+/** Documents in any set, with their scores and terms added up */
+function uniteMatches(sets: DocumentMatches[]): DocumentMatches {
+  const result: DocumentMatches = new Map();
+  sets.forEach(set => set.forEach((match, documentIndex) => {
+    const existing = result.get(documentIndex);
+    if (existing) {
+      existing.score += match.score;
+      match.matchedTerms.forEach(term => existing.matchedTerms.add(term));
+    } else {
+      result.set(documentIndex, copyMatch(match));
+    }
+  }));
+  return result;
+}
+
+const isFilterClause = (node: QueryNode) => node.type === 'field' || node.type === 'not';
+
+/** Weight of a term's text and code occurrences within a scope */
+const scopedWeight = (scope: QueryScope | undefined, text: number, code: number) =>
+  scope === 'code' ? code : scope === 'text' ? text : text + code;
+
+const logCount = (count: number) => (count > 0 ? 1 + Math.log(count) : 0);
+
+class SearchIndexService {
+  private manifest = new Map<string, Promise<SearchIndexManifest>>();
+  private documents = new Map<string, Promise<SearchDocument[]>>();
+  private termChunks = new Map<string, Promise<SearchTermChunk>>();
+  private wordChunks = new Map<string, Promise<SearchWordChunk>>();
+  private sectionChunks = new Map<string, Promise<SearchSectionChunk>>();
+  private positionChunks = new Map<string, Promise<SearchPositionChunk>>();
+  private excerptGroups = new Map<string, Promise<SearchExcerptGroup>>();
+  private vectors = new Map<string, Promise<SearchShardVectors>>();
+  private vectorGroups = new Map<string, Promise<SearchVectorGroup>>();
+  private related = new Map<string, Promise<SearchRelatedTable>>();
+
+  /**
+   * Fetch a JSON file from the index
+   */
+  private async fetchIndexFile<T>(file: string): Promise<T> {
+    const response = await fetch(`${SEARCH_INDEX_BASE_URL}/${file}`);
+    if (!response.ok) {
+      throw new Error(`Search index request failed: ${file} (${response.status})`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Share one pending load per key. Failed loads are evicted so the next
+   * call retries.
+   */
+  private cached<T>(cache: Map<string, Promise<T>>, key: string, load: () => Promise<T>): Promise<T> {
+    let pending = cache.get(key);
+    if (!pending) {
+      pending = load();
+      pending.catch(() => cache.delete(key));
+      cache.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Get the manifest listing every shard
+   */
+  getManifest(): Promise<SearchIndexManifest> {
+    return this.cached(this.manifest, 'manifest.json', async () => {
+      const manifest = await this.fetchIndexFile<SearchIndexManifest>('manifest.json');
+      if (manifest.version !== SEARCH_INDEX_VERSION) {
+        console.warn(`Search index version ${manifest.version} does not match ${SEARCH_INDEX_VERSION}; run npm run build-index`);
+      }
+      return manifest;
+    });
+  }
+
+  /**
+   * Get the document table of a shard
+   */
+  getDocuments(shard: string): Promise<SearchDocument[]> {
+    const file = `${shard}/documents.json`;
+    return this.cached(this.documents, file, async () =>
+      (await this.fetchIndexFile<SearchShardDocuments>(file)).documents
+    );
+  }
+
+  /**
+   * Get the section headings and excerpts of one document
+   */
+  async getSections(shard: string, documentIndex: number): Promise<SearchSection[]> {
+    const file = `${shard}/excerpts-${Math.floor(documentIndex / EXCERPT_GROUP_SIZE)}.json`;
+    const group = await this.cached(this.excerptGroups, file, () => this.fetchIndexFile<SearchExcerptGroup>(file));
+    return group[documentIndex % EXCERPT_GROUP_SIZE] ?? [];
+  }
+
+  /**
+   * Get the term vocabulary and document vectors of a shard
+   */
+  getVectors(shard: string): Promise<SearchShardVectors> {
+    const file = `${shard}/vectors.json`;
+    return this.cached(this.vectors, file, () => this.fetchIndexFile<SearchShardVectors>(file));
+  }
+
+  /**
+   * Get the section vectors of one document
+   */
+  async getSectionVectors(shard: string, documentIndex: number): Promise<SparseVector[]> {
+    const file = `${shard}/vectors-${Math.floor(documentIndex / EXCERPT_GROUP_SIZE)}.json`;
+    const group = await this.cached(this.vectorGroups, file, () => this.fetchIndexFile<SearchVectorGroup>(file));
+    return group[documentIndex % EXCERPT_GROUP_SIZE] ?? [];
+  }
+
+  /**
+   * Find a document by content path, e.g. `chromium/architecture/overview`
+   * or `/content/chromium/architecture/overview.md`. Paths without a content
+   * directory are looked up in every shard, and directory paths resolve to
+   * their overview, index or README like ContentService does.
+   */
+  async findDocument(contentPath: string, options: IndexSearchOptions = {}): Promise<IndexedDocument | null> {
+    const manifest = await this.getManifest();
+    const shards = (options.shards ?? Object.keys(manifest.shards)).filter(shard => manifest.shards[shard]);
+    const normalized = contentPath.replace(/^\/+/, '').replace(/^content\//, '').replace(/\.md$/, '').replace(/\/+$/, '');
+    const [firstSegment] = normalized.split('/');
+    const paths = shards.includes(firstSegment) ? [normalized] : shards.map(shard => `${shard}/${normalized}`);
+
+    for (const path of paths) {
+      const shard = path.split('/')[0];
+      const documents = await this.getDocuments(shard);
+      for (const suffix of DOCUMENT_PATH_SUFFIXES) {
+        const documentIndex = documents.findIndex(document => document.path === path + suffix);
+        if (documentIndex >= 0) {
+          return { shard, documentIndex, document: documents[documentIndex] };
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The documents most similar to a document, and the closest sections of
+   * other documents, as computed by the index build
+   */
+  async getRelated(shard: string, documentIndex: number): Promise<RelatedContent> {
+    const file = `${shard}/related.json`;
+    const [table, documents] = await Promise.all([
+      this.cached(this.related, file, () => this.fetchIndexFile<SearchRelatedTable>(file)),
+      this.getDocuments(shard)
+    ]);
+    const entry = table[documentIndex];
+    if (!entry) {
+      return { documents: [], sections: [] };
+    }
+
+    const sections = await Promise.all(entry.sections.map(async ([otherIndex, sectionIndex, similarity]): Promise<RelatedSection> => {
+      const [heading, excerpt] = (await this.getSections(shard, otherIndex))[sectionIndex] ?? ['', ''];
+      return { shard, documentIndex: otherIndex, document: documents[otherIndex], similarity, sectionIndex, heading, excerpt };
+    }));
+    return {
+      documents: entry.documents.map(([otherIndex, similarity]) => ({ shard, documentIndex: otherIndex, document: documents[otherIndex], similarity })),
+      sections
+    };
+  }
+
+  /**
+   * Rank documents by the cosine similarity of their TF-IDF vectors to a
+   * text ("more like this"). Each result lists its section closest to the text.
+   */
+  async findSimilar(text: string, options: IndexSearchOptions & { limit?: number } = {}): Promise<SearchHit[]> {
+    const manifest = await this.getManifest();
+    const shards = (options.shards ?? Object.keys(manifest.shards)).filter(shard => manifest.shards[shard]);
+    const terms = toIndexTerms(text);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const scored = (await Promise.all(shards.map(async shard => {
+      const [vectors, documents] = await Promise.all([this.getVectors(shard), this.getDocuments(shard)]);
+      const termIndex = new Map(vectors.terms.map((term, index) => [term, index]));
+      const query = vectorizeTerms(terms, termIndex, vectors.idf, DOCUMENT_VECTOR_TERMS);
+      return vectors.documents.map((vector, documentIndex) => ({
+        shard,
+        documentIndex,
+        document: documents[documentIndex],
+        query,
+        score: cosineSimilarity(query, vector)
+      }));
+    }))).flat()
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? DEFAULT_SIMILAR_LIMIT);
+
+    return Promise.all(scored.map(async ({ query, ...hit }): Promise<SearchHit> => {
+      const sectionVectors = await this.getSectionVectors(hit.shard, hit.documentIndex);
+      let best: SectionHit | undefined;
+      sectionVectors.forEach((vector, section) => {
+        const similarity = cosineSimilarity(query, vector);
+        if (section > 0 && similarity > (best?.score ?? 0)) {
+          best = { section, score: similarity, matchedTerms: [] };
+        }
+      });
+      return { ...hit, matchedTerms: [], sections: best ? [best] : [] };
+    }));
+  }
+
+  /**
+   * Get the term chunk a term would be in, or undefined when the shard has none
+   */
+  private async getTermChunk(shard: string, term: string, chunks: string[]): Promise<SearchTermChunk | undefined> {
+    const key = termChunkKey(term);
+    if (!chunks.includes(key)) {
+      return undefined;
+    }
+    const file = `${shard}/terms-${key}.json`;
+    return this.cached(this.termChunks, file, () => this.fetchIndexFile<SearchTermChunk>(file));
+  }
+
+  private getWordChunk(shard: string, term: string): Promise<SearchWordChunk> {
+    const file = `${shard}/words-${termChunkKey(term)}.json`;
+    return this.cached(this.wordChunks, file, () => this.fetchIndexFile<SearchWordChunk>(file));
+  }
+
+  /**
+   * Indexed terms for a query word: its stem, or when the word looks like a
+   * typo, the terms of the closest indexed words within `maxDistance` edits.
+   * Candidates come from the stem's term chunk, so a typo in the first
+   * letter is not corrected.
+   */
+  private async findTerms(context: ShardQueryContext, word: string, maxDistance: number, limit: number): Promise<TermCandidate[]> {
+    const term = stem(word);
+    const chunk = await this.getTermChunk(context.shard, term, context.chunks);
+    if (!chunk) {
+      return [];
+    }
+    const stemIndexed = Object.prototype.hasOwnProperty.call(chunk, term);
+    const exact: TermCandidate[] = stemIndexed ? [{ term, word, distance: 0, documents: chunk[term].length / POSTING_STRIDE }] : [];
+    if (maxDistance === 0) {
+      return exact;
+    }
+
+    const words = await this.getWordChunk(context.shard, term);
+    const wordsOf = (candidate: string) => Object.prototype.hasOwnProperty.call(words, candidate) ? words[candidate] : [candidate];
+    if (stemIndexed && wordsOf(term).includes(word)) {
+      return exact;
+    }
+
+    const allowDigits = /\d/.test(word);
+    const candidates: TermCandidate[] = [];
+    Object.keys(chunk).forEach(candidate => {
+      if (!allowDigits && /\d/.test(candidate)) {
+        return;
+      }
+      let closest = { word: candidate, distance: maxDistance + 1 };
+      wordsOf(candidate).forEach(candidateWord => {
+        const distance = boundedEditDistance(word, candidateWord, maxDistance);
+        if (distance < closest.distance) {
+          closest = { word: candidateWord, distance };
+        }
+      });
+      if (closest.distance <= maxDistance || candidate === term) {
+        candidates.push({ term: candidate, ...closest, documents: chunk[candidate].length / POSTING_STRIDE });
+      }
+    });
+
+    // A word the index has not seen whose stem it has is an inflection,
+    // unless another word is closer: "proces" stems like "proceed" but is a
+    // typo of "process"
+    const own = candidates.find(candidate => candidate.term === term);
+    const others = candidates.filter(candidate => candidate !== own);
+    if (own && !others.some(candidate => candidate.distance < own.distance)) {
+      return exact;
+    }
+    return others
+      .sort((a, b) => a.distance - b.distance || b.documents - a.documents)
+      .slice(0, limit);
+  }
+
+  /**
+   * Documents containing a query word or, when misspelt, its closest
+   * indexed terms. Each scores the term's inverse document frequency times
+   * its field-weighted count in the query's scope, divided by one plus the
+   * edit distance.
+   */
+  private async termMatches(context: ShardQueryContext, word: string): Promise<DocumentMatches> {
+    const candidates = await this.findTerms(context, word, maxEditDistance(word.length), MAX_FUZZY_CANDIDATES);
+    const chunk = candidates.length > 0 ? await this.getTermChunk(context.shard, candidates[0].term, context.chunks) : undefined;
+
+    return uniteMatches(candidates.map(({ term, word: matchedWord, distance }) => {
+      const postings = (chunk as SearchTermChunk)[term];
+      const matches: DocumentMatches = new Map();
+      const idf = Math.log(1 + context.documents.length / (postings.length / POSTING_STRIDE));
+      for (let i = 0; i < postings.length; i += POSTING_STRIDE) {
+        const [documentIndex, title, headings, body, code] = postings.slice(i, i + POSTING_STRIDE);
+        const weight = scopedWeight(
+          context.scope,
+          FIELD_WEIGHTS.title * title + FIELD_WEIGHTS.headings * headings + FIELD_WEIGHTS.body * logCount(body),
+          FIELD_WEIGHTS.code * logCount(code)
+        );
+        if (weight > 0) {
+          matches.set(documentIndex, { score: idf * weight / (1 + distance), matchedTerms: new Set([matchedWord]) });
+        }
+      }
+      return matches;
+    }));
+  }
+
+  /**
+   * Drop the matches of a phrase's words in which the words do not follow
+   * one another. A word's positions are those of every term that matched it.
+   */
+  private async keepAdjacent(context: ShardQueryContext, words: string[], matches: DocumentMatches): Promise<void> {
+    const wordPositions = await Promise.all(words.map(async word => {
+      const candidates = await this.findTerms(context, word, maxEditDistance(word.length), MAX_FUZZY_CANDIDATES);
+      const byDocument = new Map<number, Set<number>>();
+      await Promise.all(candidates.map(async ({ term }) => {
+        const file = `${context.shard}/positions-${termChunkKey(term)}.json`;
+        const chunk = await this.cached(this.positionChunks, file, () => this.fetchIndexFile<SearchPositionChunk>(file));
+        const postings = Object.prototype.hasOwnProperty.call(chunk, term) ? chunk[term] : [];
+        decodePositions(postings).forEach((positions, documentIndex) => {
+          const set = byDocument.get(documentIndex) ?? new Set<number>();
+          positions.forEach(position => set.add(position));
+          byDocument.set(documentIndex, set);
+        });
+      }));
+      return byDocument;
+    }));
+
+    [...matches.keys()].forEach(documentIndex => {
+      if (!hasAdjacentPositions(wordPositions.map(byDocument => byDocument.get(documentIndex)))) {
+        matches.delete(documentIndex);
+      }
+    });
+  }
+
+  /**
+   * The best sections of every document containing any of the query words.
+   * A section scores like a document does, from the term weights in its
+   * heading, prose and code, scaled down by the share of words it misses.
+   */
+  private async sectionMatches(context: ShardQueryContext, words: string[]): Promise<Map<number, SectionHit[]>> {
+    const scores = new Map<number, Map<number, { score: number; words: Set<string>; matchedTerms: Set<string> }>>();
+    await Promise.all(words.map(async word => {
+      const candidates = await this.findTerms(context, word, maxEditDistance(word.length), MAX_FUZZY_CANDIDATES);
+      if (candidates.length === 0) {
+        return;
+      }
+      const file = `${context.shard}/sections-${termChunkKey(candidates[0].term)}.json`;
+      const chunk = await this.cached(this.sectionChunks, file, () => this.fetchIndexFile<SearchSectionChunk>(file));
+
+      candidates.forEach(({ term, word: matchedWord, distance, documents }) => {
+        const postings = Object.prototype.hasOwnProperty.call(chunk, term) ? chunk[term] : [];
+        const idf = Math.log(1 + context.documents.length / documents);
+        for (let i = 0; i < postings.length; i += SECTION_POSTING_STRIDE) {
+          const [documentIndex, section, text, code] = postings.slice(i, i + SECTION_POSTING_STRIDE);
+          const weight = scopedWeight(context.scope, text, code);
+          if (weight === 0) {
+            continue;
+          }
+          let sections = scores.get(documentIndex);
+          if (!sections) {
+            sections = new Map();
+            scores.set(documentIndex, sections);
+          }
+          let match = sections.get(section);
+          if (!match) {
+            match = { score: 0, words: new Set(), matchedTerms: new Set() };
+            sections.set(section, match);
+          }
+          match.score += idf * (1 + Math.log(weight)) / (1 + distance);
+          match.words.add(word);
+          match.matchedTerms.add(matchedWord);
+        }
+      });
+    }));
+
+    const hits = new Map<number, SectionHit[]>();
+    scores.forEach((sections, documentIndex) => {
+      const ranked = [...sections]
+        .map(([section, match]): SectionHit => ({
+          section,
+          score: match.score * match.words.size / words.length,
+          matchedTerms: [...match.matchedTerms]
+        }))
+        .sort((a, b) => b.score - a.score);
+      const threshold = ranked[0].score * MIN_SECTION_SHARE;
+      hits.set(documentIndex, ranked.filter(hit => hit.score >= threshold).slice(0, MAX_SECTION_HITS));
+    });
+    return hits;
+  }
+
+  /**
+   * Every document of the shard that passes a predicate, with a score of zero
+   */
+  private allDocuments(context: ShardQueryContext, predicate: (document: SearchDocument, index: number) => boolean = () => true): DocumentMatches {
+    const matches: DocumentMatches = new Map();
+    context.documents.forEach((document, index) => {
+      if (predicate(document, index)) {
+        matches.set(index, { score: 0, matchedTerms: new Set() });
+      }
+    });
+    return matches;
+  }
+
+  private async evaluateNode(node: QueryNode, context: ShardQueryContext): Promise<DocumentMatches> {
+    switch (node.type) {
+      case 'term':
+        return this.termMatches(context, node.word);
+
+      case 'phrase': {
+        // Titles containing the phrase verbatim rank first
+        const matches = intersectMatches(await Promise.all(node.words.map(word => this.termMatches(context, word))));
+        if (matches.size > 0) {
+          await this.keepAdjacent(context, node.words, matches);
+        }
+        const phrase = ` ${node.words.map(stem).join(' ')} `;
+        matches.forEach((match, documentIndex) => {
+          if (` ${toIndexTerms(context.documents[documentIndex].title).join(' ')} `.includes(phrase)) {
+            match.score *= PHRASE_TITLE_BOOST;
+          }
+        });
+        return matches;
+      }
+
+      case 'field': {
+        const value = node.value.toLowerCase();
+        return this.allDocuments(context, document => {
+          if (node.field === 'tag') {
+            return document.tags.some(tag => tag.toLowerCase() === value);
+          }
+          if (node.field === 'difficulty') {
+            return document.difficulty === value;
+          }
+          if (node.field === 'lang') {
+            return document.languages?.includes(normalizeCodeLanguage(value)) ?? false;
+          }
+          if (node.field === 'in') {
+            // Scopes apply to the words of the query, not to documents
+            return true;
+          }
+          // Patterns match the path within the subject
+          return matchesPathPattern(document.path.slice(document.path.indexOf('/') + 1), value);
+        });
+      }
+
+      case 'not': {
+        const excluded = await this.evaluateNode(node.operand, context);
+        return this.allDocuments(context, (_, index) => !excluded.has(index));
+      }
+
+      case 'and':
+        return intersectMatches(await Promise.all(node.operands.map(operand => this.evaluateNode(operand, context))));
+
+      case 'or':
+        return uniteMatches(await Promise.all(node.operands.map(operand => this.evaluateNode(operand, context))));
+
+      case 'sequence': {
+        const results = await Promise.all(node.clauses.map(clause => this.evaluateNode(clause, context)));
+        const filters = results.filter((_, i) => isFilterClause(node.clauses[i]));
+        const ranking = results.filter((_, i) => !isFilterClause(node.clauses[i]));
+
+        // Documents matching only some ranking clauses are scaled down by the share they match
+        const matches = ranking.length > 0 ? uniteMatches(ranking) : this.allDocuments(context);
+        matches.forEach((match, documentIndex) => {
+          if (ranking.length > 0) {
+            match.score *= ranking.filter(set => set.has(documentIndex)).length / ranking.length;
+          }
+          if (!filters.every(set => set.has(documentIndex))) {
+            matches.delete(documentIndex);
+          }
+        });
+        return matches;
+      }
+    }
+  }
+
+  /**
+   * Rank documents against a parsed query (see utils/searchQuery.ts).
+   * A null query matches every document with a score of zero.
+   */
+  async evaluate(ast: QueryNode | null, options: IndexSearchOptions = {}): Promise<SearchHit[]> {
+    const manifest = await this.getManifest();
+    const shards = (options.shards ?? Object.keys(manifest.shards)).filter(shard => manifest.shards[shard]);
+
+    const words = getQueryWords(ast);
+    const scope = getQueryScope(ast);
+    const hitsPerShard = await Promise.all(shards.map(async shard => {
+      const context: ShardQueryContext = { shard, documents: await this.getDocuments(shard), chunks: manifest.shards[shard].chunks, scope };
+      const [matches, sections] = await Promise.all([
+        ast ? this.evaluateNode(ast, context) : this.allDocuments(context),
+        this.sectionMatches(context, words)
+      ]);
+
+      return [...matches].map(([documentIndex, { score, matchedTerms }]): SearchHit => ({
+        shard,
+        documentIndex,
+        document: context.documents[documentIndex],
+        score,
+        matchedTerms: [...matchedTerms],
+        sections: sections.get(documentIndex) ?? []
+      }));
+    }));
+
+    return hitsPerShard.flat().sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Rank documents against plain text: each word ranks, and documents
+   * matching only some words are scaled down by the share they match.
+   */
+  async search(query: string, options: IndexSearchOptions = {}): Promise<SearchHit[]> {
+    const words = [...new Set(tokenize(query))];
+    if (words.length === 0) {
+      return [];
+    }
+    const clauses = words.map((word): QueryNode => ({ type: 'term', word }));
+    return this.evaluate(clauses.length === 1 ? clauses[0] : { type: 'sequence', clauses }, options);
+  }
+
+  /**
+   * Suggest a spelling for a query: each word whose stem is in none of the
+   * shards is replaced by the closest indexed word, allowing one more typo
+   * than matching does; words of three letters or fewer are left alone.
+   * Operators, qualifiers and everything else are kept as typed. Returns
+   * null when there is nothing to correct.
+   */
+  async suggestCorrection(query: string, options: IndexSearchOptions = {}): Promise<string | null> {
+    const manifest = await this.getManifest();
+    const shards = (options.shards ?? Object.keys(manifest.shards)).filter(shard => manifest.shards[shard]);
+    const contexts = await Promise.all(shards.map(async (shard): Promise<ShardQueryContext> => (
+      { shard, documents: await this.getDocuments(shard), chunks: manifest.shards[shard].chunks }
+    )));
+
+    const replacements = new Map<string, string>();
+    const words = new Set(query.split(/\s+/)
+      .filter(token => !/^(AND|OR|NOT)$/.test(token) && !token.includes(':'))
+      .flatMap(token => tokenize(token))
+      .filter(word => !/\d/.test(word)));
+    await Promise.all([...words].map(async word => {
+      const candidates = (await Promise.all(contexts.map(context =>
+        this.findTerms(context, word, word.length > 3 ? maxEditDistance(word.length) + 1 : 0, 1)
+      ))).flat();
+      if (candidates.length === 0 || candidates.some(candidate => candidate.distance === 0)) {
+        return;
+      }
+      const [best] = candidates.sort((a, b) => a.distance - b.distance || b.documents - a.documents);
+      replacements.set(word, best.word);
+    }));
+    if (replacements.size === 0) {
+      return null;
+    }
+
+    // Replace whole words outside qualifiers, whatever their case
+    return query.split(/(\s+)/).map(token => {
+      if (/^(AND|OR|NOT)$/.test(token) || token.includes(':')) {
+        return token;
+      }
+      return token.replace(/[a-z0-9]+/gi, match => replacements.get(match.toLowerCase()) ?? match);
+    }).join('');
+  }
+
+  /**
+   * Pick the excerpt of the section that mentions the most query words,
+   * falling back to the document description or its opening paragraph.
+   */
+  buildSnippet(sections: SearchSection[], words: string[], fallback?: string): string {
+    const terms = words.map(stem);
+    let best = { excerpt: '', matches: 0 };
+    for (const [heading, excerpt] of sections) {
+      const sectionTerms = new Set(toIndexTerms(`${heading} ${excerpt}`));
+      const matches = terms.filter(term => sectionTerms.has(term)).length;
+      if (excerpt && matches > best.matches) {
+        best = { excerpt, matches };
+      }
+    }
+    if (best.excerpt) {
+      return best.excerpt;
+    }
+    return fallback || sections.find(([, excerpt]) => excerpt)?.[1] || '';
+  }
+
+  /**
+   * Drop every cached shard, e.g. after the index was rebuilt
+   */
+  clearCache(): void {
+    this.manifest.clear();
+    this.documents.clear();
+    this.termChunks.clear();
+    this.wordChunks.clear();
+    this.sectionChunks.clear();
+    this.positionChunks.clear();
+    this.excerptGroups.clear();
+    this.vectors.clear();
+    this.vectorGroups.clear();
+    this.related.clear();
+  }
+}
+
+export const searchIndexService = new SearchIndexService();
@@ -0,0 +1,232 @@
+/**
+ * Version Storage
+ * Persistence adapters for ContentVersioningService. Each article's
+ * VersionHistory (versions, branches, merge requests, published version) is
+ * stored as one record, guarded by its `revision`: a save states the revision
+ * it read, and fails with VersionConflictError when someone saved in
+ * between, so the service can re-read and apply its change again.
+ */
+
+import { VersionHistory } from '../types/VersioningTypes';
+import { authService } from './AuthService';
+import { gitHistoryFile, GIT_HISTORY_DIR } from '../utils/gitHistory';
+import { ListResponse, responseItems } from '../utils/apiResponse';
+
+export interface VersionStorageAdapter {
+  /** Shown in the versioning page, e.g. "IndexedDB" */
+  readonly name: string;
+  /** Whether other editors see what is saved here */
+  readonly shared: boolean;
+  loadHistory(contentPath: string): Promise<VersionHistory | null>;
+  listHistories(): Promise<VersionHistory[]>;
+  /**
+   * Store a history whose last read had revision `expectedRevision` (0 for
+   * a new one), returning it with its new revision
+   */
+  saveHistory(history: VersionHistory, expectedRevision: number): Promise<VersionHistory>;
+}
+
+/**
+ * Thrown by saveHistory when the stored history has moved past the
+ * revision the caller read
+ */
+export class VersionConflictError extends Error {
+  constructor(public contentPath: string, public expectedRevision: number, public actualRevision: number) {
+    super(`Version history of ${contentPath} changed while saving (expected revision ${expectedRevision}, found ${actualRevision})`);
+    this.name = 'VersionConflictError';
+  }
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Turn the ISO date strings of a JSON-decoded value back into Dates, in
+ * place. Histories keep dates in many nested places (versions, reviews,
+ * branches, merge requests, discussions), so this walks the whole value.
+ */
+export function reviveDates<T>(value: T): T {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => {
+      value[index] = typeof item === 'string' && ISO_DATE.test(item) ? new Date(item) : reviveDates(item);
+    });
+  } else if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const record = value as Record<string, unknown>;
+    Object.entries(record).forEach(([key, item]) => {
+      record[key] = typeof item === 'string' && ISO_DATE.test(item) ? new Date(item) : reviveDates(item);
+    });
+  }
+  return value;
+}
+
+const withRevision = (history: VersionHistory, revision: number): VersionHistory => ({ ...history, revision });
+
+/**
+ * Histories kept in memory for the lifetime of the page. Used where
+ * IndexedDB is unavailable, e.g. in private browsing on some browsers.
+ */
+export class MemoryVersionStorage implements VersionStorageAdapter {
+  readonly name = 'Memory';
+  readonly shared = false;
+  private histories = new Map<string, VersionHistory>();
+
+  async loadHistory(contentPath: string): Promise<VersionHistory | null> {
+    const history = this.histories.get(contentPath);
+    return history ? structuredClone(history) : null;
+  }
+
+  async listHistories(): Promise<VersionHistory[]> {
+    return [...this.histories.values()].map(history => structuredClone(history));
+  }
+
+  async saveHistory(history: VersionHistory, expectedRevision: number): Promise<VersionHistory> {
+    const actualRevision = this.histories.get(history.contentPath)?.revision ?? 0;
+    if (actualRevision !== expectedRevision) {
+      throw new VersionConflictError(history.contentPath, expectedRevision, actualRevision);
+    }
+    const saved = withRevision(history, expectedRevision + 1);
+    this.histories.set(history.contentPath, structuredClone(saved));
+    return saved;
+  }
+}
+
+const DB_NAME = 'wanderlust-versioning';
+const DB_VERSION = 1;
+const HISTORY_STORE = 'histories';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Histories in the browser's IndexedDB: they survive reloads and are shared
+ * by the tabs of one browser. The revision check and the write happen in one
+ * transaction, so two tabs saving at once cannot both win.
+ */
+export class IndexedDBVersionStorage implements VersionStorageAdapter {
+  readonly name = 'IndexedDB';
+  readonly shared = false;
+  private db: Promise<IDBDatabase> | null = null;
+
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(HISTORY_STORE, { keyPath: 'contentPath' });
+      };
+      this.db = promisify(request).catch(error => {
+        this.db = null;
+        throw error;
+      });
+    }
+    return this.db;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    return (await this.open()).transaction(HISTORY_STORE, mode).objectStore(HISTORY_STORE);
+  }
+
+  async loadHistory(contentPath: string): Promise<VersionHistory | null> {
+    const history = await promisify<VersionHistory | undefined>((await this.store('readonly')).get(contentPath));
+    return history ?? null;
+  }
+
+  async listHistories(): Promise<VersionHistory[]> {
+    return promisify<VersionHistory[]>((await this.store('readonly')).getAll());
+  }
+
+  async saveHistory(history: VersionHistory, expectedRevision: number): Promise<VersionHistory> {
+    const store = await this.store('readwrite');
+    const stored = await promisify<VersionHistory | undefined>(store.get(history.contentPath));
+    const actualRevision = stored?.revision ?? 0;
+    if (actualRevision !== expectedRevision) {
+      store.transaction.abort();
+      throw new VersionConflictError(history.contentPath, expectedRevision, actualRevision);
+    }
+    const saved = withRevision(history, expectedRevision + 1);
+    await promisify(store.put(saved));
+    return saved;
+  }
+}
+
+interface ApiResponse<T> {
+  data: T;
+  success: boolean;
+  message: string;
+}
+
+/**
+ * Histories on the API server, shared by every editor. Requires a signed-in
+ * user. The server answers a save with `success: false` and its current
+ * history when the revision no longer matches.
+ */
+export class RestVersionStorage implements VersionStorageAdapter {
+  readonly name = 'Server';
+  readonly shared = true;
+
+  async loadHistory(contentPath: string): Promise<VersionHistory | null> {
+    const res = await authService.makeAuthenticatedRequest<ApiResponse<VersionHistory | null>>(
+      `/versioning/histories?path=${encodeURIComponent(contentPath)}`
+    );
+    return reviveDates(res.data ?? null);
+  }
+
+  async listHistories(): Promise<VersionHistory[]> {
+    const res = await authService.makeAuthenticatedRequest<ListResponse<VersionHistory>>('/versioning/histories');
+    return reviveDates(responseItems(res));
+  }
+
+  async saveHistory(history: VersionHistory, expectedRevision: number): Promise<VersionHistory> {
+    const res = await authService.makeAuthenticatedRequest<ApiResponse<VersionHistory>>('/versioning/histories', {
+      method: 'PUT',
+      body: JSON.stringify({ history, expectedRevision }),
+    });
+    const stored = reviveDates(res.data);
+    if (!res.success) {
+      throw new VersionConflictError(history.contentPath, expectedRevision, stored?.revision ?? 0);
+    }
+    return stored;
+  }
+}
+
+/**
+ * The history of an article under public/content as exported from git by
+ * `npm run build:version-history`, or null when there is none. Read-only:
+ * the versioning service saves an edited history to its storage adapter.
+ */
+export async function loadGitVersionHistory(contentPath: string): Promise<VersionHistory | null> {
+  const file = gitHistoryFile(contentPath);
+  if (!file) {
+    return null;
+  }
+  try {
+    const response = await fetch(encodeURI(`/${GIT_HISTORY_DIR}/${file}`));
+    // The dev server answers unknown paths with the app's index.html
+    if (!response.ok || !(response.headers.get('content-type') ?? '').includes('json')) {
+      return null;
+    }
+    return reviveDates(await response.json());
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * The adapter picked by `VITE_VERSION_STORAGE`: `rest` for the API server,
+ * `indexeddb` (the default) for this browser, `memory` for neither. Falls
+ * back to memory where IndexedDB does not exist.
+ */
+export function createVersionStorage(kind = import.meta.env.VITE_VERSION_STORAGE): VersionStorageAdapter {
+  if (kind === 'rest') {
+    return new RestVersionStorage();
+  }
+  if (kind !== 'memory' && IndexedDBVersionStorage.isAvailable()) {
+    return new IndexedDBVersionStorage();
+  }
+  return new MemoryVersionStorage();
+}
@@ -0,0 +1,180 @@
+/**
+ * Worker Sandbox Backend
+ * Runs JavaScript and TypeScript examples in a Web Worker of their own
+ * (codeSandbox.worker.ts) rather than in the page: the code cannot reach the
+ * DOM, the app's state or its storage, and a run that loops forever or
+ * outlives its time limit is stopped by terminating the worker. TypeScript
+ * is transpiled on the page first, with the compiler loaded on first use.
+ */
+
+import {
+  CodeExecutionResult,
+  ExecutionBackend,
+  ExecutionEnvironment,
+  ExecutionEnvironmentInfo,
+  ProgrammingLanguage
+} from '../types/CodeExampleTypes';
+import { TypeScriptCompiler, transpileTypeScript } from '../utils/transpileTypeScript';
+import { SandboxMessage, SandboxRequest } from './codeSandbox.worker';
+
+export interface SandboxOptions {
+  /** Milliseconds a run may take, including timers it schedules */
+  timeoutMs: number;
+  /** Characters of console output kept */
+  maxOutputLength: number;
+  /** Heap size that stops a run, in browsers that report it */
+  maxHeapBytes: number;
+}
+
+const DEFAULT_OPTIONS: SandboxOptions = {
+  timeoutMs: 10000,
+  maxOutputLength: 100000,
+  maxHeapBytes: 256 * 1024 * 1024
+};
+
+/** Environments whose examples need nothing but the language itself */
+const SANDBOX_ENVIRONMENTS: ExecutionEnvironment[] = ['browser', 'node', 'interactive'];
+
+let compiler: Promise<TypeScriptCompiler> | null = null;
+
+// The compiler is several megabytes; only pages that run TypeScript load it
+const loadCompiler = (): Promise<TypeScriptCompiler> => {
+  compiler ??= import('typescript').then((module: any) => module.default ?? module);
+  return compiler;
+};
+
+export class WorkerSandboxBackend implements ExecutionBackend {
+  readonly id = 'web-worker';
+  readonly name = 'Browser sandbox';
+  readonly languages: ProgrammingLanguage[] = ['javascript', 'typescript'];
+  private options: SandboxOptions;
+
+  constructor(options: Partial<SandboxOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  supports(language: ProgrammingLanguage, environment: ExecutionEnvironment): boolean {
+    return this.languages.includes(language) && SANDBOX_ENVIRONMENTS.includes(environment);
+  }
+
+  async getInfo(): Promise<ExecutionEnvironmentInfo> {
+    if (typeof Worker === 'undefined') {
+      return { available: false, version: '', features: [], backend: this.name, hint: 'This browser does not support Web Workers' };
+    }
+    return {
+      available: true,
+      version: 'web-worker',
+      features: ['console-capture', 'timeout', 'top-level-await'],
+      backend: this.name
+    };
+  }
+
+  async execute(code: string, language: ProgrammingLanguage, environment: ExecutionEnvironment): Promise<CodeExecutionResult> {
+    const metadata = { environment, timestamp: new Date(), version: 'web-worker' };
+
+    let program = code;
+    let warnings: string[] = [];
+    if (language === 'typescript') {
+      const ts = await loadCompiler();
+      const output = transpileTypeScript(ts, code);
+      metadata.version = `typescript ${ts.version}`;
+      if (output.errors.length > 0) {
+        return { success: false, error: output.errors.join('\n'), metadata };
+      }
+      program = output.code;
+      warnings = output.warnings;
+    }
+
+    const result = await this.runInWorker(program);
+    return {
+      ...result,
+      warnings: [...warnings, ...(result.warnings ?? [])],
+      metadata
+    };
+  }
+
+  async validateCode(code: string, language: ProgrammingLanguage): Promise<{ valid: boolean; errors: string[] }> {
+    if (language === 'javascript') {
+      try {
+        new Function(code);
+        return { valid: true, errors: [] };
+      } catch (error) {
+        // The sandbox runs code with top-level await as an async function
+        try {
+          const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor;
+          new AsyncFunction(code);
+          return { valid: true, errors: [] };
+        } catch {
+          return { valid: false, errors: [error instanceof Error ? error.message : 'Syntax error'] };
+        }
+      }
+    }
+
+    if (language === 'typescript') {
+      const { errors } = transpileTypeScript(await loadCompiler(), code);
+      return { valid: errors.length === 0, errors };
+    }
+
+    return { valid: true, errors: [] };
+  }
+
+  private runInWorker(code: string): Promise<Omit<CodeExecutionResult, 'metadata'>> {
+    const { timeoutMs, maxOutputLength, maxHeapBytes } = this.options;
+    const worker = new Worker(new URL('./codeSandbox.worker.ts', import.meta.url), { type: 'module' });
+    const lines: string[] = [];
+    const warnings: string[] = [];
+    const output = () => (lines.length > 0 ? lines.join('\n') : undefined);
+
+    return new Promise(resolve => {
+      const settle = (result: Omit<CodeExecutionResult, 'metadata'>) => {
+        clearTimeout(timer);
+        worker.terminate();
+        resolve({ ...result, warnings });
+      };
+
+      const timer = setTimeout(() => {
+        settle({
+          success: false,
+          output: output(),
+          error: `Execution timed out after ${timeoutMs / 1000}s`,
+          executionTime: timeoutMs
+        });
+      }, timeoutMs);
+
+      worker.onmessage = (event: MessageEvent<SandboxMessage>) => {
+        const message = event.data;
+        switch (message.type) {
+          case 'console':
+            lines.push(
+              message.level === 'error' ? `Error: ${message.text}` :
+              message.level === 'warn' ? `Warning: ${message.text}` :
+              message.text
+            );
+            break;
+          case 'truncated':
+            warnings.push(`Output truncated after ${maxOutputLength} characters`);
+            break;
+          case 'done':
+            settle({
+              success: message.error === undefined,
+              output: output(),
+              returnValue: message.value,
+              error: message.error,
+              executionTime: message.executionTime,
+              memoryUsage: message.memoryUsage
+            });
+            break;
+        }
+      };
+
+      // The worker failed to load, or crashed, for instance out of memory
+      worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        settle({ success: false, output: output(), error: event.message || 'The sandbox stopped unexpectedly' });
+      };
+
+      const request: SandboxRequest = { code, maxOutputLength, maxHeapBytes };
+      worker.postMessage(request);
+    });
+  }
+}
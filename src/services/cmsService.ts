@@ -1,5 +1,6 @@
 // Content Management System Service for Wanderlust Platform
 import { enhancedApiService } from './EnhancedApiService';
+import { isLive, reviewDue, ReviewDue } from '../utils/contentSchedule';
 
 export interface ContentItem {
   id: string;
@@ -12,6 +13,10 @@ export interface ContentItem {
   path: string;
   category: string;
   tags: string[];
+  /** ISO date the item goes live; a published item before it is scheduled */
+  publishAt?: string;
+  /** ISO date the item should be checked again */
+  reviewBy?: string;
 }
 
 export interface ContentDetails extends ContentItem {
@@ -25,6 +30,8 @@ export interface CreateContentRequest {
   category: string;
   tags: string[];
   metadata?: Record<string, any>;
+  publishAt?: string;
+  reviewBy?: string;
 }
 
 export interface UpdateContentRequest extends CreateContentRequest {}
@@ -182,6 +189,22 @@ class CmsService {
     return response.data;
   }
 
+  // Scheduling
+  /**
+   * Items past their review date or coming up for review, most urgent first
+   */
+  getReviewQueue(items: ContentItem[], at = new Date()): (ContentItem & { due: ReviewDue })[] {
+    return items
+      .filter(item => item.status !== 'archived')
+      .map(item => ({ ...item, due: reviewDue(item.reviewBy, at) }))
+      .filter((item): item is ContentItem & { due: ReviewDue } => item.due !== null)
+      .sort((a, b) => new Date(a.reviewBy!).getTime() - new Date(b.reviewBy!).getTime());
+  }
+
+  isScheduled(item: ContentItem, at = new Date()): boolean {
+    return item.status === 'published' && !isLive(item.publishAt, at);
+  }
+
   // Utility methods
   formatFileSize(bytes: number): string {
     if (bytes === 0) return '0 Bytes';
@@ -0,0 +1,240 @@
+/**
+ * Code Sandbox Worker
+ * Runs one JavaScript program for SandboxedCodeExecutionService and is then
+ * terminated. Network, storage and worker APIs are removed before the code
+ * runs and it cannot load modules (sandboxGuards.ts). Console output is
+ * streamed back as it is written, and the run ends once the program's
+ * promise settles and none of its timers are pending.
+ */
+
+import { EvaluationScope, assertNoDynamicImport, guardCodeEvaluation } from '../utils/sandboxGuards';
+
+export interface SandboxRequest {
+  code: string;
+  /** Characters of console output kept; later output is dropped */
+  maxOutputLength: number;
+  /** Heap size that stops the run, where the browser reports it */
+  maxHeapBytes: number;
+}
+
+export type SandboxConsoleLevel = 'log' | 'info' | 'debug' | 'warn' | 'error';
+
+export type SandboxMessage =
+  | { type: 'console'; level: SandboxConsoleLevel; text: string }
+  | { type: 'truncated' }
+  | {
+      type: 'done';
+      /** The program's completion value, formatted; absent when undefined */
+      value?: string;
+      error?: string;
+      executionTime: number;
+      memoryUsage?: number;
+    };
+
+/** The worker's global scope, with what the run replaces on it */
+interface SandboxScope extends EvaluationScope {
+  postMessage(message: SandboxMessage): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<SandboxRequest>) => void): void;
+  addEventListener(type: 'unhandledrejection', listener: (event: PromiseRejectionEvent) => void): void;
+  addEventListener(type: 'error', listener: (event: ErrorEvent) => void): void;
+  setTimeout(callback: Function, delay?: number, ...args: unknown[]): number;
+  clearTimeout(id: number): void;
+  setInterval(callback: Function, delay?: number, ...args: unknown[]): number;
+  clearInterval(id: number): void;
+  console: Partial<Console>;
+  exports: object;
+  module: { exports: object };
+  require(name: string): never;
+}
+
+const scope = self as unknown as SandboxScope;
+const post = scope.postMessage.bind(scope);
+
+const BLOCKED_GLOBALS = [
+  'fetch',
+  'XMLHttpRequest',
+  'WebSocket',
+  'WebTransport',
+  'EventSource',
+  'importScripts',
+  'indexedDB',
+  'caches',
+  'Worker',
+  'SharedWorker',
+  'BroadcastChannel',
+  'postMessage'
+];
+
+// Globals live on the scope or one of its prototypes
+const removeGlobal = (name: string) => {
+  for (let target: object | null = scope; target; target = Object.getPrototypeOf(target)) {
+    if (Object.prototype.hasOwnProperty.call(target, name)) {
+      delete (target as Record<string, unknown>)[name];
+    }
+  }
+};
+
+// Only Chromium reports the heap, as the non-standard performance.memory
+const heapUsed = (): number | undefined =>
+  (performance as Performance & { memory?: { usedJSHeapSize: number } }).memory?.usedJSHeapSize;
+
+// Console arguments as Node prints them, close enough for example output
+function formatValue(value: unknown, seen = new WeakSet<object>()): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'function') return `[Function: ${value.name || 'anonymous'}]`;
+  if (typeof value === 'bigint') return `${value}n`;
+  if (typeof value === 'symbol') return value.toString();
+  if (value === null || typeof value !== 'object') return String(value);
+  if (value instanceof Error) return `${value.name}: ${value.message}`;
+  if (seen.has(value)) return '[Circular]';
+  seen.add(value);
+
+  const nested = (item: unknown) => (typeof item === 'string' ? JSON.stringify(item) : formatValue(item, seen));
+  if (Array.isArray(value)) return `[ ${value.map(nested).join(', ')} ]`;
+  if (value instanceof Map) return `Map(${value.size}) { ${[...value].map(([k, v]) => `${nested(k)} => ${nested(v)}`).join(', ')} }`;
+  if (value instanceof Set) return `Set(${value.size}) { ${[...value].map(nested).join(', ')} }`;
+  if (value instanceof Date) return value.toISOString();
+  const entries = Object.entries(value).map(([key, item]) => `${key}: ${nested(item)}`);
+  return entries.length > 0 ? `{ ${entries.join(', ')} }` : '{}';
+}
+
+const nativeSetTimeout = setTimeout;
+const nativeClearTimeout = clearTimeout;
+const nativeSetInterval = setInterval;
+const nativeClearInterval = clearInterval;
+
+const run = async ({ code, maxOutputLength, maxHeapBytes }: SandboxRequest) => {
+  let outputLength = 0;
+  let finished = false;
+  let settled = false;
+  let value: string | undefined;
+  const timeouts = new Set<number>();
+  const intervals = new Set<number>();
+  const startTime = performance.now();
+
+  const finish = (error?: unknown) => {
+    if (finished) return;
+    finished = true;
+    post({
+      type: 'done',
+      value,
+      error: error === undefined ? undefined : formatValue(error),
+      executionTime: performance.now() - startTime,
+      memoryUsage: heapUsed()
+    });
+  };
+
+  const checkHeap = () => {
+    const used = heapUsed();
+    if (used !== undefined && used > maxHeapBytes) {
+      throw new RangeError(`Memory limit exceeded (${Math.round(used / 1024 / 1024)} MB in use)`);
+    }
+  };
+
+  // Done once the program returned and nothing it scheduled is left to run
+  const finishIfIdle = () => {
+    if (settled && timeouts.size === 0 && intervals.size === 0) {
+      // Let promise callbacks queued by the last task run first
+      nativeSetTimeout(() => {
+        if (timeouts.size === 0 && intervals.size === 0) finish();
+      }, 0);
+    }
+  };
+
+  const write = (level: SandboxConsoleLevel, args: unknown[]) => {
+    if (finished || outputLength > maxOutputLength) return;
+    checkHeap();
+    const text = args.map(arg => formatValue(arg)).join(' ');
+    outputLength += text.length + 1;
+    if (outputLength > maxOutputLength) {
+      post({ type: 'truncated' });
+      return;
+    }
+    post({ type: 'console', level, text });
+  };
+
+  const guarded = (callback: Function, args: unknown[]) => {
+    try {
+      checkHeap();
+      callback(...args);
+    } catch (error) {
+      finish(error);
+    }
+  };
+
+  scope.setTimeout = (callback: Function, delay?: number, ...args: unknown[]) => {
+    const id = nativeSetTimeout(() => {
+      timeouts.delete(id);
+      guarded(callback, args);
+      finishIfIdle();
+    }, delay) as unknown as number;
+    timeouts.add(id);
+    return id;
+  };
+  scope.clearTimeout = (id: number) => {
+    timeouts.delete(id);
+    nativeClearTimeout(id);
+    finishIfIdle();
+  };
+  scope.setInterval = (callback: Function, delay?: number, ...args: unknown[]) => {
+    const id = nativeSetInterval(() => guarded(callback, args), delay) as unknown as number;
+    intervals.add(id);
+    return id;
+  };
+  scope.clearInterval = (id: number) => {
+    intervals.delete(id);
+    nativeClearInterval(id);
+    finishIfIdle();
+  };
+
+  scope.console = {
+    log: (...args: unknown[]) => write('log', args),
+    info: (...args: unknown[]) => write('info', args),
+    debug: (...args: unknown[]) => write('debug', args),
+    dir: (item: unknown) => write('log', [item]),
+    table: (item: unknown) => write('log', [item]),
+    warn: (...args: unknown[]) => write('warn', args),
+    error: (...args: unknown[]) => write('error', args),
+    assert: (condition: unknown, ...args: unknown[]) => {
+      if (!condition) write('error', ['Assertion failed', ...args]);
+    }
+  };
+
+  // CommonJS output of the TypeScript compiler refers to these
+  scope.exports = {};
+  scope.module = { exports: scope.exports };
+  scope.require = (name: string) => {
+    throw new Error(`Cannot load module '${name}': modules are not available in the sandbox`);
+  };
+
+  scope.addEventListener('unhandledrejection', event => finish(event.reason));
+  scope.addEventListener('error', event => finish(event.error ?? event.message));
+  BLOCKED_GLOBALS.forEach(removeGlobal);
+  guardCodeEvaluation(scope);
+
+  try {
+    assertNoDynamicImport(code);
+    let result: unknown;
+    try {
+      result = (0, eval)(code);
+    } catch (error) {
+      // Top-level await is only valid in a module; run the program as an async function instead
+      if (!(error instanceof SyntaxError && /await/.test(error.message))) throw error;
+      result = (0, eval)(`(async () => {\n${code}\n})()`);
+    }
+    const completion = result instanceof Promise ? await result : result;
+    if (completion !== undefined) {
+      value = formatValue(completion);
+    }
+  } catch (error) {
+    finish(error);
+    return;
+  }
+
+  settled = true;
+  finishIfIdle();
+};
+
+scope.addEventListener('message', (event: MessageEvent<SandboxRequest>) => {
+  run(event.data);
+});
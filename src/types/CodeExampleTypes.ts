@@ -61,6 +61,8 @@ export interface CodeExample {
   dependencies?: string[];
   setupInstructions?: string;
   expectedOutput?: string;
+  /** How `npm run verify:examples` compares the output with expectedOutput */
+  outputNormalization?: OutputNormalization;
   
   // Learning and navigation
   relatedArticles: string[];
@@ -86,6 +88,16 @@ export interface CodeExample {
   interactiveElements?: InteractiveElement[];
 }
 
+export interface OutputNormalization {
+  /** Ignore trailing spaces, line-ending style and blank lines around the output (default true) */
+  trimWhitespace?: boolean;
+  /** Treat every run of whitespace as one space */
+  collapseWhitespace?: boolean;
+  ignoreCase?: boolean;
+  /** `contains` passes when the expected text appears in the output; `regex` treats it as a pattern */
+  match?: 'exact' | 'contains' | 'regex';
+}
+
 export interface CodeExampleVariation {
   id: string;
   name: string;
@@ -157,9 +169,27 @@ export interface CodeExampleSearchResult {
   relatedCollections: CodeExampleCollection[];
 }
 
+export interface CodeExampleMatchOptions {
+  /** Only examples in these languages, as in a `lang:` qualifier */
+  languages?: string[];
+  /** Match words only in the code, or only outside it, as in an `in:` qualifier */
+  scope?: 'code' | 'text';
+  limit?: number;
+}
+
+export interface CodeExampleMatch {
+  example: CodeExample;
+  score: number;
+  /** The search words the example contains */
+  matchedTerms: string[];
+}
+
 export interface CodeExecutionResult {
   success: boolean;
+  /** Console output, one line per call */
   output?: string;
+  /** The program's completion value, when it has one */
+  returnValue?: string;
   error?: string;
   executionTime?: number;
   memoryUsage?: number;
@@ -235,11 +265,41 @@ export interface CodeExampleRepository {
   trackUsage(exampleId: string, action: 'view' | 'execute' | 'copy' | 'share'): Promise<boolean>;
 }
 
+export interface ExecutionEnvironmentInfo {
+  available: boolean;
+  version: string;
+  features: string[];
+  /** Name of the backend that runs the code, when one can */
+  backend?: string;
+  /** Why the code cannot run, or how to make it run */
+  hint?: string;
+}
+
 export interface CodeExecutionService {
   execute(code: string, language: ProgrammingLanguage, environment: ExecutionEnvironment): Promise<CodeExecutionResult>;
   validateCode(code: string, language: ProgrammingLanguage): Promise<{ valid: boolean; errors: string[] }>;
   formatCode(code: string, language: ProgrammingLanguage): Promise<string>;
-  getEnvironmentInfo(environment: ExecutionEnvironment): Promise<{ available: boolean; version: string; features: string[] }>;
+  /** With a language, about the backend that would run code in it */
+  getEnvironmentInfo(environment: ExecutionEnvironment, language?: ProgrammingLanguage): Promise<ExecutionEnvironmentInfo>;
+}
+
+/**
+ * Something that can run code, registered with the execution service. The
+ * service picks the first available backend that supports an example's
+ * language and environment.
+ */
+export interface ExecutionBackend {
+  id: string;
+  name: string;
+  languages: ProgrammingLanguage[];
+  supports(language: ProgrammingLanguage, environment: ExecutionEnvironment): boolean;
+  /**
+   * Whether the backend can run code now, for instance whether its server
+   * responds, and with a language whether it has a toolchain for it
+   */
+  getInfo(language?: ProgrammingLanguage): Promise<ExecutionEnvironmentInfo>;
+  execute(code: string, language: ProgrammingLanguage, environment: ExecutionEnvironment): Promise<CodeExecutionResult>;
+  validateCode?(code: string, language: ProgrammingLanguage): Promise<{ valid: boolean; errors: string[] }>;
 }
 
 // Hook options and return types
@@ -1,3 +1,5 @@
+export type DifficultyLevel = 'beginner' | 'intermediate' | 'advanced';
+
 export interface ComponentMetadata {
   id: string;
   title?: string;
@@ -6,7 +8,7 @@ export interface ComponentMetadata {
   created?: Date;
   updated?: Date;
   tags?: string[];
-  difficulty?: 'beginner' | 'intermediate' | 'advanced';
+  difficulty?: DifficultyLevel;
   estimatedReadTime?: number;
   prerequisites?: string[];
   relatedComponents?: string[];
@@ -39,10 +41,36 @@ export interface ArticleStructure {
   };
 }
 
+// Frontmatter block carried by articles under public/content
+export interface ArticleFrontmatter {
+  title?: string;
+  description?: string;
+  category?: string;
+  tags?: string[] | string;
+  difficulty?: string;
+  date?: string | Date;
+  author?: string;
+  estimated_reading_time?: string | number;
+  prerequisites?: string[];
+  /** Sidebar position among siblings; lower comes first */
+  order?: number;
+  /** Shorter title for the sidebar */
+  nav_title?: string;
+  /** Top-level sidebar group to list the article in instead of its directory */
+  nav_group?: string;
+  /** Leave the article out of the sidebar */
+  hidden?: boolean;
+  /** Not served before this date and time */
+  publish_at?: string | Date;
+  /** When the article should be checked again; readers are told once it has passed */
+  review_by?: string | Date;
+  [key: string]: unknown;
+}
+
 // Component content type definitions
 export interface MarkdownContent {
   source: string;
-  frontmatter?: Record<string, any>;
+  frontmatter?: ArticleFrontmatter;
 }
 
 export interface InteractiveContent {
@@ -157,7 +185,7 @@ export interface QuizContent {
 }
 
 export interface CodePlaygroundContent {
-  language: 'javascript' | 'typescript' | 'cpp' | 'python' | 'html' | 'css';
+  language: 'javascript' | 'typescript' | 'cpp' | 'python' | 'html' | 'css' | 'gn' | 'mojom';
   initialCode: string;
   expectedOutput?: string;
   solution?: string;
@@ -17,11 +17,33 @@ export interface ContentVersion {
   status: VersionStatus;
   parentVersionId?: string;
   mergeInfo?: MergeInfo;
+  /** Most recent review */
   reviewInfo?: ReviewInfo;
+  /** Every review submitted since review was requested, oldest first */
+  reviews?: ReviewInfo[];
+  /** Comments anchored to lines of the diff against the parent version */
+  reviewComments?: ReviewComment[];
+  /** The git commit this version was exported from, for article files in the repository */
+  commit?: GitCommitInfo;
+  /** When the version goes live: an approved version with a later date is scheduled */
+  publishAt?: Date;
+  /** When the content should be checked again, for time-sensitive articles */
+  reviewBy?: Date;
   tags: string[];
   hash: string;
 }
 
+export interface GitCommitInfo {
+  hash: string;
+  shortHash: string;
+  /** Subject line of the commit message */
+  message: string;
+  /** Path of the file in this commit, which differs from the current one after a rename */
+  path: string;
+  additions: number;
+  deletions: number;
+}
+
 export interface ContentMetadata {
   wordCount: number;
   readingTime: number;
@@ -90,10 +112,22 @@ export interface MergeInfo {
 }
 
 export interface MergeConflict {
+  /** Stable for the same three texts, so a resolution can refer to it */
+  id: string;
   section: string;
   description: string;
+  /** The conflicting lines as the branch being merged has them */
   sourceContent: string;
+  /** The conflicting lines as the branch merged into has them */
   targetContent: string;
+  /** The lines both branches changed, as in their common ancestor */
+  baseContent: string;
+  /** 1-based line ranges of the hunk in each text; `end` is inclusive and `start - 1` for no lines */
+  lineNumbers: {
+    base: { start: number; end: number };
+    source: { start: number; end: number };
+    target: { start: number; end: number };
+  };
   resolution?: string;
   resolvedBy?: string;
   resolvedAt?: Date;
@@ -104,6 +138,7 @@ export type MergeStrategy = 'auto' | 'manual' | 'smart_merge' | 'conflict_resolu
 export interface ReviewInfo {
   reviewerId: string;
   reviewerName: string;
+  reviewerRole?: VersionAuthor['role'];
   reviewedAt: Date;
   status: ReviewStatus;
   comments: ReviewComment[];
@@ -115,6 +150,10 @@ export interface ReviewComment {
   id: string;
   section: string;
   lineNumber?: number;
+  /** Side of the diff the line number refers to: the parent version or this one */
+  side?: 'old' | 'new';
+  authorId?: string;
+  authorName?: string;
   comment: string;
   type: 'suggestion' | 'issue' | 'praise' | 'question';
   severity: 'low' | 'medium' | 'high' | 'critical';
@@ -203,6 +242,8 @@ export interface VersionHistory {
   latestVersion: ContentVersion;
   publishedVersion?: ContentVersion;
   statistics: VersionStatistics;
+  /** Incremented by the storage adapter on every save; absent until first saved */
+  revision?: number;
 }
 
 export interface VersionStatistics {
@@ -297,6 +338,8 @@ export interface CollaborativeSession {
 
 export interface SessionParticipant {
   userId: string;
+  /** Tells apart the same user on several pages */
+  connectionId?: string;
   name: string;
   role: 'editor' | 'reviewer' | 'observer';
   joinedAt: Date;
@@ -326,6 +369,7 @@ export interface RealTimeChange {
 
 export interface CursorPosition {
   userId: string;
+  connectionId?: string;
   position: number;
   selection?: {
     start: number;
@@ -344,10 +388,37 @@ export interface SessionComment {
   replies: SessionComment[];
 }
 
+export interface ReviewRules {
+  /** Approvals from distinct reviewers needed before publishing */
+  requiredApprovals: number;
+  /** Change impacts that additionally need a maintainer's approval */
+  maintainerApprovalFor: ChangeImpact[];
+  /** Roles whose reviews count */
+  reviewerRoles: VersionAuthor['role'][];
+  /** Whether the version's author may approve it */
+  allowSelfApproval: boolean;
+  /** Unresolved review comments of these severities block publishing */
+  blockingSeverities: ReviewComment['severity'][];
+}
+
+/** How far a version is from meeting the review rules */
+export interface ReviewState {
+  approvals: number;
+  requiredApprovals: number;
+  maintainerRequired: boolean;
+  maintainerApproved: boolean;
+  /** Reviewers whose latest review asks for changes */
+  changesRequestedBy: string[];
+  unresolvedBlockingComments: number;
+  /** Why the version cannot be published yet; empty when it can */
+  blockers: string[];
+}
+
 export interface VersioningConfiguration {
   maxVersionsPerContent: number;
   autoArchiveAfterDays: number;
   requireReviewForPublish: boolean;
+  reviewRules: ReviewRules;
   allowAnonymousContributions: boolean;
   enableRealTimeCollaboration: boolean;
   enableAutoMerge: boolean;
@@ -0,0 +1,16 @@
+/**
+ * API Responses
+ * Reading payloads out of the `{ success, data }` envelope the API wraps its
+ * answers in.
+ */
+
+/** A list endpoint's answer: the envelope, or the bare list some endpoints return */
+export type ListResponse<T> = { data?: T[] | null } | T[];
+
+/**
+ * The items of a list endpoint's answer, whether or not it came wrapped in
+ * the envelope; an envelope without data holds no items.
+ */
+export function responseItems<T>(response: ListResponse<T>): T[] {
+  return Array.isArray(response) ? response : response.data ?? [];
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { harvestCodeExamples, parseInfoString } from './codeExampleCatalog';
+
+const harvest = (markdown: string) =>
+  harvestCodeExamples({ file: 'chromium/apis/mojo.md', markdown, updatedAt: new Date('2025-01-01T00:00:00Z') });
+
+const ARTICLE = [
+  '---',
+  'title: Mojo',
+  'description: About Mojo',
+  'difficulty: advanced',
+  'tags: [ipc]',
+  'date: 2024-01-02',
+  '---',
+  '# Mojo',
+  '',
+  '## Binding a Remote',
+  '',
+  '```cpp example id=mojo-remote runnable match=contains',
+  'int main() {}',
+  '```',
+  '',
+  '```text output',
+  'hello',
+  '```',
+  ''
+].join('\n');
+
+describe('parseInfoString', () => {
+  it('splits the language, flags and attributes', () => {
+    expect(parseInfoString('c++ example id=mojo-remote title="Binding a Remote" runnable')).toEqual({
+      language: 'c++',
+      flags: ['example', 'runnable'],
+      attributes: { id: 'mojo-remote', title: 'Binding a Remote' }
+    });
+  });
+});
+
+describe('harvestCodeExamples', () => {
+  it('collects an example with defaults from its heading and article', () => {
+    const { examples, issues } = harvest(ARTICLE);
+
+    expect(issues).toEqual([]);
+    expect(examples).toHaveLength(1);
+    expect(examples[0]).toMatchObject({
+      id: 'mojo-remote',
+      title: 'Binding a Remote',
+      description: 'About Mojo',
+      code: 'int main() {}',
+      language: 'cpp',
+      category: 'utilities',
+      tags: ['ipc'],
+      difficulty: 'advanced',
+      runnable: true,
+      environment: 'interactive',
+      relatedArticles: ['/chromium/apis/mojo'],
+      createdAt: '2024-01-02T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z',
+      source: { file: 'chromium/apis/mojo.md', line: 12 }
+    });
+  });
+
+  it('attaches the output block that follows an example', () => {
+    const [example] = harvest(ARTICLE).examples;
+
+    expect(example.expectedOutput).toBe('hello');
+    expect(example.outputNormalization).toEqual({ match: 'contains' });
+  });
+
+  it('takes attributes over the defaults', () => {
+    const [example] = harvest(
+      '```python example id=gn-args language=gn title="GN arguments" category=build-system difficulty=beginner tags=gn,build\nis_debug = true\n```\n'
+    ).examples;
+
+    expect(example).toMatchObject({
+      language: 'gn',
+      title: 'GN arguments',
+      category: 'build-system',
+      difficulty: 'beginner',
+      tags: ['gn', 'build'],
+      environment: 'static'
+    });
+  });
+
+  it('leaves plain code blocks alone', () => {
+    expect(harvest('```cpp\nint x;\n```\n')).toEqual({ examples: [], issues: [] });
+  });
+
+  it('reports blocks it cannot use, with their lines', () => {
+    const { examples, issues } = harvest([
+      '```js example id=Bad_Id',
+      'x',
+      '```',
+      '',
+      '```text output',
+      'orphan',
+      '```',
+      '',
+      '```cobol example id=old',
+      'x',
+      '```',
+      '',
+      '```js example',
+      'x',
+      '```'
+    ].join('\n'));
+
+    expect(examples).toEqual([]);
+    expect(issues).toEqual([
+      { file: 'chromium/apis/mojo.md', line: 1, message: 'Example id "Bad_Id" must be lowercase words joined by dashes' },
+      { file: 'chromium/apis/mojo.md', line: 5, message: 'Output block does not follow an example' },
+      { file: 'chromium/apis/mojo.md', line: 9, message: 'Example old is written in cobol, which examples do not support' },
+      { file: 'chromium/apis/mojo.md', line: 13, message: 'Example has no id' }
+    ]);
+  });
+});
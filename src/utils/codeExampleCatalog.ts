@@ -0,0 +1,239 @@
+/**
+ * Code Example Catalog
+ * Code examples live in the articles that explain them, as fenced blocks
+ * whose info string has the `example` flag:
+ *
+ *   ```cpp example id=mojo-remote title="Binding a Remote" category=architecture
+ *
+ * `npm run build:code-examples` collects them into src/data/codeExamples.json,
+ * the catalog CodeExamplesService loads. Attributes are `key=value` or
+ * `key="quoted value"`, other words are flags; see ExampleAttributes. A
+ * block with the `output` flag (```text output) right after an example is
+ * that example's expected output.
+ */
+
+import {
+  CodeExample,
+  CodeExampleCategory,
+  DifficultyLevel,
+  ExecutionEnvironment,
+  OutputNormalization,
+  ProgrammingLanguage
+} from '../types/CodeExampleTypes';
+import { normalizeTags, parseDifficulty, parseFrontmatter, parseFrontmatterDate } from './frontmatter';
+import { extractCodeBlocks, extractHeadings, toPlainText } from './markdown';
+import { normalizeCodeLanguage } from './searchIndex';
+
+/**
+ * Attributes an example block understands. Lists are comma-separated.
+ *
+ * - `id` (required): stable id, lowercase words joined by dashes
+ * - `title`: defaults to the heading the block is under
+ * - `description`: defaults to the article's description
+ * - `language`: overrides the fence language, e.g. for GN written as ```python
+ * - `category`, `subcategory`, `difficulty` (defaults to the article's), `tags`
+ * - `runnable` (flag) and `environment` (defaults to `interactive` when
+ *   runnable, `static` otherwise)
+ * - `requires` (dependencies), `setup` (setup instructions)
+ * - `related` (ids of related examples), `objectives`, `prerequisites`
+ * - `match` and the `ignore-case` and `collapse-whitespace` flags: how the
+ *   expected output is compared (see OutputNormalization)
+ */
+export type ExampleAttributes = Record<string, string>;
+
+export interface ParsedInfoString {
+  /** Fence language as written, e.g. `c++` */
+  language: string;
+  flags: string[];
+  attributes: ExampleAttributes;
+}
+
+/** An example as stored in the generated catalog, with dates as ISO strings */
+export interface CodeExampleCatalogEntry extends Omit<CodeExample, 'createdAt' | 'updatedAt'> {
+  createdAt: string;
+  updatedAt: string;
+  /** Article file under public/content and the line of the example's fence */
+  source: {
+    file: string;
+    line: number;
+  };
+}
+
+export interface CodeExampleArticle {
+  /** Article file relative to public/content, e.g. `chromium/apis/mojo_and_services.md` */
+  file: string;
+  markdown: string;
+  /** When the article last changed, for examples without a frontmatter `date` */
+  updatedAt: Date;
+}
+
+export interface CodeExampleHarvestIssue {
+  file: string;
+  line: number;
+  message: string;
+}
+
+const LANGUAGES: ProgrammingLanguage[] = [
+  'javascript', 'typescript', 'cpp', 'python', 'html', 'css', 'json', 'bash', 'sql', 'yaml', 'markdown', 'gn', 'mojom'
+];
+const CATEGORIES: CodeExampleCategory[] = [
+  'architecture', 'getting-started', 'debugging', 'performance', 'security', 'networking',
+  'rendering', 'javascript-engine', 'build-system', 'testing', 'apis', 'utilities'
+];
+const DIFFICULTIES: DifficultyLevel[] = ['beginner', 'intermediate', 'advanced', 'expert'];
+const ENVIRONMENTS: ExecutionEnvironment[] = ['browser', 'node', 'chromium-devtools', 'build-system', 'static', 'interactive'];
+const OUTPUT_MATCHES: NonNullable<OutputNormalization['match']>[] = ['exact', 'contains', 'regex'];
+
+const EXAMPLE_ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const INFO_TOKEN_PATTERN = /([^\s=]+)(?:=(?:"([^"]*)"|(\S*)))?/g;
+
+const list = (value: string | undefined): string[] =>
+  value ? value.split(',').map(item => item.trim()).filter(Boolean) : [];
+
+const oneOf = <T extends string>(allowed: T[], value: string | undefined): T | undefined =>
+  allowed.includes(value as T) ? value as T : undefined;
+
+/**
+ * Split a fence info string into its language, flags and attributes.
+ */
+export function parseInfoString(info: string): ParsedInfoString {
+  const [language = '', ...rest] = info.trim().split(/\s+/);
+  const flags: string[] = [];
+  const attributes: ExampleAttributes = {};
+  for (const match of rest.join(' ').matchAll(INFO_TOKEN_PATTERN)) {
+    const [, key, quoted, bare] = match;
+    if (quoted === undefined && bare === undefined) {
+      flags.push(key);
+    } else {
+      attributes[key] = quoted ?? bare;
+    }
+  }
+  return { language, flags, attributes };
+}
+
+/** Article path the app routes to, e.g. `/chromium/apis/mojo_and_services` */
+export const articleLink = (file: string): string => `/${file.replace(/\.md$/, '')}`;
+
+/**
+ * Collect the example blocks of one article.
+ */
+export function harvestCodeExamples(article: CodeExampleArticle): {
+  examples: CodeExampleCatalogEntry[];
+  issues: CodeExampleHarvestIssue[];
+} {
+  const { frontmatter, body, bodyStartLine } = parseFrontmatter(article.markdown);
+  const headings = extractHeadings(body);
+  const articleTitle = (typeof frontmatter.title === 'string' && frontmatter.title)
+    || headings.find(heading => heading.level === 1)?.text
+    || article.file;
+  const articleDescription = typeof frontmatter.description === 'string' ? frontmatter.description : undefined;
+  const updatedAt = article.updatedAt.toISOString();
+  const createdAt = parseFrontmatterDate(frontmatter.date)?.toISOString() ?? updatedAt;
+
+  const examples: CodeExampleCatalogEntry[] = [];
+  const issues: CodeExampleHarvestIssue[] = [];
+  let previous: { example: CodeExampleCatalogEntry | null; info: ParsedInfoString } | null = null;
+
+  for (const block of extractCodeBlocks(body)) {
+    const line = block.line + bodyStartLine - 1;
+    const info = parseInfoString(block.info);
+    const { language, flags, attributes } = info;
+    const report = (message: string) => issues.push({ file: article.file, line, message });
+
+    if (flags.includes('output')) {
+      if (!previous?.example) {
+        report('Output block does not follow an example');
+      } else {
+        previous.example.expectedOutput = block.code;
+        previous.example.outputNormalization = outputNormalization(previous.info, report);
+      }
+      previous = null;
+      continue;
+    }
+    if (!flags.includes('example')) {
+      previous = { example: null, info };
+      continue;
+    }
+
+    const id = attributes.id;
+    const exampleLanguage = oneOf(LANGUAGES, normalizeCodeLanguage(attributes.language ?? language));
+    if (!id || !EXAMPLE_ID_PATTERN.test(id)) {
+      report(id ? `Example id "${id}" must be lowercase words joined by dashes` : 'Example has no id');
+      previous = { example: null, info };
+      continue;
+    }
+    if (!exampleLanguage) {
+      report(`Example ${id} is written in ${attributes.language ?? (language || 'no language')}, which examples do not support`);
+      previous = { example: null, info };
+      continue;
+    }
+
+    const category = attributes.category;
+    if (category && !oneOf(CATEGORIES, category)) {
+      report(`Example ${id} has unknown category "${category}"`);
+    }
+    const difficulty = attributes.difficulty;
+    if (difficulty && !oneOf(DIFFICULTIES, difficulty)) {
+      report(`Example ${id} has unknown difficulty "${difficulty}"`);
+    }
+    const runnable = flags.includes('runnable');
+    const environment = attributes.environment;
+    if (environment && !oneOf(ENVIRONMENTS, environment)) {
+      report(`Example ${id} has unknown environment "${environment}"`);
+    }
+
+    const heading = [...headings].reverse().find(h => h.line < block.line);
+    const tags = attributes.tags ? list(attributes.tags) : normalizeTags(frontmatter.tags);
+    const example: CodeExampleCatalogEntry = {
+      id,
+      title: attributes.title ?? (heading ? toPlainText(heading.text) : articleTitle),
+      description: attributes.description ?? articleDescription ?? `From "${articleTitle}"`,
+      code: block.code,
+      language: exampleLanguage,
+      category: oneOf(CATEGORIES, category) ?? 'utilities',
+      subcategory: attributes.subcategory,
+      tags,
+      difficulty: oneOf(DIFFICULTIES, difficulty) ?? parseDifficulty(frontmatter.difficulty) ?? 'intermediate',
+      runnable,
+      environment: oneOf(ENVIRONMENTS, environment) ?? (runnable ? 'interactive' : 'static'),
+      dependencies: list(attributes.requires),
+      setupInstructions: attributes.setup,
+      relatedArticles: [articleLink(article.file)],
+      relatedExamples: list(attributes.related),
+      learningObjectives: list(attributes.objectives),
+      prerequisites: attributes.prerequisites ? list(attributes.prerequisites) : undefined,
+      author: typeof frontmatter.author === 'string' ? frontmatter.author : 'WanderLust Knowledge Base',
+      createdAt,
+      updatedAt,
+      version: '1.0',
+      verified: false,
+      popularity: 0,
+      ratings: { average: 0, count: 0 },
+      source: { file: article.file, line }
+    };
+    examples.push(example);
+    previous = { example, info };
+  }
+
+  return { examples, issues };
+}
+
+function outputNormalization({ flags, attributes }: ParsedInfoString, report: (message: string) => void): OutputNormalization | undefined {
+  const match = attributes.match;
+  if (match && !oneOf(OUTPUT_MATCHES, match)) {
+    report(`Unknown output match "${match}"; use ${OUTPUT_MATCHES.join(', ')}`);
+  }
+  const normalization: OutputNormalization = {
+    ...(oneOf(OUTPUT_MATCHES, match) && { match: match as OutputNormalization['match'] }),
+    ...(flags.includes('ignore-case') && { ignoreCase: true }),
+    ...(flags.includes('collapse-whitespace') && { collapseWhitespace: true })
+  };
+  return Object.keys(normalization).length > 0 ? normalization : undefined;
+}
+
+/**
+ * A catalog entry as the CodeExample the app works with.
+ */
+export function toCodeExample(entry: CodeExampleCatalogEntry): CodeExample {
+  return { ...entry, createdAt: new Date(entry.createdAt), updatedAt: new Date(entry.updatedAt) };
+}
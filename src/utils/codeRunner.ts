@@ -0,0 +1,52 @@
+/**
+ * Code Runner Protocol
+ * Requests and responses of the local code runner (scripts/code-runner.ts),
+ * which compiles and runs C++, Python and Node examples on a developer
+ * machine for LocalRunnerBackend.
+ */
+
+export const DEFAULT_CODE_RUNNER_PORT = 5080;
+
+export type CodeRunnerLanguage = 'cpp' | 'python' | 'javascript';
+
+export const CODE_RUNNER_LANGUAGES: CodeRunnerLanguage[] = ['cpp', 'python', 'javascript'];
+
+/** Body of `POST /run` */
+export interface CodeRunnerRequest {
+  language: CodeRunnerLanguage;
+  code: string;
+  stdin?: string;
+}
+
+/** Response of `POST /run` */
+export interface CodeRunnerResult {
+  success: boolean;
+  /** Standard output of the program */
+  output: string;
+  /** Compiler errors, standard error of a failed run, or why the run was stopped */
+  error?: string;
+  /** Compiler warnings and standard error of a successful run */
+  warnings: string[];
+  /** Null when the program was killed */
+  exitCode: number | null;
+  timedOut: boolean;
+  /** Milliseconds the program ran, not counting compilation */
+  executionTime: number;
+}
+
+export interface CodeRunnerToolchain {
+  available: boolean;
+  /** First line of the tool's `--version` */
+  version: string;
+}
+
+/** Response of `GET /info` */
+export interface CodeRunnerInfo {
+  version: string;
+  languages: Record<CodeRunnerLanguage, CodeRunnerToolchain>;
+  limits: {
+    timeoutMs: number;
+    memoryBytes: number;
+    maxOutputLength: number;
+  };
+}
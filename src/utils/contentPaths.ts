@@ -0,0 +1,16 @@
+/**
+ * Content Path Utilities
+ * The file fallbacks ContentService uses to map an article path to a
+ * markdown file under public/content, shared with the build-time checkers.
+ */
+
+/** Suffixes tried in order for an article path, e.g. `architecture/overview` */
+export const CONTENT_FILE_FALLBACKS = ['.md', '/overview.md', '/index.md', '/README.md'] as const;
+
+/**
+ * Candidate markdown files for an article path, relative to public/content.
+ */
+export function getContentFileCandidates(path: string): string[] {
+  const normalized = path.replace(/\/+$/, '');
+  return CONTENT_FILE_FALLBACKS.map(suffix => `${normalized}${suffix}`);
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { ContentVersion, VersionHistory, VersionStatus } from '../types/VersioningTypes';
+import { isLive, isScheduled, isScheduledArticle, reviewDue, servedVersion } from './contentSchedule';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+const version = (id: string, status: VersionStatus, timestamp: string, publishAt?: string): ContentVersion =>
+  ({ id, status, timestamp: new Date(timestamp), publishAt: publishAt ? new Date(publishAt) : undefined }) as ContentVersion;
+
+const history = (...versions: ContentVersion[]): VersionHistory => ({ versions }) as VersionHistory;
+
+describe('isLive', () => {
+  it('is live from the publish date on', () => {
+    expect(isLive('2025-06-01T12:00:00Z', NOW)).toBe(true);
+    expect(isLive('2025-06-01T12:00:01Z', NOW)).toBe(false);
+  });
+
+  it('treats content without a valid date as live', () => {
+    expect(isLive(undefined, NOW)).toBe(true);
+    expect(isLive('not a date', NOW)).toBe(true);
+  });
+});
+
+describe('isScheduledArticle', () => {
+  it('holds back an article whose publish_at is ahead', () => {
+    expect(isScheduledArticle('---\npublish_at: 2025-07-01\n---\nbody', NOW)).toBe(true);
+    expect(isScheduledArticle('---\npublish_at: 2025-05-01T09:00+02:00\n---\nbody', NOW)).toBe(false);
+    expect(isScheduledArticle('# No frontmatter', NOW)).toBe(false);
+  });
+});
+
+describe('reviewDue', () => {
+  it('flags content past its review date or coming up for review', () => {
+    expect(reviewDue('2025-05-31', NOW)).toBe('overdue');
+    expect(reviewDue('2025-06-10', NOW)).toBe('soon');
+    expect(reviewDue('2025-08-01', NOW)).toBeNull();
+    expect(reviewDue(undefined, NOW)).toBeNull();
+  });
+});
+
+describe('isScheduled', () => {
+  it('is an approved version with a publish date ahead', () => {
+    expect(isScheduled(version('v2', 'approved', '2025-05-01', '2025-07-01'), NOW)).toBe(true);
+    expect(isScheduled(version('v2', 'approved', '2025-05-01', '2025-05-02'), NOW)).toBe(false);
+    expect(isScheduled(version('v2', 'draft', '2025-05-01', '2025-07-01'), NOW)).toBe(false);
+  });
+});
+
+describe('servedVersion', () => {
+  const published = version('v1', 'published', '2025-01-01', '2025-01-02');
+
+  it('serves the published version', () => {
+    expect(servedVersion(history(published, version('v2', 'draft', '2025-05-01')), NOW)).toBe(published);
+  });
+
+  it('serves a scheduled version once its date has come', () => {
+    const scheduled = version('v2', 'approved', '2025-05-01', '2025-05-15');
+
+    expect(servedVersion(history(published, scheduled), NOW)).toBe(scheduled);
+    expect(servedVersion(history(published, scheduled), new Date('2025-05-14'))).toBe(published);
+  });
+
+  it('keeps a version published after a scheduled one came due', () => {
+    const scheduled = version('v2', 'approved', '2025-05-01', '2025-05-15');
+    const republished = version('v3', 'published', '2025-05-20', '2025-05-20');
+
+    expect(servedVersion(history(published, scheduled, republished), NOW)).toBe(republished);
+  });
+
+  it('serves nothing before anything is published', () => {
+    expect(servedVersion(history(version('v1', 'draft', '2025-05-01')), NOW)).toBeNull();
+  });
+});
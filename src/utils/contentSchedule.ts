@@ -0,0 +1,78 @@
+/**
+ * Content Schedule
+ * Dates that control when content is shown: `publishAt`, when a version or
+ * article goes live, and `reviewBy`, when time-sensitive content (release
+ * notes, guidance for a given Chromium version) should be checked again.
+ */
+
+import { ContentVersion, VersionHistory } from '../types/VersioningTypes';
+import { parseFrontmatter, parseFrontmatterDate } from './frontmatter';
+
+/** Content due for review within this many days is listed before it is overdue */
+export const REVIEW_SOON_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ReviewDue = 'overdue' | 'soon';
+
+const toDate = (value: Date | string | undefined): Date | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Whether content with this publish date is live at `at`; content without
+ * one always is
+ */
+export function isLive(publishAt: Date | string | undefined, at = new Date()): boolean {
+  const date = toDate(publishAt);
+  return !date || date.getTime() <= at.getTime();
+}
+
+/**
+ * Whether an article's frontmatter `publish_at` is still ahead at `at`. The
+ * build leaves such articles out until a build after that date.
+ */
+export function isScheduledArticle(markdown: string, at = new Date()): boolean {
+  return !isLive(parseFrontmatterDate(parseFrontmatter(markdown).frontmatter.publish_at), at);
+}
+
+/**
+ * Whether content is past its review date or comes up for review within
+ * REVIEW_SOON_DAYS; null when it is not due
+ */
+export function reviewDue(reviewBy: Date | string | undefined, at = new Date()): ReviewDue | null {
+  const date = toDate(reviewBy);
+  if (!date) {
+    return null;
+  }
+  if (date.getTime() <= at.getTime()) {
+    return 'overdue';
+  }
+  return date.getTime() - at.getTime() <= REVIEW_SOON_DAYS * DAY_MS ? 'soon' : null;
+}
+
+/**
+ * An approved version waiting for its publish date
+ */
+export const isScheduled = (version: ContentVersion, at = new Date()): boolean =>
+  version.status === 'approved' && version.publishAt !== undefined && !isLive(version.publishAt, at);
+
+/**
+ * The version readers see at `at`: the published one, unless a version
+ * scheduled after it has come due
+ */
+export function servedVersion(history: VersionHistory, at = new Date()): ContentVersion | null {
+  const goesLive = (version: ContentVersion) => new Date(version.publishAt ?? version.timestamp).getTime();
+  const candidates = history.versions.filter(version =>
+    version.status === 'published' ||
+    (version.status === 'approved' && version.publishAt !== undefined && isLive(version.publishAt, at))
+  );
+  return candidates.reduce<ContentVersion | null>(
+    (latest, version) => (!latest || goesLive(version) > goesLive(latest) ? version : latest),
+    null
+  );
+}
@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { buildContentTree, ContentTreeEntry, createContentTreeEntry } from './contentTree';
+
+describe('createContentTreeEntry', () => {
+  it('takes the title, description, order and hidden flag from frontmatter', () => {
+    const markdown = '---\ntitle: Mojo IPC\ndescription: How processes talk\norder: 2\nhidden: true\n---\n# Heading\n';
+
+    expect(createContentTreeEntry('architecture/mojo', markdown)).toEqual({
+      path: 'architecture/mojo',
+      title: 'Mojo IPC',
+      description: 'How processes talk',
+      order: 2,
+      hidden: true
+    });
+  });
+
+  it('prefers nav_title and reads nav_group', () => {
+    const markdown = '---\ntitle: Mojo Inter-Process Communication\nnav_title: Mojo\nnav_group: IPC\n---\n';
+
+    expect(createContentTreeEntry('architecture/mojo', markdown)).toEqual({
+      path: 'architecture/mojo',
+      title: 'Mojo',
+      group: 'IPC'
+    });
+  });
+
+  it('falls back to the first heading, then the file name', () => {
+    expect(createContentTreeEntry('a/site-isolation', '# Site Isolation Explained\n').title).toBe('Site Isolation Explained');
+    expect(createContentTreeEntry('a/site-isolation', 'No heading').title).toBe('Site Isolation');
+  });
+});
+
+describe('buildContentTree', () => {
+  const entry = (path: string, title: string, extra: Partial<ContentTreeEntry> = {}): ContentTreeEntry => ({
+    path,
+    title,
+    ...extra
+  });
+
+  it('groups articles by directory and sorts siblings by order, then title', () => {
+    const tree = buildContentTree([
+      entry('architecture/zeta', 'Zeta'),
+      entry('architecture/alpha', 'Alpha'),
+      entry('architecture/first', 'First', { order: 1 }),
+      entry('getting-started', 'Getting Started', { order: 0 })
+    ]);
+
+    expect(tree).toEqual([
+      { title: 'Getting Started', path: 'getting-started' },
+      {
+        title: 'Architecture',
+        children: [
+          { title: 'First', path: 'architecture/first' },
+          { title: 'Alpha', path: 'architecture/alpha' },
+          { title: 'Zeta', path: 'architecture/zeta' }
+        ]
+      }
+    ]);
+  });
+
+  it('sorts articles and groups among each other by order', () => {
+    const entries = [
+      entry('intro', 'Intro', { order: 1 }),
+      entry('apis/overview', 'APIs', { order: 0 }),
+      entry('zeta', 'Zeta', { order: 2 })
+    ];
+    const titles = (tree: ReturnType<typeof buildContentTree>) => tree.map(node => node.title);
+
+    expect(titles(buildContentTree(entries))).toEqual(['Apis', 'Intro', 'Zeta']);
+    expect(titles(buildContentTree([...entries].reverse()))).toEqual(['Apis', 'Intro', 'Zeta']);
+  });
+
+  it('lists the landing page first and lets it describe and order the group', () => {
+    const tree = buildContentTree([
+      entry('security/sandbox', 'Sandbox'),
+      entry('security/overview', 'Security Overview', { description: 'Keeping users safe', order: 1 }),
+      entry('apis/overview', 'APIs')
+    ]);
+
+    expect(tree).toEqual([
+      {
+        title: 'Security',
+        description: 'Keeping users safe',
+        children: [
+          { title: 'Security Overview', path: 'security/overview', description: 'Keeping users safe' },
+          { title: 'Sandbox', path: 'security/sandbox' }
+        ]
+      },
+      { title: 'Apis', children: [{ title: 'APIs', path: 'apis/overview' }] }
+    ]);
+  });
+
+  it('takes the landing page in the order ContentService looks for it', () => {
+    const tree = buildContentTree([
+      entry('guides/README', 'Readme'),
+      entry('guides/index', 'Index'),
+      entry('guides/overview', 'Overview'),
+      entry('guides', 'Guides Page')
+    ]);
+
+    expect(tree).toEqual([
+      {
+        title: 'Guides',
+        children: [
+          { title: 'Guides Page', path: 'guides' },
+          { title: 'Index', path: 'guides/index' },
+          { title: 'Overview', path: 'guides/overview' },
+          { title: 'Readme', path: 'guides/README' }
+        ]
+      }
+    ]);
+  });
+
+  it('lists articles with a nav_group in a top-level group of that title', () => {
+    const tree = buildContentTree(
+      [entry('architecture/mojo', 'Mojo', { group: 'IPC' }), entry('security/ipc-review', 'IPC Review', { group: 'IPC' })],
+      { 'IPC/': { description: 'Inter-process communication' } }
+    );
+
+    expect(tree).toEqual([
+      {
+        title: 'IPC',
+        description: 'Inter-process communication',
+        children: [
+          { title: 'IPC Review', path: 'security/ipc-review' },
+          { title: 'Mojo', path: 'architecture/mojo' }
+        ]
+      }
+    ]);
+  });
+
+  it('drops hidden articles and groups left empty', () => {
+    const tree = buildContentTree([
+      entry('drafts/wip', 'WIP', { hidden: true }),
+      entry('guides/hidden', 'Hidden', { hidden: true }),
+      entry('guides/shown', 'Shown')
+    ]);
+
+    expect(tree).toEqual([{ title: 'Guides', children: [{ title: 'Shown', path: 'guides/shown' }] }]);
+  });
+
+  it('applies overrides to articles and groups', () => {
+    const tree = buildContentTree(
+      [entry('apis/web', 'Web'), entry('apis/old', 'Old'), entry('apis/intro', 'Intro')],
+      {
+        'apis/': { title: 'Public APIs', description: 'Interfaces for embedders' },
+        'apis/old': { hidden: true },
+        'apis/intro': { title: 'Introduction', order: 1 }
+      }
+    );
+
+    expect(tree).toEqual([
+      {
+        title: 'Public APIs',
+        description: 'Interfaces for embedders',
+        children: [
+          { title: 'Introduction', path: 'apis/intro' },
+          { title: 'Web', path: 'apis/web' }
+        ]
+      }
+    ]);
+  });
+});
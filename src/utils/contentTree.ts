@@ -0,0 +1,241 @@
+/**
+ * Content Tree
+ * Turns the article list generated by `npm run build:content-tree` into the
+ * sidebar's ContentNode tree. Directories become groups, articles become
+ * leaves; frontmatter `order`, `nav_title`, `nav_group` and `hidden` control
+ * placement and per-subject overrides in contentIndex.ts cover what
+ * frontmatter cannot (titles, descriptions and order of groups).
+ */
+
+import { ContentNode } from '../contentIndex';
+import { getContentFileCandidates } from './contentPaths';
+import { parseFrontmatter } from './frontmatter';
+import { extractHeadings } from './markdown';
+
+export interface ContentTreeEntry {
+  /** Article path relative to the subject directory, without `.md` */
+  path: string;
+  /** Sidebar title: `nav_title`, then `title`, then the first heading, then the file name */
+  title: string;
+  description?: string;
+  order?: number;
+  hidden?: boolean;
+  /** Top-level group the article is listed in instead of its directory (`nav_group`) */
+  group?: string;
+}
+
+/** Generated entries per content directory under public/content */
+export type ContentTreeData = Record<string, ContentTreeEntry[]>;
+
+export interface ContentNodeOverride {
+  title?: string;
+  description?: string;
+  order?: number;
+  hidden?: boolean;
+}
+
+/**
+ * Overrides keyed by article path, or with a trailing `/` for groups: the
+ * directory path, or the title of a `nav_group`
+ */
+export type ContentTreeOverrides = Record<string, ContentNodeOverride>;
+
+interface GroupBuilder {
+  path: string;
+  /** Set for `nav_group` groups, whose path is their title */
+  title?: string;
+  groups: Map<string, GroupBuilder>;
+  articles: ContentTreeEntry[];
+  landing?: ContentTreeEntry;
+}
+
+interface SortableNode {
+  node: ContentNode;
+  order?: number;
+  isLanding?: boolean;
+}
+
+const titleFromFileName = (name: string): string =>
+  name
+    .replace(/[-_]+/g, ' ')
+    .trim()
+    .split(' ')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+const nonEmptyString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+/**
+ * How an article ranks as the landing page of a directory, in ContentService's
+ * lookup order (`<dir>.md`, then overview, index and README); -1 when it is not one
+ */
+const landingRank = (dirPath: string, entry: ContentTreeEntry): number =>
+  getContentFileCandidates(dirPath).indexOf(`${entry.path}.md`);
+
+/**
+ * Build the tree entry for one article from its path and markdown source.
+ */
+export function createContentTreeEntry(path: string, markdown: string): ContentTreeEntry {
+  const { frontmatter, body } = parseFrontmatter(markdown);
+  const fileName = path.split('/').pop() ?? path;
+  const heading = extractHeadings(body).find(h => h.level === 1);
+
+  const entry: ContentTreeEntry = {
+    path,
+    title: nonEmptyString(frontmatter.nav_title)
+      ?? nonEmptyString(frontmatter.title)
+      ?? (heading?.text || titleFromFileName(fileName))
+  };
+
+  const description = nonEmptyString(frontmatter.description);
+  if (description) {
+    entry.description = description;
+  }
+  if (typeof frontmatter.order === 'number' && Number.isFinite(frontmatter.order)) {
+    entry.order = frontmatter.order;
+  }
+  if (frontmatter.hidden === true) {
+    entry.hidden = true;
+  }
+  const group = nonEmptyString(frontmatter.nav_group);
+  if (group) {
+    entry.group = group;
+  }
+  return entry;
+}
+
+const compareNodes = (a: SortableNode, b: SortableNode): number => {
+  if (Boolean(a.isLanding) !== Boolean(b.isLanding)) {
+    return a.isLanding ? -1 : 1;
+  }
+  const orderA = a.order ?? Number.POSITIVE_INFINITY;
+  const orderB = b.order ?? Number.POSITIVE_INFINITY;
+  if (orderA !== orderB) {
+    return orderA < orderB ? -1 : 1;
+  }
+  return a.node.title.localeCompare(b.node.title);
+};
+
+const toLeaf = (entry: ContentTreeEntry, overrides: ContentTreeOverrides, isLanding = false): SortableNode | null => {
+  const override = overrides[entry.path] ?? {};
+  if (override.hidden ?? entry.hidden) {
+    return null;
+  }
+  const node: ContentNode = { title: override.title ?? entry.title, path: entry.path };
+  const description = override.description ?? entry.description;
+  if (description) {
+    node.description = description;
+  }
+  return { node, order: override.order ?? entry.order, isLanding };
+};
+
+const toChildren = (group: GroupBuilder, overrides: ContentTreeOverrides): SortableNode[] => {
+  const children: SortableNode[] = [];
+  if (group.landing) {
+    const landing = toLeaf(group.landing, overrides, true);
+    if (landing) {
+      children.push(landing);
+    }
+  }
+  group.articles.forEach(entry => {
+    const leaf = toLeaf(entry, overrides);
+    if (leaf) {
+      children.push(leaf);
+    }
+  });
+  group.groups.forEach(child => {
+    const node = toGroup(child, overrides);
+    if (node) {
+      children.push(node);
+    }
+  });
+  return children.sort(compareNodes);
+};
+
+function toGroup(group: GroupBuilder, overrides: ContentTreeOverrides): SortableNode | null {
+  const override = overrides[`${group.path}/`] ?? {};
+  if (override.hidden ?? group.landing?.hidden) {
+    return null;
+  }
+  const children = toChildren(group, overrides);
+  if (children.length === 0) {
+    return null;
+  }
+
+  const name = group.path.split('/').pop() ?? group.path;
+  const node: ContentNode = {
+    title: override.title ?? group.title ?? titleFromFileName(name),
+    children: children.map(child => child.node)
+  };
+  const description = override.description ?? group.landing?.description;
+  if (description) {
+    node.description = description;
+  }
+  return { node, order: override.order ?? group.landing?.order };
+}
+
+/**
+ * Build the sidebar tree for one subject.
+ * A directory's landing page is the file ContentService serves for its path:
+ * a `<dir>.md` next to it, else `<dir>/overview.md`, `index.md` or
+ * `README.md`. It is listed first in the group and lends the group its
+ * `order`, `hidden` flag and description. Articles with a `nav_group` are
+ * listed in a top-level group of that title instead. Siblings sort by
+ * `order`, then by title. Groups left without visible articles are dropped.
+ */
+export function buildContentTree(entries: ContentTreeEntry[], overrides: ContentTreeOverrides = {}): ContentNode[] {
+  const root: GroupBuilder = { path: '', groups: new Map(), articles: [] };
+  const groupFor = (dirPath: string): GroupBuilder => {
+    let group = root;
+    dirPath.split('/').filter(Boolean).forEach(segment => {
+      const path = group.path ? `${group.path}/${segment}` : segment;
+      let child = group.groups.get(segment);
+      if (!child) {
+        child = { path, groups: new Map(), articles: [] };
+        group.groups.set(segment, child);
+      }
+      group = child;
+    });
+    return group;
+  };
+
+  const navGroupFor = (title: string): GroupBuilder => {
+    const key = `nav_group:${title}`;
+    let group = root.groups.get(key);
+    if (!group) {
+      group = { path: title, title, groups: new Map(), articles: [] };
+      root.groups.set(key, group);
+    }
+    return group;
+  };
+
+  const directories = new Set<string>();
+  entries.filter(entry => !entry.group).forEach(entry => {
+    const segments = entry.path.split('/');
+    for (let i = 1; i < segments.length; i++) {
+      directories.add(segments.slice(0, i).join('/'));
+    }
+  });
+
+  entries.forEach(entry => {
+    if (entry.group) {
+      navGroupFor(entry.group).articles.push(entry);
+      return;
+    }
+    // `architecture.md` next to `architecture/` belongs to the directory
+    const dirPath = directories.has(entry.path) ? entry.path : entry.path.split('/').slice(0, -1).join('/');
+    const group = groupFor(dirPath);
+    const rank = dirPath ? landingRank(dirPath, entry) : -1;
+    if (rank < 0 || (group.landing && landingRank(dirPath, group.landing) < rank)) {
+      group.articles.push(entry);
+      return;
+    }
+    if (group.landing) {
+      group.articles.push(group.landing);
+    }
+    group.landing = entry;
+  });
+
+  return toChildren(root, overrides).map(child => child.node);
+}
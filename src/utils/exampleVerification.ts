@@ -0,0 +1,98 @@
+/**
+ * Example Verification
+ * The report `npm run verify:examples` (scripts/verify-code-examples.ts)
+ * writes after running every runnable code example and comparing its output
+ * with `expectedOutput`, and the comparison itself. CodeExamplesRepository
+ * reads the report to show which examples are verified or failing.
+ */
+
+import { CodeExample, OutputNormalization } from '../types/CodeExampleTypes';
+
+/** Served from public/, where the verify script writes it */
+export const VERIFICATION_REPORT_URL = '/code-examples/verification.json';
+
+export type VerificationStatus = 'verified' | 'failing' | 'skipped';
+
+export interface CodeExampleVerification {
+  exampleId: string;
+  title: string;
+  status: VerificationStatus;
+  /** ISO time the example was last run or skipped */
+  checkedAt: string;
+  /** ISO time the example last produced its expected output */
+  verifiedAt?: string;
+  /** Hash of the code that was checked; a different hash means the result is stale */
+  codeHash: string;
+  /** Backend that ran the example and its version */
+  backend?: string;
+  /** Why the example failed or was skipped */
+  reason?: string;
+  /** Output of a failing run, shortened */
+  output?: string;
+}
+
+export interface CodeExampleVerificationReport {
+  generatedAt: string;
+  summary: Record<VerificationStatus, number>;
+  examples: Record<string, CodeExampleVerification>;
+}
+
+export const DEFAULT_OUTPUT_NORMALIZATION: OutputNormalization = {
+  trimWhitespace: true,
+  collapseWhitespace: false,
+  ignoreCase: false,
+  match: 'exact'
+};
+
+/**
+ * FNV-1a hash of an example's code, the same in the browser and in Node
+ */
+export function hashCode(code: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < code.length; i++) {
+    hash ^= code.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export function normalizeOutput(text: string, options: OutputNormalization = DEFAULT_OUTPUT_NORMALIZATION): string {
+  let normalized = text.replace(/\r\n?/g, '\n');
+  if (options.trimWhitespace ?? true) {
+    normalized = normalized.split('\n').map(line => line.trimEnd()).join('\n').trim();
+  }
+  if (options.collapseWhitespace) {
+    normalized = normalized.replace(/\s+/g, ' ').trim();
+  }
+  if (options.ignoreCase) {
+    normalized = normalized.toLowerCase();
+  }
+  return normalized;
+}
+
+/**
+ * Whether a run's output is what the example expects. With `match: 'regex'`
+ * the expected output is a pattern that must match the whole output.
+ */
+export function outputMatches(actual: string, expected: string, options: OutputNormalization = DEFAULT_OUTPUT_NORMALIZATION): boolean {
+  const output = normalizeOutput(actual, options);
+  switch (options.match ?? 'exact') {
+    case 'regex':
+      return new RegExp(`^(?:${expected})$`, options.ignoreCase ? 'i' : '').test(output);
+    case 'contains':
+      return output.includes(normalizeOutput(expected, options));
+    default:
+      return output === normalizeOutput(expected, options);
+  }
+}
+
+/**
+ * An example's entry in the report, unless its code changed since it was checked
+ */
+export function currentVerification(
+  report: CodeExampleVerificationReport | null,
+  example: CodeExample
+): CodeExampleVerification | null {
+  const entry = report?.examples[example.id];
+  return entry && entry.codeHash === hashCode(example.code) ? entry : null;
+}
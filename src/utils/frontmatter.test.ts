@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  normalizeTags,
+  parseDifficulty,
+  parseFrontmatter,
+  parseFrontmatterDate,
+  parseReadingTime,
+  stripFrontmatter
+} from './frontmatter';
+
+describe('parseFrontmatter', () => {
+  it('splits the block from the body', () => {
+    expect(parseFrontmatter('---\ntitle: "A"\ntags: [a, b]\ndate: 2024-01-02\n---\n# Body\n')).toEqual({
+      frontmatter: { title: 'A', tags: ['a', 'b'], date: '2024-01-02' },
+      body: '# Body\n',
+      raw: 'title: "A"\ntags: [a, b]\ndate: 2024-01-02',
+      bodyStartLine: 6
+    });
+  });
+
+  it('accepts CRLF line endings and a byte order mark', () => {
+    expect(parseFrontmatter('﻿---\r\ntitle: x\r\n---\r\nbody')).toMatchObject({
+      frontmatter: { title: 'x' },
+      body: 'body',
+      bodyStartLine: 4
+    });
+  });
+
+  it('returns a document without a block unchanged', () => {
+    expect(parseFrontmatter('# Title\n\ntext')).toEqual({ frontmatter: {}, body: '# Title\n\ntext', raw: '', bodyStartLine: 1 });
+  });
+
+  it('reads an empty block as no data', () => {
+    expect(parseFrontmatter('---\n---\nbody')).toEqual({ frontmatter: {}, body: 'body', raw: '', bodyStartLine: 3 });
+  });
+
+  it('reports a block that is not a mapping', () => {
+    expect(parseFrontmatter('---\n- a\n---\nbody')).toMatchObject({
+      frontmatter: {},
+      body: 'body',
+      error: 'Frontmatter must be a YAML mapping'
+    });
+  });
+
+  it('reports invalid YAML and keeps the body', () => {
+    const parsed = parseFrontmatter('---\ntitle: [unclosed\n---\nbody');
+
+    expect(parsed.frontmatter).toEqual({});
+    expect(parsed.body).toBe('body');
+    expect(parsed.error).toBeTruthy();
+  });
+});
+
+describe('stripFrontmatter', () => {
+  it('removes only the block', () => {
+    expect(stripFrontmatter('---\ntitle: x\n---\n# Title\n---\n')).toBe('# Title\n---\n');
+  });
+});
+
+describe('normalizeTags', () => {
+  it('accepts a list or a comma-separated string', () => {
+    expect(normalizeTags([' ipc ', 'mojo', ''])).toEqual(['ipc', 'mojo']);
+    expect(normalizeTags('ipc, mojo,,')).toEqual(['ipc', 'mojo']);
+    expect(normalizeTags(5)).toEqual([]);
+  });
+});
+
+describe('parseReadingTime', () => {
+  it('reads minutes from numbers and text', () => {
+    expect(parseReadingTime(5)).toBe(5);
+    expect(parseReadingTime(4.2)).toBe(5);
+    expect(parseReadingTime('5 minutes')).toBe(5);
+    expect(parseReadingTime('12 min')).toBe(12);
+  });
+
+  it('ignores values that are not a duration', () => {
+    expect(parseReadingTime('a while')).toBeUndefined();
+    expect(parseReadingTime(0)).toBeUndefined();
+    expect(parseReadingTime(null)).toBeUndefined();
+  });
+});
+
+describe('parseFrontmatterDate', () => {
+  it('reads dates and ignores unparseable values', () => {
+    expect(parseFrontmatterDate('2024-01-02')?.toISOString()).toBe('2024-01-02T00:00:00.000Z');
+    expect(parseFrontmatterDate('next week')).toBeUndefined();
+    expect(parseFrontmatterDate(undefined)).toBeUndefined();
+  });
+});
+
+describe('parseDifficulty', () => {
+  it('accepts the known levels in any case', () => {
+    expect(parseDifficulty(' Advanced ')).toBe('advanced');
+    expect(parseDifficulty('expert')).toBeUndefined();
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Frontmatter Utilities
+ * Parses the YAML frontmatter block that articles under public/content carry
+ * (see scripts/add-frontmatter.js) and normalizes its values.
+ */
+
+import { parse as parseYaml, YAMLError } from 'yaml';
+import { ArticleFrontmatter, DifficultyLevel } from '../types/ComponentTypes';
+
+export interface ParsedMarkdown {
+  frontmatter: ArticleFrontmatter;
+  /** Markdown with the frontmatter block removed */
+  body: string;
+  /** Raw YAML between the `---` fences, empty when there is no block */
+  raw: string;
+  /** 1-based line number of the first body line in the original source */
+  bodyStartLine: number;
+  /** Set when a frontmatter block exists but is not valid YAML */
+  error?: string;
+  /** 1-based line number in the original source that `error` refers to */
+  errorLine?: number;
+}
+
+const FRONTMATTER_PATTERN = /^\uFEFF?---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+const DIFFICULTY_LEVELS: DifficultyLevel[] = ['beginner', 'intermediate', 'advanced'];
+
+const countLines = (text: string): number => text.split(/\r?\n/).length - 1;
+
+/**
+ * Split a markdown document into its frontmatter data and body.
+ * Documents without a frontmatter block are returned unchanged.
+ */
+export function parseFrontmatter(markdown: string): ParsedMarkdown {
+  const match = markdown.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    return { frontmatter: {}, body: markdown, raw: '', bodyStartLine: 1 };
+  }
+
+  const raw = match[1] ?? '';
+  const body = markdown.slice(match[0].length);
+  const bodyStartLine = countLines(match[0]) + 1;
+
+  try {
+    const data = parseYaml(raw);
+    if (data === null || data === undefined) {
+      return { frontmatter: {}, body, raw, bodyStartLine };
+    }
+    if (typeof data !== 'object' || Array.isArray(data)) {
+      return { frontmatter: {}, body, raw, bodyStartLine, error: 'Frontmatter must be a YAML mapping' };
+    }
+    return { frontmatter: data as ArticleFrontmatter, body, raw, bodyStartLine };
+  } catch (error) {
+    // YAML positions are relative to the block; +1 skips the opening fence
+    const linePos = error instanceof YAMLError ? error.linePos?.[0] : undefined;
+    return {
+      frontmatter: {},
+      body,
+      raw,
+      bodyStartLine,
+      error: error instanceof Error ? error.message.split('\n')[0] : 'Invalid frontmatter',
+      errorLine: linePos ? linePos.line + 1 : 1
+    };
+  }
+}
+
+/**
+ * Remove the frontmatter block so it is not rendered as markdown.
+ */
+export function stripFrontmatter(markdown: string): string {
+  return markdown.replace(FRONTMATTER_PATTERN, '');
+}
+
+/**
+ * Normalize `tags`, which writers supply either as a YAML list or a
+ * comma-separated string.
+ */
+export function normalizeTags(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(tag => String(tag).trim()).filter(tag => tag.length > 0);
+  }
+  if (typeof value === 'string') {
+    return value.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
+  }
+  return [];
+}
+
+/**
+ * Convert `estimated_reading_time` ("5 minutes", "5 min", 5) to minutes.
+ */
+export function parseReadingTime(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value) && value > 0) {
+    return Math.ceil(value);
+  }
+  if (typeof value === 'string') {
+    const match = value.match(/^\s*(\d+(?:\.\d+)?)\s*(?:m|min|mins|minute|minutes)?\s*$/i);
+    if (match) {
+      return Math.ceil(parseFloat(match[1]));
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Convert a frontmatter `date` value to a Date, ignoring unparseable values.
+ */
+export function parseFrontmatterDate(value: unknown): Date | undefined {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : value;
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  return undefined;
+}
+
+export function parseDifficulty(value: unknown): DifficultyLevel | undefined {
+  if (typeof value !== 'string') return undefined;
+  const normalized = value.trim().toLowerCase() as DifficultyLevel;
+  return DIFFICULTY_LEVELS.includes(normalized) ? normalized : undefined;
+}
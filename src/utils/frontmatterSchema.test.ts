@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { validateFrontmatterData, validateMarkdownFrontmatter } from './frontmatterSchema';
+
+const VALID = {
+  title: 'Mojo',
+  description: 'How Mojo works',
+  category: 'Architecture',
+  difficulty: 'beginner'
+};
+
+describe('validateFrontmatterData', () => {
+  it('accepts complete frontmatter', () => {
+    expect(validateFrontmatterData({ ...VALID, tags: ['ipc'], date: '2024-01-02', estimated_reading_time: 5 })).toEqual([]);
+  });
+
+  it('requires the required fields', () => {
+    expect(validateFrontmatterData({ title: 'Mojo' }).map(violation => violation.field)).toEqual([
+      'description',
+      'category',
+      'difficulty'
+    ]);
+  });
+
+  it('checks the category list of the subject', () => {
+    expect(validateFrontmatterData({ ...VALID, category: 'Anything' })).toEqual([]);
+    expect(validateFrontmatterData({ ...VALID, category: 'Architecure' }, { subject: 'chromium' })).toEqual([
+      {
+        field: 'category',
+        severity: 'error',
+        message: 'category "Architecure" is not allowed; did you mean "Architecture"?'
+      }
+    ]);
+  });
+
+  it('checks field types', () => {
+    const violations = validateFrontmatterData({
+      ...VALID,
+      tags: 'ipc',
+      estimated_reading_time: '5 minutes',
+      date: '02/01/2024'
+    });
+
+    expect(violations.map(violation => violation.message)).toEqual([
+      'tags must be a YAML list, e.g. ["one", "two"], got "ipc"',
+      'date must be a date in YYYY-MM-DD form, got "02/01/2024"',
+      'estimated_reading_time must be a whole number, not free text; use 5 instead of "5 minutes"'
+    ]);
+  });
+
+  it('warns about unknown fields', () => {
+    expect(validateFrontmatterData({ ...VALID, titel: 'x' })).toEqual([
+      { field: 'titel', severity: 'warning', message: 'unknown field titel; did you mean title?' }
+    ]);
+  });
+});
+
+describe('validateMarkdownFrontmatter', () => {
+  it('attaches the line of each field', () => {
+    const source = '---\ntitle: T\ndescription: D\ncategory: Architecture\ndifficulty: expert\n---\nbody';
+
+    expect(validateMarkdownFrontmatter(source)).toEqual([
+      {
+        field: 'difficulty',
+        severity: 'error',
+        message: 'difficulty "expert" is not one of: beginner, intermediate, advanced',
+        line: 5
+      }
+    ]);
+  });
+
+  it('warns about a missing block', () => {
+    expect(validateMarkdownFrontmatter('# Title')).toEqual([
+      { field: 'frontmatter', severity: 'warning', message: 'no frontmatter block', line: 1 }
+    ]);
+  });
+
+  it('reports invalid YAML as an error', () => {
+    const [violation] = validateMarkdownFrontmatter('---\ntitle: [unclosed\n---\nbody');
+
+    expect(violation).toMatchObject({ field: 'frontmatter', severity: 'error' });
+    expect(violation.message).toMatch(/^invalid YAML: /);
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Frontmatter Schema
+ * Describes the frontmatter fields used under public/content and validates
+ * articles against them. Shared by `npm run lint:content` and ContentEditor.
+ */
+
+import { parseFrontmatter } from './frontmatter';
+
+export type FrontmatterFieldType = 'string' | 'string[]' | 'integer' | 'boolean' | 'date' | 'datetime';
+
+export interface FrontmatterFieldRule {
+  type: FrontmatterFieldType;
+  required?: boolean;
+  /** Allowed values; for strings only */
+  enum?: readonly string[];
+  /** Minimum value; for integers only */
+  min?: number;
+  description: string;
+}
+
+export type FrontmatterViolationSeverity = 'error' | 'warning';
+
+export interface FrontmatterViolation {
+  field: string;
+  message: string;
+  severity: FrontmatterViolationSeverity;
+  /** 1-based line in the markdown source, when validating a file */
+  line?: number;
+}
+
+export interface FrontmatterValidationOptions {
+  /** Subject id (first directory under public/content); selects the category list */
+  subject?: string;
+}
+
+const CHROMIUM_CATEGORIES = [
+  'Introduction',
+  'Getting Started',
+  'Architecture',
+  'Security',
+  'Core Modules',
+  'APIs',
+  'Features',
+  'Development',
+  'Debugging',
+  'Performance',
+  'Platforms',
+  'Contributing',
+  'Tutorials',
+  'Video Tutorials',
+  'Interactive Demos',
+  'Examples',
+  'Guides',
+  'Accessibility',
+  'GPU & Graphics',
+  'Infrastructure'
+] as const;
+
+/**
+ * Categories written by scripts/add-frontmatter.js, per subject. The internal
+ * subject reads its files from the chromium tree. Subjects without an entry
+ * accept any non-empty category.
+ */
+export const SUBJECT_CATEGORIES: Record<string, readonly string[]> = {
+  chromium: CHROMIUM_CATEGORIES,
+  internal: CHROMIUM_CATEGORIES
+};
+
+export const FRONTMATTER_SCHEMA: Record<string, FrontmatterFieldRule> = {
+  title: { type: 'string', required: true, description: 'Article title shown in navigation and search' },
+  description: { type: 'string', required: true, description: 'One or two sentence summary' },
+  category: { type: 'string', required: true, description: 'Section the article belongs to' },
+  tags: { type: 'string[]', description: 'List of lowercase topic tags' },
+  difficulty: {
+    type: 'string',
+    required: true,
+    enum: ['beginner', 'intermediate', 'advanced'],
+    description: 'Reader experience level'
+  },
+  date: { type: 'date', description: 'Last significant update, YYYY-MM-DD' },
+  author: { type: 'string', description: 'Author or team name' },
+  estimated_reading_time: { type: 'integer', min: 1, description: 'Reading time in whole minutes' },
+  prerequisites: { type: 'string[]', description: 'What the reader should know first' },
+  related_topics: { type: 'string[]', description: 'Related article titles or paths' },
+  related_features: { type: 'string[]', description: 'Related feature names' },
+  subcategory: { type: 'string', description: 'Optional grouping within the category' },
+  feature_status: { type: 'string', description: 'Implementation status of a documented feature' },
+  source: { type: 'string', description: 'Upstream document this article was adapted from' },
+  created: { type: 'date', description: 'Creation date, YYYY-MM-DD' },
+  last_updated: { type: 'date', description: 'Older spelling of `date`' },
+  order: { type: 'integer', description: 'Sidebar position among siblings; lower comes first' },
+  nav_title: { type: 'string', description: 'Shorter title for the sidebar' },
+  nav_group: { type: 'string', description: 'Top-level sidebar group to list the article in instead of its directory' },
+  hidden: { type: 'boolean', description: 'Leave the article out of the sidebar' },
+  publish_at: { type: 'datetime', description: 'When the article goes live, YYYY-MM-DD or YYYY-MM-DDTHH:MM with an optional offset' },
+  review_by: { type: 'date', description: 'When time-sensitive content should be checked again, YYYY-MM-DD' }
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2})?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const levenshtein = (a: string, b: string): number => {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+const closestMatch = (value: string, candidates: readonly string[]): string | undefined => {
+  const lower = value.toLowerCase();
+  let best: { candidate: string; distance: number } | undefined;
+  for (const candidate of candidates) {
+    const distance = levenshtein(lower, candidate.toLowerCase());
+    if (!best || distance < best.distance) {
+      best = { candidate, distance };
+    }
+  }
+  return best && best.distance <= Math.max(2, Math.floor(value.length / 3)) ? best.candidate : undefined;
+};
+
+const describeValue = (value: unknown): string =>
+  typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+
+const checkField = (
+  field: string,
+  value: unknown,
+  rule: FrontmatterFieldRule,
+  allowed: readonly string[] | undefined
+): string | undefined => {
+  switch (rule.type) {
+    case 'string': {
+      if (typeof value !== 'string') {
+        return `must be a string, got ${describeValue(value)}`;
+      }
+      if (!value.trim()) {
+        return 'must not be empty';
+      }
+      if (allowed && !allowed.includes(value)) {
+        const suggestion = closestMatch(value, allowed);
+        return suggestion
+          ? `${describeValue(value)} is not allowed; did you mean "${suggestion}"?`
+          : `${describeValue(value)} is not one of: ${allowed.join(', ')}`;
+      }
+      return undefined;
+    }
+    case 'string[]':
+      if (!Array.isArray(value)) {
+        return `must be a YAML list, e.g. ["one", "two"], got ${describeValue(value)}`;
+      }
+      if (value.some(item => typeof item !== 'string' || !item.trim())) {
+        return 'must contain only non-empty strings';
+      }
+      return undefined;
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        const minutes = typeof value === 'string' ? value.match(/\d+/)?.[0] : undefined;
+        return minutes
+          ? `must be a whole number, not free text; use ${minutes} instead of ${describeValue(value)}`
+          : `must be a whole number, got ${describeValue(value)}`;
+      }
+      if (rule.min !== undefined && value < rule.min) {
+        return `must be at least ${rule.min}`;
+      }
+      return undefined;
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        return `must be true or false, got ${describeValue(value)}`;
+      }
+      return undefined;
+    case 'date':
+      if (typeof value !== 'string' || !DATE_PATTERN.test(value) || isNaN(new Date(value).getTime())) {
+        return `must be a date in YYYY-MM-DD form, got ${describeValue(value)}`;
+      }
+      return undefined;
+    case 'datetime':
+      if (typeof value !== 'string' || !DATETIME_PATTERN.test(value) || isNaN(new Date(value).getTime())) {
+        return `must be a date in YYYY-MM-DD or YYYY-MM-DDTHH:MM form, got ${describeValue(value)}`;
+      }
+      return undefined;
+  }
+};
+
+/**
+ * Fields that only place an article in the sidebar. Upstream docs we keep
+ * verbatim carry a block with nothing else, which needs no other fields.
+ */
+export const SIDEBAR_FIELDS: readonly string[] = ['order', 'nav_title', 'nav_group', 'hidden'];
+
+/**
+ * Validate already-parsed frontmatter data against FRONTMATTER_SCHEMA.
+ */
+export function validateFrontmatterData(
+  data: Record<string, unknown>,
+  options: FrontmatterValidationOptions = {}
+): FrontmatterViolation[] {
+  const violations: FrontmatterViolation[] = [];
+  const sidebarOnly = Object.keys(data).every(field => SIDEBAR_FIELDS.includes(field));
+
+  for (const [field, rule] of Object.entries(FRONTMATTER_SCHEMA)) {
+    const value = data[field];
+    if (value === undefined || value === null || value === '') {
+      if (rule.required && !sidebarOnly) {
+        violations.push({ field, severity: 'error', message: `${field} is required (${rule.description.toLowerCase()})` });
+      }
+      continue;
+    }
+
+    const allowed = field === 'category' && options.subject
+      ? SUBJECT_CATEGORIES[options.subject]
+      : rule.enum;
+    const problem = checkField(field, value, rule, allowed);
+    if (problem) {
+      violations.push({ field, severity: 'error', message: `${field} ${problem}` });
+    }
+  }
+
+  for (const field of Object.keys(data)) {
+    if (!FRONTMATTER_SCHEMA[field]) {
+      const suggestion = closestMatch(field, Object.keys(FRONTMATTER_SCHEMA));
+      violations.push({
+        field,
+        severity: 'warning',
+        message: suggestion
+          ? `unknown field ${field}; did you mean ${suggestion}?`
+          : `unknown field ${field}`
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Validate the frontmatter block of a markdown document, attaching source
+ * line numbers to each violation.
+ */
+export function validateMarkdownFrontmatter(
+  source: string,
+  options: FrontmatterValidationOptions = {}
+): FrontmatterViolation[] {
+  const parsed = parseFrontmatter(source);
+
+  if (parsed.error) {
+    return [{ field: 'frontmatter', severity: 'error', message: `invalid YAML: ${parsed.error}`, line: parsed.errorLine }];
+  }
+  if (!parsed.raw && parsed.bodyStartLine === 1) {
+    return [{ field: 'frontmatter', severity: 'warning', message: 'no frontmatter block', line: 1 }];
+  }
+
+  // Key lines inside the block are offset by the opening fence
+  const keyLines = new Map<string, number>();
+  parsed.raw.split(/\r?\n/).forEach((text, index) => {
+    const key = text.match(/^([A-Za-z_][\w-]*)\s*:/)?.[1];
+    if (key && !keyLines.has(key)) {
+      keyLines.set(key, index + 2);
+    }
+  });
+
+  return validateFrontmatterData(parsed.frontmatter, options).map(violation => ({
+    ...violation,
+    line: keyLines.get(violation.field) ?? 1
+  }));
+}
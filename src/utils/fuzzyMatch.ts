@@ -0,0 +1,104 @@
+/**
+ * Fuzzy Match
+ * Subsequence matching for the command palette: `lifnav` matches "Life of a
+ * Navigation". Every space-separated word of the pattern has to match in
+ * order; characters at word starts and runs of consecutive characters score
+ * higher, so acronyms and prefixes rank above scattered letters.
+ */
+
+export interface FuzzyMatch {
+  score: number;
+  /** Indices of the matched characters in the text, ascending */
+  positions: number[];
+}
+
+const WORD_START_BONUS = 8;
+const CONSECUTIVE_BONUS = 5;
+/** Extra score for a word that occurs in the text verbatim */
+const SUBSTRING_BONUS = 10;
+
+const isAlphanumeric = (char: string) => /[a-z0-9]/i.test(char);
+
+const isWordStart = (text: string, index: number): boolean => {
+  if (index === 0) {
+    return true;
+  }
+  const previous = text[index - 1];
+  const current = text[index];
+  return !isAlphanumeric(previous) || (/[a-z]/.test(previous) && /[A-Z]/.test(current));
+};
+
+/**
+ * Match one word of the pattern, preferring the earliest occurrence at a
+ * word start for its first character
+ */
+function matchWord(word: string, text: string, lowerText: string): FuzzyMatch | null {
+  const substring = lowerText.indexOf(word);
+  if (substring >= 0) {
+    const positions = Array.from({ length: word.length }, (_, i) => substring + i);
+    const startBonus = isWordStart(text, substring) ? WORD_START_BONUS : 0;
+    return { score: SUBSTRING_BONUS + startBonus + word.length * (1 + CONSECUTIVE_BONUS), positions };
+  }
+
+  let start = -1;
+  for (let i = lowerText.indexOf(word[0]); i >= 0; i = lowerText.indexOf(word[0], i + 1)) {
+    if (start < 0) {
+      start = i;
+    }
+    if (isWordStart(text, i)) {
+      start = i;
+      break;
+    }
+  }
+  if (start < 0) {
+    return null;
+  }
+
+  const positions = [start];
+  let score = 1 + (isWordStart(text, start) ? WORD_START_BONUS : 0);
+  for (let i = 1; i < word.length; i++) {
+    const previous = positions[positions.length - 1];
+    // Take the next character right away when it follows, else jump to a word start if there is one
+    let next = lowerText[previous + 1] === word[i] ? previous + 1 : -1;
+    for (let j = previous + 1; next < 0 && j < lowerText.length; j++) {
+      if (lowerText[j] === word[i] && isWordStart(text, j)) {
+        next = j;
+      }
+    }
+    if (next < 0) {
+      next = lowerText.indexOf(word[i], previous + 1);
+    }
+    if (next < 0) {
+      return null;
+    }
+    score += 1
+      + (next === previous + 1 ? CONSECUTIVE_BONUS : 0)
+      + (isWordStart(text, next) ? WORD_START_BONUS : 0);
+    positions.push(next);
+  }
+  return { score, positions };
+}
+
+/**
+ * Match a pattern against a text, or null when some word of the pattern
+ * does not occur in it as a subsequence. An empty pattern matches with a
+ * score of zero. Shorter texts win ties.
+ */
+export function fuzzyMatch(pattern: string, text: string): FuzzyMatch | null {
+  const words = pattern.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return { score: 0, positions: [] };
+  }
+  const lowerText = text.toLowerCase();
+  let score = 0;
+  const positions = new Set<number>();
+  for (const word of words) {
+    const match = matchWord(word, text, lowerText);
+    if (!match) {
+      return null;
+    }
+    score += match.score;
+    match.positions.forEach(position => positions.add(position));
+  }
+  return { score: score - text.length / 100, positions: [...positions].sort((a, b) => a - b) };
+}
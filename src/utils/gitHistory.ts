@@ -0,0 +1,133 @@
+/**
+ * Git History
+ * Version histories of the articles under public/content, taken from git.
+ * scripts/build-version-history.ts reads `git log --follow` of each article
+ * and writes a VersionHistory per article to
+ * public/version-history/<subject>/<article>.json; ContentVersioningService
+ * loads it for articles nobody has edited in the versioning page yet.
+ */
+
+import { ContentVersion, VersionAuthor, VersionHistory } from '../types/VersioningTypes';
+import { extractVersionTags, extractVersionTitle, generateVersionMetadata } from './versionContent';
+
+/** Directory under public/ (and URL path) of the exported histories */
+export const GIT_HISTORY_DIR = 'version-history';
+
+/** Commits exported per article, newest first; matches the default maxVersionsPerContent */
+export const MAX_GIT_VERSIONS = 100;
+
+/** A commit that touched an article, with the article as of that commit */
+export interface GitFileCommit {
+  hash: string;
+  authorName: string;
+  authorEmail: string;
+  /** ISO date of the commit */
+  date: string;
+  message: string;
+  /** Path of the article in this commit, relative to the repository */
+  path: string;
+  additions: number;
+  deletions: number;
+  content: string;
+}
+
+/**
+ * The exported file of a versioning content path, relative to
+ * GIT_HISTORY_DIR: `/content/chromium/start.md` → `chromium/start.json`.
+ * Null for paths outside public/content.
+ */
+export function gitHistoryFile(contentPath: string): string | null {
+  const relative = contentPath.replace(/^\/+/, '').replace(/^(public\/)?content\//, '');
+  return /\.md$/.test(relative) && !relative.split('/').includes('..') ? relative.replace(/\.md$/, '.json') : null;
+}
+
+/**
+ * The versioning content path of an article under public/content
+ */
+export const gitContentPath = (file: string) => `/content/${file}`;
+
+const gitAuthor = (commit: GitFileCommit): VersionAuthor => ({
+  id: commit.authorEmail || commit.authorName,
+  name: commit.authorName,
+  email: commit.authorEmail,
+  role: 'contributor',
+  expertise: []
+});
+
+/**
+ * The version history of an article from its commits, newest first (at
+ * least one). The newest commit is what the site serves, so it is the
+ * published version; older ones are archived.
+ */
+export function buildGitVersionHistory(contentPath: string, commits: GitFileCommit[]): VersionHistory {
+  const oldestFirst = [...commits].reverse();
+  const versions = oldestFirst.map((commit, index): ContentVersion => {
+    const timestamp = new Date(commit.date);
+    const lineCount = commit.content.split('\n').length;
+    const changedLines = commit.additions + commit.deletions;
+    return {
+      id: `git-${commit.hash.slice(0, 12)}`,
+      contentPath,
+      version: index + 1,
+      title: extractVersionTitle(commit.content),
+      content: commit.content,
+      metadata: generateVersionMetadata(commit.content, timestamp),
+      changes: [{
+        id: `git-${commit.hash.slice(0, 12)}-change`,
+        type: index === 0 ? 'addition' : 'modification',
+        section: 'content',
+        description: commit.message,
+        lineNumbers: { start: 1, end: lineCount },
+        impact: changedLines > 100 ? 'major' : changedLines > 20 ? 'moderate' : 'minor',
+        reviewStatus: 'approved'
+      }],
+      author: gitAuthor(commit),
+      timestamp,
+      status: index === oldestFirst.length - 1 ? 'published' : 'archived',
+      parentVersionId: index > 0 ? `git-${oldestFirst[index - 1].hash.slice(0, 12)}` : undefined,
+      commit: {
+        hash: commit.hash,
+        shortHash: commit.hash.slice(0, 7),
+        message: commit.message,
+        path: commit.path,
+        additions: commit.additions,
+        deletions: commit.deletions
+      },
+      tags: extractVersionTags(commit.content),
+      hash: commit.hash
+    };
+  });
+
+  const latest = versions[versions.length - 1];
+  const contributions = new Map<string, { author: VersionAuthor; count: number }>();
+  versions.forEach(version => {
+    const entry = contributions.get(version.author.id) ?? { author: version.author, count: 0 };
+    entry.count++;
+    contributions.set(version.author.id, entry);
+  });
+  const mostActive = [...contributions.values()].sort((a, b) => b.count - a.count)[0];
+  const since = (days: number) => versions.filter(v => v.timestamp.getTime() > Date.now() - days * 24 * 60 * 60 * 1000).length;
+
+  return {
+    contentPath,
+    versions,
+    branches: [],
+    totalVersions: versions.length,
+    latestVersion: latest,
+    publishedVersion: latest,
+    statistics: {
+      totalChanges: versions.length,
+      contributors: contributions.size,
+      averageReviewTime: 0,
+      approvalRate: 100,
+      conflictRate: 0,
+      mostActiveContributor: mostActive.author,
+      changeFrequency: { daily: since(1), weekly: since(7), monthly: since(30) },
+      contentGrowth: {
+        wordCountChange: latest.metadata.wordCount - versions[0].metadata.wordCount,
+        sectionChanges: 0,
+        qualityImprovements: 0
+      }
+    }
+  };
+}
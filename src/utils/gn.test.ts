@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { formatGn, lexGn, validateGn } from './gn';
+
+describe('lexGn', () => {
+  it('splits a file into tokens with their lines', () => {
+    const { tokens, errors } = lexGn('# c\nfoo = "a$b\\"" + -1\n\nif (x >= 2) {}');
+
+    expect(errors).toEqual([]);
+    expect(tokens.map(token => [token.type, token.text, token.line])).toEqual([
+      ['comment', '# c', 1],
+      ['identifier', 'foo', 2],
+      ['punctuation', '=', 2],
+      ['string', '"a$b\\""', 2],
+      ['punctuation', '+', 2],
+      ['punctuation', '-', 2],
+      ['number', '1', 2],
+      ['identifier', 'if', 4],
+      ['punctuation', '(', 4],
+      ['identifier', 'x', 4],
+      ['punctuation', '>=', 4],
+      ['number', '2', 4],
+      ['punctuation', ')', 4],
+      ['punctuation', '{', 4],
+      ['punctuation', '}', 4]
+    ]);
+    expect(tokens[7]).toMatchObject({ startsLine: true, blankBefore: true });
+  });
+
+  it('reports unterminated strings', () => {
+    expect(lexGn('x = "open').errors).toEqual(['Line 1: Unterminated string']);
+  });
+});
+
+describe('validateGn', () => {
+  it('accepts targets, conditions and expressions', () => {
+    expect(validateGn('executable("foo") {\n  sources = [ "a.cc" ]\n}')).toEqual([]);
+    expect(validateGn('if (a == 1) { b = 2 } else if (c) { d += [ "e" ] } else { f -= 1 }')).toEqual([]);
+    expect(validateGn('x = a[0]\ny = a.b\nz = !(a || b) && c')).toEqual([]);
+  });
+
+  it('requires a target name and block', () => {
+    expect(validateGn('executable() {}')).toEqual(['Line 1: executable() takes the target name as a string']);
+    expect(validateGn('executable("foo")')).toEqual(['Line 1: executable("foo") needs a { } block']);
+  });
+
+  it('reports where a file stops following the grammar', () => {
+    expect(validateGn('x = ')).toEqual(['Line 1: Expected a value, found end of file']);
+    expect(validateGn('"foo" = 1')).toEqual([`Line 1: Expected an assignment, a call or a condition, found '"foo"'`]);
+  });
+
+  it('reports unbalanced brackets', () => {
+    expect(validateGn('x = [1, 2')).toEqual(["Line 1: '[' is never closed"]);
+  });
+});
+
+describe('formatGn', () => {
+  const source = [
+    '# Build',
+    'executable("foo"){sources=["a.cc","b.cc"]',
+    'deps=[":bar"]',
+    '',
+    '',
+    'if(is_win){defines=["WIN"]}else{cflags=[]}}',
+    'x=-1+2',
+    'y = foo(a,b)'
+  ].join('\n');
+  const formatted = [
+    '# Build',
+    'executable("foo") {',
+    '  sources = [',
+    '    "a.cc",',
+    '    "b.cc",',
+    '  ]',
+    '  deps = [ ":bar" ]',
+    '',
+    '  if (is_win) {',
+    '    defines = [ "WIN" ]',
+    '  } else {',
+    '    cflags = []',
+    '  }',
+    '}',
+    'x = -1 + 2',
+    'y = foo(a, b)',
+    ''
+  ].join('\n');
+
+  it('lays out a file the way gn format does', () => {
+    expect(formatGn(source)).toBe(formatted);
+  });
+
+  it('leaves formatted code as it is', () => {
+    expect(formatGn(formatted)).toBe(formatted);
+  });
+
+  it('writes LF line endings', () => {
+    expect(formatGn('a = 1\r\nb = 2\r\n')).toBe('a = 1\nb = 2\n');
+  });
+});
@@ -0,0 +1,456 @@
+/**
+ * GN Tools
+ * Validation and formatting of GN build files for CodeExecutionRegistry.
+ * The parser follows the grammar in GN's reference
+ * (https://gn.googlesource.com/gn/+/main/docs/reference.md#grammar) and
+ * also checks that targets are declared with a name and a block. The
+ * formatter lays files out the way `gn format` does for the common cases:
+ * two-space indents, and lists with more than one item one item per line.
+ */
+
+import {
+  LexedSource,
+  LineWriter,
+  SourceSyntaxError,
+  SourceToken,
+  checkBrackets,
+  describeToken,
+  markLineStarts,
+  matchingBracket
+} from './sourceTokens';
+
+/** Functions that declare a target, or a config or template, from a name and a block */
+const TARGET_FUNCTIONS = new Set([
+  'action', 'action_foreach', 'bundle_data', 'component', 'config', 'copy', 'create_bundle',
+  'executable', 'generated_file', 'group', 'loadable_module', 'mojom', 'rust_library',
+  'shared_library', 'source_set', 'static_library', 'template', 'test'
+]);
+
+const ASSIGNMENT_OPERATORS = ['=', '+=', '-='];
+/** Binary operators from loosest to tightest */
+const BINARY_OPERATORS = [['||'], ['&&'], ['==', '!='], ['<', '<=', '>', '>='], ['+', '-']];
+const PUNCTUATION = ['+=', '-=', '==', '!=', '<=', '>=', '&&', '||', '=', '+', '-', '<', '>', '!', '(', ')', '[', ']', '{', '}', ',', '.'];
+
+export function lexGn(source: string): LexedSource {
+  const text = source.replace(/\r\n?/g, '\n');
+  const tokens: SourceToken[] = [];
+  const errors: string[] = [];
+  let line = 1;
+  let i = 0;
+  const push = (type: SourceToken['type'], value: string) =>
+    tokens.push({ type, text: value, line, startsLine: false, blankBefore: false });
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (char === '#') {
+      const end = text.indexOf('\n', i);
+      push('comment', text.slice(i, end === -1 ? text.length : end).trimEnd());
+      i = end === -1 ? text.length : end;
+    } else if (char === '"') {
+      let end = i + 1;
+      while (end < text.length && text[end] !== '"' && text[end] !== '\n') {
+        end += text[end] === '\\' ? 2 : 1;
+      }
+      if (text[end] !== '"') {
+        errors.push(`Line ${line}: Unterminated string`);
+      }
+      push('string', text.slice(i, end + 1));
+      i = end + 1;
+    } else if (/\d/.test(char)) {
+      const [number] = text.slice(i).match(/^\d+/)!;
+      push('number', number);
+      i += number.length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const [identifier] = text.slice(i).match(/^[A-Za-z_]\w*/)!;
+      push('identifier', identifier);
+      i += identifier.length;
+    } else {
+      const punctuation = PUNCTUATION.find(p => text.startsWith(p, i));
+      if (punctuation) {
+        push('punctuation', punctuation);
+        i += punctuation.length;
+      } else {
+        errors.push(`Line ${line}: Unexpected character '${char}'`);
+        i++;
+      }
+    }
+  }
+
+  markLineStarts(tokens, text);
+  return { tokens, errors };
+}
+
+class GnParser {
+  private pos = 0;
+
+  constructor(private readonly tokens: SourceToken[]) {}
+
+  parseFile(): void {
+    while (this.peek()) {
+      this.statement();
+    }
+  }
+
+  private peek(offset = 0): SourceToken | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  private is(text: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token !== undefined && token.type !== 'string' && token.text === text;
+  }
+
+  private next(): SourceToken {
+    const token = this.peek();
+    if (!token) {
+      throw new SourceSyntaxError('Unexpected end of file', this.tokens[this.tokens.length - 1]?.line ?? 1);
+    }
+    this.pos++;
+    return token;
+  }
+
+  private expect(text: string, context: string): SourceToken {
+    if (!this.is(text)) {
+      throw this.error(`Expected '${text}' ${context}, found ${describeToken(this.peek())}`);
+    }
+    return this.next();
+  }
+
+  private error(message: string): SourceSyntaxError {
+    const token = this.peek() ?? this.tokens[this.tokens.length - 1];
+    return new SourceSyntaxError(message, token?.line ?? 1);
+  }
+
+  private statement(): void {
+    const token = this.peek()!;
+    if (token.type !== 'identifier') {
+      throw this.error(`Expected an assignment, a call or a condition, found ${describeToken(token)}`);
+    }
+    if (token.text === 'if') {
+      this.condition();
+      return;
+    }
+    if (this.is('(', 1)) {
+      this.call();
+      return;
+    }
+
+    // LValue: identifier, identifier[expr] or identifier.identifier
+    this.next();
+    if (this.is('[')) {
+      this.next();
+      this.expression();
+      this.expect(']', 'to close the subscript');
+    } else if (this.is('.')) {
+      this.next();
+      if (this.peek()?.type !== 'identifier') {
+        throw this.error(`Expected a name after '.', found ${describeToken(this.peek())}`);
+      }
+      this.next();
+    }
+    const operator = this.peek();
+    if (!operator || !ASSIGNMENT_OPERATORS.includes(operator.text) || operator.type !== 'punctuation') {
+      throw this.error(`Expected '=', '+=' or '-=' after '${token.text}', found ${describeToken(operator)}`);
+    }
+    this.next();
+    this.expression();
+  }
+
+  private condition(): void {
+    this.next();
+    this.expect('(', "after 'if'");
+    this.expression();
+    this.expect(')', 'to close the condition');
+    this.block();
+    if (this.is('else')) {
+      this.next();
+      if (this.is('if')) {
+        this.condition();
+      } else {
+        this.block();
+      }
+    }
+  }
+
+  private block(): void {
+    this.expect('{', 'to open a block');
+    while (this.peek() && !this.is('}')) {
+      this.statement();
+    }
+    this.expect('}', 'to close the block');
+  }
+
+  /** A function call, with the block that follows it; target declarations must have one */
+  private call(): void {
+    const name = this.next();
+    this.next();
+    const args: SourceToken[] = [];
+    if (!this.is(')')) {
+      args.push(this.peek()!);
+      this.expression();
+      while (this.is(',')) {
+        this.next();
+        args.push(this.peek()!);
+        this.expression();
+      }
+    }
+    this.expect(')', `to close the arguments of ${name.text}()`);
+
+    if (TARGET_FUNCTIONS.has(name.text)) {
+      if (args.length !== 1 || args[0].type !== 'string' || this.tokens[this.tokens.indexOf(args[0]) + 1]?.text !== ')') {
+        throw new SourceSyntaxError(`${name.text}() takes the target name as a string`, name.line);
+      }
+      if (!this.is('{')) {
+        throw new SourceSyntaxError(`${name.text}(${args[0].text}) needs a { } block`, name.line);
+      }
+    }
+    if (this.is('{')) {
+      this.block();
+    }
+  }
+
+  private expression(level = 0): void {
+    if (level === BINARY_OPERATORS.length) {
+      this.unary();
+      return;
+    }
+    this.expression(level + 1);
+    while (this.peek()?.type === 'punctuation' && BINARY_OPERATORS[level].includes(this.peek()!.text)) {
+      this.next();
+      this.expression(level + 1);
+    }
+  }
+
+  private unary(): void {
+    if (this.is('!')) {
+      this.next();
+      this.unary();
+      return;
+    }
+    this.primary();
+  }
+
+  private primary(): void {
+    const token = this.peek();
+    if (!token) {
+      throw this.error('Expected a value, found end of file');
+    }
+    if (token.type === 'string' || token.type === 'number') {
+      this.next();
+    } else if (this.is('-') && this.peek(1)?.type === 'number') {
+      this.next();
+      this.next();
+    } else if (token.type === 'identifier') {
+      if (this.is('(', 1)) {
+        this.call();
+        return;
+      }
+      this.next();
+      if (this.is('[')) {
+        this.next();
+        this.expression();
+        this.expect(']', 'to close the subscript');
+      } else if (this.is('.')) {
+        this.next();
+        if (this.peek()?.type !== 'identifier') {
+          throw this.error(`Expected a name after '.', found ${describeToken(this.peek())}`);
+        }
+        this.next();
+      }
+    } else if (this.is('(')) {
+      this.next();
+      this.expression();
+      this.expect(')', 'to close the parenthesis');
+    } else if (this.is('[')) {
+      this.next();
+      while (!this.is(']')) {
+        this.expression();
+        if (!this.is(',')) break;
+        this.next();
+      }
+      this.expect(']', 'to close the list');
+    } else if (this.is('{')) {
+      this.block();
+    } else {
+      throw this.error(`Expected a value, found ${describeToken(token)}`);
+    }
+  }
+}
+
+/**
+ * Syntax errors in a GN file, with line numbers; empty when it parses
+ */
+export function validateGn(source: string): string[] {
+  const { tokens, errors } = lexGn(source);
+  const code = tokens.filter(token => token.type !== 'comment');
+  const bracketErrors = checkBrackets(code);
+  if (errors.length > 0 || bracketErrors.length > 0) {
+    return [...errors, ...bracketErrors];
+  }
+  try {
+    new GnParser(code).parseFile();
+    return [];
+  } catch (error) {
+    if (error instanceof SourceSyntaxError) {
+      return [error.message];
+    }
+    throw error;
+  }
+}
+
+/** Whether a `[` at `index` indexes an array rather than opening a list */
+const isSubscript = (tokens: SourceToken[], index: number): boolean => {
+  const previous = tokens[index - 1];
+  return previous !== undefined && (previous.type === 'identifier' || previous.text === ']' || previous.text === ')');
+};
+
+/** Tokens after which the next one follows without a space */
+const isTightAfter = (code: SourceToken[], token: SourceToken): boolean => {
+  if (token.type !== 'punctuation') return false;
+  if (['(', '[', '!', '.', ','].includes(token.text)) return true;
+  // A minus that negates a number rather than subtracting
+  const before = code[code.indexOf(token) - 1];
+  return token.text === '-' && (!before || before.type === 'punctuation' && ![')', ']', '}'].includes(before.text));
+};
+
+/**
+ * Lay out a GN file. Comments and single empty lines between statements
+ * are kept. Expects code that validateGn accepts.
+ */
+export function formatGn(source: string): string {
+  const { tokens } = lexGn(source);
+  const code = tokens.filter(token => token.type !== 'comment');
+  const writer = new LineWriter();
+  // What each open bracket is: a block, a call's arguments, a subscript, or a list laid out inline or one item per line
+  const open: ('block' | 'arguments' | 'subscript' | 'inline' | 'lines')[] = [];
+  let previous: SourceToken | undefined;
+
+  const nextCode = (index: number) => tokens.slice(index + 1).find(token => token.type !== 'comment');
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const context = open[open.length - 1];
+
+    if (token.type === 'comment') {
+      // The item before a comment that ends a list still gets its comma
+      if (context === 'lines' && previous && !['[', ','].includes(previous.text) && nextCode(i)?.text === ']') {
+        writer.write(',');
+        previous = { ...previous, text: ',' };
+      }
+      writer.comment(token);
+      continue;
+    }
+
+    const statementLevel = context === undefined || context === 'block';
+    if (statementLevel && token.startsLine && previous && !['{', 'else'].includes(token.text)) {
+      writer.endLine();
+      if (token.blankBefore) writer.blankLine();
+    }
+
+    const space = writer.atLineStart || !previous || isTightAfter(code, previous) ? '' : ' ';
+    switch (token.text) {
+      case '{':
+        writer.write(`${space}{`);
+        writer.endLine();
+        writer.indent++;
+        open.push('block');
+        break;
+      case '}':
+        writer.endLine();
+        writer.indent--;
+        open.pop();
+        writer.write('}');
+        if (nextCode(i)?.text !== 'else') writer.endLine();
+        break;
+      case '[': {
+        if (isSubscript(code, code.indexOf(token))) {
+          writer.write('[');
+          open.push('subscript');
+          break;
+        }
+        const close = matchingBracket(tokens, i);
+        const inner = tokens.slice(i + 1, close);
+        const items = countItems(inner);
+        if (items > 1 || inner.some(t => t.type === 'comment')) {
+          writer.write(`${space}[`);
+          writer.endLine();
+          writer.indent++;
+          open.push('lines');
+        } else if (items === 1) {
+          writer.write(`${space}[ `);
+          open.push('inline');
+        } else {
+          writer.write(`${space}[]`);
+          i = close;
+          previous = tokens[close];
+          continue;
+        }
+        break;
+      }
+      case ']':
+        if (context === 'lines') {
+          if (previous?.text !== ',' && previous?.text !== '[') writer.write(',');
+          writer.endLine();
+          writer.indent--;
+          writer.write(']');
+        } else {
+          writer.write(context === 'inline' ? ' ]' : ']');
+        }
+        open.pop();
+        break;
+      case '(':
+        // No space between a function and its arguments
+        writer.write(previous?.type === 'identifier' && previous.text !== 'if' ? '(' : `${space}(`);
+        open.push('arguments');
+        break;
+      case ')':
+        writer.write(')');
+        open.pop();
+        break;
+      case ',':
+        if (context === 'lines') {
+          writer.write(',');
+          writer.endLine();
+        } else if (context === 'inline' && nextCode(i)?.text === ']') {
+          // A single item loses its trailing comma
+        } else {
+          writer.write(', ');
+        }
+        break;
+      case '.':
+        writer.write('.');
+        break;
+      default:
+        writer.write(`${space}${token.text}`);
+    }
+    previous = token;
+  }
+
+  return writer.toString();
+}
+
+/** Items of a list, from the tokens between its brackets */
+function countItems(inner: SourceToken[]): number {
+  let depth = 0;
+  let items = 0;
+  let itemOpen = false;
+  for (const token of inner) {
+    if (token.type === 'comment') continue;
+    if (token.type === 'punctuation' && ['(', '[', '{'].includes(token.text)) depth++;
+    if (token.type === 'punctuation' && [')', ']', '}'].includes(token.text)) depth--;
+    if (depth === 0 && token.type === 'punctuation' && token.text === ',') {
+      itemOpen = false;
+      continue;
+    }
+    if (!itemOpen) {
+      items++;
+      itemOpen = true;
+    }
+  }
+  return items;
+}
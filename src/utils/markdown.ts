@@ -0,0 +1,118 @@
+/**
+ * Markdown Utilities
+ * Heading slugs and structure helpers shared by the renderers and the
+ * build-time content scripts, so anchors resolve the same way everywhere.
+ */
+
+export interface MarkdownHeading {
+  level: number;
+  /** Heading text with inline markdown removed */
+  text: string;
+  /** Anchor id the renderers assign to the heading */
+  slug: string;
+  /** 1-based line number within the markdown passed in */
+  line: number;
+}
+
+export interface MarkdownCodeBlock {
+  /** First word of the info string as written, e.g. `cpp`; empty when there is none */
+  language: string;
+  /** The whole info string, e.g. `cpp example id=foo` */
+  info: string;
+  code: string;
+  /** 1-based line number of the opening fence */
+  line: number;
+}
+
+/** Heading levels that MarkdownRenderer wraps in a SectionBookmark with an id */
+export const ANCHORED_HEADING_LEVELS = [1, 2, 3];
+
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})/;
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+
+/**
+ * Anchor id for a heading, as assigned by MarkdownRenderer/SectionBookmark.
+ */
+export function slugifyHeading(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+}
+
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+/**
+ * Reduce inline markdown (code spans, links, emphasis, HTML and its common
+ * entities) to the text a reader sees.
+ */
+export function toPlainText(markdown: string): string {
+  return markdown
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(amp|lt|gt|quot|apos|nbsp);/g, (_, name: string) => HTML_ENTITIES[name])
+    .replace(/(\*\*|__|\*|_|~~)(.*?)\1/g, '$2')
+    .trim();
+}
+
+/**
+ * Walk a document's lines, passing prose lines to `visitProse` and each
+ * fenced code block to `visitCode`. A fence left open runs to the end.
+ */
+function scanFences(
+  markdown: string,
+  visitProse: (line: string, lineNumber: number) => void,
+  visitCode?: (block: MarkdownCodeBlock) => void
+): void {
+  // The open block, if any, with its fence marker
+  let open: { fence: string; block: MarkdownCodeBlock; lines: string[] } | null = null;
+  const lines = markdown.split(/\r?\n/);
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch && !open) {
+      const info = line.slice(fenceMatch[0].length).trim();
+      open = { fence: fenceMatch[1], block: { language: info.split(/\s+/)[0], info, code: '', line: index + 1 }, lines: [] };
+    } else if (fenceMatch && open && fenceMatch[1][0] === open.fence[0] && fenceMatch[1].length >= open.fence.length) {
+      visitCode?.({ ...open.block, code: open.lines.join('\n') });
+      open = null;
+    } else if (open) {
+      open.lines.push(line);
+    } else {
+      visitProse(line, index + 1);
+    }
+  }
+  if (open) {
+    visitCode?.({ ...open.block, code: open.lines.join('\n') });
+  }
+}
+
+/**
+ * Call `visit` for every line outside fenced code blocks.
+ */
+export function forEachProseLine(markdown: string, visit: (line: string, lineNumber: number) => void): void {
+  scanFences(markdown, visit);
+}
+
+/**
+ * List the fenced code blocks of a document.
+ */
+export function extractCodeBlocks(markdown: string): MarkdownCodeBlock[] {
+  const blocks: MarkdownCodeBlock[] = [];
+  scanFences(markdown, () => {}, block => blocks.push(block));
+  return blocks;
+}
+
+/**
+ * List the ATX headings of a document, skipping fenced code blocks.
+ */
+export function extractHeadings(markdown: string): MarkdownHeading[] {
+  const headings: MarkdownHeading[] = [];
+  forEachProseLine(markdown, (line, lineNumber) => {
+    const match = line.match(HEADING_PATTERN);
+    if (match) {
+      const text = toPlainText(match[2]);
+      headings.push({ level: match[1].length, text, slug: slugifyHeading(text), line: lineNumber });
+    }
+  });
+  return headings;
+}
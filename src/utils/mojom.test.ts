@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { formatMojom, lexMojom, validateMojom } from './mojom';
+
+describe('lexMojom', () => {
+  it('splits a file into tokens with their lines', () => {
+    const { tokens, errors } = lexMojom('module foo.mojom; // hi\n\n[Sync] interface A { Ping@0() => (bool ok); };');
+
+    expect(errors).toEqual([]);
+    expect(tokens.slice(0, 9).map(token => [token.type, token.text, token.line])).toEqual([
+      ['identifier', 'module', 1],
+      ['identifier', 'foo', 1],
+      ['punctuation', '.', 1],
+      ['identifier', 'mojom', 1],
+      ['punctuation', ';', 1],
+      ['comment', '// hi', 1],
+      ['punctuation', '[', 3],
+      ['identifier', 'Sync', 3],
+      ['punctuation', ']', 3]
+    ]);
+    expect(tokens.map(token => token.text)).toContain('=>');
+    expect(tokens[6]).toMatchObject({ startsLine: true, blankBefore: true });
+  });
+
+  it('reports unterminated strings and comments', () => {
+    expect(lexMojom('const string s = "unterminated\n/* open').errors).toEqual([
+      'Line 1: Unterminated string',
+      'Line 1: Comment is never closed'
+    ]);
+  });
+});
+
+describe('validateMojom', () => {
+  it('accepts declarations, attributes and parameterized types', () => {
+    expect(validateMojom('module foo.mojom;\nstruct A { int32 x; };')).toEqual([]);
+    expect(validateMojom('enum E { A, B = 2, };')).toEqual([]);
+    expect(validateMojom('struct A { pending_remote<Foo> r; array<string>? s; map<string, int32> m; };')).toEqual([]);
+    expect(validateMojom('[Stable] interface A { [Sync] Ping@0() => (bool ok); };')).toEqual([]);
+  });
+
+  it('reports where a file stops following the grammar', () => {
+    expect(validateMojom('struct A { int32 x };')).toEqual(["Line 1: Expected ';' after the field, found '}'"]);
+  });
+
+  it('reports names declared twice in one scope', () => {
+    expect(validateMojom('struct A {\n  int32 x;\n  int64 x;\n};')).toEqual([
+      "Line 3: 'x' is already declared in struct A on line 2"
+    ]);
+  });
+
+  it('reports unbalanced brackets', () => {
+    expect(validateMojom('struct A { int32 x; ')).toEqual(["Line 1: '{' is never closed"]);
+  });
+});
+
+describe('formatMojom', () => {
+  const source = [
+    'module foo.mojom;',
+    'import "a/b.mojom";',
+    '[Stable] struct  Point{int32 x;  int32 y@1;',
+    '',
+    '// comment',
+    '[MinVersion=1] string? name;};',
+    'enum Color{RED,GREEN=2,BLUE};',
+    'interface Painter{Paint(Point p)=>(bool ok);[Sync]Clear();};'
+  ].join('\n');
+  const formatted = [
+    'module foo.mojom;',
+    'import "a/b.mojom";',
+    '[Stable]',
+    'struct Point {',
+    '  int32 x;',
+    '  int32 y@1;',
+    '',
+    '  // comment',
+    '  [MinVersion=1]',
+    '  string? name;',
+    '};',
+    'enum Color {',
+    '  RED,',
+    '  GREEN = 2,',
+    '  BLUE,',
+    '};',
+    'interface Painter {',
+    '  Paint(Point p) => (bool ok);',
+    '  [Sync]',
+    '  Clear();',
+    '};',
+    ''
+  ].join('\n');
+
+  it('lays out declarations in Chromium style', () => {
+    expect(formatMojom(source)).toBe(formatted);
+  });
+
+  it('leaves formatted code as it is', () => {
+    expect(formatMojom(formatted)).toBe(formatted);
+  });
+
+  it('keeps type arguments tight', () => {
+    expect(formatMojom('struct A{map<string,array<int32>> m;pending_remote<Foo>? r;};')).toBe(
+      'struct A {\n  map<string, array<int32>> m;\n  pending_remote<Foo>? r;\n};\n'
+    );
+  });
+});
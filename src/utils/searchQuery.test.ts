@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import { expandSynonyms, matchesPathPattern, parseSearchQuery } from './searchQuery';
+
+describe('parseSearchQuery', () => {
+  it('parses phrases, operators, exclusions and qualifiers', () => {
+    const parsed = parseSearchQuery('"site isolation" AND mojo -android tag:ipc difficulty:advanced path:architecture/*');
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.ast).toEqual({
+      type: 'sequence',
+      clauses: [
+        {
+          type: 'and',
+          operands: [
+            { type: 'phrase', text: 'site isolation', words: ['site', 'isolation'] },
+            { type: 'term', word: 'mojo' }
+          ]
+        },
+        { type: 'not', operand: { type: 'term', word: 'android' } }
+      ]
+    });
+    expect(parsed.filters).toEqual({ tags: ['ipc'], difficulty: ['advanced'], paths: ['architecture/*'] });
+  });
+
+  it('binds AND tighter than OR and groups with parentheses', () => {
+    expect(parseSearchQuery('mojo OR ipc AND render').ast).toEqual({
+      type: 'or',
+      operands: [
+        { type: 'term', word: 'mojo' },
+        { type: 'and', operands: [{ type: 'term', word: 'ipc' }, { type: 'term', word: 'render' }] }
+      ]
+    });
+    expect(parseSearchQuery('(mojo OR ipc) AND NOT android').ast).toEqual({
+      type: 'and',
+      operands: [
+        { type: 'or', operands: [{ type: 'term', word: 'mojo' }, { type: 'term', word: 'ipc' }] },
+        { type: 'not', operand: { type: 'term', word: 'android' } }
+      ]
+    });
+  });
+
+  it('turns hyphenated words into phrases and drops stop words', () => {
+    expect(parseSearchQuery('site-isolation').ast).toEqual({
+      type: 'phrase',
+      text: 'site-isolation',
+      words: ['site', 'isolation']
+    });
+    expect(parseSearchQuery('a the')).toEqual({ ast: null, filters: {}, errors: [] });
+  });
+
+  it('reports an unclosed group and keeps its contents', () => {
+    expect(parseSearchQuery('(mojo')).toEqual({
+      ast: { type: 'term', word: 'mojo' },
+      filters: {},
+      errors: [{ message: 'Missing closing parenthesis', start: 0, end: 1 }]
+    });
+  });
+
+  it('reports an unmatched closing parenthesis', () => {
+    expect(parseSearchQuery('mojo)').errors).toEqual([{ message: 'Unmatched closing parenthesis', start: 4, end: 5 }]);
+  });
+
+  it('reports a repeated operator and reads it once', () => {
+    expect(parseSearchQuery('mojo AND AND ipc')).toEqual({
+      ast: { type: 'and', operands: [{ type: 'term', word: 'mojo' }, { type: 'term', word: 'ipc' }] },
+      filters: {},
+      errors: [{ message: 'Repeated AND', start: 9, end: 12 }]
+    });
+  });
+
+  it('reports operators and qualifiers missing their operand', () => {
+    expect(parseSearchQuery('mojo AND')).toEqual({
+      ast: { type: 'term', word: 'mojo' },
+      filters: {},
+      errors: [{ message: 'AND needs a search term after it', start: 5, end: 8 }]
+    });
+    expect(parseSearchQuery('NOT').errors).toEqual([{ message: 'NOT needs a search term after it', start: 0, end: 3 }]);
+    expect(parseSearchQuery('tag:').errors).toEqual([{ message: 'tag: needs a value', start: 0, end: 4 }]);
+  });
+
+  it('keeps the words of an unterminated phrase', () => {
+    expect(parseSearchQuery('"unterminated phrase')).toEqual({
+      ast: { type: 'phrase', text: 'unterminated phrase', words: ['unterminated', 'phrase'] },
+      filters: {},
+      errors: [{ message: 'Missing closing quote', start: 0, end: 20 }]
+    });
+  });
+
+  it('rejects an unknown difficulty', () => {
+    const parsed = parseSearchQuery('difficulty:expert mojo');
+
+    expect(parsed.ast).toEqual({ type: 'term', word: 'mojo' });
+    expect(parsed.filters).toEqual({});
+    expect(parsed.errors).toHaveLength(1);
+    expect(parsed.errors[0]).toMatchObject({ start: 0, end: 17 });
+  });
+
+  it('lifts every top-level tag into the filters', () => {
+    expect(parseSearchQuery('tag:ipc tag:mojo render')).toEqual({
+      ast: { type: 'term', word: 'render' },
+      filters: { tags: ['ipc', 'mojo'] },
+      errors: []
+    });
+    expect(parseSearchQuery('tag:"site isolation"').filters).toEqual({ tags: ['site isolation'] });
+  });
+
+  it('leaves alternative and excluded tags in the query', () => {
+    expect(parseSearchQuery('tag:ipc OR tag:mojo')).toEqual({
+      ast: {
+        type: 'or',
+        operands: [
+          { type: 'field', field: 'tag', value: 'ipc' },
+          { type: 'field', field: 'tag', value: 'mojo' }
+        ]
+      },
+      filters: {},
+      errors: []
+    });
+    expect(parseSearchQuery('mojo -tag:android').filters).toEqual({});
+  });
+
+  it('lifts a difficulty only when it is given once', () => {
+    expect(parseSearchQuery('difficulty:beginner difficulty:advanced').filters).toEqual({});
+  });
+
+  it('normalizes the language of lang:', () => {
+    expect(parseSearchQuery('lang:c++ in:code render').ast).toEqual({
+      type: 'sequence',
+      clauses: [
+        { type: 'field', field: 'lang', value: 'cpp' },
+        { type: 'field', field: 'in', value: 'code' },
+        { type: 'term', word: 'render' }
+      ]
+    });
+  });
+});
+
+describe('matchesPathPattern', () => {
+  it('matches a directory and everything under it', () => {
+    expect(matchesPathPattern('architecture/ipc/mojo', 'architecture')).toBe(true);
+    expect(matchesPathPattern('architecture-notes', 'architecture')).toBe(false);
+  });
+
+  it('matches wildcards', () => {
+    expect(matchesPathPattern('a/b/c', 'a/*/c')).toBe(true);
+  });
+});
+
+describe('expandSynonyms', () => {
+  it('adds the alternatives of a word', () => {
+    const { ast } = parseSearchQuery('oopif');
+
+    expect(expandSynonyms(ast, { oopif: ['out of process iframe'] })).toEqual({
+      type: 'or',
+      operands: [
+        { type: 'term', word: 'oopif' },
+        { type: 'phrase', text: 'out of process iframe', words: ['out', 'process', 'iframe'] }
+      ]
+    });
+  });
+});
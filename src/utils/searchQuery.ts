@@ -0,0 +1,542 @@
+/**
+ * Search Query
+ * Parser for the search box's query language:
+ *
+ *   "site isolation" AND mojo -android tag:ipc difficulty:advanced path:architecture/*
+ *
+ * - Bare words and "quoted phrases" rank documents; a document has to match
+ *   at least one of them and ranks higher the more it matches.
+ * - `AND` makes both sides required, `OR` accepts either, parentheses group.
+ *   `AND` binds tighter than `OR`; `-word` or `NOT word` excludes.
+ * - `tag:`, `difficulty:` and `path:` are required qualifiers. Values may be
+ *   quoted; `path:` takes `*` wildcards and otherwise matches a directory and
+ *   everything under it.
+ * - `lang:cpp` requires a code block in that language. `in:code` makes the
+ *   words match only in code blocks and `in:text` only outside them, for the
+ *   whole query wherever it is written.
+ *
+ * Synonyms are applied after parsing (expandSynonyms): a word or phrase with
+ * an entry in the synonym table also matches each of its alternatives.
+ *
+ * Parsing never throws. Problems are reported as errors with their position
+ * in the query and the parser keeps going with what it understood, so the
+ * search box can mark the mistake and still show results.
+ */
+
+import { DifficultyLevel } from '../types/ComponentTypes';
+import { normalizeCodeLanguage, tokenize } from './searchIndex';
+
+export type QueryField = 'tag' | 'difficulty' | 'path' | 'lang' | 'in';
+
+export const QUERY_FIELDS: QueryField[] = ['tag', 'difficulty', 'path', 'lang', 'in'];
+
+/** Part of an article the words of a query match in, set by `in:` */
+export type QueryScope = 'code' | 'text';
+
+const QUERY_SCOPES: QueryScope[] = ['code', 'text'];
+
+/** Qualifiers with a counterpart in QueryFilters */
+const LIFTED_FIELDS: QueryField[] = ['tag', 'difficulty', 'path'];
+
+const DIFFICULTY_LEVELS: DifficultyLevel[] = ['beginner', 'intermediate', 'advanced'];
+
+export type QueryNode =
+  /** A bare word, lowercased. Words like `site-isolation` become phrases. */
+  | { type: 'term'; word: string }
+  /** Words that must all occur; `text` is the phrase as typed */
+  | { type: 'phrase'; text: string; words: string[] }
+  | { type: 'field'; field: QueryField; value: string }
+  | { type: 'not'; operand: QueryNode }
+  | { type: 'and'; operands: QueryNode[] }
+  | { type: 'or'; operands: QueryNode[] }
+  /**
+   * Clauses written side by side. Qualifiers and exclusions are required;
+   * at least one of the other clauses has to match.
+   */
+  | { type: 'sequence'; clauses: QueryNode[] };
+
+export interface QuerySyntaxError {
+  message: string;
+  /** Offset of the offending text in the query */
+  start: number;
+  /** End offset (exclusive); equal to `start` for something missing at that point */
+  end: number;
+}
+
+/**
+ * Alternatives for words and phrases, keyed by synonymKey: `{ "oopif":
+ * ["out of process iframe"] }`. One-way; list both directions for a pair
+ * that should match each other.
+ */
+export type SynonymTable = Record<string, string[]>;
+
+/** Qualifiers lifted out of the query, in the shape of SearchFilters */
+export interface QueryFilters {
+  tags?: string[];
+  difficulty?: DifficultyLevel[];
+  paths?: string[];
+}
+
+export interface ParsedQuery {
+  /** What is left to evaluate against the index; null when the query is only qualifiers */
+  ast: QueryNode | null;
+  filters: QueryFilters;
+  errors: QuerySyntaxError[];
+}
+
+type TokenType = 'word' | 'phrase' | 'field' | 'and' | 'or' | 'not' | 'lparen' | 'rparen';
+
+interface Token {
+  type: TokenType;
+  /** Word or phrase text, or the field value */
+  text: string;
+  field?: QueryField;
+  start: number;
+  end: number;
+}
+
+const isSpace = (char: string) => /\s/.test(char);
+
+function lex(query: string, errors: QuerySyntaxError[]): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  // Reads a quoted string starting at `i`, reporting a missing closing quote
+  const readQuoted = (): string => {
+    const open = i;
+    const close = query.indexOf('"', open + 1);
+    if (close === -1) {
+      errors.push({ message: 'Missing closing quote', start: open, end: query.length });
+      i = query.length;
+      return query.slice(open + 1);
+    }
+    i = close + 1;
+    return query.slice(open + 1, close);
+  };
+
+  const readWord = (): string => {
+    const begin = i;
+    while (i < query.length && !isSpace(query[i]) && !'()"'.includes(query[i])) {
+      i++;
+    }
+    return query.slice(begin, i);
+  };
+
+  while (i < query.length) {
+    const char = query[i];
+    const start = i;
+
+    if (isSpace(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      i++;
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', text: char, start, end: i });
+    } else if (char === '"') {
+      const text = readQuoted();
+      tokens.push({ type: 'phrase', text, start, end: i });
+    } else if (char === '-' && i + 1 < query.length && !isSpace(query[i + 1]) && query[i + 1] !== '-') {
+      // Exclusion prefix; a `-` inside a word such as `out-of-process` is not one
+      i++;
+      tokens.push({ type: 'not', text: '-', start, end: i });
+    } else {
+      const word = readWord();
+      const colon = word.indexOf(':');
+      const field = colon > 0 ? word.slice(0, colon).toLowerCase() as QueryField : undefined;
+      if (field && QUERY_FIELDS.includes(field)) {
+        let value = word.slice(colon + 1);
+        if (!value && query[i] === '"') {
+          value = readQuoted();
+        }
+        tokens.push({ type: 'field', field, text: value, start, end: i });
+      } else if (word === 'AND' || word === 'OR' || word === 'NOT') {
+        tokens.push({ type: word.toLowerCase() as TokenType, text: word, start, end: i });
+      } else {
+        // Unknown `name:` prefixes (`chrome://flags`, `std::move`) are plain words
+        tokens.push({ type: 'word', text: word, start, end: i });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+class QueryParser {
+  private position = 0;
+
+  constructor(private tokens: Token[], private query: string, private errors: QuerySyntaxError[]) {}
+
+  parse(): QueryNode | null {
+    const clauses: QueryNode[] = [];
+    while (this.position < this.tokens.length) {
+      const token = this.peek();
+      if (token?.type === 'rparen') {
+        this.error('Unmatched closing parenthesis', token);
+        this.position++;
+        continue;
+      }
+      const before = this.position;
+      const clause = this.parseOr();
+      if (clause) {
+        clauses.push(clause);
+      } else if (this.position === before) {
+        this.position++;
+      }
+    }
+    return this.combine('sequence', clauses);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private error(message: string, token?: Token): void {
+    const start = token?.start ?? this.query.length;
+    this.errors.push({ message, start, end: token?.end ?? start });
+  }
+
+  private combine(type: 'and' | 'or' | 'sequence', nodes: QueryNode[]): QueryNode | null {
+    if (nodes.length === 0) {
+      return null;
+    }
+    if (nodes.length === 1) {
+      return nodes[0];
+    }
+    return type === 'sequence' ? { type, clauses: nodes } : { type, operands: nodes };
+  }
+
+  private parseOr(): QueryNode | null {
+    return this.parseOperands('or', () => this.parseAnd());
+  }
+
+  private parseAnd(): QueryNode | null {
+    return this.parseOperands('and', () => this.parseUnary());
+  }
+
+  /**
+   * Operands joined by AND or OR. An operand that was only stop words is
+   * dropped without complaint; one that is missing is reported. A repeated
+   * operator (`mojo AND AND ipc`) is reported once and skipped.
+   */
+  private parseOperands(type: 'and' | 'or', parseOperand: () => QueryNode | null): QueryNode | null {
+    const operands: QueryNode[] = [];
+    const start = this.position;
+    const first = parseOperand();
+    if (first) {
+      operands.push(first);
+    }
+    let sawOperand = this.position > start;
+    while (this.peek()?.type === type) {
+      const operator = this.peek() as Token;
+      this.position++;
+      if (!sawOperand) {
+        this.error(`${operator.text} needs a search term before it`, operator);
+      }
+      while (this.peek()?.type === type) {
+        this.error(`Repeated ${operator.text}`, this.peek());
+        this.position++;
+      }
+      const before = this.position;
+      const next = parseOperand();
+      if (next) {
+        operands.push(next);
+      } else if (this.position === before) {
+        this.error(`${operator.text} needs a search term after it`, operator);
+      }
+      sawOperand = this.position > before;
+    }
+    return this.combine(type, operands);
+  }
+
+  private parseUnary(): QueryNode | null {
+    const token = this.peek();
+    if (token?.type !== 'not') {
+      return this.parsePrimary();
+    }
+    this.position++;
+    const before = this.position;
+    const operand = this.parseUnary();
+    if (!operand) {
+      if (this.position === before) {
+        this.error(token.text === '-' ? 'Nothing to exclude after "-"' : 'NOT needs a search term after it', token);
+      }
+      return null;
+    }
+    return { type: 'not', operand };
+  }
+
+  private parsePrimary(): QueryNode | null {
+    const token = this.peek();
+    if (!token || token.type === 'rparen' || token.type === 'and' || token.type === 'or') {
+      return null;
+    }
+    this.position++;
+
+    switch (token.type) {
+      case 'lparen': {
+        // A group left open is closed at the end of the query
+        const clauses: QueryNode[] = [];
+        const inside = this.position;
+        while (this.peek() && this.peek()?.type !== 'rparen') {
+          const before = this.position;
+          const clause = this.parseOr();
+          if (clause) {
+            clauses.push(clause);
+          } else if (this.position === before) {
+            break;
+          }
+        }
+        if (this.position === inside) {
+          this.error('Empty parentheses', token);
+        }
+        if (this.peek()?.type === 'rparen') {
+          this.position++;
+        } else {
+          this.error('Missing closing parenthesis', token);
+        }
+        return this.combine('sequence', clauses);
+      }
+      case 'phrase': {
+        const words = tokenize(token.text);
+        if (words.length === 0) {
+          if (!token.text.trim()) {
+            this.error('Empty phrase', token);
+          }
+          return null;
+        }
+        return words.length === 1 ? { type: 'term', word: words[0] } : { type: 'phrase', text: token.text, words };
+      }
+      case 'field':
+        return this.parseField(token);
+      default: {
+        // Stop words and punctuation leave no words and are skipped
+        const words = tokenize(token.text);
+        if (words.length === 0) {
+          return null;
+        }
+        return words.length === 1 ? { type: 'term', word: words[0] } : { type: 'phrase', text: token.text, words };
+      }
+    }
+  }
+
+  private parseField(token: Token): QueryNode | null {
+    const field = token.field as QueryField;
+    const value = token.text.trim();
+    if (!value) {
+      this.error(`${field}: needs a value`, token);
+      return null;
+    }
+    if (field === 'difficulty') {
+      const level = value.toLowerCase() as DifficultyLevel;
+      if (!DIFFICULTY_LEVELS.includes(level)) {
+        this.error(`Unknown difficulty "${value}"; use ${DIFFICULTY_LEVELS.join(', ')}`, token);
+        return null;
+      }
+      return { type: 'field', field, value: level };
+    }
+    if (field === 'path') {
+      return { type: 'field', field, value: value.replace(/^\/+/, '') };
+    }
+    if (field === 'in') {
+      const scope = value.toLowerCase() as QueryScope;
+      if (!QUERY_SCOPES.includes(scope)) {
+        this.error(`Unknown scope "${value}"; use ${QUERY_SCOPES.join(', ')}`, token);
+        return null;
+      }
+      return { type: 'field', field, value: scope };
+    }
+    if (field === 'lang') {
+      return { type: 'field', field, value: normalizeCodeLanguage(value) };
+    }
+    return { type: 'field', field, value };
+  }
+}
+
+/**
+ * Move qualifiers that apply to the whole query into filters. Every
+ * top-level `tag:` is lifted, since the tags filter requires all of its
+ * tags; `difficulty:` and `path:` only when used once, since their filters
+ * accept any of their values while `difficulty:a difficulty:b` requires both.
+ */
+function liftFilters(ast: QueryNode | null): { ast: QueryNode | null; filters: QueryFilters } {
+  const filters: QueryFilters = {};
+  if (!ast) {
+    return { ast, filters };
+  }
+
+  const clauses = ast.type === 'sequence' ? ast.clauses : ast.type === 'and' ? ast.operands : [ast];
+  const fieldCounts = new Map<QueryField, number>();
+  clauses.forEach(clause => {
+    if (clause.type === 'field' && LIFTED_FIELDS.includes(clause.field)) {
+      fieldCounts.set(clause.field, (fieldCounts.get(clause.field) ?? 0) + 1);
+    }
+  });
+
+  const remaining = clauses.filter(clause => {
+    if (clause.type !== 'field' || !LIFTED_FIELDS.includes(clause.field)) {
+      return true;
+    }
+    if (clause.field === 'tag') {
+      filters.tags = [...(filters.tags ?? []), clause.value];
+    } else if (fieldCounts.get(clause.field) !== 1) {
+      return true;
+    } else if (clause.field === 'difficulty') {
+      filters.difficulty = [clause.value as DifficultyLevel];
+    } else {
+      filters.paths = [clause.value];
+    }
+    return false;
+  });
+
+  if (remaining.length === clauses.length) {
+    return { ast, filters };
+  }
+  if (remaining.length === 0) {
+    return { ast: null, filters };
+  }
+  if (remaining.length === 1) {
+    return { ast: remaining[0], filters };
+  }
+  return {
+    ast: ast.type === 'and' ? { type: 'and', operands: remaining } : { type: 'sequence', clauses: remaining },
+    filters
+  };
+}
+
+/**
+ * Parse a search box query into an AST and filters.
+ */
+export function parseSearchQuery(query: string): ParsedQuery {
+  const errors: QuerySyntaxError[] = [];
+  const tokens = lex(query, errors);
+  const ast = new QueryParser(tokens, query, errors).parse();
+  return { ...liftFilters(ast), errors: errors.sort((a, b) => a.start - b.start) };
+}
+
+/**
+ * Whether an article path (relative to its subject) matches a `path:`
+ * pattern. `*` matches any run of characters; a pattern without wildcards
+ * matches the path itself and everything under it.
+ */
+export function matchesPathPattern(path: string, pattern: string): boolean {
+  const normalizedPattern = pattern.replace(/^\/+|\/+$/g, '').toLowerCase();
+  const normalizedPath = path.toLowerCase();
+  if (!normalizedPattern.includes('*')) {
+    return normalizedPath === normalizedPattern || normalizedPath.startsWith(`${normalizedPattern}/`);
+  }
+  const source = normalizedPattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(normalizedPath);
+}
+
+/**
+ * Values of a qualifier in the query, leaving out excluded ones: `lang:cpp
+ * -lang:gn` gives `["cpp"]` for `lang`.
+ */
+export function getQualifierValues(ast: QueryNode | null, field: QueryField): string[] {
+  const values: string[] = [];
+  const visit = (node: QueryNode) => {
+    if (node.type === 'field' && node.field === field) {
+      values.push(node.value);
+    } else if (node.type === 'and' || node.type === 'or') {
+      node.operands.forEach(visit);
+    } else if (node.type === 'sequence') {
+      node.clauses.forEach(visit);
+    }
+  };
+  if (ast) {
+    visit(ast);
+  }
+  return values;
+}
+
+/**
+ * Where the query's words have to match, from its first `in:` qualifier
+ */
+export function getQueryScope(ast: QueryNode | null): QueryScope | undefined {
+  return getQualifierValues(ast, 'in')[0] as QueryScope | undefined;
+}
+
+/**
+ * Key of a word or phrase in a SynonymTable: its index terms joined by
+ * spaces, so `Site-Per-Process` and `site per process` share an entry.
+ */
+export function synonymKey(text: string): string {
+  return tokenize(text).join(' ');
+}
+
+// A synonym as a node: one word becomes a term, several a phrase
+const toSynonymNode = (text: string): QueryNode | null => {
+  const words = tokenize(text);
+  if (words.length === 0) {
+    return null;
+  }
+  return words.length === 1 ? { type: 'term', word: words[0] } : { type: 'phrase', text, words };
+};
+
+/**
+ * Let words and phrases of a query also match their synonyms, by replacing
+ * each one that has an entry with an OR of itself and its alternatives. A
+ * run of bare words written side by side is looked up as a whole as well,
+ * so an entry for `site per process` applies to the unquoted query.
+ * Excluded words are left alone.
+ */
+export function expandSynonyms(ast: QueryNode | null, synonyms: SynonymTable): QueryNode | null {
+  if (!ast || Object.keys(synonyms).length === 0) {
+    return ast;
+  }
+  const withSynonyms = (node: QueryNode, key: string): QueryNode => {
+    const alternatives = Object.prototype.hasOwnProperty.call(synonyms, key)
+      ? synonyms[key].map(toSynonymNode).filter((alternative): alternative is QueryNode => alternative !== null)
+      : [];
+    return alternatives.length > 0 ? { type: 'or', operands: [node, ...alternatives] } : node;
+  };
+  const visit = (node: QueryNode): QueryNode => {
+    switch (node.type) {
+      case 'term':
+        return withSynonyms(node, node.word);
+      case 'phrase':
+        return withSynonyms(node, node.words.join(' '));
+      case 'and':
+      case 'or':
+        return { ...node, operands: node.operands.map(visit) };
+      case 'sequence': {
+        const expanded: QueryNode = { ...node, clauses: node.clauses.map(visit) };
+        const words = node.clauses.flatMap(clause => clause.type === 'term' ? [clause.word] : []);
+        return words.length > 1 && words.length === node.clauses.length ? withSynonyms(expanded, words.join(' ')) : expanded;
+      }
+      default:
+        return node;
+    }
+  };
+  return visit(ast);
+}
+
+/**
+ * Words the query looks for, for highlighting. Excluded words are left out.
+ */
+export function getQueryWords(ast: QueryNode | null): string[] {
+  const words = new Set<string>();
+  const visit = (node: QueryNode) => {
+    switch (node.type) {
+      case 'term':
+        words.add(node.word);
+        break;
+      case 'phrase':
+        node.words.forEach(word => words.add(word));
+        break;
+      case 'and':
+      case 'or':
+        node.operands.forEach(visit);
+        break;
+      case 'sequence':
+        node.clauses.forEach(visit);
+        break;
+    }
+  };
+  if (ast) {
+    visit(ast);
+  }
+  return [...words];
+}
@@ -0,0 +1,83 @@
+/**
+ * Search Vectors
+ * TF-IDF vectors behind "related articles" and "more like this". The index
+ * build turns every document and section into a vector over its shard's
+ * terms; at runtime a free text is turned into a vector the same way and
+ * compared by cosine similarity. Nothing leaves the browser.
+ */
+
+import { SparseVector } from './searchIndex';
+
+/** Terms kept per document vector; the rest carry little weight */
+export const DOCUMENT_VECTOR_TERMS = 64;
+
+/** Terms kept per section vector */
+export const SECTION_VECTOR_TERMS = 24;
+
+/**
+ * Inverse document frequency. Terms in every document get zero weight.
+ */
+export function inverseDocumentFrequency(documentCount: number, documentFrequency: number): number {
+  return Math.log(documentCount / documentFrequency);
+}
+
+/**
+ * Build a unit-length vector from term weights, keeping the `maxTerms`
+ * heaviest terms. Weights are rounded to keep the index small.
+ */
+export function toSparseVector(weights: Map<number, number>, maxTerms: number): SparseVector {
+  const kept = [...weights]
+    .filter(([, weight]) => weight > 0)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, maxTerms);
+  const length = Math.sqrt(kept.reduce((sum, [, weight]) => sum + weight * weight, 0));
+  if (length === 0) {
+    return [];
+  }
+  return kept
+    .sort((a, b) => a[0] - b[0])
+    .flatMap(([term, weight]) => [term, Math.round((weight / length) * 1000) / 1000]);
+}
+
+/**
+ * Vector of a list of terms: sublinear term frequency times inverse document
+ * frequency. Terms without an index in `termIndex` are ignored.
+ */
+export function vectorizeTerms(
+  terms: string[],
+  termIndex: Map<string, number>,
+  idf: number[],
+  maxTerms: number
+): SparseVector {
+  const counts = new Map<number, number>();
+  terms.forEach(term => {
+    const index = termIndex.get(term);
+    if (index !== undefined) {
+      counts.set(index, (counts.get(index) ?? 0) + 1);
+    }
+  });
+  const weights = new Map<number, number>();
+  counts.forEach((count, index) => weights.set(index, (1 + Math.log(count)) * idf[index]));
+  return toSparseVector(weights, maxTerms);
+}
+
+/**
+ * Cosine similarity of two unit vectors: their dot product
+ */
+export function cosineSimilarity(a: SparseVector, b: SparseVector): number {
+  let sum = 0;
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      sum += a[i + 1] * b[j + 1];
+      i += 2;
+      j += 2;
+    } else if (a[i] < b[j]) {
+      i += 2;
+    } else {
+      j += 2;
+    }
+  }
+  return sum;
+}
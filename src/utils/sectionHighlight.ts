@@ -0,0 +1,85 @@
+/**
+ * Section Highlight
+ * Deep links from search results into an article section, as
+ * `/<subject>/<path>?highlight=<words>#<heading-slug>`, and the article
+ * side: scroll the section into view and highlight the words in it. Section
+ * anchors are the ids SectionBookmark assigns (see slugifyHeading).
+ */
+
+import { slugifyHeading } from './markdown';
+import { stem } from './stemmer';
+
+export const HIGHLIGHT_PARAM = 'highlight';
+
+/** Name of the CSS highlight styled by `::highlight(search-match)` in index.css */
+const HIGHLIGHT_NAME = 'search-match';
+
+/** Class briefly added to the target section where CSS highlights are not supported */
+const FALLBACK_CLASS = 'search-target';
+
+/**
+ * Link to a section of an article, highlighting `words` once there
+ */
+export function buildSectionUrl(articleUrl: string, heading: string, words: string[] = []): string {
+  const query = words.length > 0 ? `?${new URLSearchParams({ [HIGHLIGHT_PARAM]: words.join(' ') })}` : '';
+  return `${articleUrl}${query}#${slugifyHeading(heading)}`;
+}
+
+/**
+ * Words to highlight from a location's query string
+ */
+export function getHighlightWords(search: string): string[] {
+  return (new URLSearchParams(search).get(HIGHLIGHT_PARAM) ?? '').split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Elements of the section starting at `target`: the heading's wrapper and
+ * its following siblings up to the next anchored heading
+ */
+function getSectionElements(target: HTMLElement): HTMLElement[] {
+  const elements = [target];
+  let next = target.nextElementSibling;
+  while (next instanceof HTMLElement && !next.id && !/^H[1-3]$/.test(next.tagName)) {
+    elements.push(next);
+    next = next.nextElementSibling;
+  }
+  return elements;
+}
+
+/**
+ * Scroll the section with the given anchor into view and highlight every
+ * word sharing a stem with `words` inside it. Returns a cleanup function
+ * that removes the highlight.
+ */
+export function highlightSection(anchor: string, words: string[]): () => void {
+  const target = document.getElementById(anchor);
+  if (!target) {
+    return () => {};
+  }
+  target.scrollIntoView({ behavior: 'smooth', block: 'start' });
+
+  if (typeof Highlight === 'undefined' || !CSS.highlights) {
+    target.classList.add(FALLBACK_CLASS);
+    return () => target.classList.remove(FALLBACK_CLASS);
+  }
+
+  const stems = [...new Set(words.map(word => word.toLowerCase()).filter(word => /^[a-z0-9]+$/.test(word)).map(stem))];
+  if (stems.length === 0) {
+    return () => {};
+  }
+  const pattern = new RegExp(`\\b(?:${stems.join('|')})\\w*`, 'gi');
+  const ranges: Range[] = [];
+  getSectionElements(target).forEach(element => {
+    const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      for (const match of (node.textContent ?? '').matchAll(pattern)) {
+        const range = document.createRange();
+        range.setStart(node, match.index ?? 0);
+        range.setEnd(node, (match.index ?? 0) + match[0].length);
+        ranges.push(range);
+      }
+    }
+  });
+  CSS.highlights.set(HIGHLIGHT_NAME, new Highlight(...ranges));
+  return () => CSS.highlights.delete(HIGHLIGHT_NAME);
+}
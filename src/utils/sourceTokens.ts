@@ -0,0 +1,168 @@
+/**
+ * Source Tokens
+ * What the GN and Mojom tools (gn.ts, mojom.ts) share: the tokens their
+ * lexers produce, bracket matching for the validators and the writer the
+ * formatters print through.
+ */
+
+export type SourceTokenType = 'identifier' | 'number' | 'string' | 'punctuation' | 'comment';
+
+export interface SourceToken {
+  type: SourceTokenType;
+  text: string;
+  /** 1-based line the token starts on */
+  line: number;
+  /** First token on its line */
+  startsLine: boolean;
+  /** Separated from the previous token by at least one empty line */
+  blankBefore: boolean;
+}
+
+export interface LexedSource {
+  tokens: SourceToken[];
+  errors: string[];
+}
+
+/**
+ * Thrown by the parsers at the first error; validators report its message
+ */
+export class SourceSyntaxError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'SourceSyntaxError';
+  }
+}
+
+export const describeToken = (token: SourceToken | undefined): string =>
+  token ? `'${token.text}'` : 'end of file';
+
+const CLOSING: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+/**
+ * Report brackets that are never closed, closed by the wrong bracket or
+ * closed without being opened. Comments and strings are single tokens, so
+ * brackets inside them do not count.
+ */
+export function checkBrackets(tokens: SourceToken[]): string[] {
+  const errors: string[] = [];
+  const open: SourceToken[] = [];
+  for (const token of tokens) {
+    if (token.type !== 'punctuation') {
+      continue;
+    }
+    if (CLOSING[token.text]) {
+      open.push(token);
+    } else if (Object.values(CLOSING).includes(token.text)) {
+      const opener = open.pop();
+      if (!opener) {
+        errors.push(`Line ${token.line}: '${token.text}' has no matching opening bracket`);
+      } else if (CLOSING[opener.text] !== token.text) {
+        errors.push(`Line ${token.line}: '${token.text}' closes '${opener.text}' from line ${opener.line}`);
+      }
+    }
+  }
+  open.forEach(token => errors.push(`Line ${token.line}: '${token.text}' is never closed`));
+  return errors;
+}
+
+/**
+ * Index of the bracket that closes the one at `index`, or -1
+ */
+export function matchingBracket(tokens: SourceToken[], index: number): number {
+  const opener = tokens[index].text;
+  let depth = 0;
+  for (let i = index; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== 'punctuation') continue;
+    if (token.text === opener) depth++;
+    if (token.text === CLOSING[opener] && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * Collects formatted lines. A line is finished lazily, by the next write,
+ * so a comment that followed a token on its source line can still join it.
+ */
+export class LineWriter {
+  indent = 0;
+  private lines: string[] = [];
+  private current = '';
+  private currentIndent = 0;
+  private lineEnded = false;
+  private blankWanted = false;
+
+  constructor(private readonly indentUnit = '  ') {}
+
+  get atLineStart(): boolean {
+    return this.lineEnded || this.current === '';
+  }
+
+  write(text: string): void {
+    if (this.lineEnded) {
+      this.flush();
+    }
+    if (this.current === '') {
+      text = text.trimStart();
+      if (!text) return;
+      this.currentIndent = this.indent;
+      const last = this.lines[this.lines.length - 1];
+      if (this.blankWanted && last !== undefined && last !== '' && !/[{[(]$/.test(last)) {
+        this.lines.push('');
+      }
+      this.blankWanted = false;
+    }
+    this.current += text;
+  }
+
+  /** End the current line once something else is written */
+  endLine(): void {
+    if (this.current !== '') {
+      this.lineEnded = true;
+    }
+  }
+
+  /** Keep one empty line before the next line, unless it opens a block */
+  blankLine(): void {
+    this.blankWanted = true;
+  }
+
+  comment(token: SourceToken): void {
+    if (token.startsLine || this.current === '') {
+      this.endLine();
+      if (token.blankBefore) this.blankLine();
+      this.write(token.text);
+    } else {
+      this.current += `  ${token.text}`;
+    }
+    this.endLine();
+  }
+
+  toString(): string {
+    this.flush();
+    return this.lines.length > 0 ? `${this.lines.join('\n')}\n` : '';
+  }
+
+  private flush(): void {
+    if (this.current !== '') {
+      this.lines.push(this.indentUnit.repeat(Math.max(this.currentIndent, 0)) + this.current.trimEnd());
+    }
+    this.current = '';
+    this.lineEnded = false;
+  }
+}
+
+/**
+ * Record, for tokens built from `source`, which start a line and which
+ * follow an empty line. Lexers push tokens with `startsLine` and
+ * `blankBefore` unset and call this once.
+ */
+export function markLineStarts(tokens: SourceToken[], source: string): void {
+  const lines = source.split(/\r?\n/);
+  let previousEnd = 0;
+  tokens.forEach(token => {
+    token.startsLine = token.line > previousEnd;
+    token.blankBefore = token.startsLine && lines.slice(previousEnd, token.line - 1).some(line => line.trim() === '') && previousEnd > 0;
+    previousEnd = token.line + (token.text.match(/\n/g)?.length ?? 0);
+  });
+}
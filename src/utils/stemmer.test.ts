@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { stem } from './stemmer';
+
+describe('stem', () => {
+  it('follows the examples of the Porter paper', () => {
+    const examples: Record<string, string> = {
+      caresses: 'caress',
+      ponies: 'poni',
+      cats: 'cat',
+      feed: 'feed',
+      agreed: 'agre',
+      plastered: 'plaster',
+      motoring: 'motor',
+      sing: 'sing',
+      conflated: 'conflat',
+      hopping: 'hop',
+      filing: 'file',
+      happy: 'happi',
+      relational: 'relat',
+      electrical: 'electr',
+      adjustable: 'adjust',
+      controll: 'control',
+      rate: 'rate'
+    };
+
+    Object.entries(examples).forEach(([word, expected]) => expect(stem(word), word).toBe(expected));
+  });
+
+  it('gives the forms of a word the same stem', () => {
+    expect(new Set(['navigation', 'navigations', 'navigate', 'navigating'].map(stem))).toEqual(new Set(['navig']));
+    expect(new Set(['renderer', 'rendering', 'rendered'].map(stem))).toEqual(new Set(['render']));
+  });
+
+  it('leaves short words and words with digits alone', () => {
+    expect(stem('ab')).toBe('ab');
+    expect(stem('v8')).toBe('v8');
+  });
+});
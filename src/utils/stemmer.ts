@@ -0,0 +1,174 @@
+/**
+ * Stemmer
+ * The Porter stemming algorithm (M.F. Porter, 1980), used by the search index
+ * so that "navigations", "navigating" and "navigation" all match "navigate".
+ * Stems are index keys, not words: "navigate" becomes "navig".
+ */
+
+const isConsonant = (word: string, i: number): boolean => {
+  const char = word[i];
+  if ('aeiou'.includes(char)) {
+    return false;
+  }
+  if (char === 'y') {
+    return i === 0 || !isConsonant(word, i - 1);
+  }
+  return true;
+};
+
+/** Number of vowel-consonant sequences: [C](VC){m}[V] */
+const measure = (stem: string): number => {
+  let m = 0;
+  let i = 0;
+  while (i < stem.length && isConsonant(stem, i)) {
+    i++;
+  }
+  while (i < stem.length) {
+    while (i < stem.length && !isConsonant(stem, i)) {
+      i++;
+    }
+    if (i >= stem.length) {
+      break;
+    }
+    m++;
+    while (i < stem.length && isConsonant(stem, i)) {
+      i++;
+    }
+  }
+  return m;
+};
+
+const hasVowel = (stem: string): boolean => {
+  for (let i = 0; i < stem.length; i++) {
+    if (!isConsonant(stem, i)) {
+      return true;
+    }
+  }
+  return false;
+};
+
+const endsWithDoubleConsonant = (word: string): boolean =>
+  word.length >= 2 && word[word.length - 1] === word[word.length - 2] && isConsonant(word, word.length - 1);
+
+/** Consonant-vowel-consonant ending where the last consonant is not w, x or y */
+const endsWithCvc = (word: string): boolean => {
+  const n = word.length;
+  return n >= 3
+    && isConsonant(word, n - 3)
+    && !isConsonant(word, n - 2)
+    && isConsonant(word, n - 1)
+    && !'wxy'.includes(word[n - 1]);
+};
+
+/**
+ * Replace the longest matching suffix when the remaining stem satisfies
+ * `condition`. Once a suffix matches, shorter ones are not tried.
+ */
+const replaceSuffix = (
+  word: string,
+  rules: Array<[suffix: string, replacement: string]>,
+  condition: (stem: string) => boolean
+): string => {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      return condition(stem) ? stem + replacement : word;
+    }
+  }
+  return word;
+};
+
+const byLength = (rules: Array<[string, string]>) => rules.sort((a, b) => b[0].length - a[0].length);
+
+const STEP2_RULES = byLength([
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'],
+  ['bli', 'ble'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'],
+  ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'],
+  ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble'],
+  ['logi', 'log']
+]);
+
+const STEP3_RULES = byLength([
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', '']
+]);
+
+const STEP4_SUFFIXES = [
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment', 'ent', 'ion',
+  'ou', 'ism', 'ate', 'iti', 'ous', 'ive', 'ize'
+].sort((a, b) => b.length - a.length);
+
+function step1(word: string): string {
+  // 1a: plurals
+  if (word.endsWith('sses')) {
+    word = word.slice(0, -2);
+  } else if (word.endsWith('ies')) {
+    word = word.slice(0, -2);
+  } else if (!word.endsWith('ss') && word.endsWith('s')) {
+    word = word.slice(0, -1);
+  }
+
+  // 1b: -ed and -ing
+  if (word.endsWith('eed')) {
+    if (measure(word.slice(0, -3)) > 0) {
+      word = word.slice(0, -1);
+    }
+  } else {
+    const suffix = word.endsWith('ed') ? 'ed' : word.endsWith('ing') ? 'ing' : '';
+    if (suffix && hasVowel(word.slice(0, -suffix.length))) {
+      word = word.slice(0, -suffix.length);
+      if (word.endsWith('at') || word.endsWith('bl') || word.endsWith('iz')) {
+        word += 'e';
+      } else if (endsWithDoubleConsonant(word) && !'lsz'.includes(word[word.length - 1])) {
+        word = word.slice(0, -1);
+      } else if (measure(word) === 1 && endsWithCvc(word)) {
+        word += 'e';
+      }
+    }
+  }
+
+  // 1c: terminal y
+  if (word.endsWith('y') && hasVowel(word.slice(0, -1))) {
+    word = `${word.slice(0, -1)}i`;
+  }
+  return word;
+}
+
+function step4(word: string): string {
+  for (const suffix of STEP4_SUFFIXES) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      const allowed = measure(stem) > 1 && (suffix !== 'ion' || /[st]$/.test(stem));
+      return allowed ? stem : word;
+    }
+  }
+  return word;
+}
+
+function step5(word: string): string {
+  if (word.endsWith('e')) {
+    const stem = word.slice(0, -1);
+    const m = measure(stem);
+    if (m > 1 || (m === 1 && !endsWithCvc(stem))) {
+      word = stem;
+    }
+  }
+  if (word.endsWith('ll') && measure(word) > 1) {
+    word = word.slice(0, -1);
+  }
+  return word;
+}
+
+/**
+ * Stem a lowercase word. Short words and words containing digits or other
+ * non-letters are returned unchanged.
+ */
+export function stem(word: string): string {
+  if (word.length <= 2 || !/^[a-z]+$/.test(word)) {
+    return word;
+  }
+  let result = step1(word);
+  result = replaceSuffix(result, STEP2_RULES, s => measure(s) > 0);
+  result = replaceSuffix(result, STEP3_RULES, s => measure(s) > 0);
+  result = step4(result);
+  return step5(result);
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { CrdtOperation, TextCrdt } from './textCrdt';
+
+/** Two sites that both start from `text` */
+function twoSites(text: string): [TextCrdt, TextCrdt] {
+  const alice = TextCrdt.fromText('alice', text);
+  const bob = new TextCrdt('bob');
+  bob.loadState(alice.getState());
+  return [alice, bob];
+}
+
+const applyAll = (crdt: TextCrdt, operations: Array<CrdtOperation | null>) =>
+  operations.forEach(operation => operation && crdt.apply(operation));
+
+describe('TextCrdt', () => {
+  it('edits the visible text locally', () => {
+    const crdt = TextCrdt.fromText('alice', 'hello world');
+    crdt.delete(5, 6);
+    crdt.insert(5, ', there');
+
+    expect(crdt.getText()).toBe('hello, there');
+  });
+
+  it('converges on concurrent inserts at the same position', () => {
+    const [alice, bob] = twoSites('ac');
+    const fromAlice = alice.insert(1, 'X');
+    const fromBob = bob.insert(1, 'Y');
+    applyAll(alice, [fromBob]);
+    applyAll(bob, [fromAlice]);
+
+    expect(alice.getText()).toBe(bob.getText());
+    expect(alice.getText()).toMatch(/^a(XY|YX)c$/);
+  });
+
+  it('keeps text typed after a character another site deleted', () => {
+    const [alice, bob] = twoSites('abc');
+    const fromAlice = alice.delete(1, 1);
+    const fromBob = bob.insert(2, 'X');
+    applyAll(alice, [fromBob]);
+    applyAll(bob, [fromAlice]);
+
+    expect(alice.getText()).toBe('aXc');
+    expect(bob.getText()).toBe('aXc');
+  });
+
+  it('converges when both sites delete the same character', () => {
+    const [alice, bob] = twoSites('abc');
+    const fromAlice = alice.delete(1, 1);
+    const fromBob = bob.delete(1, 2);
+    applyAll(alice, [fromBob]);
+    applyAll(bob, [fromAlice]);
+
+    expect(alice.getText()).toBe('a');
+    expect(bob.getText()).toBe('a');
+  });
+
+  it('holds back operations until the characters they refer to arrive', () => {
+    const [alice, bob] = twoSites('');
+    const first = alice.insert(0, 'ab')!;
+    const second = alice.insert(2, 'cd')!;
+
+    expect(bob.apply(second)).toBe(false);
+    expect(bob.getText()).toBe('');
+    expect(bob.apply(first)).toBe(true);
+    expect(bob.getText()).toBe('abcd');
+  });
+
+  it('ignores an operation applied twice', () => {
+    const [alice, bob] = twoSites('ab');
+    const operation = alice.insert(1, 'X')!;
+    bob.apply(operation);
+    bob.apply(operation);
+
+    expect(bob.getText()).toBe('aXb');
+  });
+
+  it('moves an anchor with the text around it', () => {
+    const [alice, bob] = twoSites('hello');
+    const anchor = bob.anchorAt(3);
+    applyAll(bob, [alice.insert(0, '>> '), alice.delete(6, 2)]);
+
+    expect(bob.getText()).toBe('>> hel');
+    expect(bob.indexOfAnchor(anchor)).toBe(6);
+  });
+
+  it('converges whatever order the operations arrive in', () => {
+    // Deterministic pseudo-random edits from three sites
+    let seed = 42;
+    const random = (max: number) => {
+      seed = (seed * 1103515245 + 12345) % 2 ** 31;
+      return seed % max;
+    };
+    const sites = ['a', 'b', 'c'].map(id => TextCrdt.fromText(id, ''));
+    const base = TextCrdt.fromText('base', 'collaborative');
+    sites.forEach(site => site.loadState(base.getState()));
+    const operations: CrdtOperation[][] = sites.map(() => []);
+
+    for (let round = 0; round < 60; round++) {
+      const index = random(sites.length);
+      const site = sites[index];
+      const length = site.getText().length;
+      const operation = random(3) === 0 && length > 0
+        ? site.delete(random(length), 1 + random(3))
+        : site.insert(random(length + 1), 'xyz'.slice(0, 1 + random(3)));
+      if (operation) {
+        operations[index].push(operation);
+      }
+    }
+
+    sites.forEach((site, index) => {
+      const others = operations.filter((_, other) => other !== index).flat();
+      // Deliver the other sites' operations newest first, so most have to wait
+      applyAll(site, others.reverse());
+    });
+
+    expect(sites[1].getText()).toBe(sites[0].getText());
+    expect(sites[2].getText()).toBe(sites[0].getText());
+  });
+
+  it('brings a late site up to date from the state', () => {
+    const [alice] = twoSites('draft');
+    alice.insert(5, ' two');
+    alice.delete(0, 1);
+    const late = new TextCrdt('carol');
+    late.loadState(alice.getState());
+
+    expect(late.getText()).toBe('raft two');
+    expect(late.getState()).toEqual(alice.getState());
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Text CRDT
+ * A replicated growable array (RGA) of characters for collaborative editing.
+ * Every character has a unique id (a Lamport counter and the id of the site
+ * that typed it) and is inserted after the character that preceded it when
+ * typed. Concurrent inserts after the same character are ordered by id, and
+ * deleted characters stay as tombstones, so every site that has applied the
+ * same operations has the same text, whatever order they arrived in.
+ */
+
+/** Lamport counter and site id */
+export type CrdtId = [number, string];
+
+export type CrdtOperation =
+  /** `text` as consecutive characters with ids `[id[0] + i, id[1]]`, the first after `after` */
+  | { type: 'insert'; id: CrdtId; after: CrdtId | null; text: string }
+  | { type: 'delete'; ids: CrdtId[] };
+
+/** The whole document, for sites that join late: characters in order with their ids */
+export interface CrdtState {
+  clock: number;
+  /** Counter, site, character, and 1 for deleted */
+  items: [number, string, string, 0 | 1][];
+}
+
+interface CrdtItem {
+  id: CrdtId;
+  char: string;
+  deleted: boolean;
+}
+
+const idKey = (id: CrdtId) => `${id[0]}@${id[1]}`;
+
+// Positive when `a` orders before `b` among inserts after the same character
+const compareIds = (a: CrdtId, b: CrdtId) => a[0] - b[0] || (a[1] > b[1] ? 1 : a[1] < b[1] ? -1 : 0);
+
+export class TextCrdt {
+  private items: CrdtItem[] = [];
+  private byKey = new Map<string, CrdtItem>();
+  private clock = 0;
+  /** Operations waiting for characters they refer to */
+  private pending: CrdtOperation[] = [];
+
+  constructor(public readonly siteId: string) {}
+
+  /**
+   * A document holding `text` as if this site typed it
+   */
+  static fromText(siteId: string, text: string): TextCrdt {
+    const crdt = new TextCrdt(siteId);
+    crdt.insert(0, text);
+    return crdt;
+  }
+
+  getText(): string {
+    let text = '';
+    this.items.forEach(item => {
+      if (!item.deleted) {
+        text += item.char;
+      }
+    });
+    return text;
+  }
+
+  getState(): CrdtState {
+    return {
+      clock: this.clock,
+      items: this.items.map(item => [item.id[0], item.id[1], item.char, item.deleted ? 1 : 0])
+    };
+  }
+
+  /**
+   * Replace the document with another site's state. Operations received
+   * before it are applied again on top.
+   */
+  loadState(state: CrdtState): void {
+    this.items = state.items.map(([counter, site, char, deleted]) => ({ id: [counter, site], char, deleted: deleted === 1 }));
+    this.byKey = new Map(this.items.map(item => [idKey(item.id), item]));
+    this.clock = Math.max(this.clock, state.clock);
+    this.drainPending();
+  }
+
+  /**
+   * Insert text at a position of the visible text, returning the operation
+   * to send to other sites
+   */
+  insert(index: number, text: string): CrdtOperation | null {
+    if (text === '') {
+      return null;
+    }
+    const operation: CrdtOperation = { type: 'insert', id: [this.clock + 1, this.siteId], after: this.anchorAt(index), text };
+    this.apply(operation);
+    return operation;
+  }
+
+  /**
+   * Delete `length` characters of the visible text from a position
+   */
+  delete(index: number, length: number): CrdtOperation | null {
+    const ids: CrdtId[] = [];
+    let visible = 0;
+    for (const item of this.items) {
+      if (ids.length === length) {
+        break;
+      }
+      if (!item.deleted) {
+        if (visible >= index) {
+          ids.push(item.id);
+        }
+        visible++;
+      }
+    }
+    if (ids.length === 0) {
+      return null;
+    }
+    const operation: CrdtOperation = { type: 'delete', ids };
+    this.apply(operation);
+    return operation;
+  }
+
+  /**
+   * Apply an operation from any site. Operations that refer to characters
+   * not seen yet wait until those arrive; applying one twice has no effect.
+   * Returns whether the operation was applied now.
+   */
+  apply(operation: CrdtOperation): boolean {
+    const applied = this.applyNow(operation);
+    if (applied) {
+      this.drainPending();
+    } else {
+      this.pending.push(operation);
+    }
+    return applied;
+  }
+
+  /**
+   * Id of the visible character before a position, which stays next to
+   * the position whatever others insert or delete elsewhere; null for the
+   * start of the document
+   */
+  anchorAt(index: number): CrdtId | null {
+    if (index <= 0) {
+      return null;
+    }
+    let visible = 0;
+    let last: CrdtItem | null = null;
+    for (const item of this.items) {
+      if (!item.deleted) {
+        last = item;
+        if (++visible === index) {
+          return item.id;
+        }
+      }
+    }
+    return last?.id ?? null;
+  }
+
+  /**
+   * Position of the visible text right after an anchor. An anchor whose
+   * character was deleted stays where the character was.
+   */
+  indexOfAnchor(anchor: CrdtId | null): number {
+    if (!anchor) {
+      return 0;
+    }
+    const target = this.byKey.get(idKey(anchor));
+    if (!target) {
+      return 0;
+    }
+    let visible = 0;
+    for (const item of this.items) {
+      if (!item.deleted) {
+        visible++;
+      }
+      if (item === target) {
+        return visible;
+      }
+    }
+    return visible;
+  }
+
+  private applyNow(operation: CrdtOperation): boolean {
+    if (operation.type === 'delete') {
+      const items = operation.ids.map(id => this.byKey.get(idKey(id)));
+      if (items.some(item => !item)) {
+        return false;
+      }
+      items.forEach(item => {
+        item!.deleted = true;
+      });
+      return true;
+    }
+
+    const [counter, site] = operation.id;
+    if (this.byKey.has(idKey(operation.id))) {
+      return true;
+    }
+    let index = 0;
+    if (operation.after) {
+      const after = this.byKey.get(idKey(operation.after));
+      if (!after) {
+        return false;
+      }
+      index = this.items.indexOf(after) + 1;
+    }
+    // Skip newer inserts after the same character, and what was inserted after them
+    while (index < this.items.length && compareIds(this.items[index].id, operation.id) > 0) {
+      index++;
+    }
+
+    // Later characters of the text follow the first: nobody can have inserted after them yet
+    const inserted: CrdtItem[] = Array.from(operation.text, (char, offset) => ({
+      id: [counter + offset, site],
+      char,
+      deleted: false
+    }));
+    this.items.splice(index, 0, ...inserted);
+    inserted.forEach(item => this.byKey.set(idKey(item.id), item));
+    this.clock = Math.max(this.clock, counter + inserted.length - 1);
+    return true;
+  }
+
+  private drainPending(): void {
+    for (let progress = true; progress && this.pending.length > 0;) {
+      progress = false;
+      const waiting = this.pending;
+      this.pending = [];
+      waiting.forEach(operation => {
+        if (this.applyNow(operation)) {
+          progress = true;
+        } else {
+          this.pending.push(operation);
+        }
+      });
+    }
+  }
+}
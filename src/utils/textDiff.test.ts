@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { DiffHunk, diffLines, diffSequences, diffWords, merge3 } from './textDiff';
+
+/** Rebuild the new sequence from the old one and the hunks */
+function applyHunks<T>(a: T[], b: T[], hunks: DiffHunk[]): T[] {
+  return hunks.flatMap(hunk => (hunk.type === 'equal' ? a.slice(hunk.oldStart, hunk.oldEnd) : b.slice(hunk.newStart, hunk.newEnd)));
+}
+
+const changedCount = (hunks: DiffHunk[]) => hunks
+  .filter(hunk => hunk.type !== 'equal')
+  .reduce((sum, hunk) => sum + (hunk.oldEnd - hunk.oldStart) + (hunk.newEnd - hunk.newStart), 0);
+
+describe('diffSequences', () => {
+  it('finds a shortest edit script', () => {
+    // The example from Myers' paper, with an edit distance of 5
+    const a = 'ABCABBA'.split('');
+    const b = 'CBABAC'.split('');
+    const hunks = diffSequences(a, b);
+
+    expect(changedCount(hunks)).toBe(5);
+    expect(applyHunks(a, b, hunks)).toEqual(b);
+  });
+
+  it('covers both sequences with contiguous hunks', () => {
+    const a = 'the quick brown fox jumps over the lazy dog'.split(' ');
+    const b = 'a quick red fox jumps over the dog again'.split(' ');
+    const hunks = diffSequences(a, b);
+
+    hunks.forEach((hunk, i) => {
+      const previous = hunks[i - 1];
+      expect(hunk.oldStart).toBe(previous ? previous.oldEnd : 0);
+      expect(hunk.newStart).toBe(previous ? previous.newEnd : 0);
+    });
+    expect(hunks[hunks.length - 1]).toMatchObject({ oldEnd: a.length, newEnd: b.length });
+    expect(applyHunks(a, b, hunks)).toEqual(b);
+  });
+
+  it('returns no hunks for two empty sequences', () => {
+    expect(diffSequences([], [])).toEqual([]);
+  });
+});
+
+describe('diffLines', () => {
+  it('reports replaced and inserted lines', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc\nd')).toEqual([
+      { type: 'equal', oldStart: 0, oldEnd: 1, newStart: 0, newEnd: 1 },
+      { type: 'replace', oldStart: 1, oldEnd: 2, newStart: 1, newEnd: 2 },
+      { type: 'equal', oldStart: 2, oldEnd: 3, newStart: 2, newEnd: 3 },
+      { type: 'insert', oldStart: 3, oldEnd: 3, newStart: 3, newEnd: 4 }
+    ]);
+  });
+
+  it('treats CRLF like LF', () => {
+    expect(diffLines('a\r\nb', 'a\nb')).toEqual([{ type: 'equal', oldStart: 0, oldEnd: 2, newStart: 0, newEnd: 2 }]);
+  });
+
+  it('treats empty text as no lines', () => {
+    expect(diffLines('', 'x')).toEqual([{ type: 'insert', oldStart: 0, oldEnd: 0, newStart: 0, newEnd: 1 }]);
+  });
+});
+
+describe('diffWords', () => {
+  it('marks the changed words and punctuation of each side', () => {
+    expect(diffWords('the quick fox', 'the slow fox!')).toEqual({
+      old: [
+        { text: 'the ', changed: false },
+        { text: 'quick', changed: true },
+        { text: ' fox', changed: false }
+      ],
+      new: [
+        { text: 'the ', changed: false },
+        { text: 'slow', changed: true },
+        { text: ' fox', changed: false },
+        { text: '!', changed: true }
+      ]
+    });
+  });
+});
+
+describe('merge3', () => {
+  const base = 'one\ntwo\nthree\nfour\nfive';
+
+  it('takes changes made by one side only', () => {
+    expect(merge3(base, 'ONE\ntwo\nthree\nfour\nfive', 'one\ntwo\nthree\nfour\nFIVE')).toEqual([
+      { type: 'stable', lines: ['ONE', 'two', 'three', 'four', 'FIVE'] }
+    ]);
+  });
+
+  it('takes deletions and insertions', () => {
+    expect(merge3(base, 'one\nthree\nfour\nfive', 'one\ntwo\nthree\nfour\nfive\nsix')).toEqual([
+      { type: 'stable', lines: ['one', 'three', 'four', 'five', 'six'] }
+    ]);
+  });
+
+  it('takes an identical change from both sides once', () => {
+    expect(merge3(base, 'one\nTWO\nthree\nfour\nfive', 'one\nTWO\nthree\nfour\nfive')).toEqual([
+      { type: 'stable', lines: ['one', 'TWO', 'three', 'four', 'five'] }
+    ]);
+  });
+
+  it('reports different changes to the same lines as a conflict', () => {
+    expect(merge3(base, 'one\nours\nthree\nfour\nfive', 'one\ntheirs\nthree\nfour\nfive')).toEqual([
+      { type: 'stable', lines: ['one'] },
+      { type: 'conflict', base: ['two'], ours: ['ours'], theirs: ['theirs'], baseStart: 1, oursStart: 1, theirsStart: 1 },
+      { type: 'stable', lines: ['three', 'four', 'five'] }
+    ]);
+  });
+
+  it('reports changes to adjacent lines as one conflict', () => {
+    expect(merge3(base, 'one\nTWO\nthree\nfour\nfive', 'one\ntwo\nTHREE\nfour\nfive')).toEqual([
+      { type: 'stable', lines: ['one'] },
+      {
+        type: 'conflict',
+        base: ['two', 'three'],
+        ours: ['TWO', 'three'],
+        theirs: ['two', 'THREE'],
+        baseStart: 1,
+        oursStart: 1,
+        theirsStart: 1
+      },
+      { type: 'stable', lines: ['four', 'five'] }
+    ]);
+  });
+
+  it('merges changes separated by an untouched line', () => {
+    expect(merge3(base, 'zero\none\nours\nthree\nfour\nfive', 'one\ntwo\nthree\ntheirs\nfive')).toEqual([
+      { type: 'stable', lines: ['zero', 'one', 'ours', 'three', 'theirs', 'five'] }
+    ]);
+  });
+
+  it('gives the start of a conflict in each text', () => {
+    const merged = merge3(base, 'zero\none\ntwo\nthree\nours\nfive', 'one\ntwo\nthree\ntheirs\nfive');
+
+    expect(merged[1]).toMatchObject({ type: 'conflict', baseStart: 3, oursStart: 4, theirsStart: 3 });
+  });
+});
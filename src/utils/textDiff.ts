@@ -0,0 +1,272 @@
+/**
+ * Text Diff
+ * Myers' O(ND) diff over lines or words, and a diff3-style three-way merge.
+ * Ranges are 0-based and half-open: `{ oldStart: 2, oldEnd: 4 }` covers the
+ * third and fourth line.
+ */
+
+export type DiffHunkType = 'equal' | 'insert' | 'delete' | 'replace';
+
+export interface DiffHunk {
+  type: DiffHunkType;
+  oldStart: number;
+  oldEnd: number;
+  newStart: number;
+  newEnd: number;
+}
+
+type EditOp = 'equal' | 'insert' | 'delete';
+
+/**
+ * Shortest edit script from `a` to `b` as one op per element, using Myers'
+ * greedy algorithm. Common prefixes and suffixes are skipped first, which
+ * leaves little to search for typical edits to long documents.
+ */
+function editScript<T>(a: T[], b: T[]): EditOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+    suffix++;
+  }
+
+  const n = a.length - prefix - suffix;
+  const m = b.length - prefix - suffix;
+  const at = (x: number) => a[prefix + x];
+  const bt = (y: number) => b[prefix + y];
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // V before each round d, to walk the path back from the end
+  const trace: Int32Array[] = [];
+
+  search:
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && at(x) === bt(y)) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        break search;
+      }
+    }
+  }
+
+  const middle: EditOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+    const previous = trace[d];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && previous[offset + k - 1] < previous[offset + k + 1]) ? k + 1 : k - 1;
+    const previousX = previous[offset + previousK];
+    const previousY = previousX - previousK;
+    while (x > previousX && y > previousY) {
+      middle.push('equal');
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      middle.push(x === previousX ? 'insert' : 'delete');
+      if (x === previousX) {
+        y--;
+      } else {
+        x--;
+      }
+    }
+  }
+
+  return [
+    ...Array<EditOp>(prefix).fill('equal'),
+    ...middle.reverse(),
+    ...Array<EditOp>(suffix).fill('equal')
+  ];
+}
+
+/**
+ * Diff two sequences into hunks. Runs of deletions and insertions with
+ * nothing equal in between become one `replace` hunk.
+ */
+export function diffSequences<T>(a: T[], b: T[]): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  editScript(a, b).forEach(op => {
+    const kind: DiffHunkType = op === 'equal' ? 'equal' : 'replace';
+    const last = hunks[hunks.length - 1];
+    if (!last || (last.type === 'equal') !== (kind === 'equal')) {
+      hunks.push({ type: kind, oldStart: oldIndex, oldEnd: oldIndex, newStart: newIndex, newEnd: newIndex });
+    }
+    const hunk = hunks[hunks.length - 1];
+    if (op !== 'insert') {
+      hunk.oldEnd = ++oldIndex;
+    }
+    if (op !== 'delete') {
+      hunk.newEnd = ++newIndex;
+    }
+  });
+  hunks.forEach(hunk => {
+    if (hunk.type === 'replace' && hunk.oldStart === hunk.oldEnd) {
+      hunk.type = 'insert';
+    } else if (hunk.type === 'replace' && hunk.newStart === hunk.newEnd) {
+      hunk.type = 'delete';
+    }
+  });
+  return hunks;
+}
+
+/**
+ * Split text into lines, treating CRLF like LF
+ */
+export const splitLines = (text: string): string[] => (text === '' ? [] : text.replace(/\r\n/g, '\n').split('\n'));
+
+/**
+ * Line diff of two texts
+ */
+export function diffLines(oldText: string, newText: string): DiffHunk[] {
+  return diffSequences(splitLines(oldText), splitLines(newText));
+}
+
+export interface WordDiffPart {
+  text: string;
+  /** Removed from the old text or added in the new one */
+  changed: boolean;
+}
+
+/**
+ * Word diff of two lines, for marking what changed inside a modified line.
+ * Whitespace and punctuation are tokens of their own.
+ */
+export function diffWords(oldText: string, newText: string): { old: WordDiffPart[]; new: WordDiffPart[] } {
+  const tokenize = (text: string) => text.match(/\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) ?? [];
+  const a = tokenize(oldText);
+  const b = tokenize(newText);
+  const parts = { old: [] as WordDiffPart[], new: [] as WordDiffPart[] };
+  const push = (list: WordDiffPart[], text: string, changed: boolean) => {
+    const last = list[list.length - 1];
+    if (last && last.changed === changed) {
+      last.text += text;
+    } else {
+      list.push({ text, changed });
+    }
+  };
+  diffSequences(a, b).forEach(hunk => {
+    const changed = hunk.type !== 'equal';
+    if (hunk.oldEnd > hunk.oldStart) {
+      push(parts.old, a.slice(hunk.oldStart, hunk.oldEnd).join(''), changed);
+    }
+    if (hunk.newEnd > hunk.newStart) {
+      push(parts.new, b.slice(hunk.newStart, hunk.newEnd).join(''), changed);
+    }
+  });
+  return parts;
+}
+
+export type MergeChunk =
+  /** Lines every side agrees on, or changed by one side only */
+  | { type: 'stable'; lines: string[] }
+  /** Overlapping changes; starts are line indices in each text */
+  | {
+      type: 'conflict';
+      base: string[];
+      ours: string[];
+      theirs: string[];
+      baseStart: number;
+      oursStart: number;
+      theirsStart: number;
+    };
+
+interface ChangeRange {
+  baseStart: number;
+  baseEnd: number;
+  start: number;
+  end: number;
+}
+
+const changeRanges = (base: string[], side: string[]): ChangeRange[] =>
+  diffSequences(base, side)
+    .filter(hunk => hunk.type !== 'equal')
+    .map(hunk => ({ baseStart: hunk.oldStart, baseEnd: hunk.oldEnd, start: hunk.newStart, end: hunk.newEnd }));
+
+/**
+ * Three-way merge of two texts that both descend from `base`. Changes made
+ * by one side are taken; changes by both sides to the same or adjacent base
+ * lines conflict unless they are identical.
+ */
+export function merge3(base: string, ours: string, theirs: string): MergeChunk[] {
+  const baseLines = splitLines(base);
+  const sides = [splitLines(ours), splitLines(theirs)];
+  const ranges = sides.map(lines => changeRanges(baseLines, lines));
+  const next = [0, 0];
+  const chunks: MergeChunk[] = [];
+  const pushStable = (lines: string[]) => {
+    const last = chunks[chunks.length - 1];
+    if (last?.type === 'stable') {
+      last.lines.push(...lines);
+    } else if (lines.length > 0) {
+      chunks.push({ type: 'stable', lines });
+    }
+  };
+
+  let baseIndex = 0;
+  while (next[0] < ranges[0].length || next[1] < ranges[1].length) {
+    // Start a region at the earliest pending change and grow it while changes of either side touch it
+    const first = [0, 1]
+      .filter(side => next[side] < ranges[side].length)
+      .sort((a, b) => ranges[a][next[a]].baseStart - ranges[b][next[b]].baseStart)[0];
+    const regionStart = ranges[first][next[first]].baseStart;
+    let regionEnd = regionStart;
+    const inRegion: ChangeRange[][] = [[], []];
+    for (let grown = true; grown;) {
+      grown = false;
+      for (const side of [0, 1]) {
+        while (next[side] < ranges[side].length && ranges[side][next[side]].baseStart <= regionEnd) {
+          const range = ranges[side][next[side]++];
+          inRegion[side].push(range);
+          regionEnd = Math.max(regionEnd, range.baseEnd);
+          grown = true;
+        }
+      }
+    }
+
+    pushStable(baseLines.slice(baseIndex, regionStart));
+    // A side's lines for the region: its changes plus the base lines around them it left alone
+    const sideRange = (side: number) => {
+      const changes = inRegion[side];
+      if (changes.length === 0) {
+        return null;
+      }
+      const firstChange = changes[0];
+      const lastChange = changes[changes.length - 1];
+      const start = firstChange.start - (firstChange.baseStart - regionStart);
+      return { start, lines: sides[side].slice(start, lastChange.end + (regionEnd - lastChange.baseEnd)) };
+    };
+    const oursRange = sideRange(0);
+    const theirsRange = sideRange(1);
+    if (!oursRange || !theirsRange) {
+      pushStable((oursRange ?? theirsRange)!.lines);
+    } else if (oursRange.lines.join('\n') === theirsRange.lines.join('\n')) {
+      pushStable(oursRange.lines);
+    } else {
+      chunks.push({
+        type: 'conflict',
+        base: baseLines.slice(regionStart, regionEnd),
+        ours: oursRange.lines,
+        theirs: theirsRange.lines,
+        baseStart: regionStart,
+        oursStart: oursRange.start,
+        theirsStart: theirsRange.start
+      });
+    }
+    baseIndex = regionEnd;
+  }
+  pushStable(baseLines.slice(baseIndex));
+  return chunks;
+}
@@ -0,0 +1,41 @@
+/**
+ * TypeScript Transpilation
+ * Strips the types from a TypeScript example without checking them, so it
+ * runs as fast as it loads; only syntax errors stop it. Callers pass the
+ * compiler in: the browser loads it on demand, scripts import it.
+ */
+
+export type TypeScriptCompiler = typeof import('typescript');
+
+export interface TranspiledTypeScript {
+  /** CommonJS JavaScript */
+  code: string;
+  errors: string[];
+  warnings: string[];
+}
+
+export function transpileTypeScript(ts: TypeScriptCompiler, code: string): TranspiledTypeScript {
+  const output = ts.transpileModule(code, {
+    reportDiagnostics: true,
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.CommonJS
+    }
+  });
+
+  const describe = (diagnostic: import('typescript').Diagnostic) => {
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+    if (!diagnostic.file || diagnostic.start === undefined) {
+      return message;
+    }
+    const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+    return `Line ${line + 1}, column ${character + 1}: ${message}`;
+  };
+  const diagnostics = output.diagnostics ?? [];
+
+  return {
+    code: output.outputText,
+    errors: diagnostics.filter(d => d.category === ts.DiagnosticCategory.Error).map(describe),
+    warnings: diagnostics.filter(d => d.category === ts.DiagnosticCategory.Warning).map(describe)
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Version Content
+ * What ContentVersioningService derives from a version's markdown: title,
+ * metadata and tags. Shared with scripts/build-version-history.ts, which
+ * builds versions from git commits the same way.
+ */
+
+import { ContentMetadata } from '../types/VersioningTypes';
+
+const WORDS_PER_MINUTE = 200;
+
+export function extractVersionTitle(content: string): string {
+  const titleMatch = content.match(/^#\s+(.+)$/m);
+  return titleMatch ? titleMatch[1] : 'Untitled';
+}
+
+export function generateVersionMetadata(content: string, lastModified = new Date()): ContentMetadata {
+  const wordCount = content.split(/\s+/).length;
+  const readingTime = Math.ceil(wordCount / WORDS_PER_MINUTE);
+
+  return {
+    wordCount,
+    readingTime,
+    lastModified,
+    language: 'en',
+    difficulty: 'intermediate',
+    categories: extractCategories(content),
+    prerequisites: [],
+    relatedContent: [],
+    contentType: 'article'
+  };
+}
+
+function extractCategories(content: string): string[] {
+  // Simple category extraction based on common keywords
+  const categories: string[] = [];
+  if (content.includes('architecture')) categories.push('architecture');
+  if (content.includes('security')) categories.push('security');
+  if (content.includes('performance')) categories.push('performance');
+  if (content.includes('debugging')) categories.push('debugging');
+  return categories;
+}
+
+export function extractVersionTags(content: string): string[] {
+  // Extract potential tags from content
+  const tags: string[] = [];
+  const commonTags = ['chromium', 'browser', 'web', 'javascript', 'performance', 'security'];
+  for (const tag of commonTags) {
+    if (content.toLowerCase().includes(tag)) {
+      tags.push(tag);
+    }
+  }
+  return tags;
+}
@@ -4,6 +4,10 @@ interface ImportMetaEnv {
   readonly VITE_API_URL: string
   readonly VITE_APP_TITLE: string
   readonly VITE_APP_VERSION: string
+  /** Where content versions are kept: `indexeddb` (default), `rest` or `memory` */
+  readonly VITE_VERSION_STORAGE?: 'indexeddb' | 'rest' | 'memory'
+  /** Where `npm run code-runner` listens, if not http://localhost:5080 */
+  readonly VITE_CODE_RUNNER_URL?: string
   // Add other environment variables here as needed
 }
 
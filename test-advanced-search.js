@@ -140,7 +140,7 @@ function testAdvancedSearchImplementation() {
   }
   
   // Test 6: Check if search index exists
-  const searchIndexPath = path.join(__dirname, 'public', 'search-index.json');
+  const searchIndexPath = path.join(__dirname, 'public', 'search-index', 'manifest.json');
   const searchIndexExists = fs.existsSync(searchIndexPath);
   logTest('Search index file exists', searchIndexExists);
   allTestsPassed = allTestsPassed && searchIndexExists;
@@ -1,8 +1,86 @@
-import { defineConfig } from 'vite';
+import fs from 'fs';
+import path from 'path';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { getAdminOnlyContentDirs } from './src/data/subjects';
+import { isScheduledArticle } from './src/utils/contentSchedule';
+import { listPublishedContentFiles } from './scripts/content-files';
+
+/** The decoded path of a dev server request, split into its segments */
+const requestSegments = (requestUrl = ''): string[] => {
+  let url = requestUrl.split('?')[0];
+  try {
+    url = decodeURIComponent(url);
+  } catch {
+    // Malformed escapes cannot name a file either
+  }
+  return path.posix.normalize(url).split('/').filter(Boolean);
+};
+
+// Content of adminOnly subjects is served by the API after a role check
+// (see ContentService), never as static files: keep it out of dist and
+// refuse it on the dev server.
+const excludeAdminOnlyContent = (): Plugin => {
+  const dirs = getAdminOnlyContentDirs();
+  let outDir = 'dist';
+  return {
+    name: 'exclude-admin-only-content',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const [first, second] = requestSegments(req.url);
+        if ((first === 'content' || first === 'search-index') && dirs.includes(second)) {
+          res.statusCode = 404;
+          res.end();
+          return;
+        }
+        next();
+      });
+    },
+    closeBundle() {
+      dirs.forEach(dir => fs.rmSync(path.join(outDir, 'content', dir), { recursive: true, force: true }));
+    }
+  };
+};
+
+// Articles whose `publish_at` is still ahead stay out of dist, like the
+// search index and sidebar built from it (see scripts/content-files.ts),
+// until a build after that date.
+const excludeScheduledContent = (): Plugin => {
+  let contentDir = 'public/content';
+  let outDir = 'dist';
+  return {
+    name: 'exclude-scheduled-content',
+    configResolved(config) {
+      contentDir = path.resolve(config.publicDir, 'content');
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const [first, ...rest] = requestSegments(req.url);
+        const file = path.join(contentDir, ...rest);
+        if (first === 'content' && file.endsWith('.md') && fs.existsSync(file) && isScheduledArticle(fs.readFileSync(file, 'utf8'))) {
+          res.statusCode = 404;
+          res.end();
+          return;
+        }
+        next();
+      });
+    },
+    closeBundle() {
+      const builtContent = path.join(outDir, 'content');
+      if (fs.existsSync(builtContent)) {
+        listPublishedContentFiles(builtContent).scheduled.forEach(file => fs.rmSync(path.join(builtContent, file)));
+      }
+    }
+  };
+};
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), excludeAdminOnlyContent(), excludeScheduledContent()],
+
   server: {
     open: true,
   },